@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { extractAccessToken, verifyAccessToken } from '@/lib/unified-auth';
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME, csrfTokensMatch, requiresCsrfCheck } from '@/lib/csrf';
 
 // Environment-based feature flags for performance optimization
 const isDevelopment = process.env.NODE_ENV === 'development';
@@ -7,6 +8,19 @@ const useOptimizedAuth = process.env.USE_OPTIMIZED_AUTH !== 'false';
 
 export async function middleware(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
+
+  // ✅ SECURITY: Double-submit CSRF check for every state-changing API request
+  if (pathname.startsWith('/api/') && !passesCsrfCheck(request)) {
+    if (isDevelopment) {
+      console.log('[SECURITY MIDDLEWARE] CSRF token missing or invalid for:', request.method, pathname);
+    }
+    const response = NextResponse.json(
+      { error: { message: 'Invalid CSRF token', details: null } },
+      { status: 403 }
+    );
+    addSecurityHeaders(response);
+    return response;
+  }
   
   // Skip auth routes to prevent infinite loops
   if (pathname.startsWith('/api/auth/')) {
@@ -75,6 +89,19 @@ export async function middleware(request: NextRequest) {
   }
 }
 
+function passesCsrfCheck(request: NextRequest): boolean {
+  if (!requiresCsrfCheck(request.method, request.nextUrl.pathname)) {
+    return true;
+  }
+
+  // Browsers never attach Authorization headers on their own, so bearer calls cannot be forged cross-site
+  if (request.headers.get('authorization')?.startsWith('Bearer ')) {
+    return true;
+  }
+
+  return csrfTokensMatch(request.cookies.get(CSRF_COOKIE_NAME)?.value, request.headers.get(CSRF_HEADER_NAME));
+}
+
 function handleUnauthorized(request: NextRequest, reason: string) {
   void reason;
   const pathname = request.nextUrl.pathname;
@@ -135,16 +162,9 @@ function addSecurityHeaders(response: NextResponse) {
 
 export const config = {
   matcher: [
-    // CRITICAL: Protect ALL API routes - These were completely exposed!
-    '/api/dashboard/:path*',     // ⚠️ CRITICAL - Was completely exposed
-    '/api/clients/:path*',       // ⚠️ CRITICAL - Client data exposed
-    '/api/orders/:path*',        // ⚠️ CRITICAL - Order data exposed
-    '/api/budgets/:path*',       // ⚠️ CRITICAL - Financial data exposed
-    '/api/centers/:path*',       // ⚠️ CRITICAL - Center data exposed
-    '/api/reports/:path*',       // ⚠️ CRITICAL - Report data exposed
-    '/api/users/:path*',         // ⚠️ CRITICAL - User management exposed
-    '/api/specifications/:path*', // ⚠️ CRITICAL - Business data exposed
-    '/api/navigation/:path*',    // Navigation counts API
+    // CRITICAL: Protect ALL API routes (and CSRF-check them); auth routes
+    // authenticate themselves, see the /api/auth/ skip above
+    '/api/:path*',
     
     // Existing page protection (keep these)
     '/dashboard/:path*',
@@ -154,5 +174,6 @@ export const config = {
     '/centers/:path*',
     '/reports/:path*',
     '/admin/:path*',
+    '/account/:path*',
   ],
 };
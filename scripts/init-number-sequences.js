@@ -0,0 +1,87 @@
+const path = require('path');
+
+// Load Prisma Client generated in src/generated/prisma
+// Use relative path to avoid TS path alias issues in Node scripts
+const { PrismaClient } = require(path.join('..', 'src', 'generated', 'prisma'));
+
+const prisma = new PrismaClient();
+
+// Must match SEQUENCE_DEFAULTS in src/lib/order-number.ts
+const DEFAULTS = {
+  ORDER: { prefix: 'ORD-', format: '{PREFIX}{SEQ}/{YYYY}{MM}', padding: 4, resetPeriod: 'MONTHLY' },
+  BUDGET: { prefix: '', format: '{PREFIX}{SEQ}/{YYYY}{MM}', padding: 4, resetPeriod: 'MONTHLY' },
+};
+
+function currentPeriod() {
+  const now = new Date();
+  return `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Finds the highest number already issued in the current month for the
+ * legacy formats (ORD-0001/YYYYMM and 0001/YYYYMM), comparing numerically.
+ */
+async function findHighestIssued(key, period) {
+  const pattern = key === 'ORDER'
+    ? new RegExp(`^ORD-(\\d+)/${period}$`)
+    : new RegExp(`^(\\d+)/${period}$`);
+
+  const rows = key === 'ORDER'
+    ? await prisma.order.findMany({
+        where: { numero_pedido: { endsWith: `/${period}` } },
+        select: { numero_pedido: true },
+      })
+    : await prisma.budget.findMany({
+        where: { numero_pedido: { endsWith: `/${period}` } },
+        select: { numero_pedido: true },
+      });
+
+  return rows.reduce((max, row) => {
+    const match = row.numero_pedido && row.numero_pedido.match(pattern);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+}
+
+async function main() {
+  const isDryRun = !process.argv.includes('--execute');
+  const period = currentPeriod();
+
+  console.log(`🔢 Initializing number sequences for period ${period}${isDryRun ? ' (dry run)' : ''}\n`);
+
+  try {
+    for (const key of Object.keys(DEFAULTS)) {
+      const highest = await findHighestIssued(key, period);
+      const existing = await prisma.numberSequence.findUnique({ where: { key } });
+
+      console.log(`   ${key}: highest issued this month = ${highest}, sequence = ${existing ? `${existing.currentPeriod}/${existing.currentValue}` : 'not created'}`);
+
+      if (existing && existing.currentPeriod === period && existing.currentValue >= highest) {
+        console.log('     ✅ Already up to date');
+        continue;
+      }
+
+      if (isDryRun) {
+        console.log(`     🧪 Would set ${key} to ${period}/${highest}`);
+        continue;
+      }
+
+      await prisma.numberSequence.upsert({
+        where: { key },
+        create: { key, ...DEFAULTS[key], currentPeriod: period, currentValue: highest },
+        update: { currentPeriod: period, currentValue: highest },
+      });
+      console.log(`     ✅ ${key} set to ${period}/${highest}`);
+    }
+
+    if (isDryRun) {
+      console.log('\nTo apply, run: node scripts/init-number-sequences.js --execute\n');
+    }
+  } catch (error) {
+    console.error('💥 Script failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
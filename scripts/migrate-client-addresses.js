@@ -0,0 +1,189 @@
+const path = require('path');
+
+// Load Prisma Client generated in src/generated/prisma
+// Use relative path to avoid TS path alias issues in Node scripts
+const { PrismaClient } = require(path.join('..', 'src', 'generated', 'prisma'));
+
+const prisma = new PrismaClient();
+
+const UFS = [
+  'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+  'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO',
+];
+
+// Segments that describe the unit rather than the neighbourhood
+const COMPLEMENT_PATTERN = /^(apto?|apartamento|sala|sl|conj(unto)?|cj|bloco|bl|andar|casa|loja|lj|lote|galp[aã]o|fundos|km)\b/i;
+const NUMBER_PATTERN = /^(n[º°o.]?\s*)?(\d+[a-z]?|s\/?n)$/i;
+
+/**
+ * Best-effort split of a free-text address such as
+ * "Av. Paulista, 1000, Conj. 12 - Bela Vista, São Paulo/SP - CEP 01310-100".
+ * Returns the structured fields and the list of those that could not be
+ * found; the address is only migrated when CEP, street, city and state are
+ * all present.
+ */
+function parseAddress(text) {
+  let rest = ` ${text || ''} `;
+  const result = { cep: null, logradouro: null, numero: null, complemento: null, bairro: null, cidade: null, uf: null };
+
+  const cep = rest.match(/(\d{5})-?(\d{3})(?!\d)/);
+  if (cep) {
+    result.cep = cep[1] + cep[2];
+    rest = rest.replace(cep[0], ' ').replace(/\bCEP\b:?/i, ' ');
+  }
+
+  const uf = rest.match(new RegExp(`[\\s,/\\-](${UFS.join('|')})[\\s,.\\-]*$`));
+  if (uf) {
+    result.uf = uf[1];
+    rest = rest.slice(0, uf.index).replace(/[\s,\-]+$/, '');
+  }
+
+  const segments = rest
+    .split(/,|\s-\s/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  if (result.uf && segments.length > 1) {
+    result.cidade = segments.pop();
+  }
+
+  const street = segments.shift();
+  if (street) {
+    // "Rua das Flores 123" carries the number in the street segment
+    const trailingNumber = street.match(/^(.*\D)\s+(?:n[º°o.]?\s*)?(\d+[a-z]?)$/i);
+    if (trailingNumber) {
+      result.logradouro = trailingNumber[1].trim();
+      result.numero = trailingNumber[2];
+    } else {
+      result.logradouro = street;
+    }
+  }
+
+  const complements = [];
+  for (const segment of segments) {
+    if (!result.numero && NUMBER_PATTERN.test(segment)) {
+      const numero = segment.replace(/^n[º°o.]?\s*/i, '');
+      result.numero = /^s\/?n$/i.test(numero) ? 'S/N' : numero;
+    } else if (COMPLEMENT_PATTERN.test(segment)) {
+      complements.push(segment);
+    } else if (!result.bairro) {
+      result.bairro = segment;
+    } else {
+      complements.push(segment);
+    }
+  }
+  result.complemento = complements.length ? complements.join(', ') : null;
+
+  const missing = ['cep', 'logradouro', 'numero', 'bairro', 'cidade', 'uf'].filter((field) => !result[field]);
+  return { address: result, missing };
+}
+
+function isMigratable({ missing }) {
+  return !missing.some((field) => ['cep', 'logradouro', 'cidade', 'uf'].includes(field));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const isDryRun = !args.includes('--execute');
+
+  console.log('🔧 AlphaBook Client Address Migration Script\n');
+
+  if (isDryRun) {
+    console.log('🧪 Running in DRY RUN mode. Use --execute flag to perform actual migration.\n');
+  } else {
+    console.log('🚀 EXECUTION mode - changes will be applied to database.\n');
+  }
+
+  try {
+    // Clients that already have structured addresses were edited after the change
+    const clients = await prisma.client.findMany({
+      where: { addresses: { none: {} } },
+      select: { id: true, name: true, address: true },
+      orderBy: { id: 'asc' },
+    });
+
+    if (clients.length === 0) {
+      console.log('✅ Every client already has structured addresses. Nothing to migrate.\n');
+      return;
+    }
+
+    let migrated = 0;
+    const skipped = [];
+
+    for (const client of clients) {
+      const parsed = parseAddress(client.address);
+
+      if (!isMigratable(parsed)) {
+        skipped.push({ client, missing: parsed.missing });
+        continue;
+      }
+
+      const { address, missing } = parsed;
+      console.log(`📍 #${client.id} ${client.name}`);
+      console.log(`   "${client.address}"`);
+      console.log(`   → ${address.logradouro}, ${address.numero || 'S/N'}${address.complemento ? `, ${address.complemento}` : ''} - ${address.bairro || '?'}, ${address.cidade}/${address.uf} - ${address.cep}`);
+      if (missing.length) {
+        console.log(`   ⚠️  Not found: ${missing.join(', ')} (to be completed in the client form)`);
+      }
+
+      if (!isDryRun) {
+        await prisma.clientAddress.create({
+          data: {
+            clientId: client.id,
+            type: 'BILLING',
+            cep: address.cep,
+            logradouro: address.logradouro,
+            numero: address.numero || 'S/N',
+            complemento: address.complemento,
+            bairro: address.bairro || '',
+            cidade: address.cidade,
+            uf: address.uf,
+          },
+        });
+      }
+      migrated++;
+    }
+
+    console.log(`\n📊 ${migrated} of ${clients.length} client(s) ${isDryRun ? 'can be' : 'were'} migrated.`);
+    if (skipped.length) {
+      console.log(`\n⚠️  ${skipped.length} client(s) need their address entered in the client form:`);
+      for (const { client, missing } of skipped) {
+        console.log(`   #${client.id} ${client.name}: "${client.address}" (missing ${missing.join(', ')})`);
+      }
+    }
+    console.log();
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+if (process.argv.includes('--help') || process.argv.includes('-h')) {
+  console.log(`
+AlphaBook Client Address Migration Script
+
+Usage: node scripts/migrate-client-addresses.js [options]
+
+Options:
+  --execute         Execute the migration (default: dry run)
+  --help, -h        Show this help message
+
+Description:
+  Splits the free-text Client.address of clients without structured
+  addresses into CEP, logradouro, número, complemento, bairro, cidade and UF,
+  and stores it as their billing address. Client.address is left as it is.
+
+  Parsing is best effort. Addresses without a recognizable CEP, street, city
+  or state are listed and left for the client form, which shows the old text
+  next to the empty fields.
+
+Examples:
+  node scripts/migrate-client-addresses.js              # Dry run (preview changes)
+  node scripts/migrate-client-addresses.js --execute    # Execute migration
+`);
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,22 @@
+-- Upgrade for databases created before custom roles: "User"."role" was the
+-- "Role" enum, and the new "Role" table cannot be created while a type of that
+-- name exists. Converts the column to text (keeping every user's role) and
+-- drops the enum. Run once before `prisma db push`; it does nothing on a
+-- database that is already converted.
+--
+--   npx prisma db execute --file scripts/migrate-role-enum.sql --schema prisma/schema.prisma
+--   npx prisma db push
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_type t
+    JOIN pg_namespace n ON n.oid = t.typnamespace
+    WHERE t.typname = 'Role' AND t.typtype = 'e' AND n.nspname = current_schema()
+  ) THEN
+    ALTER TABLE "User" ALTER COLUMN "role" DROP DEFAULT;
+    ALTER TABLE "User" ALTER COLUMN "role" TYPE TEXT USING "role"::text;
+    ALTER TABLE "User" ALTER COLUMN "role" SET DEFAULT 'USER';
+    DROP TYPE "Role";
+  END IF;
+END $$;
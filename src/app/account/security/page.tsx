@@ -0,0 +1,256 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { PageHeader } from "@/components/ui/page-header";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AuthenticatedRoute } from "@/components/auth/ProtectedRoute";
+import {
+  RecoveryCodeList,
+  TwoFactorEnrollment,
+  type TwoFactorSetup,
+} from "@/components/auth/TwoFactorEnrollment";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+
+// JSON shape of TwoFactorStatus (src/lib/two-factor.ts)
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+type CodeAction = "disable" | "regenerate";
+
+async function postJson(url: string, body: unknown, method = "POST") {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(json?.error?.message || "Erro ao processar a solicitação");
+  }
+  return json?.data;
+}
+
+function AccountSecurityContent() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [action, setAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const fetchStatus = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/auth/2fa");
+      if (!res.ok) throw new Error("Erro ao carregar configurações de segurança");
+      const json = await res.json();
+      setStatus(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro ao carregar configurações de segurança");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleStartSetup = async () => {
+    setSubmitting(true);
+    try {
+      setSetup(await postJson("/api/auth/2fa/setup", {}));
+      setRecoveryCodes(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Erro ao iniciar a configuração");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (totpCode: string) => {
+    setSubmitting(true);
+    try {
+      const data = await postJson("/api/auth/2fa/enable", { code: totpCode });
+      setRecoveryCodes(data.recoveryCodes);
+      setSetup(null);
+      toast.success("Autenticação em dois fatores ativada");
+      fetchStatus();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Código inválido");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openAction = (next: CodeAction) => {
+    setCode("");
+    setPassword("");
+    setAction(next);
+  };
+
+  const handleAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      if (action === "disable") {
+        await postJson("/api/auth/2fa", { code, password }, "DELETE");
+        setRecoveryCodes(null);
+        toast.success("Autenticação em dois fatores desativada");
+      } else {
+        const data = await postJson("/api/auth/2fa/recovery-codes", { code });
+        setRecoveryCodes(data.recoveryCodes);
+        toast.success("Novos códigos de recuperação gerados");
+      }
+      setAction(null);
+      fetchStatus();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Erro ao processar a solicitação");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Segurança"
+        description="Proteja sua conta com um segundo fator de autenticação"
+      />
+
+      {error && <ErrorAlert message={error} onRetry={fetchStatus} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Autenticação em dois fatores
+            {status && (
+              status.enabled
+                ? <Badge>Ativada</Badge>
+                : <Badge variant="outline">Desativada</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Além da senha, o login pedirá um código do aplicativo autenticador.
+            {status?.required && " Obrigatória para o seu perfil."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {loading && !status ? (
+            <Skeleton className="h-10 w-48" />
+          ) : status && !status.enabled ? (
+            setup ? (
+              <div className="max-w-sm">
+                <TwoFactorEnrollment setup={setup} onConfirm={handleEnable} submitting={submitting} />
+              </div>
+            ) : (
+              <Button onClick={handleStartSetup} disabled={submitting}>
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Configurar aplicativo autenticador
+              </Button>
+            )
+          ) : status ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Códigos de recuperação restantes: <span className="font-medium text-foreground">{status.recoveryCodesRemaining}</span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => openAction("regenerate")}>
+                  Gerar novos códigos de recuperação
+                </Button>
+                {!status.required && (
+                  <Button variant="destructive" onClick={() => openAction("disable")}>
+                    Desativar
+                  </Button>
+                )}
+              </div>
+            </div>
+          ) : null}
+
+          {recoveryCodes && (
+            <div className="max-w-md">
+              <RecoveryCodeList codes={recoveryCodes} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <form onSubmit={handleAction} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {action === "disable" ? "Desativar autenticação em dois fatores" : "Gerar novos códigos de recuperação"}
+              </DialogTitle>
+              <DialogDescription>
+                {action === "disable"
+                  ? "Confirme sua senha e um código do aplicativo (ou de recuperação)."
+                  : "Os códigos atuais deixarão de funcionar. Informe um código do aplicativo para continuar."}
+              </DialogDescription>
+            </DialogHeader>
+            {action === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="current-password">Senha</Label>
+                <Input
+                  id="current-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={submitting}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="confirm-code">Código</Label>
+              <Input
+                id="confirm-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={submitting}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setAction(null)} disabled={submitting}>
+                Cancelar
+              </Button>
+              <Button
+                type="submit"
+                variant={action === "disable" ? "destructive" : "default"}
+                disabled={submitting || !code || (action === "disable" && !password)}
+              >
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Confirmar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function AccountSecurityPage() {
+  return (
+    <AuthenticatedRoute>
+      <AccountSecurityContent />
+    </AuthenticatedRoute>
+  );
+}
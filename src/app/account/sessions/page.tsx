@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PageHeader } from "@/components/ui/page-header";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { AuthenticatedRoute } from "@/components/auth/ProtectedRoute";
+import { SessionList, type SessionItem } from "@/components/auth/SessionList";
+import { toast } from "sonner";
+
+function AccountSessionsContent() {
+  const [sessions, setSessions] = useState<SessionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch("/api/auth/sessions");
+      if (!res.ok) throw new Error("Erro ao carregar sessões");
+      const json = await res.json();
+      setSessions(json.data ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro ao carregar sessões");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: SessionItem) => {
+    try {
+      const res = await fetch(`/api/auth/sessions/${session.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error?.message || "Erro ao encerrar sessão");
+      }
+      toast.success("Sessão encerrada");
+      fetchSessions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Erro ao encerrar sessão");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Sessões ativas"
+        description="Dispositivos em que sua conta está conectada"
+      />
+
+      {error && <ErrorAlert message={error} onRetry={fetchSessions} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Logins</CardTitle>
+          <CardDescription>
+            Encerre qualquer sessão que você não reconheça e altere sua senha.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SessionList sessions={sessions} loading={loading} onRevoke={handleRevoke} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function AccountSessionsPage() {
+  return (
+    <AuthenticatedRoute>
+      <AccountSessionsContent />
+    </AuthenticatedRoute>
+  );
+}
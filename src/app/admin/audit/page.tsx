@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { AdminRoute } from '@/components/auth/ProtectedRoute';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Pagination } from '@/components/ui/pagination';
+import Link from 'next/link';
+import { ArrowLeft, History, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+
+type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+interface AuditEntry {
+  id: number;
+  entity: string;
+  entityId: string | null;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  actorId: number | null;
+  actorEmail: string | null;
+  ipAddress: string | null;
+  requestId: string | null;
+  createdAt: string;
+  actor: { id: number; name: string; email: string } | null;
+}
+
+interface UserOption {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface Filters {
+  entity: string;
+  entityId: string;
+  actorId: string;
+  from: string;
+  to: string;
+}
+
+const ALL = 'all';
+const EMPTY_FILTERS: Filters = { entity: ALL, entityId: '', actorId: ALL, from: '', to: '' };
+
+const ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'destructive'> = {
+  CREATE: 'default',
+  UPDATE: 'secondary',
+  DELETE: 'destructive',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+function ChangeDetails({ entry }: { entry: AuditEntry }) {
+  const fields = Object.keys(entry.after ?? entry.before ?? {});
+  if (fields.length === 0) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  return (
+    <details>
+      <summary className="cursor-pointer text-sm">
+        {fields.length} field{fields.length === 1 ? '' : 's'}
+      </summary>
+      <table className="mt-2 text-xs">
+        <tbody>
+          {fields.map((field) => (
+            <tr key={field} className="align-top">
+              <td className="pr-3 font-mono text-muted-foreground">{field}</td>
+              {entry.action !== 'CREATE' && (
+                <td className="pr-3 break-all text-red-600 line-through">{formatValue(entry.before?.[field])}</td>
+              )}
+              {entry.action !== 'DELETE' && (
+                <td className="break-all text-green-700">{formatValue(entry.after?.[field])}</td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
+export default function AdminAuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [entities, setEntities] = useState<string[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(50);
+  const [pageCount, setPageCount] = useState(1);
+  const [total, setTotal] = useState(0);
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        const response = await fetch('/api/users');
+        if (response.ok) {
+          const data = await response.json();
+          setUsers(data.data);
+        }
+      } catch (error) {
+        console.error('Error fetching users:', error);
+      }
+    };
+    fetchUsers();
+  }, []);
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+      if (filters.entity !== ALL) params.set('entity', filters.entity);
+      if (filters.entityId.trim()) params.set('entityId', filters.entityId.trim());
+      if (filters.actorId !== ALL) params.set('actorId', filters.actorId);
+      if (filters.from) params.set('from', filters.from);
+      if (filters.to) params.set('to', filters.to);
+
+      try {
+        const response = await fetch(`/api/audit?${params}`);
+        if (response.ok) {
+          const data = await response.json();
+          setEntries(data.data);
+          setEntities(data.meta.entities);
+          setTotal(data.meta.total);
+          setPageCount(Number(data.meta.pageCount) || 1);
+        } else {
+          const error = await response.json();
+          toast.error(error.error?.message || 'Failed to fetch audit log');
+        }
+      } catch (error) {
+        console.error('Error fetching audit log:', error);
+        toast.error('Error fetching audit log');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchEntries();
+  }, [filters, page, pageSize]);
+
+  const updateFilter = (field: keyof Filters, value: string) => {
+    setPage(1);
+    setFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  const loadingState = (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-2 text-muted-foreground">Loading audit log...</p>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <AdminRoute fallback={loadingState}>
+        {loadingState}
+      </AdminRoute>
+    );
+  }
+
+  return (
+    <AdminRoute fallback={
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <ShieldCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground">You need admin privileges to view this page.</p>
+        </div>
+      </div>
+    }>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Audit Log</h1>
+            <p className="text-muted-foreground">Who created, changed or deleted records, and when</p>
+          </div>
+
+          <Button variant="outline" asChild>
+            <Link href="/admin/users">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Users
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+              <div className="grid gap-2">
+                <Label>Entity</Label>
+                <Select value={filters.entity} onValueChange={(value) => updateFilter('entity', value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All entities</SelectItem>
+                    {entities.map((entity) => (
+                      <SelectItem key={entity} value={entity}>{entity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="audit-entity-id">Record ID</Label>
+                <Input
+                  id="audit-entity-id"
+                  value={filters.entityId}
+                  onChange={(e) => updateFilter('entityId', e.target.value)}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>User</Label>
+                <Select value={filters.actorId} onValueChange={(value) => updateFilter('actorId', value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All users</SelectItem>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => updateFilter('from', e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => updateFilter('to', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="mt-4">
+              <Button variant="outline" size="sm" onClick={() => { setPage(1); setFilters(EMPTY_FILTERS); }}>
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Changes ({total})</CardTitle>
+            <CardDescription>
+              Updates list only the fields that changed. Passwords and 2FA secrets are never shown.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {entries.length === 0 ? (
+              <div className="py-12 text-center text-muted-foreground">
+                <History className="h-10 w-10 mx-auto mb-2" />
+                No changes match these filters.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead>Request</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id} className="align-top">
+                      <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {entry.actor ? (
+                          <>
+                            <div className="font-medium">{entry.actor.name}</div>
+                            <div className="text-sm text-muted-foreground">{entry.actor.email}</div>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">{entry.actorEmail ?? 'System'}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_VARIANTS[entry.action]}>{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {entry.entity}
+                        {entry.entityId && <span className="text-muted-foreground"> #{entry.entityId}</span>}
+                      </TableCell>
+                      <TableCell className="max-w-md">
+                        <ChangeDetails entry={entry} />
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        <div>{entry.ipAddress ?? '—'}</div>
+                        {entry.requestId && <div className="font-mono">{entry.requestId.slice(0, 8)}</div>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <div className="mt-4">
+              <Pagination
+                page={page}
+                pageCount={pageCount}
+                total={total}
+                pageSize={pageSize}
+                onPageChange={setPage}
+                onPageSizeChange={(size) => { setPage(1); setPageSize(size); }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </AdminRoute>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { AdminRoute } from '@/components/auth/ProtectedRoute';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import Link from 'next/link';
+import { ArrowLeft, CopyCheck, Merge, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import type { DuplicateReason } from '@/lib/client-duplicates';
+
+interface DuplicateClient {
+  id: number;
+  name: string;
+  cnpjCpf: string;
+  email: string;
+  phone: string;
+  active: boolean;
+  createdAt: string;
+  _count: { budgets: number };
+}
+
+interface DuplicatePair {
+  clients: [DuplicateClient, DuplicateClient];
+  reasons: DuplicateReason[];
+  nameSimilarity: number;
+}
+
+interface MergeEntry {
+  id: number;
+  mergedClientId: number;
+  mergedName: string;
+  mergedCnpjCpf: string;
+  budgetIds: number[];
+  createdAt: string;
+  // Null when the kept client was deleted later
+  survivor: { id: number; name: string; cnpjCpf: string } | null;
+  actor: { id: number; name: string; email: string } | null;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  document: 'Same CNPJ/CPF',
+  email: 'Same email',
+  name: 'Similar name',
+};
+
+function ClientCard({ client }: { client: DuplicateClient }) {
+  return (
+    <div className="space-y-1">
+      <div className="font-medium">
+        <Link href={`/clients/${client.id}`} className="hover:underline">{client.name}</Link>
+        <span className="text-muted-foreground"> #{client.id}</span>
+        {!client.active && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+      </div>
+      <div className="text-sm text-muted-foreground">{client.cnpjCpf}</div>
+      <div className="text-sm text-muted-foreground">{client.email} • {client.phone}</div>
+      <div className="text-sm text-muted-foreground">
+        {client._count.budgets} budget{client._count.budgets === 1 ? '' : 's'} • since {new Date(client.createdAt).toLocaleDateString()}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminDuplicateClientsPage() {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [merges, setMerges] = useState<MergeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [duplicatesResponse, mergesResponse] = await Promise.all([
+        fetch('/api/clients/duplicates'),
+        fetch('/api/clients/merge'),
+      ]);
+      if (duplicatesResponse.ok) {
+        const data = await duplicatesResponse.json();
+        setPairs(data.data);
+      } else {
+        const error = await duplicatesResponse.json();
+        toast.error(error.error?.message || 'Failed to fetch duplicate clients');
+      }
+      if (mergesResponse.ok) {
+        const data = await mergesResponse.json();
+        setMerges(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching duplicate clients:', error);
+      toast.error('Error fetching duplicate clients');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleMerge = async (survivor: DuplicateClient, duplicate: DuplicateClient) => {
+    try {
+      const response = await fetch('/api/clients/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ survivorId: survivor.id, duplicateId: duplicate.id }),
+      });
+
+      if (response.ok) {
+        toast.success(`${duplicate.name} merged into ${survivor.name}`);
+        fetchData();
+      } else {
+        const error = await response.json();
+        toast.error(error.error?.message || 'Failed to merge clients');
+      }
+    } catch (error) {
+      console.error('Error merging clients:', error);
+      toast.error('Error merging clients');
+    }
+  };
+
+  const mergeButton = (survivor: DuplicateClient, duplicate: DuplicateClient) => (
+    <ConfirmDialog
+      title={`Keep ${survivor.name}?`}
+      description={`The ${duplicate._count.budgets} budget(s), contacts and delivery addresses of ${duplicate.name} (#${duplicate.id}) move to ${survivor.name} (#${survivor.id}), and ${duplicate.name} is deleted. The merge is recorded in the history below.`}
+      confirmLabel="Merge"
+      onConfirm={() => handleMerge(survivor, duplicate)}
+      trigger={
+        <Button variant="outline" size="sm">
+          <Merge className="h-4 w-4 mr-2" />
+          Keep #{survivor.id}
+        </Button>
+      }
+    />
+  );
+
+  const loadingState = (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-2 text-muted-foreground">Looking for duplicate clients...</p>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <AdminRoute fallback={loadingState}>
+        {loadingState}
+      </AdminRoute>
+    );
+  }
+
+  return (
+    <AdminRoute fallback={
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <ShieldCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground">You need admin privileges to view this page.</p>
+        </div>
+      </div>
+    }>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Duplicate Clients</h1>
+            <p className="text-muted-foreground">Clients registered more than once, and the merges already made</p>
+          </div>
+
+          <Button variant="outline" asChild>
+            <Link href="/admin/users">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Users
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Possible duplicates ({pairs.length})</CardTitle>
+            <CardDescription>
+              Matched by CNPJ/CPF digits, email, or names that are nearly the same without accents and suffixes such as LTDA.
+              Pick the client to keep; the other one is merged into it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {pairs.length === 0 ? (
+              <div className="py-12 text-center text-muted-foreground">
+                <CopyCheck className="h-10 w-10 mx-auto mb-2" />
+                No duplicate clients found.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Client</TableHead>
+                    <TableHead>Possible duplicate</TableHead>
+                    <TableHead>Why</TableHead>
+                    <TableHead>Merge</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pairs.map(({ clients: [first, second], reasons, nameSimilarity }) => (
+                    <TableRow key={`${first.id}-${second.id}`} className="align-top">
+                      <TableCell><ClientCard client={first} /></TableCell>
+                      <TableCell><ClientCard client={second} /></TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {reasons.map((reason) => (
+                            <Badge key={reason} variant={reason === 'name' ? 'secondary' : 'default'}>
+                              {REASON_LABELS[reason]}
+                            </Badge>
+                          ))}
+                        </div>
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          Name similarity {Math.round(nameSimilarity * 100)}%
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-2">
+                          {mergeButton(first, second)}
+                          {mergeButton(second, first)}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Merge history</CardTitle>
+            <CardDescription>The latest 50 merges</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {merges.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No clients have been merged yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Merged client</TableHead>
+                    <TableHead>Kept client</TableHead>
+                    <TableHead>Budgets moved</TableHead>
+                    <TableHead>By</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {merges.map((merge) => (
+                    <TableRow key={merge.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(merge.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <div>{merge.mergedName} <span className="text-muted-foreground">#{merge.mergedClientId}</span></div>
+                        <div className="text-sm text-muted-foreground">{merge.mergedCnpjCpf}</div>
+                      </TableCell>
+                      <TableCell>
+                        {merge.survivor ? (
+                          <>
+                            <Link href={`/clients/${merge.survivor.id}`} className="hover:underline">{merge.survivor.name}</Link>
+                            <span className="text-muted-foreground"> #{merge.survivor.id}</span>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Deleted client</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{merge.budgetIds.length}</TableCell>
+                      <TableCell>{merge.actor?.name ?? '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminRoute>
+  );
+}
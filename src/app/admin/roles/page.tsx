@@ -0,0 +1,430 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Permission, PERMISSION_GROUPS, Role, ROLE_HIERARCHY } from '@/lib/rbac';
+import { AdminRoute } from '@/components/auth/ProtectedRoute';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import Link from 'next/link';
+import { Plus, Edit, Trash2, ShieldCheck, ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface RoleRow {
+  id: number;
+  key: string;
+  name: string;
+  description: string | null;
+  level: number;
+  builtIn: boolean;
+  permissions: Permission[];
+  userCount: number;
+}
+
+interface RoleForm {
+  key: string;
+  name: string;
+  description: string;
+  level: number;
+  permissions: Permission[];
+}
+
+const EMPTY_FORM: RoleForm = {
+  key: '',
+  name: '',
+  description: '',
+  level: ROLE_HIERARCHY[Role.USER],
+  permissions: [],
+};
+
+// Custom roles sit at the USER or MODERATOR level of the hierarchy
+const LEVEL_OPTIONS = [
+  { level: ROLE_HIERARCHY[Role.USER], label: 'User level' },
+  { level: ROLE_HIERARCHY[Role.MODERATOR], label: 'Moderator level' },
+];
+
+const TOTAL_PERMISSIONS = Object.values(Permission).length;
+
+// "Produção" -> "PRODUCAO"
+const suggestKey = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 32);
+
+export default function AdminRolesPage() {
+  const [roles, setRoles] = useState<RoleRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingRole, setEditingRole] = useState<RoleRow | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<RoleForm>(EMPTY_FORM);
+  const [keyEdited, setKeyEdited] = useState(false);
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch('/api/roles');
+      if (response.ok) {
+        const data = await response.json();
+        setRoles(data.data);
+      } else {
+        toast.error('Failed to fetch roles');
+      }
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      toast.error('Error fetching roles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingRole(null);
+    setFormData(EMPTY_FORM);
+    setKeyEdited(false);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (role: RoleRow) => {
+    setEditingRole(role);
+    setFormData({
+      key: role.key,
+      name: role.name,
+      description: role.description ?? '',
+      level: role.level,
+      permissions: role.permissions,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleNameChange = (name: string) => {
+    setFormData(prev => ({
+      ...prev,
+      name,
+      key: editingRole || keyEdited ? prev.key : suggestKey(name),
+    }));
+  };
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      permissions: checked
+        ? [...prev.permissions, permission]
+        : prev.permissions.filter((current) => current !== permission),
+    }));
+  };
+
+  const toggleGroup = (permissions: Permission[], checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      permissions: checked
+        ? [...new Set([...prev.permissions, ...permissions])]
+        : prev.permissions.filter((current) => !permissions.includes(current)),
+    }));
+  };
+
+  const handleSaveRole = async () => {
+    const isAdminRole = editingRole?.key === Role.ADMIN;
+    const body = {
+      ...(editingRole ? {} : { key: formData.key }),
+      name: formData.name,
+      description: formData.description.trim() || null,
+      ...(editingRole?.builtIn ? {} : { level: formData.level }),
+      ...(isAdminRole ? {} : { permissions: formData.permissions }),
+    };
+
+    try {
+      const response = await fetch(editingRole ? `/api/roles/${editingRole.id}` : '/api/roles', {
+        method: editingRole ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (response.ok) {
+        toast.success(editingRole ? 'Role updated successfully' : 'Role created successfully');
+        setIsDialogOpen(false);
+        setEditingRole(null);
+        fetchRoles();
+      } else {
+        const error = await response.json();
+        toast.error(error.error?.message || 'Failed to save role');
+      }
+    } catch (error) {
+      console.error('Error saving role:', error);
+      toast.error('Error saving role');
+    }
+  };
+
+  const handleDeleteRole = async (roleId: number) => {
+    try {
+      const response = await fetch(`/api/roles/${roleId}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        toast.success('Role deleted successfully');
+        fetchRoles();
+      } else {
+        const error = await response.json();
+        toast.error(error.error?.message || 'Failed to delete role');
+      }
+    } catch (error) {
+      console.error('Error deleting role:', error);
+      toast.error('Error deleting role');
+    }
+  };
+
+  const levelLabel = (level: number) => {
+    if (level >= ROLE_HIERARCHY[Role.ADMIN]) return 'Admin level';
+    return LEVEL_OPTIONS.find((option) => option.level === level)?.label ?? `Level ${level}`;
+  };
+
+  const permissionsLocked = editingRole?.key === Role.ADMIN;
+
+  const loadingState = (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-2 text-muted-foreground">Loading roles...</p>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <AdminRoute fallback={loadingState}>
+        {loadingState}
+      </AdminRoute>
+    );
+  }
+
+  return (
+    <AdminRoute fallback={
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <ShieldCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground">You need admin privileges to view this page.</p>
+        </div>
+      </div>
+    }>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Role Management</h1>
+            <p className="text-muted-foreground">Compose roles from permissions and assign them on the users page</p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/admin/users">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Users
+              </Link>
+            </Button>
+            <Button onClick={openCreateDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Role
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Roles</CardTitle>
+            <CardDescription>
+              Built-in roles can be edited but not deleted. Changes reach signed-in users when their session refreshes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Level</TableHead>
+                  <TableHead>Permissions</TableHead>
+                  <TableHead>Users</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roles.map((role) => (
+                  <TableRow key={role.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{role.name}</span>
+                        {role.builtIn && <Badge variant="secondary">Built-in</Badge>}
+                      </div>
+                      {role.description && (
+                        <p className="text-sm text-muted-foreground">{role.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{role.key}</TableCell>
+                    <TableCell>{levelLabel(role.level)}</TableCell>
+                    <TableCell>{role.permissions.length} / {TOTAL_PERMISSIONS}</TableCell>
+                    <TableCell>{role.userCount}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openEditDialog(role)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+
+                        {!role.builtIn && (
+                          <ConfirmDialog
+                            title="Delete Role"
+                            description={`Delete the role ${role.name}? Roles still assigned to users cannot be deleted.`}
+                            confirmLabel="Delete"
+                            cancelLabel="Cancel"
+                            confirmVariant="destructive"
+                            onConfirm={() => handleDeleteRole(role.id)}
+                            trigger={
+                              <Button variant="outline" size="sm" disabled={role.userCount > 0}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            }
+                          />
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* Create/Edit Role Dialog */}
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{editingRole ? 'Edit Role' : 'Create New Role'}</DialogTitle>
+              <DialogDescription>
+                {editingRole
+                  ? 'Update the role and the permissions it grants.'
+                  : 'Pick the permissions the new role grants. The key cannot be changed later.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="role-name">Name</Label>
+                  <Input
+                    id="role-name"
+                    value={formData.name}
+                    onChange={(e) => handleNameChange(e.target.value)}
+                    placeholder="Financeiro"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="role-key">Key</Label>
+                  <Input
+                    id="role-key"
+                    value={formData.key}
+                    disabled={editingRole !== null}
+                    onChange={(e) => {
+                      setKeyEdited(true);
+                      setFormData(prev => ({ ...prev, key: e.target.value.toUpperCase() }));
+                    }}
+                    placeholder="FINANCEIRO"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="role-description">Description</Label>
+                <Input
+                  id="role-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="role-level">Level</Label>
+                <Select
+                  value={String(formData.level)}
+                  disabled={editingRole?.builtIn}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, level: Number(value) }))}
+                >
+                  <SelectTrigger id="role-level">
+                    <SelectValue placeholder={levelLabel(formData.level)} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEVEL_OPTIONS.map((option) => (
+                      <SelectItem key={option.level} value={String(option.level)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Decides who can assign the role and whether the two-factor policy applies to it.
+                </p>
+              </div>
+
+              <div className="grid gap-4">
+                <Label>Permissions</Label>
+                {permissionsLocked && (
+                  <p className="text-sm text-muted-foreground">The Admin role always has every permission.</p>
+                )}
+                {PERMISSION_GROUPS.map((group) => {
+                  const groupPermissions = group.permissions.map((entry) => entry.permission);
+                  const granted = groupPermissions.filter((permission) => formData.permissions.includes(permission));
+                  return (
+                    <div key={group.label} className="rounded-md border p-3">
+                      <div className="mb-2 flex items-center gap-2">
+                        <Checkbox
+                          id={`group-${group.label}`}
+                          checked={granted.length === groupPermissions.length ? true : granted.length > 0 ? 'indeterminate' : false}
+                          disabled={permissionsLocked}
+                          onCheckedChange={(checked) => toggleGroup(groupPermissions, checked === true)}
+                        />
+                        <Label htmlFor={`group-${group.label}`} className="font-semibold">{group.label}</Label>
+                      </div>
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        {group.permissions.map((entry) => (
+                          <div key={entry.permission} className="flex items-center gap-2">
+                            <Checkbox
+                              id={entry.permission}
+                              checked={formData.permissions.includes(entry.permission)}
+                              disabled={permissionsLocked}
+                              onCheckedChange={(checked) => togglePermission(entry.permission, checked === true)}
+                            />
+                            <Label htmlFor={entry.permission} className="font-normal">{entry.label}</Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveRole}>{editingRole ? 'Update Role' : 'Create Role'}</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AdminRoute>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { PageHeader } from "@/components/ui/page-header";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { AdminRoute } from "@/components/auth/ProtectedRoute";
+import { SessionList, type SessionItem } from "@/components/auth/SessionList";
+import { ArrowLeft, LogOut } from "lucide-react";
+import { toast } from "sonner";
+
+interface SessionOwner {
+  id: number;
+  name: string;
+  email: string;
+}
+
+function UserSessionsContent({ userId }: { userId: string }) {
+  const [owner, setOwner] = useState<SessionOwner | null>(null);
+  const [sessions, setSessions] = useState<SessionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/users/${userId}/sessions`);
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error?.message || "Erro ao carregar sessões");
+      }
+      const json = await res.json();
+      setOwner(json.data.user);
+      setSessions(json.data.sessions ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro ao carregar sessões");
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (session: SessionItem) => {
+    try {
+      const res = await fetch(`/api/users/${userId}/sessions/${session.id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error?.message || "Erro ao encerrar sessão");
+      }
+      toast.success("Sessão encerrada");
+      fetchSessions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Erro ao encerrar sessão");
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    try {
+      const res = await fetch(`/api/users/${userId}/sessions`, { method: "DELETE" });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        throw new Error(json?.error?.message || "Erro ao encerrar sessões");
+      }
+      const json = await res.json();
+      toast.success(`${json.data.revoked} sessão(ões) encerrada(s)`);
+      fetchSessions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Erro ao encerrar sessões");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Sessões do usuário"
+        description={owner ? `${owner.name} (${owner.email})` : undefined}
+        actions={
+          <>
+            <Button asChild variant="outline">
+              <Link href="/admin/users">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Voltar
+              </Link>
+            </Button>
+            <ConfirmDialog
+              title="Encerrar todas as sessões"
+              description="O usuário será desconectado de todos os dispositivos."
+              confirmLabel="Encerrar todas"
+              confirmVariant="destructive"
+              onConfirm={handleRevokeAll}
+              trigger={
+                <Button variant="destructive" disabled={sessions.length === 0}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Encerrar todas
+                </Button>
+              }
+            />
+          </>
+        }
+      />
+
+      {error && <ErrorAlert message={error} onRetry={fetchSessions} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Logins ativos</CardTitle>
+          <CardDescription>Dispositivo, IP e localização aproximada de cada login.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SessionList sessions={sessions} loading={loading} onRevoke={handleRevoke} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function AdminUserSessionsPage() {
+  const params = useParams<{ id: string }>();
+
+  return (
+    <AdminRoute>
+      <UserSessionsContent userId={params.id} />
+    </AdminRoute>
+  );
+}
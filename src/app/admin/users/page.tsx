@@ -13,21 +13,32 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
-import { Plus, Edit, Trash2, UserCheck } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Edit, Trash2, UserCheck, LogOut, MonitorSmartphone, LockOpen, ShieldCheck, History, Merge } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface User {
   id: number;
   email: string;
   name: string;
-  role: Role;
+  role: string;
+  lockedUntil: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Built-in and custom roles, from /api/roles
+interface RoleOption {
+  key: string;
+  name: string;
+}
+
+const isLocked = (user: User) => user.lockedUntil !== null && new Date(user.lockedUntil) > new Date();
+
 export default function AdminUsersPage() {
   const { user: currentUser } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -38,13 +49,29 @@ export default function AdminUsersPage() {
     email: '',
     password: '',
     name: '',
-    role: Role.USER,
+    role: Role.USER as string,
   });
 
   useEffect(() => {
     fetchUsers();
+    fetchRoles();
   }, []);
 
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch('/api/roles');
+      if (response.ok) {
+        const data = await response.json();
+        setRoles(data.data);
+      } else {
+        toast.error('Failed to fetch roles');
+      }
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+      toast.error('Error fetching roles');
+    }
+  };
+
   const fetchUsers = async () => {
     try {
       const response = await fetch('/api/users');
@@ -140,6 +167,44 @@ export default function AdminUsersPage() {
     }
   };
 
+  const handleLogoutEverywhere = async (userId: number) => {
+    try {
+      const response = await fetch(`/api/users/${userId}/sessions`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast.success(`Revoked ${data.data.revoked} active session(s)`);
+      } else {
+        const error = await response.json();
+        toast.error(error.error?.message || 'Failed to revoke sessions');
+      }
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      toast.error('Error revoking sessions');
+    }
+  };
+
+  const handleUnlockUser = async (userId: number) => {
+    try {
+      const response = await fetch(`/api/users/${userId}/unlock`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        toast.success('User unlocked successfully');
+        fetchUsers();
+      } else {
+        const error = await response.json();
+        toast.error(error.error?.message || 'Failed to unlock user');
+      }
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      toast.error('Error unlocking user');
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       email: '',
@@ -160,7 +225,9 @@ export default function AdminUsersPage() {
     setIsEditDialogOpen(true);
   };
 
-  const getRoleBadgeVariant = (role: Role) => {
+  const getRoleName = (key: string) => roles.find((role) => role.key === key)?.name ?? key;
+
+  const getRoleBadgeVariant = (role: string) => {
     switch (role) {
       case Role.ADMIN:
         return 'destructive';
@@ -210,71 +277,92 @@ export default function AdminUsersPage() {
             <p className="text-muted-foreground">Manage user accounts and permissions</p>
           </div>
 
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Add User
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create New User</DialogTitle>
-                <DialogDescription>
-                  Add a new user to the system. They will receive the default role of User.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="grid gap-4 py-4">
-                <div className="grid gap-2">
-                  <Label htmlFor="create-email">Email</Label>
-                  <Input
-                    id="create-email"
-                    type="email"
-                    value={formData.email}
-                    onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
-                    placeholder="user@example.com"
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="create-password">Password</Label>
-                  <Input
-                    id="create-password"
-                    type="password"
-                    value={formData.password}
-                    onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="create-name">Name</Label>
-                  <Input
-                    id="create-name"
-                    value={formData.name}
-                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                    placeholder="Full Name"
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="create-role">Role</Label>
-                  <Select value={formData.role} onValueChange={(value: Role) => setFormData(prev => ({ ...prev, role: value }))}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value={Role.USER}>User</SelectItem>
-                      <SelectItem value={Role.MODERATOR}>Moderator</SelectItem>
-                      <SelectItem value={Role.ADMIN}>Admin</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-              <DialogFooter>
-                <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                  Cancel
+          <div className="flex items-center gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/admin/roles">
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Roles
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/admin/audit">
+                <History className="h-4 w-4 mr-2" />
+                Audit Log
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/admin/clients/duplicates">
+                <Merge className="h-4 w-4 mr-2" />
+                Duplicate Clients
+              </Link>
+            </Button>
+
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add User
                 </Button>
-                <Button onClick={handleCreateUser}>Create User</Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Create New User</DialogTitle>
+                  <DialogDescription>
+                    Add a new user to the system. They will receive the default role of User.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 py-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="create-email">Email</Label>
+                    <Input
+                      id="create-email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                      placeholder="user@example.com"
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="create-password">Password</Label>
+                    <Input
+                      id="create-password"
+                      type="password"
+                      value={formData.password}
+                      onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="create-name">Name</Label>
+                    <Input
+                      id="create-name"
+                      value={formData.name}
+                      onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="Full Name"
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="create-role">Role</Label>
+                    <Select value={formData.role} onValueChange={(value) => setFormData(prev => ({ ...prev, role: value }))}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.map((role) => (
+                          <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleCreateUser}>Create User</Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         <Card>
@@ -301,9 +389,16 @@ export default function AdminUsersPage() {
                     <TableCell className="font-medium">{user.name}</TableCell>
                     <TableCell>{user.email}</TableCell>
                     <TableCell>
-                      <Badge variant={getRoleBadgeVariant(user.role)}>
-                        {user.role}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={getRoleBadgeVariant(user.role)}>
+                          {getRoleName(user.role)}
+                        </Badge>
+                        {isLocked(user) && (
+                          <Badge variant="outline" title={`Locked until ${new Date(user.lockedUntil!).toLocaleString()}`}>
+                            Locked
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
                       {new Date(user.createdAt).toLocaleDateString()}
@@ -318,6 +413,37 @@ export default function AdminUsersPage() {
                           <Edit className="h-4 w-4" />
                         </Button>
 
+                        {isLocked(user) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Unlock account"
+                            onClick={() => handleUnlockUser(user.id)}
+                          >
+                            <LockOpen className="h-4 w-4" />
+                          </Button>
+                        )}
+
+                        <Button variant="outline" size="sm" asChild title="Sessions">
+                          <Link href={`/admin/users/${user.id}/sessions`}>
+                            <MonitorSmartphone className="h-4 w-4" />
+                          </Link>
+                        </Button>
+
+                        <ConfirmDialog
+                          title="Log Out Everywhere"
+                          description={`Sign ${user.name} out of every device? They will need to log in again.`}
+                          confirmLabel="Log out"
+                          cancelLabel="Cancel"
+                          confirmVariant="destructive"
+                          onConfirm={() => handleLogoutEverywhere(user.id)}
+                          trigger={
+                            <Button variant="outline" size="sm" title="Log out everywhere">
+                              <LogOut className="h-4 w-4" />
+                            </Button>
+                          }
+                        />
+
                         {user.id !== currentUser?.id && (
                           <ConfirmDialog
                             title="Delete User"
@@ -371,14 +497,14 @@ export default function AdminUsersPage() {
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="edit-role">Role</Label>
-                <Select value={formData.role} onValueChange={(value: Role) => setFormData(prev => ({ ...prev, role: value }))}>
+                <Select value={formData.role} onValueChange={(value) => setFormData(prev => ({ ...prev, role: value }))}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value={Role.USER}>User</SelectItem>
-                    <SelectItem value={Role.MODERATOR}>Moderator</SelectItem>
-                    <SelectItem value={Role.ADMIN}>Admin</SelectItem>
+                    {roles.map((role) => (
+                      <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1,5 +1,6 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { requireApiAuth } from '@/lib/server-auth';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/server-auth';
+import { Permission } from '@/lib/rbac';
 import { handleApiError } from '@/lib/api-auth';
 
 type AnalyticsEventProperties = Record<string, unknown> & {
@@ -28,11 +29,8 @@ interface AnalyticsRequestBody {
 const analyticsStorage: AnalyticsEvent[] = [];
 const MAX_STORAGE_SIZE = 10000; // Prevent memory issues
 
-export async function POST(req: NextRequest) {
+export const POST = withPermission(Permission.SEND_ANALYTICS, async (req, { user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user
-    const user = await requireApiAuth(req);
-
     // ✅ SECURITY: All authenticated users can send analytics data
     // In production, you might want to restrict this further
 
@@ -103,22 +101,11 @@ export async function POST(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
 // GET endpoint for retrieving analytics (admin only)
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_ANALYTICS, async (req) => {
   try {
-    // ✅ SECURITY: Get authenticated user
-    const user = await requireApiAuth(req);
-
-    // ✅ SECURITY: Only admins can retrieve analytics
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Unauthorized: Admin access required' },
-        { status: 403 }
-      );
-    }
-
     const { searchParams } = new URL(req.url);
     const limit = parseInt(searchParams.get('limit') || '100');
     const offset = parseInt(searchParams.get('offset') || '0');
@@ -153,7 +140,7 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
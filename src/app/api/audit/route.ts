@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import prisma from "@/lib/prisma";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { AUDITED_MODELS, isAuditedModel } from '@/lib/audit';
+import { parseNumber } from '@/lib/validation';
+import type { Prisma } from "@/generated/prisma";
+
+const MAX_PAGE_SIZE = 100;
+
+// A bare date (from a date input) covers the whole day
+function parseDateParam(value: string | null, endOfDay: boolean): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? `${value}T23:59:59.999` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/audit - Audit log of data mutations, newest first
+export const GET = withPermission(Permission.READ_AUDIT_LOG, async (req) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, parseNumber(searchParams.get("page"), 1));
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseNumber(searchParams.get("pageSize"), 50)));
+    const entity = searchParams.get("entity");
+    const entityId = searchParams.get("entityId");
+    const actorId = searchParams.get("actorId");
+    const from = parseDateParam(searchParams.get("from"), false);
+    const to = parseDateParam(searchParams.get("to"), true);
+
+    const fieldErrors: Record<string, string[]> = {};
+    if (entity && !isAuditedModel(entity)) fieldErrors.entity = ['Entidade inválida'];
+    if (actorId && !Number.isInteger(Number(actorId))) fieldErrors.actorId = ['Usuário inválido'];
+    if (from === null) fieldErrors.from = ['Data inválida'];
+    if (to === null) fieldErrors.to = ['Data inválida'];
+    if (Object.keys(fieldErrors).length) {
+      return NextResponse.json({
+        error: { message: 'Invalid query parameters', details: { fieldErrors } }
+      }, { status: 400 });
+    }
+
+    const where: Prisma.AuditLogWhereInput = {};
+    if (entity) where.entity = entity;
+    if (entityId) where.entityId = entityId;
+    if (actorId) where.actorId = Number(actorId);
+    if (from || to) where.createdAt = { gte: from ?? undefined, lte: to ?? undefined };
+
+    const [total, data] = await Promise.all([
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { id: "desc" },
+        include: { actor: { select: { id: true, name: true, email: true } } },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    return NextResponse.json({
+      data,
+      meta: {
+        page,
+        pageSize,
+        total,
+        pageCount: Math.ceil(total / pageSize),
+        entities: AUDITED_MODELS,
+      },
+      error: null
+    });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/server-auth";
+import { Permission } from "@/lib/rbac";
+import { handleApiError } from "@/lib/api-auth";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/server-rate-limit";
+import { regenerateRecoveryCodes, TwoFactorError } from "@/lib/two-factor";
+import { TwoFactorCodeSchema } from "@/lib/validation";
+
+// POST /api/auth/2fa/recovery-codes - Replace all recovery codes (a current code is required)
+export const POST = withPermission(Permission.WRITE_PROFILE, async (request, { user }) => {
+  try {
+    const limited = await enforceRateLimit(RATE_LIMIT_POLICIES.TWO_FACTOR_USER, String(user.userId));
+    if (limited) {
+      return limited;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = TwoFactorCodeSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { message: "Dados inválidos", details: parsed.error.flatten() } },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await prisma.$transaction((tx) =>
+      regenerateRecoveryCodes(tx, user.userId, parsed.data.code)
+    );
+
+    return NextResponse.json({
+      data: { recoveryCodes },
+      error: null,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: { message: error.message, details: null } }, { status: error.status });
+    }
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
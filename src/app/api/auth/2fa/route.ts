@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/server-auth";
+import { Permission } from "@/lib/rbac";
+import { ApiAuthError, handleApiError } from "@/lib/api-auth";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/server-rate-limit";
+import { disableTwoFactor, getTwoFactorStatus, isTwoFactorRequired, TwoFactorError, verifySecondFactor } from "@/lib/two-factor";
+import { TwoFactorDisableSchema } from "@/lib/validation";
+import { resolveRole } from "@/lib/roles";
+
+// GET /api/auth/2fa - Two-factor status of the current user
+export const GET = withPermission(Permission.READ_PROFILE, async (request, { user }) => {
+  try {
+    const status = await getTwoFactorStatus(prisma, user.userId);
+
+    return NextResponse.json({
+      data: status,
+      error: null,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: { message: error.message, details: null } }, { status: error.status });
+    }
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
+
+// DELETE /api/auth/2fa - Turn off two-factor authentication (password and a current code required)
+export const DELETE = withPermission(Permission.WRITE_PROFILE, async (request, { user }) => {
+  try {
+    // ✅ SECURITY: Roles covered by the 2FA policy cannot opt out
+    if (isTwoFactorRequired(await resolveRole(prisma, user.role))) {
+      throw new ApiAuthError("Two-factor authentication is required for your role", 403);
+    }
+
+    const limited = await enforceRateLimit(RATE_LIMIT_POLICIES.TWO_FACTOR_USER, String(user.userId));
+    if (limited) {
+      return limited;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = TwoFactorDisableSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { message: "Dados inválidos", details: parsed.error.flatten() } },
+        { status: 400 }
+      );
+    }
+
+    const account = await prisma.user.findUnique({ where: { id: user.userId }, select: { password: true } });
+    if (!account || !(await bcrypt.compare(parsed.data.password, account.password))) {
+      throw new ApiAuthError("Invalid password", 401);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await verifySecondFactor(tx, user.userId, parsed.data.code);
+      await disableTwoFactor(tx, user.userId);
+    });
+
+    return NextResponse.json({
+      data: { message: "Two-factor authentication disabled" },
+      error: null,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: { message: error.message, details: null } }, { status: error.status });
+    }
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireApiAuth } from "@/lib/server-auth";
+import { ApiAuthError, handleApiError } from "@/lib/api-auth";
+import { verifyTwoFactorChallenge } from "@/lib/unified-auth";
+import { startTwoFactorEnrollment, TwoFactorError, TWO_FACTOR_ISSUER } from "@/lib/two-factor";
+import { totpUri } from "@/lib/totp";
+
+// POST /api/auth/2fa/setup - New authenticator secret for enrollment
+// Signed-in users call it from their security page; users the 2FA policy
+// stops at login send the { challengeToken } of the password step instead.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const challengeToken = typeof body?.challengeToken === "string" ? body.challengeToken : null;
+
+    let userId: number;
+    if (challengeToken) {
+      const challengeUserId = await verifyTwoFactorChallenge(challengeToken);
+      if (!challengeUserId) {
+        throw new ApiAuthError("Login challenge expired. Please sign in again.", 401);
+      }
+      userId = challengeUserId;
+    } else {
+      userId = (await requireApiAuth(request)).userId;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    if (!user) {
+      throw new ApiAuthError("User not found", 404);
+    }
+
+    const secret = await startTwoFactorEnrollment(prisma, userId);
+
+    return NextResponse.json({
+      data: {
+        secret,
+        otpauthUri: totpUri(secret, user.email, TWO_FACTOR_ISSUER),
+      },
+      error: null,
+    });
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json({ error: { message: error.message, details: null } }, { status: error.status });
+    }
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+}
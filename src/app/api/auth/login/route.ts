@@ -1,40 +1,27 @@
-// In-memory rate limiting store (in production, use Redis or similar)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-const MAX_ATTEMPTS = 5;
-const WINDOW_MS = 15 * 60 * 1000; // 15 minutes
-
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  const clientIP = request.headers.get('x-client-ip');
-
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
-  }
-  if (realIP) {
-    return realIP;
-  }
-  if (clientIP) {
-    return clientIP;
-  }
-  return 'unknown';
-}
-
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now();
-  const record = rateLimitStore.get(ip);
-
-  if (!record || now > record.resetTime) {
-    rateLimitStore.set(ip, { count: 1, resetTime: now + WINDOW_MS });
-    return true;
-  }
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { prisma } from "@/lib/prisma";
+import { getClientIP, getClientInfo } from "@/lib/client-info";
+import { createSession } from "@/lib/sessions";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/server-rate-limit";
+import { isAccountLocked, recordFailedLogin, recordSuccessfulLogin } from "@/lib/account-lockout";
+import { generateTwoFactorChallenge, verifyTwoFactorChallenge } from "@/lib/unified-auth";
+import { ensureCsrfCookie, setAuthCookies } from "@/lib/auth-cookies";
+import {
+  completeTwoFactorEnrollment,
+  isTwoFactorRequired,
+  TwoFactorError,
+  verifySecondFactor,
+} from "@/lib/two-factor";
+import { resolveRole } from "@/lib/roles";
 
-  if (record.count >= MAX_ATTEMPTS) {
-    return false;
-  }
+const JWT_SECRET = process.env.JWT_SECRET;
 
-  record.count++;
-  return true;
+// Validate secrets
+if (!JWT_SECRET || JWT_SECRET.length < 32) {
+  throw new Error("JWT_SECRET must be set and at least 32 characters long");
 }
 
 function addSecurityHeaders(response: NextResponse) {
@@ -50,22 +37,98 @@ function addSecurityHeaders(response: NextResponse) {
   }
 }
 
-import { NextRequest, NextResponse } from "next/server";
-import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
-import { prisma } from "@/lib/prisma";
-// Role is not used directly here
-// import { Role } from "@/lib/rbac";
+function errorResponse(message: string, status: number) {
+  const response = NextResponse.json({ error: { message, details: null } }, { status });
+  addSecurityHeaders(response);
+  return response;
+}
 
-const JWT_SECRET = process.env.JWT_SECRET;
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET;
+interface LoginUser {
+  id: number;
+  email: string;
+  name: string;
+  role: string;
+}
 
-// Validate secrets
-if (!JWT_SECRET || JWT_SECRET.length < 32) {
-  throw new Error("JWT_SECRET must be set and at least 32 characters long");
+// Last step of every login: access token, stored session and cookies
+async function issueSession(request: NextRequest, user: LoginUser, extra: Record<string, unknown> = {}) {
+  // Permissions are resolved now and carried by the token until the next refresh
+  const { permissions } = await resolveRole(prisma, user.role);
+  const accessToken = jwt.sign(
+    {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      permissions,
+    },
+    JWT_SECRET!,
+    { expiresIn: "15m" }
+  );
+
+  // ✅ SECURITY: One stored session per device; only the token hash is persisted
+  const { refreshToken } = await createSession(prisma, user.id, getClientInfo(request));
+
+  // Tokens only travel in httpOnly cookies, out of reach of page scripts
+  const response = NextResponse.json({
+    data: {
+      user: { id: user.id, email: user.email, name: user.name, role: user.role, permissions },
+      ...extra,
+    },
+    error: null,
+  });
+
+  setAuthCookies(request, response, { accessToken, refreshToken });
+  addSecurityHeaders(response);
+  return response;
 }
-if (!JWT_REFRESH_SECRET || JWT_REFRESH_SECRET.length < 32) {
-  throw new Error("JWT_REFRESH_SECRET must be set and at least 32 characters long");
+
+// Second step: { challengeToken, code } after the password step asked for it.
+// Users enrolling because of the 2FA policy confirm their first code here and
+// get their recovery codes with the session.
+async function completeTwoFactorLogin(request: NextRequest, challengeToken: string, code: unknown) {
+  const userId = await verifyTwoFactorChallenge(challengeToken);
+  if (!userId) {
+    return errorResponse("Login challenge expired. Please sign in again.", 401);
+  }
+
+  // ✅ SECURITY: Few attempts per user so 6-digit codes cannot be brute-forced
+  const limited = await enforceRateLimit(RATE_LIMIT_POLICIES.TWO_FACTOR_USER, String(userId));
+  if (limited) {
+    addSecurityHeaders(limited);
+    return limited;
+  }
+
+  if (typeof code !== "string" || !code.trim()) {
+    return errorResponse("Verification code is required", 400);
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, name: true, role: true, lockedUntil: true, totpEnabledAt: true },
+  });
+  if (!user) {
+    return errorResponse("Invalid credentials", 401);
+  }
+  if (isAccountLocked(user)) {
+    return errorResponse("Account temporarily locked after too many failed attempts. Try again later or contact an administrator.", 423);
+  }
+
+  let recoveryCodes: string[] | null = null;
+  try {
+    if (user.totpEnabledAt) {
+      await verifySecondFactor(prisma, user.id, code.trim());
+    } else {
+      recoveryCodes = await prisma.$transaction((tx) => completeTwoFactorEnrollment(tx, user.id, code.trim()));
+    }
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return errorResponse(error.message, error.status);
+    }
+    throw error;
+  }
+
+  return issueSession(request, user, recoveryCodes ? { recoveryCodes } : {});
 }
 
 export async function POST(request: NextRequest) {
@@ -77,18 +140,19 @@ export async function POST(request: NextRequest) {
     const clientIP = getClientIP(request);
     console.log('[LOGIN API] Client IP:', clientIP);
 
-    // Check rate limit
-    if (!checkRateLimit(clientIP)) {
+    // ✅ SECURITY: Shared rate limit per IP
+    const ipLimited = await enforceRateLimit(RATE_LIMIT_POLICIES.LOGIN_IP, clientIP);
+    if (ipLimited) {
       console.log('[LOGIN API] Rate limit exceeded for IP:', clientIP);
-      const response = NextResponse.json(
-        { error: { message: "Too many login attempts. Please try again later.", details: null } },
-        { status: 429 }
-      );
-      addSecurityHeaders(response);
-      return response;
+      addSecurityHeaders(ipLimited);
+      return ipLimited;
     }
 
-    const { email, password } = await request.json();
+    const { email, password, challengeToken, code } = await request.json();
+
+    if (typeof challengeToken === "string" && challengeToken) {
+      return await completeTwoFactorLogin(request, challengeToken, code);
+    }
 
     if (!email || !password) {
       const response = NextResponse.json(
@@ -99,6 +163,13 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
+    // ✅ SECURITY: Per-account limit, also for unknown e-mails so it does not reveal which exist
+    const accountLimited = await enforceRateLimit(RATE_LIMIT_POLICIES.LOGIN_ACCOUNT, String(email));
+    if (accountLimited) {
+      addSecurityHeaders(accountLimited);
+      return accountLimited;
+    }
+
     // Find user by email
     const user = await prisma.user.findUnique({
       where: { email },
@@ -108,6 +179,8 @@ export async function POST(request: NextRequest) {
         name: true,
         role: true,
         password: true,
+        lockedUntil: true,
+        totpEnabledAt: true,
       },
     });
 
@@ -120,9 +193,24 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
+    // ✅ SECURITY: Locked accounts are refused without checking the password
+    if (isAccountLocked(user)) {
+      const response = NextResponse.json(
+        { error: { message: "Account temporarily locked after too many failed attempts. Try again later or contact an administrator.", details: null } },
+        { status: 423 }
+      );
+      addSecurityHeaders(response);
+      return response;
+    }
+
     // Verify password
     const isValidPassword = await bcrypt.compare(password, user.password);
     if (!isValidPassword) {
+      const lockedUntil = await recordFailedLogin(prisma, user.id);
+      if (lockedUntil) {
+        console.log('[LOGIN API] Account locked until', lockedUntil.toISOString(), 'for user:', user.id);
+      }
+
       const response = NextResponse.json(
         { error: { message: "Invalid credentials", details: null } },
         { status: 401 }
@@ -131,55 +219,26 @@ export async function POST(request: NextRequest) {
       return response;
     }
 
-    // Generate tokens
-    const accessToken = jwt.sign(
-      {
-        userId: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-      },
-      JWT_SECRET!,
-      { expiresIn: "15m" }
-    );
-
-    const refreshToken = jwt.sign(
-      { userId: user.id },
-      JWT_REFRESH_SECRET!,
-      { expiresIn: "7d" }
-    );
-
-    // Remove password from response without unused var
-    const userWithoutPassword = (({ password, ...rest }) => { void password; return rest; })(user);
-
-    const response = NextResponse.json({
-      data: {
-        accessToken,
-        refreshToken,
-        user: userWithoutPassword,
-      },
-      error: null,
-    });
-
-    // Set access token as httpOnly cookie (XSS protection)
-    response.cookies.set("accessToken", accessToken, {
-      httpOnly: true, // ✅ CRITICAL FIX - Prevent XSS access
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 15 * 60, // 15 minutes (matches token expiry)
-      path: "/", // Ensure cookie is available for all routes
-    });
-
-    // Set refresh token as httpOnly cookie
-    response.cookies.set("refreshToken", refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 7 * 24 * 60 * 60, // 7 days
-    });
+    await recordSuccessfulLogin(prisma, user.id);
+
+    // ✅ SECURITY: Enrolled users, and users the 2FA policy applies to, need a second step
+    const enrollmentRequired = !user.totpEnabledAt && isTwoFactorRequired(await resolveRole(prisma, user.role));
+    if (user.totpEnabledAt || enrollmentRequired) {
+      const response = NextResponse.json({
+        data: {
+          twoFactorRequired: true,
+          enrollmentRequired,
+          challengeToken: await generateTwoFactorChallenge(user.id),
+        },
+        error: null,
+      });
+      // The enrollment call of the next step is CSRF-checked
+      ensureCsrfCookie(request, response);
+      addSecurityHeaders(response);
+      return response;
+    }
 
-    addSecurityHeaders(response);
-    return response;
+    return await issueSession(request, user);
   } catch (error) {
     console.error("[LOGIN API] Login error:", error);
     console.error("[LOGIN API] Error stack:", error instanceof Error ? error.stack : 'No stack trace');
@@ -1,27 +1,22 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { revokeSessionByToken, SESSION_REVOKE_REASONS } from "@/lib/sessions";
+import { clearAuthCookies } from "@/lib/auth-cookies";
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    // ✅ SECURITY: Revoke the server-side session so the refresh token cannot be used again
+    const refreshToken = request.cookies.get("refreshToken")?.value;
+    if (refreshToken) {
+      await revokeSessionByToken(prisma, refreshToken, SESSION_REVOKE_REASONS.LOGOUT);
+    }
+
     const response = NextResponse.json({
       data: { message: "Logged out successfully" },
       error: null,
     });
 
-    // Clear access token cookie
-    response.cookies.set("accessToken", "", {
-      httpOnly: false,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 0, // Expire immediately
-    });
-
-    // Clear refresh token cookie
-    response.cookies.set("refreshToken", "", {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 0, // Expire immediately
-    });
+    clearAuthCookies(response);
 
     return response;
   } catch (error) {
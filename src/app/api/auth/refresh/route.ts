@@ -1,22 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
-import { jwtVerify } from "jose";
 import { prisma } from "@/lib/prisma";
-import { generateTokenPair } from "@/lib/unified-auth";
-import { Role } from "@/lib/rbac";
+import { generateAccessToken, verifyRefreshToken } from "@/lib/unified-auth";
+import { clearRefreshTokenCookie, setAuthCookies } from "@/lib/auth-cookies";
+import { rotateRefreshToken, SessionError } from "@/lib/sessions";
+import { getClientIP, getClientInfo } from "@/lib/client-info";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/server-rate-limit";
+import { resolveRole } from "@/lib/roles";
 
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || "your-refresh-secret-key";
-
-// Validate refresh secret
-if (!JWT_REFRESH_SECRET || JWT_REFRESH_SECRET.length < 32) {
-  throw new Error("JWT_REFRESH_SECRET must be set and at least 32 characters long");
+function unauthorized(message: string) {
+  const response = NextResponse.json(
+    { error: { message, details: null } },
+    { status: 401 }
+  );
+  // Drop the unusable token so the client stops retrying with it
+  clearRefreshTokenCookie(response);
+  return response;
 }
 
-const refreshSecretKey = new TextEncoder().encode(JWT_REFRESH_SECRET);
-
 export async function POST(request: NextRequest) {
   const startTime = performance.now();
   
   try {
+    // ✅ SECURITY: Limit refresh attempts per IP
+    const limited = await enforceRateLimit(RATE_LIMIT_POLICIES.REFRESH_IP, getClientIP(request));
+    if (limited) {
+      return limited;
+    }
+
     // Get refresh token from cookie
     const refreshToken = request.cookies.get("refreshToken")?.value;
 
@@ -27,22 +38,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify refresh token using jose for consistency
-    let decoded;
+    // Cheap signature check before touching the session store
+    if (!(await verifyRefreshToken(refreshToken))) {
+      return unauthorized("Invalid refresh token");
+    }
+
+    // ✅ SECURITY: Single-use tokens; reusing a consumed token revokes the session
+    let rotated;
     try {
-      const { payload } = await jwtVerify(refreshToken, refreshSecretKey);
-      decoded = payload as { userId: number };
+      rotated = await rotateRefreshToken(prisma, refreshToken, getClientInfo(request));
     } catch (error) {
-      void error;
-      return NextResponse.json(
-        { error: { message: "Invalid refresh token", details: null } },
-        { status: 401 }
-      );
+      if (error instanceof SessionError) {
+        return unauthorized(error.message);
+      }
+      throw error;
     }
 
     // Optimized database query - only check existence and get essential user data
     const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
+      where: { id: rotated.userId },
       select: {
         id: true,
         email: true,
@@ -52,44 +66,27 @@ export async function POST(request: NextRequest) {
     });
 
     if (!user) {
-      return NextResponse.json(
-        { error: { message: "User not found", details: null } },
-        { status: 401 }
-      );
+      return unauthorized("User not found");
     }
 
-    // Generate both tokens in parallel for performance optimization
-    const { accessToken, refreshToken: newRefreshToken } = await generateTokenPair({
+    // Role and permissions are read from the database, so changes apply from the next refresh
+    const { permissions } = await resolveRole(prisma, user.role);
+    const accessToken = await generateAccessToken({
       userId: user.id,
       email: user.email,
       name: user.name,
-      role: user.role as Role, // Cast Prisma enum to RBAC enum
+      role: user.role,
+      permissions,
     });
 
     const response = NextResponse.json({
       data: {
-        accessToken,
-        refreshToken: newRefreshToken,
-        user,
+        user: { ...user, permissions },
       },
       error: null,
     });
 
-    // Set new access token as regular cookie (readable by client)
-    response.cookies.set("accessToken", accessToken, {
-      httpOnly: false, // Allow client to read for auth context
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 15 * 60, // 15 minutes (matches token expiry)
-    });
-
-    // Update refresh token cookie (HttpOnly for security)
-    response.cookies.set("refreshToken", newRefreshToken, {
-      httpOnly: true, // Secure from XSS attacks
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 7 * 24 * 60 * 60, // 7 days
-    });
+    setAuthCookies(request, response, { accessToken, refreshToken: rotated.refreshToken });
 
     // Performance monitoring in development
     if (process.env.NODE_ENV === 'development') {
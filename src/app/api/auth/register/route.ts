@@ -3,13 +3,30 @@ import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { prisma } from "@/lib/prisma";
 import { Role } from "@/lib/rbac";
+import { getClientIP, getClientInfo } from "@/lib/client-info";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/server-rate-limit";
+import { issueUserToken } from "@/lib/user-tokens";
+import { appUrl, sendMail } from "@/lib/mailer";
+import { emailVerificationEmail } from "@/lib/mail/templates";
+import { createSession } from "@/lib/sessions";
+import { ensureCsrfCookie, setAuthCookies } from "@/lib/auth-cookies";
+import { resolveRole } from "@/lib/roles";
+import { generateTwoFactorChallenge } from "@/lib/unified-auth";
+import { isTwoFactorRequired } from "@/lib/two-factor";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || "your-refresh-secret-key";
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password, name, role } = await request.json();
+    // ✅ SECURITY: Limit account creation per IP
+    const limited = await enforceRateLimit(RATE_LIMIT_POLICIES.REGISTER_IP, getClientIP(request));
+    if (limited) {
+      return limited;
+    }
+
+    // ✅ SECURITY: Any role in the body is ignored; self-registration only creates USER accounts
+    const { email, password, name } = await request.json();
 
     if (!email || !password || !name) {
       return NextResponse.json(
@@ -30,18 +47,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate role if provided
-    let userRole = Role.USER; // Default role
-    if (role) {
-      if (!Object.values(Role).includes(role)) {
-        return NextResponse.json(
-          { error: { message: "Invalid role specified", details: null } },
-          { status: 400 }
-        );
-      }
-      userRole = role;
-    }
-
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 12);
 
@@ -51,7 +56,7 @@ export async function POST(request: NextRequest) {
         email,
         password: hashedPassword,
         name,
-        role: userRole,
+        role: Role.USER,
       },
       select: {
         id: true,
@@ -63,48 +68,54 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Confirm the address; the account works meanwhile
+    const verificationToken = await issueUserToken(prisma, user.id, "EMAIL_VERIFICATION");
+    const verificationSent = await sendMail(
+      emailVerificationEmail(user.email, user.name, appUrl(request, "/verify-email", { token: verificationToken }))
+    );
+
+    // ✅ SECURITY: When the 2FA policy covers USER, enroll through the login challenge first
+    const resolvedRole = await resolveRole(prisma, user.role);
+    if (isTwoFactorRequired(resolvedRole)) {
+      const response = NextResponse.json({
+        data: {
+          twoFactorRequired: true,
+          enrollmentRequired: true,
+          challengeToken: await generateTwoFactorChallenge(user.id),
+          verificationSent,
+        },
+        error: null,
+      });
+      // The enrollment call of the next step is CSRF-checked
+      ensureCsrfCookie(request, response);
+      return response;
+    }
+
     // Generate tokens
+    const { permissions } = resolvedRole;
     const accessToken = jwt.sign(
       {
         userId: user.id,
         email: user.email,
         name: user.name,
         role: user.role,
+        permissions,
       },
       JWT_SECRET,
       { expiresIn: "15m" }
     );
 
-    const refreshToken = jwt.sign(
-      { userId: user.id },
-      JWT_REFRESH_SECRET,
-      { expiresIn: "7d" }
-    );
+    const { refreshToken } = await createSession(prisma, user.id, getClientInfo(request));
 
     const response = NextResponse.json({
       data: {
-        accessToken,
-        refreshToken,
-        user,
+        user: { ...user, permissions },
+        verificationSent,
       },
       error: null,
     });
 
-    // Set access token as regular cookie (readable by client)
-    response.cookies.set("accessToken", accessToken, {
-      httpOnly: false, // Allow client to read
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 15 * 60, // 15 minutes (matches token expiry)
-    });
-
-    // Set refresh token as httpOnly cookie
-    response.cookies.set("refreshToken", refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "strict",
-      maxAge: 7 * 24 * 60 * 60, // 7 days
-    });
+    setAuthCookies(request, response, { accessToken, refreshToken });
 
     return response;
   } catch (error) {
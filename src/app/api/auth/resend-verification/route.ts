@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getClientIP } from "@/lib/client-info";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/server-rate-limit";
+import { issueUserToken } from "@/lib/user-tokens";
+import { appUrl, sendMail } from "@/lib/mailer";
+import { emailVerificationEmail } from "@/lib/mail/templates";
+import { ForgotPasswordSchema } from "@/lib/validation";
+
+// POST /api/auth/resend-verification - E-mail a new verification link
+export async function POST(request: NextRequest) {
+  try {
+    const ipLimited = await enforceRateLimit(RATE_LIMIT_POLICIES.EMAIL_LINK_IP, getClientIP(request));
+    if (ipLimited) {
+      return ipLimited;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = ForgotPasswordSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { message: "Dados inválidos", details: parsed.error.flatten() } },
+        { status: 400 }
+      );
+    }
+
+    const { email } = parsed.data;
+    const accountLimited = await enforceRateLimit(RATE_LIMIT_POLICIES.EMAIL_LINK_ACCOUNT, email);
+    if (accountLimited) {
+      return accountLimited;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, name: true, email: true, emailVerifiedAt: true },
+    });
+
+    if (user && !user.emailVerifiedAt) {
+      const token = await issueUserToken(prisma, user.id, "EMAIL_VERIFICATION");
+      await sendMail(emailVerificationEmail(user.email, user.name, appUrl(request, "/verify-email", { token })));
+    }
+
+    // ✅ SECURITY: Same answer whether or not the account exists or is already verified
+    return NextResponse.json({
+      data: { message: "If the e-mail needs verification, a new link has been sent" },
+      error: null,
+    });
+  } catch (error) {
+    console.error("Resend verification error:", error);
+    return NextResponse.json(
+      { error: { message: "Internal server error", details: null } },
+      { status: 500 }
+    );
+  }
+}
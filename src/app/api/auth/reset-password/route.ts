@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { prisma } from "@/lib/prisma";
+import { getClientIP } from "@/lib/client-info";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/server-rate-limit";
+import { consumeUserToken, UserTokenError } from "@/lib/user-tokens";
+import { revokeUserSessions, SESSION_REVOKE_REASONS } from "@/lib/sessions";
+import { ResetPasswordSchema } from "@/lib/validation";
+
+// POST /api/auth/reset-password - Set a new password with a mailed token
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await enforceRateLimit(RATE_LIMIT_POLICIES.EMAIL_TOKEN_IP, getClientIP(request));
+    if (limited) {
+      return limited;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = ResetPasswordSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { message: "Dados inválidos", details: parsed.error.flatten() } },
+        { status: 400 }
+      );
+    }
+
+    const hashedPassword = await bcrypt.hash(parsed.data.password, 12);
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      const userId = await consumeUserToken(tx, parsed.data.token, "PASSWORD_RESET", now);
+
+      // The reset also lifts a lockout, and following the link proves the e-mail address
+      await tx.user.update({
+        where: { id: userId },
+        data: { password: hashedPassword, failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null },
+      });
+      await tx.user.updateMany({
+        where: { id: userId, emailVerifiedAt: null },
+        data: { emailVerifiedAt: now },
+      });
+
+      // ✅ SECURITY: Sign out every device that used the old password
+      await revokeUserSessions(tx, userId, SESSION_REVOKE_REASONS.PASSWORD_RESET);
+    });
+
+    return NextResponse.json({
+      data: { message: "Password updated successfully" },
+      error: null,
+    });
+  } catch (error) {
+    if (error instanceof UserTokenError) {
+      return NextResponse.json(
+        { error: { message: error.message, details: null } },
+        { status: error.status }
+      );
+    }
+    console.error("Reset password error:", error);
+    return NextResponse.json(
+      { error: { message: "Internal server error", details: null } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/server-auth";
+import { Permission } from "@/lib/rbac";
+import { handleApiError } from "@/lib/api-auth";
+import { clearRefreshTokenCookie } from "@/lib/auth-cookies";
+import { findSessionIdByToken, revokeSession, SESSION_REVOKE_REASONS } from "@/lib/sessions";
+
+// DELETE /api/auth/sessions/[id] - Revoke one of the current user's sessions
+export const DELETE = withPermission<{ id: string }>(Permission.WRITE_PROFILE, async (request, { params, user }) => {
+  try {
+    const { id: paramId } = await params;
+    const sessionId = parseInt(paramId);
+    if (isNaN(sessionId)) {
+      return NextResponse.json(
+        { error: { message: "Invalid session ID", details: null } },
+        { status: 400 }
+      );
+    }
+
+    // ✅ SECURITY: Only the owner's sessions; other users' sessions look like missing ones
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId: user.userId, revokedAt: null },
+      select: { id: true },
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        { error: { message: "Session not found", details: null } },
+        { status: 404 }
+      );
+    }
+
+    await revokeSession(prisma, session.id, SESSION_REVOKE_REASONS.USER_REVOKED);
+
+    const response = NextResponse.json({
+      data: { message: "Session revoked" },
+      error: null,
+    });
+
+    // Revoking the session in use is a logout
+    const refreshToken = request.cookies.get("refreshToken")?.value;
+    if ((await findSessionIdByToken(prisma, refreshToken)) === session.id) {
+      clearRefreshTokenCookie(response);
+    }
+
+    return response;
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/server-auth";
+import { Permission } from "@/lib/rbac";
+import { handleApiError } from "@/lib/api-auth";
+import { findSessionIdByToken, listActiveSessions } from "@/lib/sessions";
+
+// GET /api/auth/sessions - Active logins of the current user
+// Lives under /api/auth because the refresh cookie, which identifies the current session, is scoped to it.
+export const GET = withPermission(Permission.READ_PROFILE, async (request, { user }) => {
+  try {
+    const currentSessionId = await findSessionIdByToken(prisma, request.cookies.get("refreshToken")?.value);
+    const sessions = await listActiveSessions(prisma, user.userId, currentSessionId);
+
+    return NextResponse.json({
+      data: sessions,
+      error: null,
+    });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
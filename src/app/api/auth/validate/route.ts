@@ -1,9 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getUserFromRequest } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getUserFromRequest } from "@/lib/unified-auth";
+import { ensureCsrfCookie } from "@/lib/auth-cookies";
 
+// GET /api/auth/validate - Session bootstrap for AuthProvider
+// The access cookie is httpOnly, so the browser asks the server who it is.
+// A 401 tells the client to try /api/auth/refresh.
 export async function GET(request: NextRequest) {
   try {
-    const user = getUserFromRequest(request);
+    const claims = await getUserFromRequest(request);
+
+    if (!claims) {
+      return NextResponse.json(
+        { error: { message: "Invalid token", details: null } },
+        { status: 401 }
+      );
+    }
+
+    // Fresh profile data; a deleted account stops here even with a valid token
+    const user = await prisma.user.findUnique({
+      where: { id: claims.userId },
+      select: { id: true, email: true, name: true, role: true },
+    });
 
     if (!user) {
       return NextResponse.json(
@@ -12,10 +30,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
-      data: { user },
+    // Permissions as carried by the token, i.e. what the API will allow
+    const response = NextResponse.json({
+      data: { user: { ...user, permissions: claims.permissions } },
       error: null,
     });
+
+    // Sessions opened before CSRF protection have no token yet
+    ensureCsrfCookie(request, response);
+    return response;
   } catch (error) {
     console.error("Token validation error:", error);
     return NextResponse.json(
@@ -23,4 +46,4 @@ export async function GET(request: NextRequest) {
       { status: 401 }
     );
   }
-}
\ No newline at end of file
+}
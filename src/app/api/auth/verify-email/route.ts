@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getClientIP } from "@/lib/client-info";
+import { RATE_LIMIT_POLICIES } from "@/lib/rate-limit";
+import { enforceRateLimit } from "@/lib/server-rate-limit";
+import { consumeUserToken, UserTokenError } from "@/lib/user-tokens";
+import { VerifyEmailSchema } from "@/lib/validation";
+
+// POST /api/auth/verify-email - Confirm the e-mail address with a mailed token
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await enforceRateLimit(RATE_LIMIT_POLICIES.EMAIL_TOKEN_IP, getClientIP(request));
+    if (limited) {
+      return limited;
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = VerifyEmailSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { message: "Dados inválidos", details: parsed.error.flatten() } },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      const userId = await consumeUserToken(tx, parsed.data.token, "EMAIL_VERIFICATION", now);
+      await tx.user.updateMany({
+        where: { id: userId, emailVerifiedAt: null },
+        data: { emailVerifiedAt: now },
+      });
+    });
+
+    return NextResponse.json({
+      data: { message: "E-mail verified successfully" },
+      error: null,
+    });
+  } catch (error) {
+    if (error instanceof UserTokenError) {
+      return NextResponse.json(
+        { error: { message: error.message, details: null } },
+        { status: error.status }
+      );
+    }
+    console.error("Verify e-mail error:", error);
+    return NextResponse.json(
+      { error: { message: "Internal server error", details: null } },
+      { status: 500 }
+    );
+  }
+}
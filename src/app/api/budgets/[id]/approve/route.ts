@@ -1,19 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from "@/lib/prisma";
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { BudgetStatusCommentSchema } from "@/lib/validation";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { recordBudgetStatusEvent } from '@/lib/budget-history';
 
-export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const POST = withPermission<{ id: string }>(Permission.APPROVE_BUDGETS, async (req, { params, user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Budget approval requires MODERATOR or ADMIN role
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to approve budgets', 403);
-    }
-
     const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id) || id <= 0) {
@@ -22,6 +16,18 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
       }, { status: 400 });
     }
 
+    // Body is optional; it may carry a comment for the workflow history
+    const json = await req.json().catch(() => ({}));
+    const parsed = BudgetStatusCommentSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: {
+          message: "Dados inválidos",
+          details: parsed.error.flatten()
+        }
+      }, { status: 400 });
+    }
+
     const budget = await prisma.budget.findUnique({ 
       where: { id },
       include: {
@@ -75,19 +81,32 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
     }
 
     // Update budget status to APPROVED with audit trail
-    const updatedBudget = await prisma.budget.update({
-      where: { id },
-      data: { 
-        status: 'APPROVED',
-        approvedAt: new Date(),
-        approvedById: user.userId,
-        approved: true // Keep legacy field for compatibility
-      },
-      include: {
-        client: { select: { id: true, name: true } },
-        center: { select: { id: true, name: true } },
-        approvedBy: { select: { id: true, name: true } }
-      }
+    const updatedBudget = await prisma.$transaction(async (tx) => {
+      const approved = await tx.budget.update({
+        where: { id },
+        data: { 
+          status: 'APPROVED',
+          approvedAt: new Date(),
+          approvedById: user.userId,
+          approved: true // Keep legacy field for compatibility
+        },
+        include: {
+          client: { select: { id: true, name: true } },
+          center: { select: { id: true, name: true } },
+          approvedBy: { select: { id: true, name: true } }
+        }
+      });
+
+      await recordBudgetStatusEvent(tx, {
+        budgetId: id,
+        action: 'APPROVE',
+        fromStatus: budget.status,
+        toStatus: 'APPROVED',
+        actorId: user.userId,
+        comment: parsed.data.comment,
+      });
+
+      return approved;
     });
 
     return NextResponse.json({
@@ -99,5 +118,5 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
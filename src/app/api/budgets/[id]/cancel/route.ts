@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import prisma from "@/lib/prisma";
+import { BudgetStatusCommentSchema } from "@/lib/validation";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { recordBudgetStatusEvent } from '@/lib/budget-history';
+import type { BudgetStatus } from '@/generated/prisma';
+
+const CANCELLABLE_STATUSES: BudgetStatus[] = ['DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED'];
+
+export const POST = withPermission<{ id: string }>(Permission.WRITE_BUDGETS, async (req, { params, user }) => {
+  try {
+    const { id: paramId } = await params;
+    const id = Number(paramId);
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({
+        error: { message: "ID inválido", details: null }
+      }, { status: 400 });
+    }
+
+    const json = await req.json().catch(() => ({}));
+    const parsed = BudgetStatusCommentSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: {
+          message: "Dados inválidos",
+          details: parsed.error.flatten()
+        }
+      }, { status: 400 });
+    }
+
+    const budget = await prisma.budget.findUnique({ where: { id } });
+
+    if (!budget) {
+      return NextResponse.json({
+        error: { message: "Orçamento não encontrado", details: null }
+      }, { status: 404 });
+    }
+
+    // ✅ VALIDATION: Converted or already cancelled budgets cannot be cancelled
+    if (!CANCELLABLE_STATUSES.includes(budget.status)) {
+      return NextResponse.json({
+        error: { message: "Este orçamento não pode ser cancelado", details: null }
+      }, { status: 400 });
+    }
+
+    const updatedBudget = await prisma.$transaction(async (tx) => {
+      const cancelled = await tx.budget.update({
+        where: { id },
+        data: { 
+          status: 'CANCELLED',
+          cancelledAt: new Date()
+        },
+        include: {
+          client: { select: { id: true, name: true } },
+          center: { select: { id: true, name: true } }
+        }
+      });
+
+      await recordBudgetStatusEvent(tx, {
+        budgetId: id,
+        action: 'CANCEL',
+        fromStatus: budget.status,
+        toStatus: 'CANCELLED',
+        actorId: user.userId,
+        comment: parsed.data.comment,
+      });
+
+      return cancelled;
+    });
+
+    return NextResponse.json({
+      data: updatedBudget,
+      error: null
+    });
+    
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
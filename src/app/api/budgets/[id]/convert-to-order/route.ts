@@ -1,18 +1,19 @@
-// src/app/api/budgets/[id]/convert-to-order/route.ts - CREATE NEW FILE
-
-import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { requireApiAuth } from '@/lib/server-auth';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withPermission } from '@/lib/server-auth';
+import { Permission } from '@/lib/rbac';
 import { handleApiError } from '@/lib/api-auth';
-import { generateNumeroPedido } from '@/lib/order-number';
+import { convertBudgetToOrder, BudgetConversionError } from '@/lib/budget-conversion';
+import { withIdempotency } from '@/lib/idempotency';
+
+const ConvertToOrderSchema = z.object({
+  obs_producao: z.string().optional(),
+  responsavel_producao: z.string().optional()
+});
 
-export async function POST(
-  req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const POST = withPermission<{ id: string }>(Permission.CREATE_ORDERS, async (req, { params, user }) => {
   try {
-    const user = await requireApiAuth(req);
-    const { id } = await context.params;
+    const { id } = await params;
     const budgetId = parseInt(id, 10);
 
     if (Number.isNaN(budgetId)) {
@@ -21,79 +22,43 @@ export async function POST(
         { status: 400 }
       );
     }
-    const { obs_producao, responsavel_producao } = await req.json();
 
-    // Check if user can convert to order (MODERATOR or ADMIN)
-    if (user.role === 'USER') {
-      return NextResponse.json(
-        { error: { message: 'Acesso negado. Apenas moderadores e administradores podem converter orçamentos.' } },
-        { status: 403 }
-      );
-    }
-
-    // Validate budget
-    const budget = await prisma.budget.findUnique({
-      where: { id: budgetId },
-      include: { order: true }
-    });
+    const body = await req.json().catch(() => ({}));
+    const { obs_producao, responsavel_producao } = ConvertToOrderSchema.parse(body);
 
-    if (!budget) {
-      return NextResponse.json(
-        { error: { message: 'Orçamento não encontrado' } },
-        { status: 404 }
-      );
-    }
-
-    if (budget.status !== 'APPROVED') {
-      return NextResponse.json(
-        { error: { message: 'Apenas orçamentos aprovados podem ser convertidos em ordens' } },
-        { status: 400 }
-      );
-    }
-
-    if (budget.order) {
-      return NextResponse.json(
-        { error: { message: 'Este orçamento já possui uma ordem associada' } },
-        { status: 400 }
-      );
-    }
-
-    // Create order
-    const order = await prisma.order.create({
-      data: {
-        budgetId,
-        numero_pedido: await generateNumeroPedido('ORDER'),
-        orderType: 'BUDGET_DERIVED',
-        obs_producao,
-        responsavel_producao,
-        status: 'PENDING'
+    return await withIdempotency(
+      req,
+      {
+        scope: 'POST /api/budgets/convert-to-order',
+        userId: user.userId,
+        fingerprint: { budgetId, obs_producao, responsavel_producao },
       },
-      include: {
-        budget: {
-          include: {
-            client: true,
-            center: true
-          }
-        }
-      }
-    });
+      async () => {
+        const order = await convertBudgetToOrder({
+          budgetId,
+          actorId: user.userId,
+          obs_producao,
+          responsavel_producao,
+        });
 
-    // Mark budget as converted
-    await prisma.budget.update({
-      where: { id: budgetId },
-      data: { 
-        status: 'CONVERTED',
-        convertedAt: new Date()
+        return {
+          status: 200,
+          body: {
+            data: order,
+            message: 'Orçamento convertido em ordem com sucesso!'
+          },
+        };
       }
-    });
-
-    return NextResponse.json({ 
-      data: order,
-      message: 'Orçamento convertido em ordem com sucesso!'
-    });
+    );
   } catch (error) {
+    if (error instanceof BudgetConversionError) {
+      return NextResponse.json(
+        { error: { message: error.message, details: null } },
+        { status: error.status }
+      );
+    }
     console.error('Error converting budget to order:', error);
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
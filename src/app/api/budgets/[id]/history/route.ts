@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withPermission } from '@/lib/server-auth';
+import { Permission } from '@/lib/rbac';
+import { handleApiError, applyUserFilter } from '@/lib/api-auth';
+
+function parseId(raw: string) {
+  const id = Number.parseInt(raw, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export const GET = withPermission<{ id: string }>(Permission.READ_BUDGETS, async (req, { params, user }) => {
+  try {
+    const { id: rawId } = await params;
+    const id = parseId(rawId);
+    if (!id) {
+      return NextResponse.json(
+        { error: { message: 'ID invalido', details: null } },
+        { status: 400 }
+      );
+    }
+
+    // ✅ SECURITY: USER role only sees budgets they created or are assigned to
+    const budget = await prisma.budget.findFirst({ where: applyUserFilter(user, { id }), select: { id: true } });
+    if (!budget) {
+      return NextResponse.json(
+        { error: { message: 'Orcamento nao encontrado', details: null } },
+        { status: 404 }
+      );
+    }
+
+    const events = await prisma.budgetStatusEvent.findMany({
+      where: { budgetId: id },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        actor: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    return NextResponse.json({ data: events, error: null });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
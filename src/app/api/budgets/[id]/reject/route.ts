@@ -1,20 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from "@/lib/prisma";
 import { BudgetRejectSchema } from "@/lib/validation";
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { recordBudgetStatusEvent } from '@/lib/budget-history';
 
-export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const POST = withPermission<{ id: string }>(Permission.APPROVE_BUDGETS, async (req, { params, user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Budget rejection requires MODERATOR or ADMIN role
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to reject budgets', 403);
-    }
-
     const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id) || id <= 0) {
@@ -23,7 +16,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
       }, { status: 400 });
     }
 
-    const json = await req.json();
+    const json = await req.json().catch(() => ({}));
     const parsed = BudgetRejectSchema.safeParse(json);
     if (!parsed.success) {
       return NextResponse.json({
@@ -57,22 +50,35 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
       }, { status: 400 });
     }
 
-    // Update budget status to REJECTED with audit trail
-    const updatedBudget = await prisma.budget.update({
-      where: { id },
-      data: { 
-        status: 'REJECTED',
-        rejectedAt: new Date(),
-        rejectedById: user.userId,
-        observacoes: budget.observacoes 
-          ? `${budget.observacoes}\n\nRejeitado em ${new Date().toLocaleDateString('pt-BR')}: ${reason}`
-          : `Rejeitado em ${new Date().toLocaleDateString('pt-BR')}: ${reason}`
-      },
-      include: {
-        client: { select: { id: true, name: true } },
-        center: { select: { id: true, name: true } },
-        rejectedBy: { select: { id: true, name: true } }
-      }
+    // Update budget status to REJECTED and keep the reason in the workflow history
+    const updatedBudget = await prisma.$transaction(async (tx) => {
+      const rejected = await tx.budget.update({
+        where: { id },
+        data: { 
+          status: 'REJECTED',
+          rejectedAt: new Date(),
+          rejectedById: user.userId,
+          observacoes: budget.observacoes 
+            ? `${budget.observacoes}\n\nRejeitado em ${new Date().toLocaleDateString('pt-BR')}: ${reason}`
+            : `Rejeitado em ${new Date().toLocaleDateString('pt-BR')}: ${reason}`
+        },
+        include: {
+          client: { select: { id: true, name: true } },
+          center: { select: { id: true, name: true } },
+          rejectedBy: { select: { id: true, name: true } }
+        }
+      });
+
+      await recordBudgetStatusEvent(tx, {
+        budgetId: id,
+        action: 'REJECT',
+        fromStatus: budget.status,
+        toStatus: 'REJECTED',
+        actorId: user.userId,
+        comment: reason,
+      });
+
+      return rejected;
     });
 
     return NextResponse.json({
@@ -84,4 +90,4 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
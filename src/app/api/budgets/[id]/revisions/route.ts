@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withPermission } from '@/lib/server-auth';
+import { Permission } from '@/lib/rbac';
+import { handleApiError, applyUserFilter } from '@/lib/api-auth';
+import { diffBudgetSnapshots, type BudgetSnapshot } from '@/lib/budget-revisions';
+
+function parseId(raw: string) {
+  const id = Number.parseInt(raw, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export const GET = withPermission<{ id: string }>(Permission.READ_BUDGETS, async (req, { params, user }) => {
+  try {
+    const { id: rawId } = await params;
+    const id = parseId(rawId);
+    if (!id) {
+      return NextResponse.json(
+        { error: { message: 'ID invalido', details: null } },
+        { status: 400 }
+      );
+    }
+
+    // ✅ SECURITY: USER role only sees budgets they created or are assigned to
+    const budget = await prisma.budget.findFirst({ where: applyUserFilter(user, { id }), select: { id: true } });
+    if (!budget) {
+      return NextResponse.json(
+        { error: { message: 'Orcamento nao encontrado', details: null } },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await prisma.budgetRevision.findMany({
+      where: { budgetId: id },
+      orderBy: { revision: 'asc' },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+
+    // Each revision carries the changes relative to the one before it
+    const data = revisions.map((revision, index) => {
+      const snapshot = revision.snapshot as Partial<BudgetSnapshot>;
+      const previous = index > 0 ? (revisions[index - 1].snapshot as Partial<BudgetSnapshot>) : null;
+      return {
+        ...revision,
+        changes: previous ? diffBudgetSnapshots(previous, snapshot) : [],
+      };
+    });
+
+    return NextResponse.json({ data, error: null });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
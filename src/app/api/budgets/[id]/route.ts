@@ -1,9 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { BudgetSchema } from '@/lib/validation';
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, applyUserFilter, ApiAuthError, hasPermission } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { OWNER_SELECT, isAssignableUser } from '@/lib/ownership';
+import { ClientContactError, resolveRequesterContact } from '@/lib/client-contacts';
 
 const BUDGET_RELATIONS = {
   client: {
@@ -15,6 +17,15 @@ const BUDGET_RELATIONS = {
       phone: true,
     },
   },
+  contact: {
+    select: {
+      id: true,
+      name: true,
+      role: true,
+      email: true,
+      phone: true,
+    },
+  },
   center: {
     select: {
       id: true,
@@ -29,6 +40,7 @@ const BUDGET_RELATIONS = {
       status: true,
     },
   },
+  ...OWNER_SELECT,
 } as const;
 
 function parseId(raw: string) {
@@ -36,14 +48,9 @@ function parseId(raw: string) {
   return Number.isInteger(id) && id > 0 ? id : null;
 }
 
-export async function GET(
-  req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const GET = withPermission<{ id: string }>(Permission.READ_BUDGETS, async (req, { params, user }) => {
   try {
-    await requireApiAuth(req);
-
-    const { id: rawId } = await context.params;
+    const { id: rawId } = await params;
     const id = parseId(rawId);
     if (!id) {
       return NextResponse.json(
@@ -52,8 +59,9 @@ export async function GET(
       );
     }
 
-    const budget = await prisma.budget.findUnique({
-      where: { id },
+    // ✅ SECURITY: USER role only sees budgets they created or are assigned to
+    const budget = await prisma.budget.findFirst({
+      where: applyUserFilter(user, { id }),
       include: BUDGET_RELATIONS,
     });
 
@@ -72,20 +80,11 @@ export async function GET(
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function PUT(
-  req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const PUT = withPermission<{ id: string }>(Permission.WRITE_BUDGETS, async (req, { params, user }) => {
   try {
-    const user = await requireApiAuth(req);
-
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to update budgets', 403);
-    }
-
-    const { id: rawId } = await context.params;
+    const { id: rawId } = await params;
     const id = parseId(rawId);
     if (!id) {
       return NextResponse.json(
@@ -108,7 +107,11 @@ export async function PUT(
       );
     }
 
-    const existingBudget = await prisma.budget.findUnique({ where: { id } });
+    // ✅ SECURITY: USER role can only update budgets they created or are assigned to
+    const existingBudget = await prisma.budget.findFirst({
+      where: applyUserFilter(user, { id }),
+      select: { assignedToUserId: true },
+    });
     if (!existingBudget) {
       return NextResponse.json(
         { error: { message: 'Orcamento nao encontrado', details: null } },
@@ -116,8 +119,29 @@ export async function PUT(
       );
     }
 
+    // ✅ SECURITY: Only MODERATOR/ADMIN can reassign budgets; the form sends the
+    // current assignee back unchanged
+    const { assignedToUserId } = parsed.data;
+    if (
+      assignedToUserId !== undefined &&
+      assignedToUserId !== existingBudget.assignedToUserId &&
+      !hasPermission(user, Permission.ASSIGN_RECORDS)
+    ) {
+      throw new ApiAuthError('Insufficient permissions to reassign budgets', 403);
+    }
+    if (!(await isAssignableUser(assignedToUserId))) {
+      return NextResponse.json(
+        { error: { message: 'Responsavel nao encontrado', details: null } },
+        { status: 400 }
+      );
+    }
+
+    const contact = await resolveRequesterContact(prisma, parsed.data.clientId, parsed.data.contactId);
+
     const updateData = {
       ...parsed.data,
+      contactId: contact?.id ?? null,
+      solicitante: contact?.name ?? parsed.data.solicitante,
       data_pedido: parsed.data.data_pedido
         ? new Date(parsed.data.data_pedido)
         : undefined,
@@ -137,23 +161,20 @@ export async function PUT(
       error: null,
     });
   } catch (error) {
+    if (error instanceof ClientContactError) {
+      return NextResponse.json(
+        { error: { message: error.message, details: null } },
+        { status: error.status }
+      );
+    }
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function DELETE(
-  req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission<{ id: string }>(Permission.DELETE_BUDGETS, async (req, { params, user }) => {
   try {
-    const user = await requireApiAuth(req);
-
-    if (user.role !== Role.ADMIN) {
-      throw new ApiAuthError('Insufficient permissions to delete budgets', 403);
-    }
-
-    const { id: rawId } = await context.params;
+    const { id: rawId } = await params;
     const id = parseId(rawId);
     if (!id) {
       return NextResponse.json(
@@ -162,7 +183,11 @@ export async function DELETE(
       );
     }
 
-    const budget = await prisma.budget.findUnique({ where: { id } });
+    // ✅ SECURITY: USER role can only delete budgets they created or are assigned to
+    const budget = await prisma.budget.findFirst({
+      where: applyUserFilter(user, { id }),
+      select: { id: true },
+    });
     if (!budget) {
       return NextResponse.json(
         { error: { message: 'Orcamento nao encontrado', details: null } },
@@ -180,4 +205,4 @@ export async function DELETE(
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
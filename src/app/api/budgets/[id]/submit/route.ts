@@ -1,19 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from "@/lib/prisma";
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { BudgetStatusCommentSchema } from "@/lib/validation";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { createBudgetRevision } from '@/lib/budget-revisions';
+import { recordBudgetStatusEvent } from '@/lib/budget-history';
 
-export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const POST = withPermission<{ id: string }>(Permission.WRITE_BUDGETS, async (req, { params, user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Budget submission requires MODERATOR or ADMIN role
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to submit budgets', 403);
-    }
-
     const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id) || id <= 0) {
@@ -22,6 +17,18 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
       }, { status: 400 });
     }
 
+    // Body is optional; it may carry a comment for the workflow history
+    const json = await req.json().catch(() => ({}));
+    const parsed = BudgetStatusCommentSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: {
+          message: "Dados inválidos",
+          details: parsed.error.flatten()
+        }
+      }, { status: 400 });
+    }
+
     const budget = await prisma.budget.findUnique({ 
       where: { id },
       include: {
@@ -36,10 +43,10 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
       }, { status: 404 });
     }
 
-    // ✅ VALIDATION: Check if budget can be submitted
-    if (budget.status !== 'DRAFT') {
+    // ✅ VALIDATION: Check if budget can be submitted (rejected budgets may be resubmitted after edits)
+    if (budget.status !== 'DRAFT' && budget.status !== 'REJECTED') {
       return NextResponse.json({
-        error: { message: "Apenas orçamentos em rascunho podem ser enviados para aprovação", details: null }
+        error: { message: "Apenas orçamentos em rascunho ou rejeitados podem ser enviados para aprovação", details: null }
       }, { status: 400 });
     }
 
@@ -50,17 +57,31 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
       }, { status: 400 });
     }
 
-    // Update budget status to SUBMITTED with timestamp
-    const updatedBudget = await prisma.budget.update({
-      where: { id },
-      data: { 
-        status: 'SUBMITTED',
-        submittedAt: new Date()
-      },
-      include: {
-        client: { select: { id: true, name: true } },
-        center: { select: { id: true, name: true } }
-      }
+    // Update budget status to SUBMITTED and snapshot the submitted values
+    const updatedBudget = await prisma.$transaction(async (tx) => {
+      const submitted = await tx.budget.update({
+        where: { id },
+        data: { 
+          status: 'SUBMITTED',
+          submittedAt: new Date()
+        },
+        include: {
+          client: { select: { id: true, name: true } },
+          center: { select: { id: true, name: true } }
+        }
+      });
+
+      await createBudgetRevision(tx, submitted, user.userId);
+      await recordBudgetStatusEvent(tx, {
+        budgetId: id,
+        action: 'SUBMIT',
+        fromStatus: budget.status,
+        toStatus: 'SUBMITTED',
+        actorId: user.userId,
+        comment: parsed.data.comment,
+      });
+
+      return submitted;
     });
 
     return NextResponse.json({
@@ -72,4 +93,4 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { BudgetQuoteSchema } from "@/lib/validation";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { calculateQuote } from "@/lib/pricing/engine";
+import { getCenterPriceTable } from "@/lib/pricing/price-table";
+
+export const POST = withPermission(Permission.WRITE_BUDGETS, async (req) => {
+  try {
+    const json = await req.json();
+    const parsed = BudgetQuoteSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: {
+          message: "Dados inválidos",
+          details: parsed.error.flatten()
+        }
+      }, { status: 400 });
+    }
+
+    const { centerId, ...specification } = parsed.data;
+
+    const center = await prisma.center.findFirst({
+      where: { id: centerId, active: true },
+      select: { id: true, name: true }
+    });
+    if (!center) {
+      return NextResponse.json({
+        error: { message: "Centro de produção não encontrado ou inativo", details: null }
+      }, { status: 400 });
+    }
+
+    const priceTable = await getCenterPriceTable(center.id);
+    const quote = calculateQuote(specification, priceTable.items);
+
+    return NextResponse.json({
+      data: {
+        ...quote,
+        center,
+        usingDefaultPrices: priceTable.isDefault,
+      },
+      error: null
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -1,17 +1,16 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { BudgetSchema, parseSort, parseNumber, BudgetInput } from "@/lib/validation";
-import { generateNumeroPedido } from "@/lib/order-number";
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { ClientContactError, resolveRequesterContact } from "@/lib/client-contacts";
+import { nextSequenceNumber } from "@/lib/order-number";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, applyUserFilter, applyOwnershipView, parseOwnershipView, ApiAuthError, hasPermission } from '@/lib/api-auth';
+import { isAssignableUser } from '@/lib/ownership';
+import { Permission } from '@/lib/rbac';
 import type { Prisma } from "@/generated/prisma";
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_BUDGETS, async (req, { user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    await requireApiAuth(req);
-    
     // ✅ SECURITY: All authenticated users can view budgets (role-based filtering applied below)
     const url = req?.url ? new URL(req.url) : new URL("http://localhost");
     const { searchParams } = url;
@@ -22,6 +21,7 @@ export async function GET(req: NextRequest) {
     const sortOrder = parseSort(searchParams.get("sortOrder"));
     const dateFrom = searchParams.get("dateFrom");
     const dateTo = searchParams.get("dateTo");
+    const view = parseOwnershipView(searchParams.get("view"));
 
     const allowedSort = new Set([
       "id",
@@ -60,9 +60,12 @@ export async function GET(req: NextRequest) {
       if (dateTo) where.data_pedido.lte = new Date(dateTo);
     }
 
-    const total = await prisma.budget.count({ where });
+    // ✅ SECURITY: USER role only sees budgets they created or are assigned to
+    const scopedWhere = applyUserFilter(user, applyOwnershipView(user, view, where));
+
+    const total = await prisma.budget.count({ where: scopedWhere });
     const data = await prisma.budget.findMany({
-      where,
+      where: scopedWhere,
       orderBy,
       skip: (page - 1) * pageSize,
       take: pageSize,
@@ -79,6 +82,7 @@ export async function GET(req: NextRequest) {
         q,
         dateFrom,
         dateTo,
+        view,
       },
       error: null
     });
@@ -87,18 +91,10 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function POST(req: NextRequest) {
+export const POST = withPermission(Permission.WRITE_BUDGETS, async (req, { user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Budget creation requires MODERATOR or ADMIN role
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to create budgets', 403);
-    }
-
     const json = await req.json();
     const parsed = BudgetSchema.safeParse(json);
     if (!parsed.success) {
@@ -112,8 +108,13 @@ export async function POST(req: NextRequest) {
 
     const data: BudgetInput = parsed.data;
 
+    // ✅ SECURITY: Only MODERATOR/ADMIN can assign budgets to someone else
+    if (data.assignedToUserId !== undefined && !hasPermission(user, Permission.ASSIGN_RECORDS)) {
+      throw new ApiAuthError('Insufficient permissions to assign budgets', 403);
+    }
+
     // ✅ SECURITY: Validate that clientId and centerId exist and are active
-    const [client, center] = await Promise.all([
+    const [client, center, assigneeExists] = await Promise.all([
       prisma.client.findFirst({ 
         where: { id: data.clientId, active: true },
         select: { id: true, name: true }
@@ -121,7 +122,8 @@ export async function POST(req: NextRequest) {
       prisma.center.findFirst({ 
         where: { id: data.centerId, active: true },
         select: { id: true, name: true }
-      })
+      }),
+      isAssignableUser(data.assignedToUserId),
     ]);
 
     if (!client) {
@@ -136,15 +138,22 @@ export async function POST(req: NextRequest) {
       }, { status: 400 });
     }
 
-    // Always generate order number automatically
-    const numero = await generateNumeroPedido();
+    if (!assigneeExists) {
+      return NextResponse.json({
+        error: { message: "Responsável não encontrado", details: null }
+      }, { status: 400 });
+    }
+
+    const contact = await resolveRequesterContact(prisma, data.clientId, data.contactId);
 
-    // Create budget with default DRAFT status
-    const budget = await prisma.budget.create({ 
+    // Create budget with default DRAFT status; the number is reserved in the same transaction
+    const budget = await prisma.$transaction(async (tx) => tx.budget.create({ 
       data: { 
         ...data, 
-        numero_pedido: numero,
+        solicitante: contact?.name ?? data.solicitante,
+        numero_pedido: await nextSequenceNumber(tx, 'BUDGET'),
         status: 'DRAFT',
+        createdByUserId: user.userId,
         data_pedido: data.data_pedido ? new Date(data.data_pedido) : new Date(),
         data_entrega: data.data_entrega ? new Date(data.data_entrega) : null,
       },
@@ -152,7 +161,7 @@ export async function POST(req: NextRequest) {
         client: { select: { id: true, name: true } },
         center: { select: { id: true, name: true } }
       }
-    });
+    }));
     
     return NextResponse.json({
       data: budget,
@@ -160,7 +169,12 @@ export async function POST(req: NextRequest) {
     }, { status: 201 });
     
   } catch (error) {
+    if (error instanceof ClientContactError) {
+      return NextResponse.json({
+        error: { message: error.message, details: null }
+      }, { status: error.status });
+    }
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import prisma from "@/lib/prisma";
+import { PriceTableSchema } from "@/lib/validation";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { getCenterPriceTable, replaceCenterPriceTable } from "@/lib/pricing/price-table";
+
+export const GET = withPermission<{ id: string }>(Permission.READ_CENTERS, async (req, { params }) => {
+  try {
+    const { id: paramId } = await params;
+    const id = Number(paramId);
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({
+        error: { message: "ID inválido", details: null }
+      }, { status: 400 });
+    }
+
+    const exists = await prisma.center.findUnique({ where: { id }, select: { id: true } });
+    if (!exists) {
+      return NextResponse.json({
+        error: { message: "Centro não encontrado", details: null }
+      }, { status: 404 });
+    }
+
+    const priceTable = await getCenterPriceTable(id);
+
+    return NextResponse.json({
+      data: priceTable,
+      error: null
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
+
+export const PUT = withPermission<{ id: string }>(Permission.WRITE_CENTERS, async (req, { params }) => {
+  try {
+    const { id: paramId } = await params;
+    const id = Number(paramId);
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({
+        error: { message: "ID inválido", details: null }
+      }, { status: 400 });
+    }
+
+    const json = await req.json();
+    const parsed = PriceTableSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: {
+          message: "Dados inválidos",
+          details: parsed.error.flatten()
+        }
+      }, { status: 400 });
+    }
+
+    const exists = await prisma.center.findUnique({ where: { id }, select: { id: true } });
+    if (!exists) {
+      return NextResponse.json({
+        error: { message: "Centro não encontrado", details: null }
+      }, { status: 404 });
+    }
+
+    const updated = await replaceCenterPriceTable(id, parsed.data.items);
+
+    return NextResponse.json({
+      data: updated,
+      error: null
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -1,15 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from "@/lib/prisma";
 import { CenterSchema } from "@/lib/validation";
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
 
-export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const GET = withPermission<{ id: string }>(Permission.READ_CENTERS, async (req, { params }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    await requireApiAuth(req);
-    
     const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id)) {
@@ -34,18 +31,10 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const PUT = withPermission<{ id: string }>(Permission.WRITE_CENTERS, async (req, { params }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Center updates require MODERATOR or ADMIN role
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to update centers', 403);
-    }
-
     const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id)) {
@@ -83,19 +72,11 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ id:
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+export const PATCH = withPermission<{ id: string }>(Permission.WRITE_CENTERS, async (req, { params }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Center partial updates require MODERATOR or ADMIN role
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to update centers', 403);
-    }
-
-    const { id: paramId } = await ctx.params;
+    const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id)) {
       return NextResponse.json({
@@ -132,18 +113,10 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const DELETE = withPermission<{ id: string }>(Permission.DELETE_CENTERS, async (req, { params }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Center deletion requires ADMIN role only
-    if (user.role !== Role.ADMIN) {
-      throw new ApiAuthError('Insufficient permissions to delete centers', 403);
-    }
-
     const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id)) {
@@ -182,4 +155,4 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
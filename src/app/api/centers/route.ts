@@ -1,16 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from "@/lib/prisma";
 import { CenterSchema } from "@/lib/validation";
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
 import type { Prisma } from "@/generated/prisma";
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_CENTERS, async (req) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    await requireApiAuth(req);
-    
     const url = req?.url ? new URL(req.url) : new URL("http://localhost");
     const { searchParams } = url;
     const page = Number(searchParams.get("page") ?? "1");
@@ -54,18 +51,10 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function POST(req: NextRequest) {
+export const POST = withPermission(Permission.WRITE_CENTERS, async (req) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Center creation requires MODERATOR or ADMIN role
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to create centers', 403);
-    }
-
     const json = await req.json();
     const parsed = CenterSchema.safeParse(json);
     if (!parsed.success) {
@@ -88,4 +77,4 @@ export async function POST(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
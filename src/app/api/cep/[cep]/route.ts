@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { normalizeCep } from '@/lib/address';
+import { lookupCep } from '@/lib/cep-lookup';
+
+// GET /api/cep/[cep] - Address autocomplete for the client form
+export const GET = withPermission<{ cep: string }>(Permission.READ_CLIENTS, async (req, { params }) => {
+  try {
+    const { cep } = await params;
+    if (!normalizeCep(cep)) {
+      return NextResponse.json({
+        error: { message: "CEP inválido", details: null }
+      }, { status: 400 });
+    }
+
+    const address = await lookupCep(cep);
+    if (!address) {
+      return NextResponse.json({
+        error: { message: "CEP não encontrado", details: null }
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: address, error: null });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -1,14 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from "@/lib/prisma";
 import { ClientSchema } from "@/lib/validation";
-import { getAuthenticatedUser, handleApiError, ApiAuthError, getFieldSelection } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, getFieldSelection, applyUserFilter } from '@/lib/api-auth';
+import { isAssignableUser } from '@/lib/ownership';
+import { Permission } from '@/lib/rbac';
+import { listClientAddresses, replaceClientAddresses } from '@/lib/address';
+import { listClientContacts, syncClientContacts } from '@/lib/client-contacts';
+import { lookupRegistrationStatus } from '@/lib/company-registry';
+import { onlyDigits } from '@/lib/validators';
 
-export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const GET = withPermission<{ id: string }>(Permission.READ_CLIENTS, async (req, { params, user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = getAuthenticatedUser(req);
-    
     const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id)) {
@@ -20,8 +23,9 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
     // ✅ SECURITY: Role-based field filtering
     const select = getFieldSelection(user, 'client');
     
-    const client = await prisma.client.findUnique({
-      where: { id },
+    // ✅ SECURITY: USER role only sees clients they created or are assigned to
+    const client = await prisma.client.findFirst({
+      where: applyUserFilter(user, { id }),
       select
     });
     
@@ -31,8 +35,12 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
       }, { status: 404 });
     }
     
+    // Structured addresses go to the roles that see the address line
+    const addresses = !select || 'address' in select ? await listClientAddresses(prisma, id) : undefined;
+    const contacts = await listClientContacts(prisma, id);
+    
     return NextResponse.json({
-      data: client,
+      data: addresses ? { ...client, addresses, contacts } : { ...client, contacts },
       error: null
     });
     
@@ -40,18 +48,10 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const PUT = withPermission<{ id: string }>(Permission.WRITE_CLIENTS, async (req, { params }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = getAuthenticatedUser(req);
-    
-    // ✅ SECURITY: Client updates require MODERATOR or ADMIN role
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to update clients', 403);
-    }
-
     const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id)) {
@@ -61,7 +61,8 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ id:
     }
     
     const json = await req.json();
-    const parsed = ClientSchema.safeParse(json);
+    // The duplicate check (force) only applies when creating
+    const parsed = ClientSchema.omit({ force: true }).safeParse(json);
     if (!parsed.success) {
       return NextResponse.json({
         error: {
@@ -77,8 +78,26 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ id:
         error: { message: "Cliente não encontrado", details: null }
       }, { status: 404 });
     }
+
+    if (!(await isAssignableUser(parsed.data.assignedToUserId))) {
+      return NextResponse.json({
+        error: { message: "Responsável não encontrado", details: null }
+      }, { status: 400 });
+    }
     
-    const updated = await prisma.client.update({ where: { id }, data: parsed.data });
+    const { addresses, contacts, ...clientData } = parsed.data;
+    // ✅ SECURITY: The situação cadastral comes from the registry when the CNPJ changes
+    const registrationStatus = onlyDigits(clientData.cnpjCpf) !== onlyDigits(exists.cnpjCpf)
+      ? { registrationStatus: await lookupRegistrationStatus(clientData.cnpjCpf) }
+      : {};
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.client.update({ where: { id }, data: { ...clientData, ...registrationStatus } });
+      await replaceClientAddresses(tx, id, addresses);
+      if (contacts) {
+        await syncClientContacts(tx, id, contacts);
+      }
+      return tx.client.findUnique({ where: { id }, include: { addresses: true, contacts: true } });
+    });
     
     return NextResponse.json({
       data: updated,
@@ -89,19 +108,11 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ id:
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+export const PATCH = withPermission<{ id: string }>(Permission.WRITE_CLIENTS, async (req, { params }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = getAuthenticatedUser(req);
-    
-    // ✅ SECURITY: Client partial updates require MODERATOR or ADMIN role
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to update clients', 403);
-    }
-
-    const { id: paramId } = await ctx.params;
+    const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id)) {
       return NextResponse.json({
@@ -110,7 +121,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
     }
     
     const json = await req.json();
-    const parsed = ClientSchema.partial().safeParse(json);
+    const parsed = ClientSchema.omit({ force: true }).partial().safeParse(json);
     if (!parsed.success) {
       return NextResponse.json({
         error: {
@@ -126,8 +137,28 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
         error: { message: "Cliente não encontrado", details: null }
       }, { status: 404 });
     }
+
+    if (!(await isAssignableUser(parsed.data.assignedToUserId))) {
+      return NextResponse.json({
+        error: { message: "Responsável não encontrado", details: null }
+      }, { status: 400 });
+    }
     
-    const updated = await prisma.client.update({ where: { id }, data: parsed.data });
+    const { addresses, contacts, ...clientData } = parsed.data;
+    // ✅ SECURITY: The situação cadastral comes from the registry when the CNPJ changes
+    const registrationStatus = clientData.cnpjCpf !== undefined && onlyDigits(clientData.cnpjCpf) !== onlyDigits(exists.cnpjCpf)
+      ? { registrationStatus: await lookupRegistrationStatus(clientData.cnpjCpf) }
+      : {};
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.client.update({ where: { id }, data: { ...clientData, ...registrationStatus } });
+      if (addresses) {
+        await replaceClientAddresses(tx, id, addresses);
+      }
+      if (contacts) {
+        await syncClientContacts(tx, id, contacts);
+      }
+      return tx.client.findUnique({ where: { id }, include: { addresses: true, contacts: true } });
+    });
     
     return NextResponse.json({
       data: updated,
@@ -138,18 +169,10 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ id: strin
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export const DELETE = withPermission<{ id: string }>(Permission.DELETE_CLIENTS, async (req, { params }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = getAuthenticatedUser(req);
-    
-    // ✅ SECURITY: Client deletion requires ADMIN role only
-    if (user.role !== Role.ADMIN) {
-      throw new ApiAuthError('Insufficient permissions to delete clients', 403);
-    }
-
     const { id: paramId } = await params;
     const id = Number(paramId);
     if (!Number.isInteger(id)) {
@@ -188,4 +211,4 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
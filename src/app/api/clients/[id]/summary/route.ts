@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import prisma from "@/lib/prisma";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, getFieldSelection, applyUserFilter } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { listClientContacts } from '@/lib/client-contacts';
+import { summarizeClient } from '@/lib/client-summary';
+
+export const GET = withPermission<{ id: string }>(Permission.READ_CLIENTS, async (req, { params, user }) => {
+  try {
+    const { id: paramId } = await params;
+    const id = Number(paramId);
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({
+        error: { message: "ID inválido", details: null }
+      }, { status: 400 });
+    }
+
+    // ✅ SECURITY: USER role only sees clients they created or are assigned to
+    const client = await prisma.client.findFirst({
+      where: applyUserFilter(user, { id }),
+      select: getFieldSelection(user, 'client'),
+    });
+
+    if (!client) {
+      return NextResponse.json({
+        error: { message: "Cliente não encontrado", details: null }
+      }, { status: 404 });
+    }
+
+    // ✅ SECURITY: Totals only for the roles that see budget prices
+    const budgetSelect = getFieldSelection(user, 'budget');
+    const financials = !budgetSelect || 'preco_total' in budgetSelect;
+
+    // ✅ SECURITY: USER role only counts the budgets they created or are assigned to
+    const budgets = await prisma.budget.findMany({
+      where: applyUserFilter(user, { clientId: id }),
+      select: {
+        id: true,
+        numero_pedido: true,
+        titulo: true,
+        status: true,
+        data_pedido: true,
+        tiragem: true,
+        preco_total: financials,
+        order: {
+          select: {
+            id: true,
+            numero_pedido: true,
+            status: true,
+            data_pedido: true,
+            deliveries: { select: { quantity: true, deliveredAt: true, freightCost: true } },
+          },
+        },
+      },
+      orderBy: { data_pedido: 'desc' },
+    });
+
+    const contacts = await listClientContacts(prisma, id);
+
+    return NextResponse.json({
+      data: {
+        client: { ...client, contacts },
+        summary: summarizeClient(budgets, { financials }),
+        budgets: budgets.map((budget) => ({
+          ...budget,
+          order: budget.order && {
+            id: budget.order.id,
+            numero_pedido: budget.order.numero_pedido,
+            status: budget.order.status,
+            data_pedido: budget.order.data_pedido,
+          },
+        })),
+      },
+      error: null
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -1,12 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from "@/lib/prisma";
-import { getAuthenticatedUser, handleApiError } from '@/lib/api-auth';
+import { withPermission } from '@/lib/server-auth';
+import { Permission } from '@/lib/rbac';
+import { handleApiError } from '@/lib/api-auth';
+import { findClientIdsByDocument } from '@/lib/client-duplicates';
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_CLIENTS, async (req) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    getAuthenticatedUser(req);
-    
     // ✅ SECURITY: All authenticated users can check CNPJ/CPF duplicates
 
     const { searchParams } = new URL(req.url);
@@ -19,20 +19,10 @@ export async function GET(req: NextRequest) {
       });
     }
 
-    // Normalize to digits-only for a best-effort comparison
-    const digits = cnpjCpf.replace(/\D+/g, "");
-
-    // Try exact matches for both the raw and digits-only forms
-    const existingClient = await prisma.client.findFirst({
-      where: {
-        OR: [
-          { cnpjCpf },
-          { cnpjCpf: digits },
-        ],
-      },
-    });
+    // Compare the digits, however the stored and typed values are formatted
+    const [existingClientId] = await findClientIdsByDocument(prisma, cnpjCpf);
 
-    if (existingClient) {
+    if (existingClientId) {
       return NextResponse.json({
         error: {
           message: "Cliente com este CNPJ/CPF já existe.",
@@ -50,4 +40,4 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
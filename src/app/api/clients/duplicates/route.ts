@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import prisma from "@/lib/prisma";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { findDuplicateClients } from '@/lib/client-duplicates';
+
+export const GET = withPermission(Permission.MERGE_CLIENTS, async () => {
+  try {
+    const clients = await prisma.client.findMany({
+      select: {
+        id: true,
+        name: true,
+        cnpjCpf: true,
+        email: true,
+        phone: true,
+        active: true,
+        createdAt: true,
+        _count: { select: { budgets: true } },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    const data = findDuplicateClients(clients);
+
+    return NextResponse.json({
+      data,
+      meta: { total: data.length, clients: clients.length },
+      error: null
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
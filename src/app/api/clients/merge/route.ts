@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import prisma from "@/lib/prisma";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { ClientMergeSchema } from '@/lib/validation';
+import { ClientMergeError, mergeClients } from '@/lib/client-merge';
+
+// Recent merges, newest first
+export const GET = withPermission(Permission.MERGE_CLIENTS, async () => {
+  try {
+    const data = await prisma.clientMerge.findMany({
+      include: {
+        survivor: { select: { id: true, name: true, cnpjCpf: true } },
+        actor: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    return NextResponse.json({ data, error: null });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
+
+export const POST = withPermission(Permission.MERGE_CLIENTS, async (req, { user }) => {
+  try {
+    const parsed = ClientMergeSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: {
+          message: "Dados inválidos",
+          details: parsed.error.flatten()
+        }
+      }, { status: 400 });
+    }
+
+    const merge = await prisma.$transaction((tx) =>
+      mergeClients(tx, { ...parsed.data, actorId: user.userId })
+    );
+
+    return NextResponse.json({ data: merge, error: null }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ClientMergeError) {
+      return NextResponse.json({
+        error: { message: error.message, details: null }
+      }, { status: error.status });
+    }
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
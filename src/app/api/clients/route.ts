@@ -1,14 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getAuthenticatedUser, getFieldSelection, handleApiError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/server-auth';
+import { getFieldSelection, handleApiError, applyUserFilter, ApiAuthError, hasPermission } from '@/lib/api-auth';
+import { isAssignableUser } from '@/lib/ownership';
+import { Permission } from '@/lib/rbac';
 import prisma from "@/lib/prisma";
 import { ClientSchema } from "@/lib/validation";
+import { billingAddressLine, toAddressRows } from "@/lib/address";
+import { toContactRows } from "@/lib/client-contacts";
+import { findClientIdsByDocument } from "@/lib/client-duplicates";
+import { lookupRegistrationStatus } from "@/lib/company-registry";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(Permission.READ_CLIENTS, async (request, { user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = getAuthenticatedUser(request);
-    
     const url = new URL(request.url);
     const { searchParams } = url;
     const page = Number(searchParams.get("page") ?? "1");
@@ -20,7 +23,6 @@ export async function GET(request: NextRequest) {
     const allowedSort = new Set(["id", "name", "email", "cnpjCpf"]);
     const orderBy = allowedSort.has(sortBy) ? { [sortBy]: sortOrder } : { id: "desc" as const };
 
-    // ✅ SECURITY: Basic role-based access (no ownership tracking in current schema)
     let where = {};
     
     // Add search query if provided
@@ -34,6 +36,9 @@ export async function GET(request: NextRequest) {
       };
     }
 
+    // ✅ SECURITY: USER role only sees clients they created or are assigned to
+    where = applyUserFilter(user, where);
+
     // ✅ SECURITY: Role-based field filtering
     const select = getFieldSelection(user, 'client');
 
@@ -64,19 +69,10 @@ export async function GET(request: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission(Permission.CREATE_CLIENTS, async (request, { user }) => {
   try {
-    // ✅ SECURITY: Authentication required
-    const user = getAuthenticatedUser(request);
-    
-    // ✅ SECURITY: Basic role check - users can create clients
-    if (user.role === Role.USER) {
-      // Users have limited client creation capabilities
-      // This is acceptable for MVP
-    }
-    
     const json = await request.json();
     const parsed = ClientSchema.safeParse(json);
     
@@ -89,14 +85,22 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const { cnpjCpf, force, ...clientData } = parsed.data;
+    const { cnpjCpf, force, assignedToUserId, addresses, contacts = [], ...clientData } = parsed.data;
+
+    // ✅ SECURITY: Only MODERATOR/ADMIN can assign clients to someone else
+    if (assignedToUserId !== undefined && !hasPermission(user, Permission.ASSIGN_RECORDS)) {
+      throw new ApiAuthError('Insufficient permissions to assign clients', 403);
+    }
+    if (!(await isAssignableUser(assignedToUserId))) {
+      return NextResponse.json({
+        error: { message: "Responsável não encontrado", details: null }
+      }, { status: 400 });
+    }
 
     if (!force) {
-      const existingClient = await prisma.client.findFirst({
-        where: { cnpjCpf },
-      });
+      const [existingClientId] = await findClientIdsByDocument(prisma, cnpjCpf);
 
-      if (existingClient) {
+      if (existingClientId) {
         return NextResponse.json({
           error: { 
             message: "Cliente com este CNPJ/CPF já existe.", 
@@ -110,9 +114,15 @@ export async function POST(request: NextRequest) {
       data: {
         ...clientData,
         cnpjCpf,
-        // Note: Current schema doesn't support ownership tracking
-        // This is acceptable for MVP - documented as technical debt
-      }
+        // ✅ SECURITY: The situação cadastral comes from the registry, not the request
+        registrationStatus: await lookupRegistrationStatus(cnpjCpf),
+        address: billingAddressLine(addresses),
+        addresses: { create: toAddressRows(addresses) },
+        contacts: { create: toContactRows(contacts) },
+        assignedToUserId,
+        createdByUserId: user.userId,
+      },
+      include: { addresses: true, contacts: true },
     });
     
     return NextResponse.json({
@@ -124,4 +134,4 @@ export async function POST(request: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
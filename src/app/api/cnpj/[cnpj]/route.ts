@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { isCNPJ } from '@/lib/validators';
+import { lookupCompany } from '@/lib/company-registry';
+import { CompanyRegistryError } from '@/lib/company-registry/provider';
+
+// GET /api/cnpj/[cnpj] - Company registry data to prefill the client form
+export const GET = withPermission<{ cnpj: string }>(Permission.READ_CLIENTS, async (req, { params }) => {
+  try {
+    const { cnpj } = await params;
+    if (!isCNPJ(cnpj)) {
+      return NextResponse.json({
+        error: { message: "CNPJ inválido", details: null }
+      }, { status: 400 });
+    }
+
+    const company = await lookupCompany(cnpj);
+    if (!company) {
+      return NextResponse.json({
+        error: { message: "CNPJ não encontrado", details: null }
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: company, error: null });
+  } catch (error) {
+    if (error instanceof CompanyRegistryError) {
+      console.error('[COMPANY-REGISTRY]', error.message);
+      return NextResponse.json({
+        error: { message: "Consulta de CNPJ indisponível", details: null }
+      }, { status: 502 });
+    }
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -1,53 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from "@/lib/prisma";
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, applyUserFilter, hasPermission } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_DASHBOARD, async (req, { user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
     // ✅ SECURITY: Recent clients data - apply role-based filtering
 
     const { searchParams } = new URL(req.url);
     const limit = parseInt(searchParams.get("limit") ?? "5");
 
-    // Role-based data selection
-    let select;
-    switch (user.role) {
-      case Role.ADMIN:
-        select = {
-          id: true,
-          name: true,
-          email: true,
-          phone: true,
-          cnpjCpf: true,
-        };
-        break;
-      case Role.MODERATOR:
-        select = {
-          id: true,
-          name: true,
-          email: true,
-          phone: true,
-          cnpjCpf: true,
-        };
-        break;
-      case Role.USER:
-        select = {
-          id: true,
-          name: true,
-          email: true,
-          phone: true,
-        };
-        break;
-      default:
-        throw new ApiAuthError('Invalid user role', 403);
-    }
+    // CNPJ/CPF only for roles that may read client documents
+    const select = {
+      id: true,
+      name: true,
+      email: true,
+      phone: true,
+      cnpjCpf: hasPermission(user, Permission.READ_CLIENT_DOCUMENTS),
+    };
 
     const recentClients = await prisma.client.findMany({
+      where: applyUserFilter(user, {}),
       take: limit,
       orderBy: {
         id: "desc",
@@ -64,4 +38,4 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
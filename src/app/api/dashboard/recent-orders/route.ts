@@ -1,8 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, applyUserFilter, hasPermission } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
 import { Prisma } from '@/generated/prisma';
 
 const ORDER_WITH_RELATIONS = {
@@ -27,14 +27,14 @@ const ORDER_WITH_RELATIONS = {
   },
 } satisfies Prisma.OrderInclude;
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_DASHBOARD, async (req, { user }) => {
   try {
-    const user = await requireApiAuth(req);
-
     const { searchParams } = new URL(req.url);
     const limit = Number.parseInt(searchParams.get('limit') ?? '5', 10);
 
+    // ✅ SECURITY: USER role only sees orders they created or are assigned to
     const recentOrders = await prisma.order.findMany({
+      where: applyUserFilter(user, {}),
       take: Number.isNaN(limit) || limit <= 0 ? 5 : limit,
       orderBy: {
         data_pedido: 'desc',
@@ -64,7 +64,7 @@ export async function GET(req: NextRequest) {
           : null,
       };
 
-      if (user.role === Role.ADMIN || user.role === Role.MODERATOR) {
+      if (hasPermission(user, Permission.READ_PRICES)) {
         return basePayload;
       }
 
@@ -91,4 +91,4 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
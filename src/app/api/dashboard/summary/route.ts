@@ -1,24 +1,27 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, applyUserFilter, hasPermission } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
 import prisma from "@/lib/prisma";
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(Permission.READ_DASHBOARD, async (request, { user }) => {
   try {
-    // ✅ OPTIMIZED: Use new optimized authentication (header-based when available)
-    const user = await requireApiAuth(request);
-    
-    // ✅ SECURITY: Role-based data filtering for dashboard
-    let data;
-    
-    switch (user.role) {
-      case Role.ADMIN:
-        // Admins see complete dashboard with financial data
-        const [clientsCount, ordersCount, revenueAggregate, pendingOrdersCount] = await Promise.all([
-          prisma.client.count(),
-          prisma.order.count(),
-          prisma.budget.aggregate({
+    // ✅ SECURITY: Permission-based data filtering for dashboard
+    // Only roles that see every record get the client total; revenue is admin-only financial data
+    const seesAllRecords = hasPermission(user, Permission.VIEW_ALL_RECORDS);
+    const seesRevenue = hasPermission(user, Permission.READ_REVENUE);
+
+    const [clientsCount, ordersCount, pendingOrdersCount, revenueAggregate] = await Promise.all([
+      seesAllRecords ? prisma.client.count() : 0,
+      // USER role only counts orders they created or are assigned to
+      prisma.order.count({ where: applyUserFilter(user, {}) }),
+      prisma.order.count({
+        where: applyUserFilter(user, {
+          status: "PENDING" as const,
+        }),
+      }),
+      seesRevenue
+        ? prisma.budget.aggregate({
             where: {
               order: {
                 isNot: null,
@@ -27,64 +30,16 @@ export async function GET(request: NextRequest) {
             _sum: {
               preco_total: true,
             },
-          }),
-          prisma.order.count({
-            where: {
-              status: "PENDING",
-            },
-          }),
-        ]);
-
-        data = {
-          totalClients: clientsCount,
-          totalOrders: ordersCount,
-          totalRevenue: revenueAggregate._sum.preco_total ?? 0, // Financial data visible to admins
-          pendingOrders: pendingOrdersCount,
-        };
-        break;
-        
-      case Role.MODERATOR:
-        // Moderators see dashboard with limited financial data
-        const [modClientsCount, modOrdersCount, modPendingOrdersCount] = await Promise.all([
-          prisma.client.count(),
-          prisma.order.count(),
-          prisma.order.count({
-            where: {
-              status: "PENDING",
-            },
-          }),
-        ]);
-
-        data = {
-          totalClients: modClientsCount,
-          totalOrders: modOrdersCount,
-          totalRevenue: 0, // Financial data hidden from moderators in MVP
-          pendingOrders: modPendingOrdersCount,
-        };
-        break;
-        
-      case Role.USER:
-        // Users see limited dashboard, NO financial data
-        const [userOrdersCount, userPendingOrdersCount] = await Promise.all([
-          prisma.order.count(),
-          prisma.order.count({
-            where: {
-              status: "PENDING",
-            },
-          }),
-        ]);
+          })
+        : null,
+    ]);
 
-        data = {
-          totalClients: 0, // Hidden from users
-          totalOrders: userOrdersCount,
-          totalRevenue: 0, // ✅ CRITICAL: Financial data hidden from users
-          pendingOrders: userPendingOrdersCount,
-        };
-        break;
-        
-      default:
-        throw new ApiAuthError('Invalid user role', 403);
-    }
+    const data = {
+      totalClients: clientsCount,
+      totalOrders: ordersCount,
+      totalRevenue: revenueAggregate?._sum.preco_total ?? 0,
+      pendingOrders: pendingOrdersCount,
+    };
 
     return NextResponse.json({
       data,
@@ -95,4 +50,4 @@ export async function GET(request: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
@@ -1,15 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError } from '@/lib/api-auth';
+import { NextResponse } from 'next/server';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, applyUserFilter, hasPermission } from '@/lib/api-auth';
 import prisma from '@/lib/prisma';
-import { Role } from '@/lib/rbac';
+import { Permission } from '@/lib/rbac';
 import { BudgetStatus, OrderStatus } from '@/generated/prisma';
 
-export async function GET(request: NextRequest) {
+export const GET = withPermission(Permission.READ_DASHBOARD, async (request, { user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(request);
-    
     // Count pending budgets (SUBMITTED status - waiting for approval)
     const pendingBudgetsCount = await prisma.budget.count({
       where: { 
@@ -19,16 +16,16 @@ export async function GET(request: NextRequest) {
 
     // Count active orders (IN_PRODUCTION and PENDING statuses)
     const activeOrdersCount = await prisma.order.count({
-      where: { 
+      where: applyUserFilter(user, {
         status: {
           in: [OrderStatus.IN_PRODUCTION, OrderStatus.PENDING]
         }
-      }
+      })
     });
 
-    // Role-based count visibility
+    // Pending budgets only matter to whoever can approve them
     const counts = {
-      pendingBudgets: user.role === Role.USER ? 0 : pendingBudgetsCount,
+      pendingBudgets: hasPermission(user, Permission.APPROVE_BUDGETS) ? pendingBudgetsCount : 0,
       activeOrders: activeOrdersCount,
     };
 
@@ -41,4 +38,4 @@ export async function GET(request: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { OrderDeliveryError, removeDelivery } from '@/lib/order-deliveries';
+
+function parseId(value: string): number | null {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+export const DELETE = withPermission<{ id: string; deliveryId: string }>(Permission.WRITE_DELIVERIES, async (req, { params, user }) => {
+  try {
+    const { id, deliveryId: rawDeliveryId } = await params;
+    const orderId = parseId(id);
+    const deliveryId = parseId(rawDeliveryId);
+    if (!orderId || !deliveryId) {
+      return NextResponse.json(
+        { error: { message: 'ID invalido', details: null } },
+        { status: 400 }
+      );
+    }
+
+    const summary = await prisma.$transaction((tx) =>
+      removeDelivery(tx, { orderId, deliveryId, actorId: user.userId })
+    );
+
+    return NextResponse.json({ data: { summary }, error: null });
+  } catch (error) {
+    if (error instanceof OrderDeliveryError) {
+      return NextResponse.json(
+        { error: { message: error.message, details: null } },
+        { status: error.status }
+      );
+    }
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, applyUserFilter } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { DeliverySchema } from '@/lib/validation';
+import { OrderDeliveryError, registerDelivery, summarizeDeliveries } from '@/lib/order-deliveries';
+
+async function resolveOrderId(
+  params: Promise<{ id: string }>
+): Promise<number | null> {
+  const { id } = await params;
+  const parsed = Number.parseInt(id, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+export const GET = withPermission<{ id: string }>(Permission.READ_ORDERS, async (req, { params, user }) => {
+  try {
+    const orderId = await resolveOrderId(params);
+    if (!orderId) {
+      return NextResponse.json(
+        { error: { message: 'ID invalido', details: null } },
+        { status: 400 }
+      );
+    }
+
+    // ✅ SECURITY: USER role only sees orders they created or are assigned to
+    const order = await prisma.order.findFirst({
+      where: applyUserFilter(user, { id: orderId }),
+      select: {
+        id: true,
+        status: true,
+        budget: { select: { tiragem: true } },
+        deliveries: {
+          orderBy: { deliveredAt: 'asc' },
+          include: {
+            createdBy: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: { message: 'Ordem nao encontrada', details: null } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      data: {
+        orderId,
+        status: order.status,
+        deliveries: order.deliveries,
+        summary: summarizeDeliveries(order.budget.tiragem, order.deliveries),
+      },
+      error: null,
+    });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
+
+export const POST = withPermission<{ id: string }>(Permission.WRITE_DELIVERIES, async (req, { params, user }) => {
+  try {
+    const orderId = await resolveOrderId(params);
+    if (!orderId) {
+      return NextResponse.json(
+        { error: { message: 'ID invalido', details: null } },
+        { status: 400 }
+      );
+    }
+
+    // ✅ VALIDATION: Quantity, date and shipping details
+    const parsed = DeliverySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: {
+          message: 'Dados inválidos',
+          details: parsed.error.flatten()
+        }
+      }, { status: 400 });
+    }
+
+    const result = await prisma.$transaction((tx) =>
+      registerDelivery(tx, { orderId, actorId: user.userId, data: parsed.data })
+    );
+
+    return NextResponse.json({ data: result, error: null }, { status: 201 });
+  } catch (error) {
+    if (error instanceof OrderDeliveryError) {
+      return NextResponse.json(
+        { error: { message: error.message, details: null } },
+        { status: error.status }
+      );
+    }
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withPermission } from '@/lib/server-auth';
+import { Permission } from '@/lib/rbac';
+import { handleApiError, applyUserFilter } from '@/lib/api-auth';
+import { computeStatusDurations } from '@/lib/order-history';
+
+async function resolveOrderId(
+  params: Promise<{ id: string }>
+): Promise<number | null> {
+  const { id } = await params;
+  const parsed = Number.parseInt(id, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+export const GET = withPermission<{ id: string }>(Permission.READ_ORDERS, async (req, { params, user }) => {
+  try {
+    const orderId = await resolveOrderId(params);
+    if (!orderId) {
+      return NextResponse.json(
+        { error: { message: 'ID invalido', details: null } },
+        { status: 400 }
+      );
+    }
+
+    // ✅ SECURITY: USER role only sees orders they created or are assigned to
+    const order = await prisma.order.findFirst({
+      where: applyUserFilter(user, { id: orderId }),
+      select: { id: true, status: true, createdAt: true },
+    });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: { message: 'Ordem nao encontrada', details: null } },
+        { status: 404 }
+      );
+    }
+
+    const events = await prisma.orderStatusEvent.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        actor: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    return NextResponse.json({
+      data: {
+        orderId,
+        currentStatus: order.status,
+        createdAt: order.createdAt,
+        events,
+        durations: computeStatusDurations(order.createdAt, order.status, events),
+      },
+      error: null,
+    });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -1,24 +1,18 @@
 // src/app/api/orders/[id]/route.ts - CREATE NEW FILE
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError } from '@/lib/api-auth';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, ApiAuthError, applyUserFilter, hasPermission } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { OWNER_SELECT, isAssignableUser } from '@/lib/ownership';
+import { AssignedToUserSchema } from '@/lib/validation';
 import { z } from 'zod';
 
 const dateField = z.coerce.date().optional().nullable();
 
+// Status changes go through PATCH /api/orders/[id]/status, which enforces the transitions
 const UpdateOrderSchema = z.object({
-  status: z
-    .enum([
-      'PENDING',
-      'IN_PRODUCTION',
-      'COMPLETED',
-      'DELIVERED',
-      'CANCELLED',
-      'ON_HOLD',
-    ])
-    .optional(),
   data_entrega_real: dateField,
   data_inicio_producao: dateField,
   data_fim_producao: dateField,
@@ -26,23 +20,20 @@ const UpdateOrderSchema = z.object({
   frete_real: z.number().optional().nullable(),
   custo_adicional: z.number().optional().nullable(),
   responsavel_producao: z.string().optional().nullable(),
+  assignedToUserId: AssignedToUserSchema,
 });
 
 async function getOrderId(
-  context: { params: Promise<{ id: string }> }
+  params: Promise<{ id: string }>
 ): Promise<number | null> {
-  const { id } = await context.params;
+  const { id } = await params;
   const parsed = Number.parseInt(id, 10);
   return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
 }
 
-export async function GET(
-  req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const GET = withPermission<{ id: string }>(Permission.READ_ORDERS, async (req, { params, user }) => {
   try {
-    await requireApiAuth(req);
-    const orderId = await getOrderId(context);
+    const orderId = await getOrderId(params);
     if (!orderId) {
       return NextResponse.json(
         { error: { message: 'Identificador de ordem inválido' } },
@@ -50,8 +41,9 @@ export async function GET(
       );
     }
     
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
+    // ✅ SECURITY: USER role only sees orders they created or are assigned to
+    const order = await prisma.order.findFirst({
+      where: applyUserFilter(user, { id: orderId }),
       include: {
         budget: {
           include: {
@@ -61,6 +53,7 @@ export async function GET(
             rejectedBy: true,
           },
         },
+        ...OWNER_SELECT,
       }
     });
 
@@ -77,17 +70,13 @@ export async function GET(
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function PUT(
-  req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const PUT = withPermission<{ id: string }>(Permission.WRITE_ORDERS, async (req, { params, user }) => {
   try {
-    await requireApiAuth(req);
     const body = await req.json();
     const updateData = UpdateOrderSchema.parse(body);
-    const orderId = await getOrderId(context);
+    const orderId = await getOrderId(params);
     if (!orderId) {
       return NextResponse.json(
         { error: { message: 'Identificador de ordem inválido' } },
@@ -95,45 +84,64 @@ export async function PUT(
       );
     }
 
-    const order = await prisma.order.update({
-      where: { id: orderId },
-      data: updateData,
-      include: {
-        budget: {
-          include: {
-            client: true,
-            center: true,
-            approvedBy: true,
-            rejectedBy: true,
-          },
-        },
+    if (updateData.assignedToUserId !== undefined) {
+      // ✅ SECURITY: Only MODERATOR/ADMIN can reassign orders
+      if (!hasPermission(user, Permission.ASSIGN_RECORDS)) {
+        throw new ApiAuthError('Insufficient permissions to reassign orders', 403);
+      }
+      if (!(await isAssignableUser(updateData.assignedToUserId))) {
+        return NextResponse.json(
+          { error: { message: 'Responsável não encontrado', details: null } },
+          { status: 400 }
+        );
       }
+    }
+
+    const order = await prisma.$transaction(async (tx) => {
+      // ✅ SECURITY: USER role can only update orders they created or are assigned to
+      const current = await tx.order.findFirst({
+        where: applyUserFilter(user, { id: orderId }),
+        select: { id: true },
+      });
+      if (!current) {
+        return null;
+      }
+
+      return tx.order.update({
+        where: { id: orderId },
+        data: updateData,
+        include: {
+          budget: {
+            include: {
+              client: true,
+              center: true,
+              approvedBy: true,
+              rejectedBy: true,
+            },
+          },
+          ...OWNER_SELECT,
+        }
+      });
     });
 
+    if (!order) {
+      return NextResponse.json(
+        { error: { message: 'Ordem não encontrada' } },
+        { status: 404 }
+      );
+    }
+
     return NextResponse.json({ data: order });
   } catch (error) {
     console.error('Error updating order:', error);
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function DELETE(
-  req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission<{ id: string }>(Permission.DELETE_ORDERS, async (req, { params }) => {
   try {
-    const user = await requireApiAuth(req);
-    
-    // Only admins can delete orders
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: { message: 'Acesso negado. Apenas administradores podem excluir ordens.' } },
-        { status: 403 }
-      );
-    }
-
-    const orderId = await getOrderId(context);
+    const orderId = await getOrderId(params);
     if (!orderId) {
       return NextResponse.json(
         { error: { message: 'Identificador de ordem inválido' } },
@@ -151,4 +159,4 @@ export async function DELETE(
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
@@ -1,10 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { OrderStatusChangeSchema } from '@/lib/validation';
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, applyUserFilter, hasPermission } from '@/lib/api-auth';
+import { Role, Permission } from '@/lib/rbac';
 import { OrderStatus, Prisma } from '@/generated/prisma';
+import { recordOrderStatusEvent } from '@/lib/order-history';
 
 const ORDER_WITH_RELATIONS = {
   budget: {
@@ -31,31 +32,33 @@ const VALID_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
     OrderStatus.IN_PRODUCTION,
     OrderStatus.CANCELLED,
   ],
-  [OrderStatus.COMPLETED]: [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+  // DELIVERED is set by registering deliveries (see src/lib/order-deliveries.ts)
+  [OrderStatus.COMPLETED]: [OrderStatus.CANCELLED],
   [OrderStatus.DELIVERED]: [],
   [OrderStatus.CANCELLED]: [],
 };
 
-const STATUS_CHANGE_PERMISSIONS: Record<OrderStatus, Role[]> = {
-  [OrderStatus.PENDING]: [Role.USER, Role.MODERATOR, Role.ADMIN],
-  [OrderStatus.IN_PRODUCTION]: [Role.MODERATOR, Role.ADMIN],
-  [OrderStatus.COMPLETED]: [Role.MODERATOR, Role.ADMIN],
-  [OrderStatus.DELIVERED]: [Role.MODERATOR, Role.ADMIN],
-  [OrderStatus.ON_HOLD]: [Role.USER, Role.MODERATOR, Role.ADMIN],
-  [OrderStatus.CANCELLED]: [Role.MODERATOR, Role.ADMIN],
+const STATUS_CHANGE_PERMISSIONS: Record<OrderStatus, Permission> = {
+  [OrderStatus.PENDING]: Permission.WRITE_ORDERS,
+  [OrderStatus.IN_PRODUCTION]: Permission.MANAGE_PRODUCTION,
+  [OrderStatus.COMPLETED]: Permission.MANAGE_PRODUCTION,
+  [OrderStatus.DELIVERED]: Permission.MANAGE_PRODUCTION,
+  [OrderStatus.ON_HOLD]: Permission.WRITE_ORDERS,
+  [OrderStatus.CANCELLED]: Permission.MANAGE_PRODUCTION,
 };
 
 type OrderWithBudget = Prisma.OrderGetPayload<{ include: typeof ORDER_WITH_RELATIONS }>;
 
 async function resolveOrderId(
-  context: { params: Promise<{ id: string }> }
+  params: Promise<{ id: string }>
 ): Promise<number | null> {
-  const { id } = await context.params;
+  const { id } = await params;
   const parsed = Number.parseInt(id, 10);
   return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
 }
 
-function sanitizeOrderByRole(order: OrderWithBudget, role: Role) {
+// Custom roles get the USER view
+function sanitizeOrderByRole(order: OrderWithBudget, role: string) {
   if (role === Role.ADMIN) {
     return order;
   }
@@ -114,14 +117,10 @@ function sanitizeOrderByRole(order: OrderWithBudget, role: Role) {
   };
 }
 
-export async function PATCH(
-  req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+// Production staff may hold only MANAGE_PRODUCTION; STATUS_CHANGE_PERMISSIONS decides per target status
+export const PATCH = withPermission<{ id: string }>([Permission.WRITE_ORDERS, Permission.MANAGE_PRODUCTION], async (req, { params, user }) => {
   try {
-    const user = await requireApiAuth(req);
-
-    const orderId = await resolveOrderId(context);
+    const orderId = await resolveOrderId(params);
     if (!orderId) {
       return NextResponse.json(
         { error: { message: 'ID invalido', details: null } },
@@ -144,8 +143,9 @@ export async function PATCH(
     }
 
     const { status: newStatus, reason } = parsed.data;
-    const currentOrder = await prisma.order.findUnique({
-      where: { id: orderId },
+    // ✅ SECURITY: USER role can only change orders they created or are assigned to
+    const currentOrder = await prisma.order.findFirst({
+      where: applyUserFilter(user, { id: orderId }),
       include: ORDER_WITH_RELATIONS,
     });
 
@@ -187,14 +187,14 @@ export async function PATCH(
       );
     }
 
-    const requiredRoles = STATUS_CHANGE_PERMISSIONS[newStatus];
-    if (!requiredRoles.includes(user.role)) {
+    const requiredPermission = STATUS_CHANGE_PERMISSIONS[newStatus];
+    if (!hasPermission(user, requiredPermission)) {
       return NextResponse.json(
         {
           error: {
             message: 'Permissao insuficiente para esta mudanca de status',
             details: {
-              requiredRoles,
+              requiredPermission,
               userRole: user.role,
               targetStatus: newStatus,
             },
@@ -213,13 +213,25 @@ export async function PATCH(
       ? `${existingNotes}\n${auditEntry}`
       : auditEntry;
 
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: newStatus,
-        obs_producao: mergedNotes,
-      },
-      include: ORDER_WITH_RELATIONS,
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      const updated = await tx.order.update({
+        where: { id: orderId },
+        data: {
+          status: newStatus,
+          obs_producao: mergedNotes,
+        },
+        include: ORDER_WITH_RELATIONS,
+      });
+
+      await recordOrderStatusEvent(tx, {
+        orderId,
+        fromStatus: currentStatus,
+        toStatus: newStatus,
+        actorId: user.userId,
+        reason,
+      });
+
+      return updated;
     });
 
     const filteredOrder = sanitizeOrderByRole(updatedOrder, user.role);
@@ -241,16 +253,11 @@ export async function PATCH(
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function GET(
-  req: NextRequest,
-  context: { params: Promise<{ id: string }> }
-) {
+export const GET = withPermission<{ id: string }>(Permission.READ_ORDERS, async (req, { params, user }) => {
   try {
-    const user = await requireApiAuth(req);
-
-    const orderId = await resolveOrderId(context);
+    const orderId = await resolveOrderId(params);
     if (!orderId) {
       return NextResponse.json(
         { error: { message: 'ID invalido', details: null } },
@@ -258,8 +265,9 @@ export async function GET(
       );
     }
 
-    const currentOrder = await prisma.order.findUnique({
-      where: { id: orderId },
+    // ✅ SECURITY: USER role only sees orders they created or are assigned to
+    const currentOrder = await prisma.order.findFirst({
+      where: applyUserFilter(user, { id: orderId }),
       select: { id: true, status: true },
     });
 
@@ -273,8 +281,7 @@ export async function GET(
     const currentStatus = currentOrder.status;
     const allowedTransitions = VALID_STATUS_TRANSITIONS[currentStatus];
     const availableTransitions = allowedTransitions.filter((status) => {
-      const requiredRoles = STATUS_CHANGE_PERMISSIONS[status];
-      return requiredRoles.includes(user.role);
+      return hasPermission(user, STATUS_CHANGE_PERMISSIONS[status]);
     });
 
     return NextResponse.json({
@@ -291,4 +298,4 @@ export async function GET(
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
@@ -1,14 +1,12 @@
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { requireApiAuth } from '@/lib/server-auth';
+import { withPermission } from '@/lib/server-auth';
+import { Permission } from '@/lib/rbac';
 import { handleApiError } from '@/lib/api-auth';
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_ORDERS, async () => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    await requireApiAuth(req);
-    
     // ✅ SECURITY: All authenticated users can access editorials list
     
     const editorials = await prisma.budget.findMany({
@@ -39,4 +37,4 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
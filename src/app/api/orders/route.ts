@@ -1,12 +1,19 @@
 // src/app/api/orders/route.ts
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { Prisma, OrderStatus } from '@/generated/prisma';
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
-import { generateNumeroPedido } from '@/lib/order-number';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, applyUserFilter, applyOwnershipView, parseOwnershipView, ApiAuthError, hasPermission } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import {
+  convertBudgetToOrder,
+  createOrderWithImplicitBudget,
+  BudgetConversionError,
+} from '@/lib/budget-conversion';
+import { ClientContactError } from '@/lib/client-contacts';
+import { DirectOrderSchema } from '@/lib/validation';
+import { withIdempotency } from '@/lib/idempotency';
 import { z } from 'zod';
 
 const CreateOrderSchema = z.object({
@@ -15,92 +22,86 @@ const CreateOrderSchema = z.object({
   responsavel_producao: z.string().optional()
 });
 
-export async function POST(req: NextRequest) {
+// Covers every flow, so direct and rush orders are also MODERATOR/ADMIN only;
+// rush orders also need CREATE_RUSH_ORDERS, which custom roles do not get with CREATE_ORDERS
+export const POST = withPermission(Permission.CREATE_ORDERS, async (req, { user }) => {
   try {
-    const user = await requireApiAuth(req);
-
-    if (user.role === Role.USER) {
-      return NextResponse.json(
-        { error: { message: 'Acesso negado. Apenas moderadores ou administradores podem criar ordens.' } },
-        { status: 403 }
-      );
-    }
     const body = await req.json();
-    const { budgetId, obs_producao, responsavel_producao } = CreateOrderSchema.parse(body);
 
-    // Validate budget exists and is APPROVED
-    const budget = await prisma.budget.findUnique({
-      where: { id: budgetId },
-      include: { order: true, client: true, center: true }
-    });
+    // Direct and rush orders carry the budget data instead of a budgetId
+    if (body?.orderType === 'DIRECT_ORDER' || body?.orderType === 'RUSH_ORDER') {
+      // ✅ SECURITY: Rush orders add a surcharge and shorten the deadline
+      if (body.orderType === 'RUSH_ORDER' && !hasPermission(user, Permission.CREATE_RUSH_ORDERS)) {
+        throw new ApiAuthError('Insufficient permissions to create rush orders', 403);
+      }
 
-    if (!budget) {
-      return NextResponse.json(
-        { error: { message: 'Orcamento nao encontrado' } },
-        { status: 404 }
-      );
-    }
+      // ✅ VALIDATION: Implicit budget data, deadline and surcharge
+      const parsed = DirectOrderSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json({
+          error: {
+            message: 'Dados inválidos',
+            details: parsed.error.flatten()
+          }
+        }, { status: 400 });
+      }
 
-    if (budget.status !== 'APPROVED') {
-      return NextResponse.json(
-        { error: { message: 'Apenas orcamentos aprovados podem ser convertidos em ordens' } },
-        { status: 400 }
-      );
-    }
+      return await withIdempotency(
+        req,
+        { scope: 'POST /api/orders', userId: user.userId, fingerprint: parsed.data },
+        async () => {
+          const order = await createOrderWithImplicitBudget({
+            data: parsed.data,
+            actorId: user.userId,
+          });
 
-    if (budget.order) {
-      return NextResponse.json(
-        { error: { message: 'Este orcamento ja possui uma ordem associada' } },
-        { status: 400 }
+          return { status: 201, body: { data: order, error: null } };
+        }
       );
     }
 
-    // Create order with minimal data
-    const order = await prisma.order.create({
-      data: {
-        budgetId,
-        numero_pedido: await generateNumeroPedido('ORDER'),
-        orderType: 'BUDGET_DERIVED',
-        obs_producao,
-        responsavel_producao,
-        status: 'PENDING'
-      },
-      include: {
-        budget: {
-          include: {
-            client: true,
-            center: true
-          }
-        }
-      }
-    });
+    const { budgetId, obs_producao, responsavel_producao } = CreateOrderSchema.parse(body);
 
-    // Mark budget as converted
-    await prisma.budget.update({
-      where: { id: budgetId },
-      data: { 
-        status: 'CONVERTED',
-        convertedAt: new Date()
+    return await withIdempotency(
+      req,
+      {
+        scope: 'POST /api/orders',
+        userId: user.userId,
+        fingerprint: { budgetId, obs_producao, responsavel_producao },
+      },
+      async () => {
+        const order = await convertBudgetToOrder({
+          budgetId,
+          actorId: user.userId,
+          obs_producao,
+          responsavel_producao,
+        });
+
+        return { status: 200, body: { data: order } };
       }
-    });
-
-    return NextResponse.json({ data: order });
+    );
   } catch (error) {
+    if (error instanceof BudgetConversionError || error instanceof ClientContactError) {
+      return NextResponse.json(
+        { error: { message: error.message, details: null } },
+        { status: error.status }
+      );
+    }
     console.error('Error creating order:', error);
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_ORDERS, async (req, { user }) => {
   try {
-    await requireApiAuth(req);
     const { searchParams } = new URL(req.url);
     
     const page = parseInt(searchParams.get('page') || '1');
     const pageSize = parseInt(searchParams.get('pageSize') || '10');
     const status = searchParams.get('status');
     const search = searchParams.get('q');
+    const view = parseOwnershipView(searchParams.get('view'));
 
     const where: Prisma.OrderWhereInput = {};
 
@@ -111,8 +112,11 @@ export async function GET(req: NextRequest) {
       where.OR = buildOrderSearchFilters(search);
     }
 
+    // ✅ SECURITY: USER role only sees orders they created or are assigned to
+    const scopedWhere = applyUserFilter(user, applyOwnershipView(user, view, where));
+
     const orders = await prisma.order.findMany({
-      where,
+      where: scopedWhere,
       include: {
         budget: {
           include: {
@@ -126,7 +130,7 @@ export async function GET(req: NextRequest) {
       take: pageSize
     });
 
-    const total = await prisma.order.count({ where });
+    const total = await prisma.order.count({ where: scopedWhere });
 
     return NextResponse.json({
       data: orders,
@@ -134,7 +138,8 @@ export async function GET(req: NextRequest) {
         total,
         page,
         pageSize,
-        totalPages: Math.ceil(total / pageSize)
+        totalPages: Math.ceil(total / pageSize),
+        view
       }
     });
   } catch (error) {
@@ -142,7 +147,7 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
 function isValidOrderStatus(value: string): value is OrderStatus {
   return (Object.values(OrderStatus) as string[]).includes(value);
@@ -1,9 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { EXPORT_FORMATS, exportReportResponse } from '@/lib/reports/export';
+import { mapRows, queryInBatches, type ReportBatch } from '@/lib/reports/batches';
+import { describeReportFilters } from '@/lib/reports/filters';
+import { formatCurrencyBRL } from '@/lib/utils';
 import type { Prisma } from "@/generated/prisma";
 
 const FilterSchema = z.object({
@@ -11,18 +15,11 @@ const FilterSchema = z.object({
   dateTo: z.string().optional(),
   editorial: z.string().optional(),
   centerId: z.string().optional(),
+  format: z.enum(EXPORT_FORMATS).optional(),
 });
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_FINANCIAL_REPORTS, async (req) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Financial reports are ADMIN/MODERATOR only
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to access financial reports', 403);
-    }
-
     const { searchParams } = new URL(req.url);
     const query = Object.fromEntries(searchParams.entries());
 
@@ -33,7 +30,7 @@ export async function GET(req: NextRequest) {
       }, { status: 400 });
     }
 
-    const { dateFrom, dateTo, editorial, centerId } = validation.data;
+    const { dateFrom, dateTo, editorial, centerId, format } = validation.data;
 
     const where: Prisma.BudgetWhereInput = {
       order: {
@@ -57,7 +54,7 @@ export async function GET(req: NextRequest) {
       where.centerId = parseInt(centerId, 10);
     }
 
-    const budgets = await prisma.budget.findMany({
+    const findBudgets = (batch?: ReportBatch) => prisma.budget.findMany({
       where,
       select: {
         numero_pedido: true,
@@ -73,12 +70,12 @@ export async function GET(req: NextRequest) {
           },
         },
       },
-      orderBy: {
-        data_entrega: 'desc',
-      },
+      orderBy: [{ data_entrega: 'desc' }, { id: 'desc' }],
+      ...batch,
     });
+    type FinancialBudget = Awaited<ReturnType<typeof findBudgets>>[number];
 
-    const orders = budgets.map((budget) => ({
+    const toOrder = (budget: FinancialBudget) => ({
       numero_pedido:
         budget.order?.numero_pedido ??
         budget.numero_pedido ??
@@ -89,8 +86,34 @@ export async function GET(req: NextRequest) {
       tiragem: budget.tiragem,
       valorUnitario: budget.preco_unitario,
       valorTotal: budget.preco_total,
-    }));
+    });
+
+    if (format) {
+      // Rows are read in batches and the total accumulated as they stream
+      let totalValorTotal = 0;
+      return exportReportResponse({
+        title: 'Relatório Financeiro',
+        fileName: 'relatorio_financeiro',
+        filters: await describeReportFilters({ dateFrom, dateTo, editorial, centerId }),
+        columns: [
+          { header: 'Número da OP', value: (order) => order.numero_pedido },
+          { header: 'Tipo de Produto', value: (order) => order.tipo_produto },
+          { header: 'Data da Entrega', type: 'date', value: (order) => order.data_entrega },
+          { header: 'Título', value: (order) => order.titulo },
+          { header: 'Tiragem', type: 'integer', value: (order) => order.tiragem },
+          { header: 'Valor Unitário (R$)', type: 'currency', value: (order) => order.valorUnitario },
+          { header: 'Valor Total (R$)', type: 'currency', value: (order) => order.valorTotal },
+        ],
+        rows: mapRows(queryInBatches(findBudgets), (budget) => {
+          const order = toOrder(budget);
+          totalValorTotal += order.valorTotal;
+          return order;
+        }),
+        summary: () => [{ label: 'Valor Total', value: formatCurrencyBRL(totalValorTotal) }],
+      }, format);
+    }
 
+    const orders = (await findBudgets()).map(toOrder);
     const totalValorTotal = orders.reduce(
       (acc, order) => acc + order.valorTotal,
       0
@@ -108,4 +131,4 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
@@ -1,23 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from "@/lib/prisma";
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { exportReportResponse, isExportFormat } from '@/lib/reports/export';
+import { describeReportFilters } from '@/lib/reports/filters';
+import { formatCurrencyBRL } from '@/lib/utils';
 import type { Prisma } from "@/generated/prisma";
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_FINANCIAL_REPORTS, async (req) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const user = await requireApiAuth(req);
-    
-    // ✅ SECURITY: Orders by client with financial data - ADMIN/MODERATOR only
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to access client financial reports', 403);
-    }
-
     const { searchParams } = new URL(req.url);
     const dateFrom = searchParams.get("dateFrom");
     const dateTo = searchParams.get("dateTo");
+    const format = searchParams.get("format");
+
+    // ✅ VALIDATION: Only known export formats
+    if (format !== null && !isExportFormat(format)) {
+      return NextResponse.json({
+        error: { message: 'Invalid query parameters', details: { fieldErrors: { format: ['Formato inválido'] } } }
+      }, { status: 400 });
+    }
 
     const where: Prisma.BudgetWhereInput = {
       order: {
@@ -53,6 +56,24 @@ export async function GET(req: NextRequest) {
       total: g._sum.preco_total ?? 0,
     }));
 
+    if (format) {
+      return exportReportResponse({
+        title: 'Pedidos por Cliente',
+        fileName: 'pedidos_por_cliente',
+        filters: await describeReportFilters({ dateFrom, dateTo }),
+        columns: [
+          { header: 'Cliente', value: (row) => row.clientName },
+          { header: 'Pedidos', type: 'integer', value: (row) => row.orders },
+          { header: 'Total (R$)', type: 'currency', value: (row) => row.total },
+        ],
+        rows: data,
+        summary: [
+          { label: 'Pedidos', value: data.reduce((acc, row) => acc + row.orders, 0).toLocaleString('pt-BR') },
+          { label: 'Valor Total', value: formatCurrencyBRL(data.reduce((acc, row) => acc + row.total, 0)) },
+        ],
+      }, format);
+    }
+
     return NextResponse.json({
       data,
       meta: { dateFrom, dateTo },
@@ -63,4 +84,4 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
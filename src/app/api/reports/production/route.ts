@@ -1,24 +1,44 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError } from '@/lib/api-auth';
-import type { Prisma } from "@/generated/prisma";
+import { withPermission } from '@/lib/server-auth';
+import { Permission } from '@/lib/rbac';
+import { handleApiError, applyUserFilter } from '@/lib/api-auth';
+import type { OrderStatus, Prisma } from "@/generated/prisma";
+import { computeStatusDurations, formatDuration } from '@/lib/order-history';
+import { EXPORT_FORMATS, exportReportResponse } from '@/lib/reports/export';
+import { mapRows, queryInBatches, type ReportBatch } from '@/lib/reports/batches';
+import { describeReportFilters } from '@/lib/reports/filters';
 
 const FilterSchema = z.object({
   dateFrom: z.string().optional(),
   dateTo: z.string().optional(),
   editorial: z.string().optional(),
   centerId: z.string().optional(),
+  format: z.enum(EXPORT_FORMATS).optional(),
 });
 
-export async function GET(req: NextRequest) {
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  PENDING: 'Pendente',
+  IN_PRODUCTION: 'Em Produção',
+  ON_HOLD: 'Em Espera',
+  COMPLETED: 'Concluída',
+  DELIVERED: 'Entregue',
+  CANCELLED: 'Cancelada',
+};
+
+// Status columns exported with the time the order spent in each one
+const DURATION_COLUMNS: { status: OrderStatus; label: string }[] = [
+  { status: 'PENDING', label: 'Pendente' },
+  { status: 'IN_PRODUCTION', label: 'Em Produção' },
+  { status: 'ON_HOLD', label: 'Em Espera' },
+  { status: 'COMPLETED', label: 'Concluída' },
+];
+
+export const GET = withPermission(Permission.READ_REPORTS, async (req, { user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    await requireApiAuth(req);
-    
     // ✅ SECURITY: Production reports require authentication (all roles can access production data)
-    // Users can see production info but not financial data
+    // Users can see production info but not financial data, and only for their own orders
 
     const { searchParams } = new URL(req.url);
     const query = Object.fromEntries(searchParams.entries());
@@ -30,11 +50,12 @@ export async function GET(req: NextRequest) {
       }, { status: 400 });
     }
 
-    const { dateFrom, dateTo, editorial, centerId } = validation.data;
+    const { dateFrom, dateTo, editorial, centerId, format } = validation.data;
 
     const where: Prisma.BudgetWhereInput = {
       order: {
         isNot: null,
+        is: applyUserFilter<Prisma.OrderWhereInput>(user),
       },
     };
     const dateFilter: Prisma.DateTimeNullableFilter = {};
@@ -54,7 +75,7 @@ export async function GET(req: NextRequest) {
       where.centerId = parseInt(centerId, 10);
     }
 
-    const budgets = await prisma.budget.findMany({
+    const findBudgets = (batch?: ReportBatch) => prisma.budget.findMany({
       where,
       select: {
         data_entrega: true,
@@ -64,15 +85,22 @@ export async function GET(req: NextRequest) {
         order: {
           select: {
             numero_pedido: true,
+            status: true,
+            createdAt: true,
+            statusEvents: {
+              select: { fromStatus: true, toStatus: true, createdAt: true },
+              orderBy: { createdAt: 'asc' },
+            },
           },
         },
       },
-      orderBy: {
-        data_entrega: 'desc',
-      },
+      orderBy: [{ data_entrega: 'desc' }, { id: 'desc' }],
+      ...batch,
     });
+    type ProductionBudget = Awaited<ReturnType<typeof findBudgets>>[number];
 
-    const orders = budgets.map((budget) => ({
+    const now = new Date();
+    const toOrder = (budget: ProductionBudget) => ({
       numero_pedido:
         budget.order?.numero_pedido ??
         budget.numero_pedido ??
@@ -80,8 +108,44 @@ export async function GET(req: NextRequest) {
       data_entrega: budget.data_entrega?.toISOString() ?? null,
       titulo: budget.titulo,
       tiragem: budget.tiragem,
-    }));
+      status: budget.order?.status ?? null,
+      // Milliseconds spent in each order status, derived from OrderStatusEvent
+      statusDurations: budget.order
+        ? computeStatusDurations(budget.order.createdAt, budget.order.status, budget.order.statusEvents, now)
+        : {},
+    });
+
+    if (format) {
+      // Rows are read in batches and the total accumulated as they stream
+      let totalTiragem = 0;
+      return exportReportResponse({
+        title: 'Relatório de Produção',
+        fileName: 'relatorio_producao',
+        filters: await describeReportFilters({ dateFrom, dateTo, editorial, centerId }),
+        columns: [
+          { header: 'Número da OP', value: (order) => order.numero_pedido },
+          { header: 'Data da Entrega', type: 'date', value: (order) => order.data_entrega },
+          { header: 'Título', value: (order) => order.titulo },
+          { header: 'Tiragem', type: 'integer', value: (order) => order.tiragem },
+          { header: 'Status', value: (order) => (order.status ? STATUS_LABELS[order.status] : '-') },
+          ...DURATION_COLUMNS.map(({ status, label }) => ({
+            header: `Tempo ${label}`,
+            value: (order: ReturnType<typeof toOrder>) => {
+              const ms = order.statusDurations[status];
+              return ms === undefined ? '-' : formatDuration(ms);
+            },
+          })),
+        ],
+        rows: mapRows(queryInBatches(findBudgets), (budget) => {
+          const order = toOrder(budget);
+          totalTiragem += order.tiragem;
+          return order;
+        }),
+        summary: () => [{ label: 'Total de Tiragem', value: totalTiragem.toLocaleString('pt-BR') }],
+      }, format);
+    }
 
+    const orders = (await findBudgets()).map(toOrder);
     const totalTiragem = orders.reduce((acc, order) => acc + order.tiragem, 0);
 
     return NextResponse.json({
@@ -96,4 +160,4 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { getCenterPriceTable } from '@/lib/pricing/price-table';
+import type { PriceTableEntry } from '@/lib/pricing/engine';
+import {
+  PROFITABILITY_GROUPINGS,
+  calculateOrderProfitability,
+  groupProfitability,
+  summarizeProfitability,
+} from '@/lib/profitability';
+import { EXPORT_FORMATS, exportReportResponse } from '@/lib/reports/export';
+import { mapRows, queryInBatches, type ReportBatch } from '@/lib/reports/batches';
+import { describeReportFilters } from '@/lib/reports/filters';
+import { formatCurrencyBRL } from '@/lib/utils';
+import type { Prisma } from "@/generated/prisma";
+
+const FilterSchema = z.object({
+  dateFrom: z.string().optional(),
+  dateTo: z.string().optional(),
+  editorial: z.string().optional(),
+  centerId: z.string().optional(),
+  format: z.enum(EXPORT_FORMATS).optional(),
+});
+
+export const GET = withPermission(Permission.READ_PROFITABILITY, async (req) => {
+  try {
+    const { searchParams } = new URL(req.url);
+    const query = Object.fromEntries(searchParams.entries());
+
+    const validation = FilterSchema.safeParse(query);
+    if (!validation.success) {
+      return NextResponse.json({
+        error: { message: 'Invalid query parameters', details: validation.error.flatten() }
+      }, { status: 400 });
+    }
+
+    const { dateFrom, dateTo, editorial, centerId, format } = validation.data;
+
+    // Cancelled orders never produce revenue
+    const where: Prisma.OrderWhereInput = {
+      status: { not: 'CANCELLED' },
+    };
+    const dateFilter: Prisma.DateTimeFilter<'Order'> = {};
+    if (dateFrom) {
+      dateFilter.gte = new Date(dateFrom);
+    }
+    if (dateTo) {
+      dateFilter.lte = new Date(dateTo);
+    }
+    if (Object.keys(dateFilter).length) {
+      where.data_pedido = dateFilter;
+    }
+    const budgetWhere: Prisma.BudgetWhereInput = {};
+    if (editorial && editorial !== 'all') {
+      budgetWhere.editorial = { contains: editorial };
+    }
+    if (centerId && centerId !== 'all') {
+      budgetWhere.centerId = parseInt(centerId, 10);
+    }
+    if (Object.keys(budgetWhere).length) {
+      where.budget = budgetWhere;
+    }
+
+    const findOrders = (batch?: ReportBatch) => prisma.order.findMany({
+      where,
+      select: {
+        numero_pedido: true,
+        data_pedido: true,
+        frete_real: true,
+        custo_adicional: true,
+        budget: {
+          select: {
+            titulo: true,
+            editorial: true,
+            formato: true,
+            tiragem: true,
+            total_pgs: true,
+            pgs_colors: true,
+            papel_miolo: true,
+            papel_capa: true,
+            cor_miolo: true,
+            cor_capa: true,
+            laminacao: true,
+            acabamento: true,
+            shrink: true,
+            frete: true,
+            preco_total: true,
+            centerId: true,
+            client: { select: { name: true } },
+            center: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: [{ data_pedido: 'desc' }, { id: 'desc' }],
+      ...batch,
+    });
+    type ReportOrder = Awaited<ReturnType<typeof findOrders>>[number];
+
+    // One price table lookup per center involved
+    const priceTables = new Map<number, Promise<PriceTableEntry[]>>();
+    const toRow = async (order: ReportOrder) => {
+      const { centerId } = order.budget;
+      if (!priceTables.has(centerId)) {
+        priceTables.set(centerId, getCenterPriceTable(centerId).then((table) => table.items));
+      }
+      return calculateOrderProfitability(order, await priceTables.get(centerId)!);
+    };
+
+    if (format) {
+      // Rows are read in batches and the totals accumulated as they stream
+      const totals = { revenue: 0, actualCost: 0 };
+      return exportReportResponse({
+        title: 'Rentabilidade por Ordem',
+        fileName: 'relatorio_rentabilidade',
+        filters: await describeReportFilters({ dateFrom, dateTo, editorial, centerId }, 'Data do pedido'),
+        columns: [
+          { header: 'Número da OP', value: (row) => row.numero_pedido },
+          { header: 'Título', value: (row) => row.titulo },
+          { header: 'Cliente', value: (row) => row.client },
+          { header: 'Centro', value: (row) => row.center },
+          { header: 'Editorial', value: (row) => row.editorial },
+          { header: 'Mês', value: (row) => row.month.split('-').reverse().join('/') },
+          { header: 'Receita (R$)', type: 'currency', value: (row) => row.revenue },
+          { header: 'Custo Estimado (R$)', type: 'currency', value: (row) => row.estimatedCost },
+          { header: 'Custo Real (R$)', type: 'currency', value: (row) => row.actualCost },
+          { header: 'Variação (R$)', type: 'currency', value: (row) => row.variance },
+          { header: 'Margem (R$)', type: 'currency', value: (row) => row.margin },
+          { header: 'Margem %', type: 'percent', value: (row) => row.marginPercent },
+        ],
+        rows: mapRows(queryInBatches(findOrders), async (order) => {
+          const row = await toRow(order);
+          totals.revenue += row.revenue;
+          totals.actualCost += row.actualCost;
+          return row;
+        }),
+        summary: () => [
+          { label: 'Receita', value: formatCurrencyBRL(totals.revenue) },
+          { label: 'Custo Real', value: formatCurrencyBRL(totals.actualCost) },
+          { label: 'Margem', value: formatCurrencyBRL(totals.revenue - totals.actualCost) },
+        ],
+      }, format);
+    }
+
+    const rows = await Promise.all((await findOrders()).map(toRow));
+
+    return NextResponse.json({
+      data: {
+        orders: rows,
+        groups: Object.fromEntries(
+          PROFITABILITY_GROUPINGS.map((grouping) => [grouping, groupProfitability(rows, grouping)])
+        ),
+        totals: summarizeProfitability(rows),
+      },
+      error: null
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
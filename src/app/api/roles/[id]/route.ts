@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/server-auth";
+import { handleApiError } from "@/lib/api-auth";
+import { Permission } from "@/lib/rbac";
+import { deleteRole, RoleError, updateRole } from "@/lib/roles";
+import { RoleUpdateSchema } from "@/lib/validation";
+
+function parseRoleId(value: string): number | null {
+  const id = Number.parseInt(value, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof RoleError) {
+    return NextResponse.json({ error: { message: error.message, details: null } }, { status: error.status });
+  }
+  const { error: apiError, status } = handleApiError(error);
+  return NextResponse.json(apiError, { status });
+}
+
+// PUT /api/roles/[id] - Rename a role or change its permissions.
+// Users holding the role get the new permissions with their next token refresh.
+export const PUT = withPermission<{ id: string }>(Permission.MANAGE_ROLES, async (request, { params }) => {
+  try {
+    const id = parseRoleId((await params).id);
+    if (!id) {
+      return NextResponse.json(
+        { error: { message: "Invalid role ID", details: null } },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = RoleUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { message: "Dados inválidos", details: parsed.error.flatten() } },
+        { status: 400 }
+      );
+    }
+
+    const role = await prisma.$transaction((tx) => updateRole(tx, id, parsed.data));
+
+    return NextResponse.json({
+      data: role,
+      error: null,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
+
+// DELETE /api/roles/[id] - Delete a custom role that no user holds
+export const DELETE = withPermission<{ id: string }>(Permission.MANAGE_ROLES, async (request, { params }) => {
+  try {
+    const id = parseRoleId((await params).id);
+    if (!id) {
+      return NextResponse.json(
+        { error: { message: "Invalid role ID", details: null } },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction((tx) => deleteRole(tx, id));
+
+    return NextResponse.json({
+      data: { id },
+      error: null,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/server-auth";
+import { handleApiError } from "@/lib/api-auth";
+import { Permission } from "@/lib/rbac";
+import { createRole, listRoles, RoleError } from "@/lib/roles";
+import { RoleSchema } from "@/lib/validation";
+
+// GET /api/roles - Roles with their permissions; also feeds the role picker of /admin/users
+export const GET = withPermission(Permission.READ_USERS, async () => {
+  try {
+    const roles = await prisma.$transaction((tx) => listRoles(tx));
+
+    return NextResponse.json({
+      data: roles,
+      error: null,
+    });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
+
+// POST /api/roles - Create a custom role
+export const POST = withPermission(Permission.MANAGE_ROLES, async (request) => {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = RoleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { message: "Dados inválidos", details: parsed.error.flatten() } },
+        { status: 400 }
+      );
+    }
+
+    const role = await prisma.$transaction((tx) => createRole(tx, parsed.data));
+
+    return NextResponse.json({
+      data: role,
+      error: null,
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof RoleError) {
+      return NextResponse.json({ error: { message: error.message, details: null } }, { status: error.status });
+    }
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { NumberSequenceSchema } from '@/lib/validation';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { SEQUENCE_DEFAULTS, formatSequenceNumber, resolveSequencePeriod, type SequenceKey } from '@/lib/order-number';
+
+function isSequenceKey(value: string): value is SequenceKey {
+  return value in SEQUENCE_DEFAULTS;
+}
+
+export const PUT = withPermission<{ key: string }>(Permission.WRITE_SYSTEM, async (req, { params }) => {
+  try {
+    const { key } = await params;
+    if (!isSequenceKey(key)) {
+      return NextResponse.json(
+        { error: { message: 'Sequência não encontrada', details: null } },
+        { status: 404 }
+      );
+    }
+
+    const json = await req.json();
+    const parsed = NumberSequenceSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: {
+          message: "Dados inválidos",
+          details: parsed.error.flatten()
+        }
+      }, { status: 400 });
+    }
+
+    // Changing settings never touches the counter; a new reset period takes
+    // effect on the next number because the stored period no longer matches.
+    const sequence = await prisma.numberSequence.upsert({
+      where: { key },
+      create: { key, ...parsed.data },
+      update: parsed.data,
+    });
+
+    const now = new Date();
+    const samePeriod = sequence.currentPeriod === resolveSequencePeriod(sequence.resetPeriod, now);
+
+    return NextResponse.json({
+      data: {
+        ...sequence,
+        preview: formatSequenceNumber(sequence, samePeriod ? sequence.currentValue + 1 : 1, now),
+      },
+      error: null,
+    });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
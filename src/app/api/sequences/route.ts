@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { SEQUENCE_DEFAULTS, type SequenceKey } from '@/lib/order-number';
+
+export const GET = withPermission(Permission.READ_SYSTEM, async () => {
+  try {
+    // Make sure every known sequence exists so it can be configured before first use
+    await prisma.$transaction(
+      (Object.keys(SEQUENCE_DEFAULTS) as SequenceKey[]).map((key) =>
+        prisma.numberSequence.upsert({
+          where: { key },
+          create: { key, ...SEQUENCE_DEFAULTS[key] },
+          update: {},
+        })
+      )
+    );
+
+    const sequences = await prisma.numberSequence.findMany({ orderBy: { key: 'asc' } });
+
+    return NextResponse.json({ data: sequences, error: null });
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
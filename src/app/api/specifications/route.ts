@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import fs from 'fs';
 import path from 'path';
-import { requireApiAuth } from '@/lib/server-auth';
+import { withPermission } from '@/lib/server-auth';
+import { Permission } from '@/lib/rbac';
 import { handleApiError } from '@/lib/api-auth';
 import { SpecificationData } from '@/lib/specifications-enums';
 
@@ -16,11 +17,8 @@ interface SpecificationResponse {
   };
 }
 
-export async function GET(req: NextRequest) {
+export const GET = withPermission(Permission.READ_CONTENT, async () => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    await requireApiAuth(req);
-
     // ✅ SECURITY: All authenticated users can access specifications
 
     const filePath = path.join(process.cwd(), 'src', 'lib', 'especificacoes.json');
@@ -59,22 +57,11 @@ export async function GET(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
 // Optional: POST endpoint for updating specifications (admin only)
-export async function POST(req: NextRequest) {
+export const POST = withPermission(Permission.WRITE_SYSTEM, async (req) => {
   try {
-    // ✅ SECURITY: Get authenticated user
-    const user = await requireApiAuth(req);
-
-    // ✅ SECURITY: Only admins can update specifications
-    if (user.role !== 'ADMIN') {
-      return NextResponse.json(
-        { error: 'Unauthorized: Admin access required' },
-        { status: 403 }
-      );
-    }
-
     const body = await req.json();
 
     // Validate request body
@@ -107,4 +94,4 @@ export async function POST(req: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
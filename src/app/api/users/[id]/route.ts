@@ -1,19 +1,18 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { requireApiAuth } from '@/lib/server-auth';
-import { handleApiError, ApiAuthError, canManageUser } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, ApiAuthError, canAssignRole, canManageUser, hasPermission } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { resolveRole, roleExists } from '@/lib/roles';
+import { revokeUserSessions, SESSION_REVOKE_REASONS } from '@/lib/sessions';
+import { issueUserToken } from '@/lib/user-tokens';
+import { appUrl, sendMail } from '@/lib/mailer';
+import { emailVerificationEmail } from '@/lib/mail/templates';
 import type { Prisma } from "@/generated/prisma";
 
 // GET /api/users/[id] - Get user by ID
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const GET = withPermission<{ id: string }>(Permission.READ_PROFILE, async (request, { params, user: currentUser }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const currentUser = await requireApiAuth(request);
-    
     const { id: paramId } = await params;
     const userId = parseInt(paramId);
     if (isNaN(userId)) {
@@ -24,7 +23,7 @@ export async function GET(
     }
 
     // ✅ SECURITY: Users can read their own data, ADMIN/MODERATOR can read all
-    if (currentUser.userId !== userId && currentUser.role === Role.USER) {
+    if (currentUser.userId !== userId && !hasPermission(currentUser, Permission.READ_USERS)) {
       throw new ApiAuthError('Insufficient permissions to view user details', 403);
     }
 
@@ -56,17 +55,11 @@ export async function GET(
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
 // PUT /api/users/[id] - Update user
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const PUT = withPermission<{ id: string }>(Permission.WRITE_PROFILE, async (request, { params, user: currentUser }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const currentUser = await requireApiAuth(request);
-    
     const { id: paramId } = await params;
     const userId = parseInt(paramId);
     if (isNaN(userId)) {
@@ -80,8 +73,7 @@ export async function PUT(
 
     // ✅ SECURITY: Users can update their own profile, ADMIN/MODERATOR can update anyone
     const canUpdate = currentUser.userId === userId ||
-                      currentUser.role === Role.ADMIN ||
-                      currentUser.role === Role.MODERATOR;
+                      hasPermission(currentUser, Permission.UPDATE_USERS);
 
     if (!canUpdate) {
       throw new ApiAuthError('Insufficient permissions to update user', 403);
@@ -100,17 +92,41 @@ export async function PUT(
       );
     }
 
+    const roleChanged = role !== undefined && role !== targetUser.role;
+    const emailChanged = email !== undefined && email !== targetUser.email;
+
+    // ✅ SECURITY: Another user's e-mail receives their password reset links, so only
+    // someone who outranks them may change it
+    if (emailChanged && currentUser.userId !== userId) {
+      const [actorRole, targetRole] = await Promise.all([
+        resolveRole(prisma, currentUser.role),
+        resolveRole(prisma, targetUser.role),
+      ]);
+      if (!canManageUser(actorRole, targetRole)) {
+        return NextResponse.json(
+          { error: { message: "Cannot change this user's email", details: null } },
+          { status: 403 }
+        );
+      }
+    }
+
     // Validate role changes
-    if (role !== undefined) {
-      if (!Object.values(Role).includes(role)) {
+    if (roleChanged) {
+      if (typeof role !== 'string' || !(await roleExists(prisma, role))) {
         return NextResponse.json(
           { error: { message: "Invalid role specified", details: null } },
           { status: 400 }
         );
       }
 
-      // ✅ SECURITY: Check if current user can assign this role
-      if (!canManageUser(currentUser.role, role)) {
+      // ✅ SECURITY: The actor must outrank the user's current role and hold every
+      // permission of the new one (custom roles carry any permissions at any level)
+      const [actorRole, currentRole, newRole] = await Promise.all([
+        resolveRole(prisma, currentUser.role),
+        resolveRole(prisma, targetUser.role),
+        resolveRole(prisma, role),
+      ]);
+      if (!canManageUser(actorRole, currentRole) || !canAssignRole(actorRole, newRole)) {
         return NextResponse.json(
           { error: { message: "Cannot assign this role", details: null } },
           { status: 403 }
@@ -119,7 +135,7 @@ export async function PUT(
     }
 
     // Check email uniqueness if changing email
-    if (email && email !== targetUser.email) {
+    if (emailChanged) {
       const existingUser = await prisma.user.findUnique({
         where: { email },
       });
@@ -135,7 +151,11 @@ export async function PUT(
     const updateData: Prisma.UserUpdateInput = {};
     if (name !== undefined) updateData.name = name;
     if (role !== undefined) updateData.role = role;
-    if (email !== undefined) updateData.email = email;
+    if (emailChanged) {
+      // The new address is unverified until its owner follows the link
+      updateData.email = email;
+      updateData.emailVerifiedAt = null;
+    }
 
     // Update user
     const updatedUser = await prisma.user.update({
@@ -151,6 +171,25 @@ export async function PUT(
       },
     });
 
+    if (emailChanged) {
+      // ✅ SECURITY: Reset links already mailed to the old address stop working
+      await prisma.userToken.updateMany({
+        where: { userId, type: "PASSWORD_RESET", usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      const verificationToken = await issueUserToken(prisma, userId, "EMAIL_VERIFICATION");
+      await sendMail(
+        emailVerificationEmail(updatedUser.email, updatedUser.name, appUrl(request, "/verify-email", { token: verificationToken }))
+      );
+    }
+
+    // ✅ SECURITY: A role or e-mail change ends the user's sessions so they sign in again
+    if (roleChanged) {
+      await revokeUserSessions(prisma, userId, SESSION_REVOKE_REASONS.ROLE_CHANGED);
+    } else if (emailChanged) {
+      await revokeUserSessions(prisma, userId, SESSION_REVOKE_REASONS.EMAIL_CHANGED);
+    }
+
     return NextResponse.json({
       data: updatedUser,
       error: null,
@@ -160,22 +199,11 @@ export async function PUT(
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
 // DELETE /api/users/[id] - Delete user (admin only)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+export const DELETE = withPermission<{ id: string }>(Permission.DELETE_USERS, async (request, { params, user: currentUser }) => {
   try {
-    // ✅ SECURITY: Get authenticated user (throws if not authenticated)
-    const currentUser = await requireApiAuth(request);
-    
-    // ✅ SECURITY: Only admins can delete users
-    if (currentUser.role !== Role.ADMIN) {
-      throw new ApiAuthError('Insufficient permissions to delete users', 403);
-    }
-
     const { id: paramId } = await params;
     const userId = parseInt(paramId);
     if (isNaN(userId)) {
@@ -219,4 +247,4 @@ export async function DELETE(
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { revokeSession, SESSION_REVOKE_REASONS } from '@/lib/sessions';
+
+// DELETE /api/users/[id]/sessions/[sessionId] - Revoke one session of a user (admin only)
+export const DELETE = withPermission<{ id: string; sessionId: string }>(Permission.MANAGE_SESSIONS, async (request, { params }) => {
+  try {
+    const { id: paramId, sessionId: paramSessionId } = await params;
+    const userId = parseInt(paramId);
+    const sessionId = parseInt(paramSessionId);
+    if (isNaN(userId) || isNaN(sessionId)) {
+      return NextResponse.json(
+        { error: { message: "Invalid user or session ID", details: null } },
+        { status: 400 }
+      );
+    }
+
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId, revokedAt: null },
+      select: { id: true },
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        { error: { message: "Session not found", details: null } },
+        { status: 404 }
+      );
+    }
+
+    await revokeSession(prisma, session.id, SESSION_REVOKE_REASONS.ADMIN_REVOKED);
+
+    return NextResponse.json({
+      data: { message: "Session revoked" },
+      error: null,
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { listActiveSessions, revokeUserSessions, SESSION_REVOKE_REASONS } from '@/lib/sessions';
+
+// GET /api/users/[id]/sessions - Active logins of a user (admin only)
+export const GET = withPermission<{ id: string }>(Permission.MANAGE_SESSIONS, async (request, { params }) => {
+  try {
+    const { id: paramId } = await params;
+    const userId = parseInt(paramId);
+    if (isNaN(userId)) {
+      return NextResponse.json(
+        { error: { message: "Invalid user ID", details: null } },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: { message: "User not found", details: null } },
+        { status: 404 }
+      );
+    }
+
+    const sessions = await listActiveSessions(prisma, userId);
+
+    return NextResponse.json({
+      data: { user, sessions },
+      error: null,
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
+
+// DELETE /api/users/[id]/sessions - Log the user out on every device (admin only)
+export const DELETE = withPermission<{ id: string }>(Permission.MANAGE_SESSIONS, async (request, { params }) => {
+  try {
+    const { id: paramId } = await params;
+    const userId = parseInt(paramId);
+    if (isNaN(userId)) {
+      return NextResponse.json(
+        { error: { message: "Invalid user ID", details: null } },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: { message: "User not found", details: null } },
+        { status: 404 }
+      );
+    }
+
+    // Access tokens already issued stay valid until they expire (15 minutes)
+    const revoked = await revokeUserSessions(prisma, userId, SESSION_REVOKE_REASONS.ADMIN_LOGOUT_EVERYWHERE);
+
+    return NextResponse.json({
+      data: { revoked },
+      error: null,
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
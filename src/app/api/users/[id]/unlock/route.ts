@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError } from '@/lib/api-auth';
+import { Permission } from '@/lib/rbac';
+import { unlockAccount } from '@/lib/account-lockout';
+
+// POST /api/users/[id]/unlock - Lift a login lockout (admin only)
+export const POST = withPermission<{ id: string }>(Permission.MANAGE_SESSIONS, async (request, { params }) => {
+  try {
+    const { id: paramId } = await params;
+    const userId = parseInt(paramId);
+    if (isNaN(userId)) {
+      return NextResponse.json(
+        { error: { message: "Invalid user ID", details: null } },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: { message: "User not found", details: null } },
+        { status: 404 }
+      );
+    }
+
+    // Also resets the progressive lockout, so the next lock starts short again
+    await unlockAccount(prisma, userId);
+
+    return NextResponse.json({
+      data: { message: "User unlocked successfully" },
+      error: null,
+    });
+
+  } catch (error) {
+    const { error: apiError, status } = handleApiError(error);
+    return NextResponse.json(apiError, { status });
+  }
+});
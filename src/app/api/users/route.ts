@@ -1,27 +1,21 @@
-import { NextRequest, NextResponse } from "next/server";
-import { requireApiAuth } from '@/lib/server-auth';
-import { requireRole, handleApiError, ApiAuthError } from '@/lib/api-auth';
-import { Role } from '@/lib/rbac';
+import { NextResponse } from "next/server";
+import { withPermission } from '@/lib/server-auth';
+import { handleApiError, canAssignRole } from '@/lib/api-auth';
+import { Role, Permission } from '@/lib/rbac';
 import { prisma } from "@/lib/prisma";
+import { resolveRole, roleExists } from '@/lib/roles';
 import bcrypt from 'bcryptjs';
 
 // GET /api/users - List all users (admin/moderator only)
-export async function GET(request: NextRequest) {
+export const GET = withPermission(Permission.READ_USERS, async () => {
   try {
-    // ✅ SECURITY: Get authenticated user
-    const user = await requireApiAuth(request);
-    
-    // ✅ SECURITY: Only moderators and admins can view user list
-    if (user.role === Role.USER) {
-      throw new ApiAuthError('Insufficient permissions to view users', 403);
-    }
-
     const users = await prisma.user.findMany({
       select: {
         id: true,
         email: true,
         name: true,
         role: true,
+        lockedUntil: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -39,17 +33,11 @@ export async function GET(request: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
 
 // POST /api/users - Create new user (admin only)
-export async function POST(request: NextRequest) {
+export const POST = withPermission(Permission.WRITE_USERS, async (request, { user }) => {
   try {
-    // ✅ SECURITY: Get authenticated user
-    const user = await requireApiAuth(request);
-    
-    // ✅ SECURITY: Only admins can create users
-    requireRole(user, Role.ADMIN);
-
     const { email, password, name, role } = await request.json();
 
     if (!email || !password || !name) {
@@ -61,8 +49,8 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Validate role
-    if (role && !Object.values(Role).includes(role)) {
+    // Validate role: built-in or created under /admin/roles
+    if (role && (typeof role !== 'string' || !(await roleExists(prisma, role)))) {
       return NextResponse.json({
         error: { 
           message: "Invalid role specified", 
@@ -71,11 +59,16 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // ✅ SECURITY: Prevent privilege escalation - only admins can create other admins
-    if (role === Role.ADMIN && user.role !== Role.ADMIN) {
+    // ✅ SECURITY: Prevent privilege escalation - the new role must not outrank the
+    // creator or grant permissions the creator lacks
+    const [actorRole, newRole] = await Promise.all([
+      resolveRole(prisma, user.role),
+      resolveRole(prisma, role || Role.USER),
+    ]);
+    if (!canAssignRole(actorRole, newRole)) {
       return NextResponse.json({
         error: { 
-          message: "Only admins can create admin users", 
+          message: "Cannot assign this role", 
           details: null 
         }
       }, { status: 403 });
@@ -125,4 +118,4 @@ export async function POST(request: NextRequest) {
     const { error: apiError, status } = handleApiError(error);
     return NextResponse.json(apiError, { status });
   }
-}
+});
@@ -2,14 +2,17 @@
 
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from 'next/navigation';
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { BudgetForm } from "@/components/forms/budget-form";
+import { BudgetRevisionDiff } from "@/components/budgets/BudgetRevisionDiff";
+import { BudgetHistoryTimeline } from "@/components/budgets/BudgetHistoryTimeline";
 import { Package, CheckCircle, Loader2 } from "lucide-react";
 import type { BudgetWithRelations } from "@/types/models";
 import type { Specifications } from "@/lib/specifications";
+import { createIdempotencyKey } from "@/lib/utils";
 
 interface EditBudgetFormProps {
   budget: BudgetWithRelations;
@@ -19,6 +22,8 @@ interface EditBudgetFormProps {
 export default function EditBudgetForm({ budget, specifications }: EditBudgetFormProps) {
   const router = useRouter();
   const [isConverting, setIsConverting] = useState(false);
+  // One key per page visit: retries and double clicks replay the first conversion
+  const conversionKey = useMemo(() => createIdempotencyKey(), []);
 
   const handleConvertToOrder = async () => {
     if (!budget?.id) return;
@@ -29,6 +34,7 @@ export default function EditBudgetForm({ budget, specifications }: EditBudgetFor
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': conversionKey,
         },
         body: JSON.stringify({ 
           obs_producao: '', 
@@ -104,6 +110,12 @@ export default function EditBudgetForm({ budget, specifications }: EditBudgetFor
         initialData={budget}
         specifications={specifications ?? undefined}
       />
+
+      {/* Workflow history */}
+      <BudgetHistoryTimeline budgetId={budget.id} refreshKey={budget.status} />
+
+      {/* Submission history */}
+      <BudgetRevisionDiff budgetId={budget.id} refreshKey={budget.status} />
     </div>
   );
 }
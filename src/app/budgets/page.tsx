@@ -22,6 +22,7 @@ import type { PaginatedResponse } from "@/types/api";
 import { toast } from "sonner";
 import { AuthenticatedRoute } from "@/components/auth/ProtectedRoute";
 import { StatusBadge } from "@/components/ui/status-badge";
+import { OwnershipViewSelect, type OwnershipViewValue } from "@/components/ui/ownership-view-select";
 
 function BudgetsContent() {
   const [budgets, setBudgets] = useState<Budget[]>([]);
@@ -30,6 +31,7 @@ function BudgetsContent() {
   const [q, setQ] = useState("");
   const [dateFrom, setDateFrom] = useState("");
   const [dateTo, setDateTo] = useState("");
+  const [view, setView] = useState<OwnershipViewValue>("all");
   const [sortBy, setSortBy] = useState("id");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [page, setPage] = useState(1);
@@ -167,6 +169,7 @@ function BudgetsContent() {
       if (q) params.set("q", q);
       if (dateFrom) params.set("dateFrom", dateFrom);
       if (dateTo) params.set("dateTo", dateTo);
+      if (view !== "all") params.set("view", view);
       params.set("sortBy", sortBy);
       params.set("sortOrder", sortOrder);
       params.set("page", String(page));
@@ -190,7 +193,7 @@ function BudgetsContent() {
   useEffect(() => {
     fetchBudgets();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [q, dateFrom, dateTo, sortBy, sortOrder, page, pageSize]);
+  }, [q, dateFrom, dateTo, view, sortBy, sortOrder, page, pageSize]);
 
   const handleDelete = async (id: number) => {
     setLoading(true);
@@ -233,6 +236,7 @@ function BudgetsContent() {
               />
               <Input type="date" value={dateFrom} onChange={(e) => { setPage(1); setDateFrom(e.target.value); }} />
               <Input type="date" value={dateTo} onChange={(e) => { setPage(1); setDateTo(e.target.value); }} />
+              <OwnershipViewSelect value={view} onChange={(value) => { setPage(1); setView(value); }} />
             </ToolbarSection>
             <ToolbarSpacer />
             <ToolbarSection>
@@ -1,4 +1,5 @@
 import { CenterForm } from "@/components/forms/center-form";
+import { PriceTableEditor } from "@/components/forms/center-form/PriceTableEditor";
 import { notFound } from "next/navigation";
 import type { Center } from "@/types/models";
 import { serverApiCall } from "@/lib/server-auth";
@@ -22,6 +23,7 @@ export default async function EditCenterPage({
   return (
     <div className="space-y-6">
       <CenterForm mode="edit" initialData={center} />
+      <PriceTableEditor centerId={center.id} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,10 +1,10 @@
 import { ClientForm } from "@/components/forms/client-form";
 import { notFound } from "next/navigation";
-import type { Client } from "@/types/models";
+import type { ClientDetail } from "@/types/models";
 import { serverApiCall } from "@/lib/server-auth";
 
-async function getClient(id: string): Promise<Client | null> {
-  return await serverApiCall<Client>(`/api/clients/${id}`);
+async function getClient(id: string): Promise<ClientDetail | null> {
+  return await serverApiCall<ClientDetail>(`/api/clients/${id}`);
 }
 
 export default async function EditClientPage({
@@ -0,0 +1,22 @@
+import { notFound } from "next/navigation";
+import { ClientProfile, type ClientProfileData } from "@/components/clients/client-profile";
+import { serverApiCall } from "@/lib/server-auth";
+
+async function getClientProfile(id: string): Promise<ClientProfileData | null> {
+  return await serverApiCall<ClientProfileData>(`/api/clients/${id}/summary`);
+}
+
+export default async function ClientPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params;
+  const profile = await getClientProfile(id);
+
+  if (!profile) {
+    notFound();
+  }
+
+  return <ClientProfile profile={profile} />;
+}
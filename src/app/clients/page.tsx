@@ -48,6 +48,9 @@ function ClientsContent() {
         const client = row.original as Client;
         return (
           <div className="flex gap-2">
+            <Button asChild variant="outline" size="sm">
+              <Link href={`/clients/${client.id}`}>Ver</Link>
+            </Button>
             <Button asChild variant="outline" size="sm">
               <Link href={`/clients/${client.id}/edit`}>Editar</Link>
             </Button>
@@ -307,6 +310,9 @@ function ClientsContent() {
                       <TableCell>{client.address}</TableCell>
                       <TableCell>
                         <div className="flex gap-2">
+                          <Button asChild variant="outline" size="sm">
+                            <Link href={`/clients/${client.id}`}>Ver</Link>
+                          </Button>
                           <Button asChild variant="outline" size="sm">
                             <Link href={`/clients/${client.id}/edit`}>Editar</Link>
                           </Button>
@@ -1,4 +1,5 @@
 import { OrderForm } from "@/components/forms/order-form";
+import { OrderDetails } from "@/components/orders/order-details";
 import { notFound } from "next/navigation";
 import type { OrderWithBudget } from "@/types/models";
 import { serverApiCall } from "@/lib/server-auth";
@@ -20,6 +21,7 @@ export default async function EditOrderPage({
 
   return (
     <div className="space-y-6">
+      <OrderDetails order={order} />
       <OrderForm mode="edit" initialData={order} />
     </div>
   );
@@ -3,18 +3,28 @@ import { OrderForm } from "@/components/forms/order-form";
 import {  useSearchParams } from 'next/navigation';
 import { AuthenticatedRoute } from "@/components/auth/ProtectedRoute";
 import { redirect } from "next/navigation";
+import type { ImplicitOrderType } from "@/lib/order-types";
 
-interface NewOrderPageProps {
-  searchParams: Promise<{ budgetId?: string }>;
-}
-
-// src/app/orders/new/page.tsx - DEVE SER ATUALIZADO
+// ?type=direct|rush opens the direct/rush flow, which creates its own budget
+const ORDER_TYPE_PARAMS: Record<string, ImplicitOrderType> = {
+  direct: 'DIRECT_ORDER',
+  rush: 'RUSH_ORDER',
+};
 
 export default function NewOrderPage() {
   const searchParams = useSearchParams();
   const budgetId = searchParams.get("budgetId");
+  const orderType = ORDER_TYPE_PARAMS[searchParams.get("type") ?? ""];
+
+  if (orderType) {
+    return (
+      <AuthenticatedRoute>
+        <OrderForm mode="create" orderType={orderType} />
+      </AuthenticatedRoute>
+    );
+  }
 
-  // ✅ ADICIONAR: Validação obrigatória
+  // Orders from a budget require an approved budget
   if (!budgetId) {
     redirect('/budgets?status=APPROVED');
   }
@@ -18,12 +18,16 @@ import { ErrorAlert } from "@/components/ui/error-alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { formatCurrencyBRL } from "@/lib/utils";
-import { Package, Plus, ExternalLink, Edit, Trash2 } from "lucide-react";
+import { Package, Plus, ExternalLink, Edit, Trash2, Zap } from "lucide-react";
 import { toast } from "sonner";
 import { AuthenticatedRoute } from "@/components/auth/ProtectedRoute";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { Permission } from "@/lib/rbac";
+import { ORDER_PRIORITY_LABELS } from "@/lib/order-types";
 import { ColumnDef, flexRender } from "@tanstack/react-table";
 import { ColumnVisibilityDropdown, useTableWithColumnVisibility } from "@/components/ui/column-visibility";
 import type { PaginatedResponse } from "@/types/api";
+import { OwnershipViewSelect, type OwnershipViewValue } from "@/components/ui/ownership-view-select";
 
 // ✅ Import Prisma generated types instead of recreating
 import type { Order, Budget, Client, Center } from "@/generated/prisma";
@@ -51,6 +55,7 @@ function OrdersContent() {
   const [error, setError] = useState("");
   const [q, setQ] = useState("");
   const [status, setStatus] = useState("all");
+  const [view, setView] = useState<OwnershipViewValue>("all");
   const [dateFrom, setDateFrom] = useState("");
   const [dateTo, setDateTo] = useState("");
   const [sortBy, setSortBy] = useState("createdAt");
@@ -60,6 +65,11 @@ function OrdersContent() {
   const [pageCount, setPageCount] = useState(1);
   const [total, setTotal] = useState(0);
 
+  // Direct and rush orders skip budget approval, so they follow the same rule as approving
+  const { user } = useAuth();
+  const canCreateOrders = user?.permissions.includes(Permission.CREATE_ORDERS) ?? false;
+  const canCreateRushOrders = user?.permissions.includes(Permission.CREATE_RUSH_ORDERS) ?? false;
+
   // ✅ Updated TanStack Table columns using Prisma types
   const columns: ColumnDef<OrderWithBudget>[] = [
     {
@@ -72,6 +82,14 @@ function OrdersContent() {
           className="text-blue-600 hover:text-blue-800 hover:underline font-medium"
         >
           {row.original.numero_pedido}
+          {row.original.priority !== 'NORMAL' && (
+            <span
+              className="ml-1 inline-flex items-center text-orange-600"
+              title={`Prioridade ${ORDER_PRIORITY_LABELS[row.original.priority]}`}
+            >
+              <Zap className="w-3 h-3" />
+            </span>
+          )}
         </Link>
       ),
     },
@@ -233,6 +251,7 @@ function OrdersContent() {
       const params = new URLSearchParams();
       if (q) params.set("q", q);
       if (status && status !== "all") params.set("status", status);
+      if (view !== "all") params.set("view", view);
       if (dateFrom) params.set("dateFrom", dateFrom);
       if (dateTo) params.set("dateTo", dateTo);
       params.set("sortBy", sortBy);
@@ -260,7 +279,7 @@ function OrdersContent() {
   useEffect(() => {
     fetchOrders();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [q, status, dateFrom, dateTo, sortBy, sortOrder, page, pageSize]);
+  }, [q, status, view, dateFrom, dateTo, sortBy, sortOrder, page, pageSize]);
 
   const handleDelete = async (id: number) => {
     setLoading(true);
@@ -284,12 +303,32 @@ function OrdersContent() {
         title="Ordens de Produção"
         description="Gerencie suas ordens de produção"
         actions={
-          <Button asChild variant="outline">
-            <Link href="/budgets?status=APPROVED">
-              <Package className="w-4 h-4 mr-2" />
-              Ver Orçamentos para Converter
-            </Link>
-          </Button>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link href="/budgets?status=APPROVED">
+                <Package className="w-4 h-4 mr-2" />
+                Ver Orçamentos para Converter
+              </Link>
+            </Button>
+            {canCreateOrders && (
+              <>
+                {canCreateRushOrders && (
+                  <Button asChild variant="outline">
+                    <Link href="/orders/new?type=rush">
+                      <Zap className="w-4 h-4 mr-2" />
+                      Pedido Urgente
+                    </Link>
+                  </Button>
+                )}
+                <Button asChild>
+                  <Link href="/orders/new?type=direct">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Pedido Direto
+                  </Link>
+                </Button>
+              </>
+            )}
+          </div>
         }
       />
 
@@ -328,6 +367,14 @@ function OrdersContent() {
                 </SelectContent>
               </Select>
 
+              <OwnershipViewSelect
+                value={view}
+                onChange={(value) => {
+                  setPage(1);
+                  setView(value);
+                }}
+              />
+
               <div className="flex items-center gap-2">
                 <label className="text-sm">De:</label>
                 <Input
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/reports/format";
+
+export type ReportFilterParams = {
+  dateFrom?: string;
+  dateTo?: string;
+  editorial?: string;
+  centerId?: string;
+};
+
+interface ExportButtonsProps {
+  // Report route under /api/reports
+  report: string;
+  filters: ReportFilterParams;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel",
+  pdf: "PDF",
+};
+
+function fileNameFromResponse(res: Response, fallback: string) {
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const match = disposition.match(/filename="([^"]+)"/);
+  return match?.[1] ?? fallback;
+}
+
+/**
+ * Downloads the full filtered report, generated on the server, in the
+ * chosen format.
+ */
+export function ExportButtons({ report, filters }: ExportButtonsProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const params = new URLSearchParams();
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+      params.set("format", format);
+
+      const res = await fetch(`/api/reports/${report}?${params.toString()}`);
+      if (!res.ok) {
+        throw new Error("Falha ao exportar relatório");
+      }
+
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileNameFromResponse(res, `relatorio.${format}`);
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Falha ao exportar relatório");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      {EXPORT_FORMATS.map((format) => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          disabled={exporting !== null}
+          onClick={() => handleExport(format)}
+        >
+          {exporting === format ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          {FORMAT_LABELS[format]}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 "use client";
 
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
-import { Button } from "@/components/ui/button";
 import { formatCurrencyBRL } from "@/lib/utils";
+import { ExportButtons, type ReportFilterParams } from "./ExportButtons";
 
 interface Order {
   numero_pedido: string;
@@ -19,54 +19,18 @@ interface FinancialReportProps {
     orders: Order[];
     totalValorTotal: number;
   };
+  filters: ReportFilterParams;
 }
 
-function downloadCSV(data: Order[], fileName: string) {
-  if (!data?.length) return;
-  const headers = [
-    "Numero OP",
-    "Tipo Produto",
-    "Data Entrega",
-    "Titulo",
-    "Tiragem",
-    "Valor Unitario",
-    "Valor Total",
-  ];
-  const rows = [headers.join(",")];
-  for (const row of data) {
-    const values = [
-      row.numero_pedido,
-      row.tipo_produto,
-      row.data_entrega ? new Date(row.data_entrega).toLocaleDateString() : "",
-      row.titulo,
-      row.tiragem,
-      row.valorUnitario,
-      row.valorTotal,
-    ].map((v) => `"${String(v ?? "").replace(/"/g, '"')}"`);
-    rows.push(values.join(","));
-  }
-  const blob = new Blob([rows.join("\n")], { type: "text/csv;charset=utf-8;" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = fileName;
-  a.click();
-  URL.revokeObjectURL(url);
-}
-
-export function FinancialReport({ data }: FinancialReportProps) {
+export function FinancialReport({ data, filters }: FinancialReportProps) {
   if (!data || !data.orders || data.orders.length === 0) {
     return <p>Nenhum dado para exibir.</p>;
   }
 
-  const handleExport = () => {
-    downloadCSV(data.orders, "relatorio_financeiro.csv");
-  };
-
   return (
     <div>
       <div className="flex justify-end mb-4">
-        <Button onClick={handleExport}>Exportar para CSV</Button>
+        <ExportButtons report="financial" filters={filters} />
       </div>
       <Table>
         <TableHeader>
@@ -1,15 +1,32 @@
 "use client";
 
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
-import { Button } from "@/components/ui/button";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { formatDuration, type OrderStatusDurations } from "@/lib/order-history";
+import type { OrderStatus } from "@/generated/prisma";
+import { ExportButtons, type ReportFilterParams } from "./ExportButtons";
 
-interface ProductionOrderRow {
+export interface ProductionOrderRow {
   numero_pedido: string;
   data_entrega: string | Date | null;
   titulo: string;
   tiragem: number;
+  status: OrderStatus | null;
+  statusDurations: OrderStatusDurations;
 }
 
+const DURATION_COLUMNS: { status: OrderStatus; label: string }[] = [
+  { status: "PENDING", label: "Pendente" },
+  { status: "IN_PRODUCTION", label: "Em Produção" },
+  { status: "ON_HOLD", label: "Em Espera" },
+  { status: "COMPLETED", label: "Concluída" },
+];
+
+const formatStatusDuration = (durations: OrderStatusDurations, status: OrderStatus) => {
+  const ms = durations?.[status];
+  return ms === undefined ? "-" : formatDuration(ms);
+};
+
 interface ProductionReportData {
   orders: ProductionOrderRow[];
   totalTiragem: number;
@@ -17,40 +34,18 @@ interface ProductionReportData {
 
 interface ProductionReportProps {
   data: ProductionReportData;
+  filters: ReportFilterParams;
 }
 
-function downloadCSV<T extends object>(data: T[], fileName: string) {
-  if (!data?.length) return;
-  const first = data[0] as Record<string, unknown>;
-  const headers = Object.keys(first);
-  const rows = [headers.join(",")];
-  for (const row of data) {
-    const rec = row as Record<string, unknown>;
-    const values = headers.map((h) => `"${String(rec[h] ?? "").replace(/\"/g, '"')}"`);
-    rows.push(values.join(","));
-  }
-  const blob = new Blob([rows.join("\n")], { type: "text/csv;charset=utf-8;" });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = fileName;
-  a.click();
-  URL.revokeObjectURL(url);
-}
-
-export function ProductionReport({ data }: ProductionReportProps) {
+export function ProductionReport({ data, filters }: ProductionReportProps) {
   if (!data || !data.orders || data.orders.length === 0) {
     return <p>Nenhum dado para exibir.</p>;
   }
 
-  const handleExport = () => {
-    downloadCSV(data.orders, "relatorio_producao.csv");
-  };
-
   return (
     <div>
       <div className="flex justify-end mb-4">
-        <Button onClick={handleExport}>Exportar para CSV</Button>
+        <ExportButtons report="production" filters={filters} />
       </div>
       <Table>
         <TableHeader>
@@ -59,6 +54,10 @@ export function ProductionReport({ data }: ProductionReportProps) {
             <TableHead>Data da Entrega</TableHead>
             <TableHead>Título</TableHead>
             <TableHead>Tiragem</TableHead>
+            <TableHead>Status</TableHead>
+            {DURATION_COLUMNS.map(({ status, label }) => (
+              <TableHead key={status}>Tempo {label}</TableHead>
+            ))}
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -68,6 +67,10 @@ export function ProductionReport({ data }: ProductionReportProps) {
               <TableCell>{order.data_entrega ? new Date(order.data_entrega).toLocaleDateString() : ""}</TableCell>
               <TableCell>{order.titulo}</TableCell>
               <TableCell>{order.tiragem}</TableCell>
+              <TableCell>{order.status ? <StatusBadge status={order.status} /> : "-"}</TableCell>
+              {DURATION_COLUMNS.map(({ status }) => (
+                <TableCell key={status}>{formatStatusDuration(order.statusDurations, status)}</TableCell>
+              ))}
             </TableRow>
           ))}
         </TableBody>
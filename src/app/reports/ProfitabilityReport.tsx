@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { formatCurrencyBRL } from "@/lib/utils";
+import {
+  PROFITABILITY_GROUPINGS,
+  PROFITABILITY_GROUPING_LABELS,
+  type ProfitabilityGroup,
+  type ProfitabilityGrouping,
+  type ProfitabilityRow,
+  type ProfitabilityTotals,
+} from "@/lib/profitability";
+import { ExportButtons, type ReportFilterParams } from "./ExportButtons";
+
+export interface ProfitabilityReportData {
+  orders: ProfitabilityRow[];
+  groups: Record<ProfitabilityGrouping, ProfitabilityGroup[]>;
+  totals: ProfitabilityTotals;
+}
+
+interface ProfitabilityReportProps {
+  data: ProfitabilityReportData;
+  filters: ReportFilterParams;
+}
+
+function formatPercent(value: number | null) {
+  return value === null
+    ? "-"
+    : `${value.toLocaleString("pt-BR", { minimumFractionDigits: 1, maximumFractionDigits: 1 })}%`;
+}
+
+function formatMonth(key: string) {
+  const [year, month] = key.split("-");
+  return `${month}/${year}`;
+}
+
+// Positive variance means the order cost more than estimated
+function varianceClass(variance: number) {
+  if (variance > 0) return "text-red-600";
+  if (variance < 0) return "text-green-700";
+  return "";
+}
+
+function marginClass(marginPercent: number | null) {
+  return marginPercent !== null && marginPercent < 0 ? "text-red-600 font-medium" : "";
+}
+
+function TotalsCells({ totals }: { totals: ProfitabilityTotals }) {
+  return (
+    <>
+      <TableCell className="text-right">{formatCurrencyBRL(totals.revenue)}</TableCell>
+      <TableCell className="text-right">{formatCurrencyBRL(totals.estimatedCost)}</TableCell>
+      <TableCell className="text-right">{formatCurrencyBRL(totals.actualCost)}</TableCell>
+      <TableCell className={`text-right ${varianceClass(totals.variance)}`}>
+        {formatCurrencyBRL(totals.variance)}
+      </TableCell>
+      <TableCell className="text-right">{formatCurrencyBRL(totals.margin)}</TableCell>
+      <TableCell className={`text-right ${marginClass(totals.marginPercent)}`}>
+        {formatPercent(totals.marginPercent)}
+      </TableCell>
+    </>
+  );
+}
+
+function TotalsHeaders() {
+  return (
+    <>
+      <TableHead className="text-right">Receita</TableHead>
+      <TableHead className="text-right">Custo Estimado</TableHead>
+      <TableHead className="text-right">Custo Real</TableHead>
+      <TableHead className="text-right">Variação</TableHead>
+      <TableHead className="text-right">Margem</TableHead>
+      <TableHead className="text-right">Margem %</TableHead>
+    </>
+  );
+}
+
+export function ProfitabilityReport({ data, filters }: ProfitabilityReportProps) {
+  const [grouping, setGrouping] = useState<ProfitabilityGrouping>("client");
+
+  if (!data || !data.orders || data.orders.length === 0) {
+    return <p>Nenhum dado para exibir.</p>;
+  }
+
+  const groups = data.groups[grouping] ?? [];
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Custo de produção calculado pela tabela de preços do centro (sem margem). O custo real usa o
+        frete real e os custos adicionais da ordem.
+      </p>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {PROFITABILITY_GROUPINGS.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={grouping === option ? "default" : "outline"}
+              onClick={() => setGrouping(option)}
+            >
+              Por {PROFITABILITY_GROUPING_LABELS[option].toLowerCase()}
+            </Button>
+          ))}
+        </div>
+        <ExportButtons report="profitability" filters={filters} />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{PROFITABILITY_GROUPING_LABELS[grouping]}</TableHead>
+            <TableHead className="text-right">Ordens</TableHead>
+            <TotalsHeaders />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map((group) => (
+            <TableRow key={group.key}>
+              <TableCell>{grouping === "month" ? formatMonth(group.key) : group.key}</TableCell>
+              <TableCell className="text-right">{group.orders}</TableCell>
+              <TotalsCells totals={group} />
+            </TableRow>
+          ))}
+          <TableRow className="font-bold">
+            <TableCell>Total</TableCell>
+            <TableCell className="text-right">{data.orders.length}</TableCell>
+            <TotalsCells totals={data.totals} />
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      <div>
+        <h3 className="mb-2 font-semibold">Ordens</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Número da OP</TableHead>
+              <TableHead>Título</TableHead>
+              <TableHead>Cliente</TableHead>
+              <TotalsHeaders />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.orders.map((order) => (
+              <TableRow key={order.numero_pedido}>
+                <TableCell>{order.numero_pedido}</TableCell>
+                <TableCell>{order.titulo}</TableCell>
+                <TableCell>{order.client}</TableCell>
+                <TotalsCells totals={order} />
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -4,19 +4,25 @@ import { useState } from "react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ReportFilters } from "./ReportFilters";
-import { ProductionReport } from "./ProductionReport";
+import { ProductionReport, type ProductionOrderRow } from "./ProductionReport";
 import { FinancialReport } from "./FinancialReport";
+import { ProfitabilityReport, type ProfitabilityReportData } from "./ProfitabilityReport";
 import { SecureRoute } from "@/components/auth/ProtectedRoute";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { Permission } from "@/lib/rbac";
 
-type ReportType = "production" | "financial";
+type ReportType = "production" | "financial" | "profitability";
 
 function ReportsContent() {
+  const { user } = useAuth();
   const [reportType, setReportType] = useState<ReportType>("production");
   type Filters = { dateFrom?: string; dateTo?: string; editorial?: string; centerId?: string };
-  type ProductionRow = { numero_pedido: string; data_entrega: string | Date | null; titulo: string; tiragem: number };
+  type ProductionRow = ProductionOrderRow;
   type FinancialRow = { numero_pedido: string; tipo_produto: string; data_entrega: string; titulo: string; tiragem: number; valorUnitario: number; valorTotal: number };
-  type ReportData = { orders: ProductionRow[]; totalTiragem: number } | { orders: FinancialRow[]; totalValorTotal: number } | null;
+  type ReportData = { orders: ProductionRow[]; totalTiragem: number } | { orders: FinancialRow[]; totalValorTotal: number } | ProfitabilityReportData | null;
   const [reportData, setReportData] = useState<ReportData>(null);
+  // Filters behind the data on screen, reused for server-side exports
+  const [appliedFilters, setAppliedFilters] = useState<Filters>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
 
@@ -26,6 +32,9 @@ function ReportsContent() {
   const isFinancialData = (d: ReportData): d is { orders: FinancialRow[]; totalValorTotal: number } => {
     return !!d && typeof d === 'object' && 'totalValorTotal' in d;
   };
+  const isProfitabilityData = (d: ReportData): d is ProfitabilityReportData => {
+    return !!d && typeof d === 'object' && 'groups' in d;
+  };
 
   const handleGenerateReport = async (filters: Filters) => {
     setLoading(true);
@@ -47,6 +56,7 @@ function ReportsContent() {
 
       const json = await res.json();
       setReportData(json.data as ReportData);
+      setAppliedFilters(filters);
     } catch (err: unknown) {
       // @ts-expect-error: err can be Error, provide fallback below
       setError(err.message || "Erro ao gerar relatório.");
@@ -75,6 +85,14 @@ function ReportsContent() {
             >
               Relatório Financeiro
             </Button>
+            {user?.permissions.includes(Permission.READ_PROFITABILITY) && (
+              <Button
+                variant={reportType === "profitability" ? "default" : "outline"}
+                onClick={() => setReportType("profitability")}
+              >
+                Rentabilidade
+              </Button>
+            )}
           </div>
 
           <ReportFilters onGenerate={handleGenerateReport} loading={loading} />
@@ -84,10 +102,13 @@ function ReportsContent() {
             {error && <div className="text-red-600">{error}</div>}
 
             {reportData && reportType === "production" && isProductionData(reportData) && (
-              <ProductionReport data={reportData} />
+              <ProductionReport data={reportData} filters={appliedFilters} />
             )}
             {reportData && reportType === "financial" && isFinancialData(reportData) && (
-              <FinancialReport data={reportData} />
+              <FinancialReport data={reportData} filters={appliedFilters} />
+            )}
+            {reportData && reportType === "profitability" && isProfitabilityData(reportData) && (
+              <ProfitabilityReport data={reportData} filters={appliedFilters} />
             )}
           </div>
         </CardContent>
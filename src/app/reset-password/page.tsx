@@ -0,0 +1,136 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function ResetPasswordForm() {
+  const token = useSearchParams().get("token") ?? "";
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres`);
+      return;
+    }
+    if (password !== confirmation) {
+      setError("As senhas não coincidem");
+      return;
+    }
+
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(
+          response.status === 400 && data?.error?.message === "Invalid or expired token"
+            ? "Link inválido ou expirado. Solicite um novo."
+            : data?.error?.message || "Não foi possível redefinir a senha"
+        );
+      }
+
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Ocorreu um erro");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>
+          Link incompleto. <Link href="/forgot-password" className="underline">Solicite um novo link</Link>.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (done) {
+    return (
+      <Alert>
+        <AlertDescription>
+          Senha alterada. Todas as sessões foram encerradas;{" "}
+          <Link href="/dashboard" className="underline">entre novamente</Link> com a nova senha.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="password">Nova senha</Label>
+        <Input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          disabled={isLoading}
+          autoComplete="new-password"
+          autoFocus
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirmation">Confirme a nova senha</Label>
+        <Input
+          id="confirmation"
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          required
+          disabled={isLoading}
+          autoComplete="new-password"
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isLoading || !password || !confirmation}>
+        {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Salvar nova senha
+      </Button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">Nova senha</CardTitle>
+        <CardDescription>Escolha uma nova senha para sua conta.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Suspense fallback={<Loader2 className="mx-auto h-6 w-6 animate-spin" />}>
+          <ResetPasswordForm />
+        </Suspense>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+
+type VerificationState = "verifying" | "verified" | "failed";
+
+function VerifyEmailStatus() {
+  const token = useSearchParams().get("token") ?? "";
+  const [state, setState] = useState<VerificationState>(token ? "verifying" : "failed");
+  // Tokens are single-use: guard against the effect running twice in development
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    fetch("/api/auth/verify-email", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then((response) => setState(response.ok ? "verified" : "failed"))
+      .catch(() => setState("failed"));
+  }, [token]);
+
+  if (state === "verifying") {
+    return <Loader2 className="mx-auto h-6 w-6 animate-spin" />;
+  }
+
+  if (state === "verified") {
+    return (
+      <Alert>
+        <AlertDescription>
+          E-mail confirmado. <Link href="/dashboard" className="underline">Continuar</Link>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert variant="destructive">
+      <AlertDescription>
+        Link inválido ou expirado. Entre na sua conta e solicite um novo e-mail de confirmação.
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">Confirmação de e-mail</CardTitle>
+        <CardDescription>Validando o link recebido por e-mail.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Suspense fallback={<Loader2 className="mx-auto h-6 w-6 animate-spin" />}>
+          <VerifyEmailStatus />
+        </Suspense>
+      </CardContent>
+    </Card>
+  );
+}
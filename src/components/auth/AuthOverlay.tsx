@@ -2,7 +2,13 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
 import { useAuth } from "@/components/auth/AuthProvider";
+import {
+  TwoFactorLoginStep,
+  type LoginResult,
+  type TwoFactorChallenge,
+} from "@/components/auth/TwoFactorLoginStep";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import {
@@ -27,6 +33,7 @@ export function AuthOverlay({ onClose }: AuthOverlayProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [isVisible, setIsVisible] = useState(false);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
   const { login, error: authError, clearError, showLoginModal, setShowLoginModal } = useAuth();
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -53,6 +60,30 @@ export function AuthOverlay({ onClose }: AuthOverlayProps) {
     }
   }, [authError]);
 
+  const completeLogin = (result: LoginResult) => {
+    // Login successful - update auth context
+    login({
+      id: result.user.id,
+      email: result.user.email,
+      name: result.user.name,
+      role: result.user.role,
+      permissions: result.user.permissions,
+    });
+
+    // Clear form
+    setEmail("");
+    setPassword("");
+    setError("");
+    setChallenge(null);
+
+    // Close overlay
+    setShowLoginModal(false);
+    if (onClose) onClose();
+
+    // Navigate to intended destination
+    router.push(redirectTo);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!email || !password) {
@@ -80,25 +111,13 @@ export function AuthOverlay({ onClose }: AuthOverlayProps) {
         throw new Error(data.error?.message || "Login failed");
       }
 
-      // Login successful - update auth context
-      login(data.data.accessToken, {
-        id: data.data.user.id,
-        email: data.data.user.email,
-        name: data.data.user.name,
-        role: data.data.user.role,
-      });
-
-      // Clear form
-      setEmail("");
-      setPassword("");
-      setError("");
-
-      // Close overlay
-      setShowLoginModal(false);
-      if (onClose) onClose();
+      // Second factor needed: keep the dialog open for the code step
+      if (data.data.twoFactorRequired) {
+        setChallenge(data.data);
+        return;
+      }
 
-      // Navigate to intended destination
-      router.push(redirectTo);
+      completeLogin(data.data);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
     } finally {
@@ -179,108 +198,119 @@ export function AuthOverlay({ onClose }: AuthOverlayProps) {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {(error || authError) && (
-                <Alert variant="destructive">
-                  <AlertDescription>{error || authError}</AlertDescription>
-                </Alert>
-              )}
+            {challenge ? (
+              <TwoFactorLoginStep
+                challenge={challenge}
+                onSuccess={completeLogin}
+                onCancel={() => {
+                  setChallenge(null);
+                  setPassword("");
+                }}
+              />
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {(error || authError) && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error || authError}</AlertDescription>
+                  </Alert>
+                )}
               
-              <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="your.email@example.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  disabled={isLoading}
-                  autoComplete="email"
-                  autoFocus
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="your.email@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    disabled={isLoading}
+                    autoComplete="email"
+                    autoFocus
+                  />
+                </div>
               
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="password">Senha</Label>
-                  {/* <button
-                    type="button"
-                    className="text-sm text-muted-foreground hover:text-primary underline-offset-4 hover:underline"
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Senha</Label>
+                    <Link
+                      href="/forgot-password"
+                      onClick={handleClose}
+                      className="text-sm text-muted-foreground hover:text-primary underline-offset-4 hover:underline"
+                    >
+                      Esqueceu a senha?
+                    </Link>
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
                     disabled={isLoading}
-                  >
-                    Esqueceu a senha?
-                  </button> */}
+                    autoComplete="current-password"
+                  />
                 </div>
-                <Input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  disabled={isLoading}
-                  autoComplete="current-password"
-                />
-              </div>
               
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={isLoading || !email || !password}
-              >
-                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                {isLoading ? "Signing in..." : "Sign In"}
-              </Button>
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={isLoading || !email || !password}
+                >
+                  {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {isLoading ? "Signing in..." : "Sign In"}
+                </Button>
               
-              {/* <div className="relative">
-                <div className="absolute inset-0 flex items-center">
-                  <span className="w-full border-t" />
+                {/* <div className="relative">
+                  <div className="absolute inset-0 flex items-center">
+                    <span className="w-full border-t" />
+                  </div>
+                  <div className="relative flex justify-center text-xs uppercase">
+                    <span className="bg-background px-2 text-muted-foreground">
+                      Or continue with
+                    </span>
+                  </div>
                 </div>
-                <div className="relative flex justify-center text-xs uppercase">
-                  <span className="bg-background px-2 text-muted-foreground">
-                    Or continue with
-                  </span>
-                </div>
-              </div>
-              
-              <Button 
-                type="button" 
-                variant="outline" 
-                className="w-full" 
-                disabled={isLoading}
-              >
-                <svg className="mr-2 h-4 w-4" viewBox="0 0 24 24">
-                  <path
-                    fill="currentColor"
-                    d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                  />
-                  <path
-                    fill="currentColor"
-                    d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                  />
-                  <path
-                    fill="currentColor"
-                    d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                  />
-                  <path
-                    fill="currentColor"
-                    d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                  />
-                </svg>
-                Sign in with Google
-              </Button>
               
-              <div className="text-center text-sm text-muted-foreground">
-                Don't have an account?{" "}
-                <button
-                  type="button"
-                  className="underline underline-offset-4 hover:text-primary"
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  className="w-full" 
                   disabled={isLoading}
                 >
-                  Contact administrator
-                </button>
-              </div> */}
-            </form>
+                  <svg className="mr-2 h-4 w-4" viewBox="0 0 24 24">
+                    <path
+                      fill="currentColor"
+                      d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+                    />
+                    <path
+                      fill="currentColor"
+                      d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+                    />
+                    <path
+                      fill="currentColor"
+                      d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+                    />
+                    <path
+                      fill="currentColor"
+                      d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+                    />
+                  </svg>
+                  Sign in with Google
+                </Button>
+              
+                <div className="text-center text-sm text-muted-foreground">
+                  Don't have an account?{" "}
+                  <button
+                    type="button"
+                    className="underline underline-offset-4 hover:text-primary"
+                    disabled={isLoading}
+                  >
+                    Contact administrator
+                  </button>
+                </div> */}
+              </form>
+            )}
           </CardContent>
         </Card>
       </div>
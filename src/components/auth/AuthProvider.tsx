@@ -1,15 +1,21 @@
 "use client";
 
 import { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
-import { Role } from '@/lib/rbac';
+import { Role, type Permission } from '@/lib/rbac';
 import { logAuth } from '@/lib/auth-logger';
-// Removed unused token utility imports
+import { installCsrfFetch } from '@/lib/csrf';
+
+// Before any component effect runs, so every mutating request carries the CSRF header
+installCsrfFetch();
 
 export interface User {
   id: number;
   email: string;
   name: string;
-  role: Role;
+  // Built-in Role or a custom role key
+  role: string;
+  // What the server allows this session (see src/lib/roles.ts)
+  permissions: Permission[];
 }
 
 interface AuthContextType {
@@ -18,7 +24,7 @@ interface AuthContextType {
   isAuthenticated: boolean;
   error: string | null;
   showLoginModal: boolean;
-  login: (accessToken: string, user: User) => void;
+  login: (user: User) => void;
   logout: () => void;
   refreshAuth: () => Promise<void>;
   clearError: () => void;
@@ -54,6 +60,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           email: userData.email,
           name: userData.name,
           role: userData.role,
+          permissions: userData.permissions ?? [],
         });
         setShowLoginModal(false);
         return true;
@@ -75,6 +82,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
               email: userData.email,
               name: userData.name,
               role: userData.role,
+              permissions: userData.permissions ?? [],
             });
             setShowLoginModal(false);
             return true;
@@ -105,18 +113,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
-  // Initialize auth state from cookies with session persistence
+  // Bootstrap the session from the httpOnly cookies: /api/auth/validate, then
+  // /api/auth/refresh when the access token has expired
   useEffect(() => {
     const initAuth = async () => {
       setIsLoading(true);
       try {
-        // Check for existing session
-        const hasSession = localStorage.getItem('hasAuthSession') === 'true';
-        if (hasSession) {
-          await checkAuth(false); // Don't show modal during initialization
+        const authenticated = await checkAuth(false); // Don't show modal during initialization
+        if (authenticated) {
+          localStorage.setItem('hasAuthSession', 'true');
         } else {
-          // No previous session, user needs to login
-          setUser(null);
           setShowLoginModal(true);
         }
       } catch (error) {
@@ -133,7 +139,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, [checkAuth]);
 
   // Enhanced login function
-  const login = useCallback((accessToken: string, userData: User) => {
+  const login = useCallback((userData: User) => {
     setUser(userData);
     setError(null);
     setShowLoginModal(false);
@@ -253,7 +259,7 @@ export function useHasRole(role: Role) {
 
 export function useHasAnyRole(roles: Role[]) {
   const { user } = useAuth();
-  return user ? roles.includes(user.role) : false;
+  return user ? (roles as string[]).includes(user.role) : false;
 }
 
 export function useIsAdmin() {
@@ -262,5 +268,5 @@ export function useIsAdmin() {
 
 export function useIsModerator() {
   const { user } = useAuth();
-  return user ? [Role.MODERATOR, Role.ADMIN].includes(user.role) : false;
+  return user ? ([Role.MODERATOR, Role.ADMIN] as string[]).includes(user.role) : false;
 }
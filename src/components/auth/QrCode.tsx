@@ -0,0 +1,45 @@
+"use client";
+
+import { useMemo } from "react";
+import { encodeQrCode } from "@/lib/qr-code";
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+// Light margin around the symbol required by scanners, in modules
+const QUIET_ZONE = 4;
+
+/**
+ * SVG QR code drawn from src/lib/qr-code.ts; nothing leaves the browser,
+ * which matters for values such as 2FA secrets.
+ */
+export function QrCode({ value, size = 192, className }: QrCodeProps) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const commands: string[] = [];
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) commands.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return { path: commands.join(""), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={dimension} height={dimension} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
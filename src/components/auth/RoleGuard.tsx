@@ -2,7 +2,7 @@
 
 import { ReactNode } from 'react';
 import { useAuth } from '@/components/auth/AuthProvider';
-import { Role, RBAC, Permission } from '@/lib/rbac';
+import { Role, Permission } from '@/lib/rbac';
 
 interface RoleGuardProps {
   children: ReactNode;
@@ -36,22 +36,23 @@ export function RoleGuard({
 
   // Check roles
   if (roles && roles.length > 0) {
-    const hasRole = roles.includes(user.role);
+    const hasRole = (roles as string[]).includes(user.role);
     if (!hasRole) {
       return <>{fallback}</>;
     }
   }
 
-  // Check permissions
+  // Check permissions: the ones resolved for the user's role by the server,
+  // so custom roles and edited built-in roles are honoured
   if (permissions && permissions.length > 0) {
     let hasPermission = false;
 
     if (requireAllPermissions) {
       // Must have ALL permissions
-      hasPermission = RBAC.hasAllPermissions(user.role, permissions);
+      hasPermission = permissions.every((permission) => user.permissions.includes(permission));
     } else {
       // Must have ANY of the permissions
-      hasPermission = RBAC.hasAnyPermission(user.role, permissions);
+      hasPermission = permissions.some((permission) => user.permissions.includes(permission));
     }
 
     if (!hasPermission) {
@@ -0,0 +1,110 @@
+"use client";
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MonitorSmartphone } from "lucide-react";
+
+// JSON shape of SessionSummary (src/lib/sessions.ts)
+export interface SessionItem {
+  id: number;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  location: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+interface SessionListProps {
+  sessions: SessionItem[];
+  loading: boolean;
+  onRevoke: (session: SessionItem) => void | Promise<void>;
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" });
+}
+
+/**
+ * Table of active logins with a revoke action per row. The current session
+ * is flagged and cannot be revoked here; use "Sair" for it.
+ */
+export function SessionList({ sessions, loading, onRevoke }: SessionListProps) {
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 3 }).map((_, index) => (
+          <Skeleton key={index} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <EmptyState
+        icon={MonitorSmartphone}
+        title="Nenhuma sessão ativa"
+        description="Não há logins ativos para esta conta."
+      />
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Dispositivo</TableHead>
+          <TableHead>IP</TableHead>
+          <TableHead>Localização</TableHead>
+          <TableHead>Início</TableHead>
+          <TableHead>Último uso</TableHead>
+          <TableHead className="text-right">Ações</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sessions.map((session) => (
+          <TableRow key={session.id}>
+            <TableCell>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{session.device}</span>
+                {session.current && <Badge variant="secondary">Esta sessão</Badge>}
+              </div>
+              {session.userAgent && (
+                <div className="max-w-xs truncate text-xs text-muted-foreground" title={session.userAgent}>
+                  {session.userAgent}
+                </div>
+              )}
+            </TableCell>
+            <TableCell>{session.ipAddress ?? "-"}</TableCell>
+            <TableCell>{session.location ?? "Desconhecida"}</TableCell>
+            <TableCell>{formatDateTime(session.createdAt)}</TableCell>
+            <TableCell>{formatDateTime(session.lastUsedAt)}</TableCell>
+            <TableCell className="text-right">
+              {!session.current && (
+                <ConfirmDialog
+                  title="Encerrar sessão"
+                  description={`Encerrar o login em ${session.device}? O dispositivo precisará entrar novamente.`}
+                  confirmLabel="Encerrar"
+                  confirmVariant="destructive"
+                  onConfirm={() => onRevoke(session)}
+                  trigger={
+                    <Button variant="outline" size="sm">
+                      Encerrar
+                    </Button>
+                  }
+                />
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { QrCode } from "@/components/auth/QrCode";
+import { Copy, Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+// Response of POST /api/auth/2fa/setup
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+interface TwoFactorEnrollmentProps {
+  setup: TwoFactorSetup;
+  onConfirm: (code: string) => void | Promise<void>;
+  submitting?: boolean;
+  submitLabel?: string;
+}
+
+function formatSecret(secret: string) {
+  return secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+}
+
+/**
+ * QR code (and the secret for manual entry) plus the first code that
+ * confirms the authenticator app is set up.
+ */
+export function TwoFactorEnrollment({ setup, onConfirm, submitting = false, submitLabel = "Ativar" }: TwoFactorEnrollmentProps) {
+  const [code, setCode] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(code.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Escaneie o QR code com um aplicativo autenticador (Google Authenticator, Microsoft Authenticator, 1Password...).
+      </p>
+      <div className="flex justify-center">
+        <QrCode value={setup.otpauthUri} className="rounded-md border" />
+      </div>
+      <div className="space-y-1 text-center">
+        <p className="text-xs text-muted-foreground">Ou digite a chave manualmente:</p>
+        <code className="break-all text-sm font-medium">{formatSecret(setup.secret)}</code>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="totp-code">Código de 6 dígitos</Label>
+        <Input
+          id="totp-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+          disabled={submitting}
+          autoFocus
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={submitting || code.length !== 6}>
+        {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Recovery codes are only shown once, right after they are generated.
+ */
+export function RecoveryCodeList({ codes }: { codes: string[] }) {
+  const text = codes.join("\n");
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success("Códigos copiados");
+    } catch {
+      toast.error("Não foi possível copiar");
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([`${text}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "alphabook-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Guarde estes códigos de recuperação em local seguro. Cada um pode ser usado uma vez no lugar do código do
+        aplicativo; eles não serão exibidos novamente.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copiar
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Baixar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  RecoveryCodeList,
+  TwoFactorEnrollment,
+  type TwoFactorSetup,
+} from "@/components/auth/TwoFactorEnrollment";
+import type { Permission } from "@/lib/rbac";
+import { Loader2 } from "lucide-react";
+
+// Password step response of POST /api/auth/login when a second factor is needed
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  enrollmentRequired: boolean;
+}
+
+// Session response of POST /api/auth/login
+export interface LoginResult {
+  user: { id: number; email: string; name: string; role: string; permissions: Permission[] };
+  recoveryCodes?: string[];
+}
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorChallenge;
+  onSuccess: (result: LoginResult) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Second login step: the authenticator (or a recovery) code, or, for users
+ * the 2FA policy requires to enroll, the QR setup followed by their new
+ * recovery codes.
+ */
+export function TwoFactorLoginStep({ challenge, onSuccess, onCancel }: TwoFactorLoginStepProps) {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [pendingResult, setPendingResult] = useState<LoginResult | null>(null);
+
+  useEffect(() => {
+    if (!challenge.enrollmentRequired) return;
+
+    fetch("/api/auth/2fa/setup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ challengeToken: challenge.challengeToken }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error?.message || "Não foi possível iniciar a configuração");
+        setSetup(data.data);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Ocorreu um erro"));
+  }, [challenge]);
+
+  const submitCode = async (value: string) => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challengeToken: challenge.challengeToken, code: value }),
+        credentials: "include",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || "Verification failed");
+      }
+
+      if (data.data.recoveryCodes) {
+        // The session already exists; show the codes before leaving the dialog
+        setPendingResult(data.data);
+      } else {
+        onSuccess(data.data);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (pendingResult?.recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodeList codes={pendingResult.recoveryCodes} />
+        <Button className="w-full" onClick={() => onSuccess(pendingResult)}>
+          Continuar
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {challenge.enrollmentRequired ? (
+        <>
+          <p className="text-sm font-medium">
+            Seu perfil exige autenticação em dois fatores. Configure-a para continuar.
+          </p>
+          {setup ? (
+            <TwoFactorEnrollment setup={setup} onConfirm={submitCode} submitting={isLoading} submitLabel="Ativar e entrar" />
+          ) : (
+            !error && <Loader2 className="mx-auto h-6 w-6 animate-spin" />
+          )}
+        </>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitCode(code.trim());
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="login-code">Código de verificação</Label>
+            <Input
+              id="login-code"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              disabled={isLoading}
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              Digite o código do aplicativo autenticador ou um código de recuperação.
+            </p>
+          </div>
+          <Button type="submit" className="w-full" disabled={isLoading || code.trim().length < 6}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verificar
+          </Button>
+        </form>
+      )}
+
+      <Button type="button" variant="ghost" className="w-full" onClick={onCancel} disabled={isLoading}>
+        Voltar
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+// src/components/budgets/BudgetHistoryTimeline.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { Loader2 } from "lucide-react";
+import { BUDGET_ACTION_LABELS } from "@/lib/budget-history";
+import type { BudgetStatus, BudgetStatusAction } from "@/generated/prisma";
+
+interface BudgetStatusEvent {
+  id: number;
+  action: BudgetStatusAction;
+  fromStatus: BudgetStatus;
+  toStatus: BudgetStatus;
+  comment: string | null;
+  createdAt: string;
+  actor: { id: number; name: string; email: string } | null;
+}
+
+interface BudgetHistoryTimelineProps {
+  budgetId: number;
+  // Changing this value forces a reload, e.g. after a workflow action
+  refreshKey?: unknown;
+}
+
+export function BudgetHistoryTimeline({ budgetId, refreshKey }: BudgetHistoryTimelineProps) {
+  const [events, setEvents] = useState<BudgetStatusEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/budgets/${budgetId}/history`);
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || "Erro ao carregar histórico.");
+      }
+      setEvents(json.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro ao carregar histórico.");
+    } finally {
+      setLoading(false);
+    }
+  }, [budgetId]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Histórico do Orçamento</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error && <ErrorAlert message={error} onRetry={load} />}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Carregando histórico...
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma movimentação registrada.</p>
+        ) : (
+          <ol className="relative ml-2 border-l border-gray-200">
+            {events.map((event) => (
+              <li key={event.id} className="mb-6 ml-6 last:mb-0">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-400" />
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-900">{BUDGET_ACTION_LABELS[event.action]}</span>
+                  <StatusBadge status={event.fromStatus} />
+                  <span className="text-gray-400">→</span>
+                  <StatusBadge status={event.toStatus} />
+                </div>
+                <p className="text-sm text-gray-500">
+                  {new Date(event.createdAt).toLocaleString("pt-BR")}
+                  {event.actor && ` por ${event.actor.name}`}
+                </p>
+                {event.comment && (
+                  <p className="mt-1 whitespace-pre-line rounded bg-gray-50 p-2 text-sm text-gray-700">
+                    {event.comment}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+// src/components/budgets/BudgetRevisionDiff.tsx
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { cn, formatCurrencyBRL, formatDateBR } from "@/lib/utils";
+import {
+  BUDGET_REVISION_FIELDS,
+  type BudgetRevisionChange,
+  type BudgetRevisionField,
+  type BudgetSnapshot,
+  type BudgetSnapshotValue,
+} from "@/lib/budget-revisions";
+
+interface BudgetRevision {
+  id: number;
+  revision: number;
+  snapshot: Partial<BudgetSnapshot>;
+  createdAt: string;
+  createdBy: { id: number; name: string } | null;
+  changes: BudgetRevisionChange[];
+}
+
+interface BudgetRevisionDiffProps {
+  budgetId: number;
+  // Changing this value forces a reload, e.g. after a new submission
+  refreshKey?: unknown;
+}
+
+const CURRENCY_FIELDS: BudgetRevisionField[] = ["preco_unitario", "preco_total"];
+const DATE_FIELDS: BudgetRevisionField[] = ["data_pedido", "data_entrega"];
+
+const formatValue = (field: BudgetRevisionField, value: BudgetSnapshotValue | undefined) => {
+  if (value === null || value === undefined || value === "") return "-";
+  if (CURRENCY_FIELDS.includes(field) && typeof value === "number") return formatCurrencyBRL(value);
+  if (DATE_FIELDS.includes(field) && typeof value === "string") return formatDateBR(value);
+  return String(value);
+};
+
+const revisionLabel = (revision: BudgetRevision) =>
+  `Revisão ${revision.revision} - ${formatDateBR(revision.createdAt)}${revision.createdBy ? ` (${revision.createdBy.name})` : ""}`;
+
+export function BudgetRevisionDiff({ budgetId, refreshKey }: BudgetRevisionDiffProps) {
+  const [revisions, setRevisions] = useState<BudgetRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [leftId, setLeftId] = useState<number | null>(null);
+  const [rightId, setRightId] = useState<number | null>(null);
+  const [onlyChanges, setOnlyChanges] = useState(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/budgets/${budgetId}/revisions`);
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || "Erro ao carregar revisões.");
+      }
+      const data: BudgetRevision[] = json.data || [];
+      setRevisions(data);
+      // Default to comparing the two most recent submissions
+      setRightId(data.length > 0 ? data[data.length - 1].id : null);
+      setLeftId(data.length > 1 ? data[data.length - 2].id : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro ao carregar revisões.");
+    } finally {
+      setLoading(false);
+    }
+  }, [budgetId]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const left = revisions.find((revision) => revision.id === leftId);
+  const right = revisions.find((revision) => revision.id === rightId);
+
+  const rows = useMemo(() => {
+    const fields = Object.keys(BUDGET_REVISION_FIELDS) as BudgetRevisionField[];
+    return fields
+      .map((field) => {
+        const before = left?.snapshot[field] ?? null;
+        const after = right?.snapshot[field] ?? null;
+        return { field, label: BUDGET_REVISION_FIELDS[field], before, after, changed: before !== after };
+      })
+      .filter((row) => !onlyChanges || row.changed);
+  }, [left, right, onlyChanges]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revisões do Orçamento</CardTitle>
+        <CardDescription>
+          Uma revisão é registrada a cada envio para aprovação. Compare duas versões lado a lado.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <ErrorAlert message={error} onRetry={load} />}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Carregando revisões...
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhuma revisão registrada. O orçamento ainda não foi enviado para aprovação.
+          </p>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              {[
+                { label: "Versão anterior", value: leftId, onChange: setLeftId },
+                { label: "Versão comparada", value: rightId, onChange: setRightId },
+              ].map((selector) => (
+                <div key={selector.label} className="space-y-2">
+                  <Label>{selector.label}</Label>
+                  <Select
+                    value={selector.value ? String(selector.value) : "none"}
+                    onValueChange={(value) => selector.onChange(value === "none" ? null : Number(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Nenhuma</SelectItem>
+                      {revisions.map((revision) => (
+                        <SelectItem key={revision.id} value={String(revision.id)}>
+                          {revisionLabel(revision)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="only-changes"
+                checked={onlyChanges}
+                onCheckedChange={(checked) => setOnlyChanges(checked === true)}
+              />
+              <Label htmlFor="only-changes">Mostrar apenas campos alterados</Label>
+            </div>
+
+            {rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma diferença entre as versões selecionadas.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[220px]">Campo</TableHead>
+                    <TableHead>{left ? `Revisão ${left.revision}` : "-"}</TableHead>
+                    <TableHead>{right ? `Revisão ${right.revision}` : "-"}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.field} className={cn(row.changed && "bg-amber-50")}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell className={cn(row.changed && "text-red-700 line-through")}>
+                        {formatValue(row.field, row.before)}
+                      </TableCell>
+                      <TableCell className={cn(row.changed && "text-green-700")}>
+                        {formatValue(row.field, row.after)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,257 @@
+// src/components/clients/client-profile.tsx
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { formatCurrencyBRL, formatDateBR } from "@/lib/utils";
+import type { ClientSummary } from "@/lib/client-summary";
+import type { BudgetStatus, ClientContact, OrderStatus } from "@/generated/prisma";
+
+// GET /api/clients/[id]/summary; fields and totals the role does not see are absent
+export interface ClientProfileData {
+  client: {
+    id: number;
+    name: string;
+    email: string;
+    phone: string;
+    cnpjCpf?: string;
+    address?: string;
+    contacts: ClientContact[];
+  };
+  summary: ClientSummary;
+  budgets: Array<{
+    id: number;
+    numero_pedido: string | null;
+    titulo: string;
+    status: BudgetStatus;
+    data_pedido: string;
+    preco_total?: number;
+    order: { id: number; numero_pedido: string; status: OrderStatus; data_pedido: string } | null;
+  }>;
+}
+
+function Figure({ label, value }: { label: string; value: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+    </Card>
+  );
+}
+
+function StatusCounts({ counts }: { counts: Record<string, number> }) {
+  const present = Object.entries(counts).filter(([, count]) => count > 0);
+  if (present.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhum registro.</p>;
+  }
+  return (
+    <div className="flex flex-wrap gap-2">
+      {present.map(([status, count]) => (
+        <span key={status} className="flex items-center gap-1 text-sm">
+          <StatusBadge status={status} /> {count}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function ClientProfile({ profile }: { profile: ClientProfileData }) {
+  const { client, summary, budgets } = profile;
+  const orders = budgets.flatMap((budget) => (budget.order ? [{ ...budget.order, budget }] : []));
+  const showPrices = summary.lifetimeRevenue !== null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between border-b pb-4">
+        <div>
+          <h1 className="text-2xl font-bold">{client.name}</h1>
+          <p className="text-gray-600">
+            {[client.cnpjCpf, client.email, client.phone].filter(Boolean).join(" • ")}
+          </p>
+          {client.address && <p className="text-sm text-gray-600">{client.address}</p>}
+        </div>
+        <Button asChild variant="outline">
+          <Link href={`/clients/${client.id}/edit`}>Editar</Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {showPrices && (
+          <>
+            <Figure label="Faturamento total" value={formatCurrencyBRL(summary.lifetimeRevenue ?? 0)} />
+            <Figure label="Ticket médio" value={summary.averageTicket !== null ? formatCurrencyBRL(summary.averageTicket) : "-"} />
+          </>
+        )}
+        <Figure
+          label="Taxa de aprovação"
+          value={summary.approvalRate !== null ? `${Math.round(summary.approvalRate * 100)}%` : "-"}
+        />
+        <Figure label="Último pedido" value={formatDateBR(summary.lastOrderAt)} />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Orçamentos ({summary.budgetCount})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <StatusCounts counts={summary.budgetsByStatus} />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Ordens ({summary.orderCount})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <StatusCounts counts={summary.ordersByStatus} />
+          </CardContent>
+        </Card>
+      </div>
+
+      {summary.outstandingDeliveries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Entregas pendentes</CardTitle>
+            <CardDescription>Ordens em aberto com parte da tiragem ainda não entregue</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ordem</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Entregue</TableHead>
+                  <TableHead className="text-right">Falta entregar</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.outstandingDeliveries.map((delivery) => (
+                  <TableRow key={delivery.orderId}>
+                    <TableCell>
+                      <Link href={`/orders/${delivery.orderId}/edit`} className="underline">{delivery.numero_pedido}</Link>
+                    </TableCell>
+                    <TableCell><StatusBadge status={delivery.status} /></TableCell>
+                    <TableCell className="text-right">
+                      {delivery.deliveredQuantity.toLocaleString("pt-BR")} / {delivery.tiragem.toLocaleString("pt-BR")}
+                    </TableCell>
+                    <TableCell className="text-right">{delivery.remainingQuantity.toLocaleString("pt-BR")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Orçamentos</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {budgets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum orçamento para este cliente.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Número</TableHead>
+                  <TableHead>Título</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Status</TableHead>
+                  {showPrices && <TableHead className="text-right">Valor</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {budgets.map((budget) => (
+                  <TableRow key={budget.id}>
+                    <TableCell>
+                      <Link href={`/budgets/${budget.id}/edit`} className="underline">
+                        {budget.numero_pedido ?? `#${budget.id}`}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{budget.titulo}</TableCell>
+                    <TableCell>{formatDateBR(budget.data_pedido)}</TableCell>
+                    <TableCell><StatusBadge status={budget.status} /></TableCell>
+                    {showPrices && <TableCell className="text-right">{formatCurrencyBRL(budget.preco_total ?? 0)}</TableCell>}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ordens</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {orders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma ordem para este cliente.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Número</TableHead>
+                  <TableHead>Título</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Status</TableHead>
+                  {showPrices && <TableHead className="text-right">Valor</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow key={order.id}>
+                    <TableCell>
+                      <Link href={`/orders/${order.id}/edit`} className="underline">{order.numero_pedido}</Link>
+                    </TableCell>
+                    <TableCell>{order.budget.titulo}</TableCell>
+                    <TableCell>{formatDateBR(order.data_pedido)}</TableCell>
+                    <TableCell><StatusBadge status={order.status} /></TableCell>
+                    {showPrices && <TableCell className="text-right">{formatCurrencyBRL(order.budget.preco_total ?? 0)}</TableCell>}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {client.contacts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Contatos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Cargo</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Telefone</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {client.contacts.map((contact) => (
+                  <TableRow key={contact.id}>
+                    <TableCell>
+                      {contact.name}
+                      {contact.isPrimary && <span className="text-sm text-muted-foreground"> (principal)</span>}
+                    </TableCell>
+                    <TableCell>{contact.role ?? "-"}</TableCell>
+                    <TableCell>{contact.email ?? "-"}</TableCell>
+                    <TableCell>{contact.phone ?? "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
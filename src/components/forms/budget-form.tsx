@@ -13,11 +13,16 @@ import { FormGrid, FormField } from "@/components/ui/form-grid";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ErrorAlert } from "@/components/ui/error-alert";
 import { StatusBadge } from "@/components/ui/status-badge";
-import { Loader2, Search, CheckCircle, XCircle, FileText, Clock } from "lucide-react";
+import { Loader2, Search, CheckCircle, XCircle, FileText, Clock, Calculator, Ban } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/components/auth/AuthProvider";
-import { formatCurrencyBRL, parseCurrencyBRL } from "@/lib/utils";
+import { Permission } from "@/lib/rbac";
+import { createIdempotencyKey, formatCurrencyBRL, parseCurrencyBRL } from "@/lib/utils";
 import { ProductionSpecificationsSection } from "./budget-form/ProductionSpecificationsSection";
+import { QuoteBreakdown, type BudgetQuoteResult } from "./budget-form/QuoteBreakdown";
+import { RejectBudgetDialog } from "./budget-form/RejectBudgetDialog";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { AssigneeSelect } from "@/components/ui/assignee-select";
 import { featureFlags } from "@/lib/feature-flags";
 import type { BudgetWithRelations } from "@/types/models";
 
@@ -34,6 +39,16 @@ interface ClientOption {
   email: string;
 }
 
+interface ContactOption {
+  id: number;
+  name: string;
+  role: string | null;
+  isPrimary: boolean;
+}
+
+// Select value of "no contact": the requester is typed into solicitante
+const NO_CONTACT = "none";
+
 interface CenterOption {
   id: number;
   name: string;
@@ -66,6 +81,7 @@ const mapBudgetDefaults = (budget: BudgetWithRelations): BudgetInput => ({
   data_pedido: toDateInputValue(budget.data_pedido) ?? "",
   data_entrega: toDateInputValue(budget.data_entrega),
   solicitante: budget.solicitante ?? undefined,
+  contactId: budget.contactId ?? null,
   documento: budget.documento ?? undefined,
   editorial: budget.editorial ?? undefined,
   tipo_produto: budget.tipo_produto ?? undefined,
@@ -91,6 +107,7 @@ const mapBudgetDefaults = (budget: BudgetWithRelations): BudgetInput => ({
   status: budget.status,
   approved: budget.approved ?? false,
   orderId: budget.order?.id ?? undefined,
+  assignedToUserId: budget.assignedToUserId ?? null,
 });
 
 export function BudgetForm({ mode, initialData, specifications }: BudgetFormProps) {
@@ -99,11 +116,17 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
   const [serverError, setServerError] = useState("");
   const [clients, setClients] = useState<ClientOption[]>([]);
   const [centers, setCenters] = useState<CenterOption[]>([]);
+  const [contacts, setContacts] = useState<ContactOption[]>([]);
   const [clientsLoading, setClientsLoading] = useState(false);
   const [centersLoading, setCentersLoading] = useState(false);
   const [clientSearch, setClientSearch] = useState("");
   const [centerSearch, setCenterSearch] = useState("");
   const [isSubmittingWorkflow, setIsSubmittingWorkflow] = useState(false);
+  const [quote, setQuote] = useState<BudgetQuoteResult | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
+  // One key per form instance so a retried conversion is replayed, not repeated
+  const conversionKey = useMemo(() => createIdempotencyKey(), []);
 
   const formDefaultValues = useMemo<Partial<BudgetInput>>(() => {
     if (!initialData) {
@@ -117,6 +140,7 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
     handleSubmit, 
     watch,
     setValue,
+    getValues,
     control,
     formState: { errors, isValid, isSubmitting } 
   } = useForm<BudgetInput>({
@@ -174,6 +198,34 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
     }
   }, []);
 
+  // Contacts of the selected client, to pick who requested the budget
+  const clientId = watch("clientId");
+  useEffect(() => {
+    if (!clientId) {
+      setContacts([]);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchContacts = async () => {
+      try {
+        const res = await fetch(`/api/clients/${clientId}`);
+        if (res.ok) {
+          const data = await res.json();
+          if (!cancelled) setContacts(data.data?.contacts || []);
+        }
+      } catch (error) {
+        console.error("Error fetching contacts:", error);
+      }
+    };
+    fetchContacts();
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId]);
+
+  const contactId = watch("contactId");
+
   // Initial data fetch
   useEffect(() => {
     fetchClients();
@@ -201,9 +253,10 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
 
   const currentStatus = initialData?.status ?? "DRAFT";
   const canEdit = currentStatus === "DRAFT" || currentStatus === "REJECTED";
-  const canSubmit = currentStatus === "DRAFT";
-  const canApprove = currentStatus === "SUBMITTED" && (user?.role === "MODERATOR" || user?.role === "ADMIN");
+  const canSubmit = currentStatus === "DRAFT" || currentStatus === "REJECTED";
+  const canApprove = currentStatus === "SUBMITTED" && (user?.permissions.includes(Permission.APPROVE_BUDGETS) ?? false);
   const canConvert = currentStatus === "APPROVED";
+  const canCancel = currentStatus !== "CONVERTED" && currentStatus !== "CANCELLED" && (user?.permissions.includes(Permission.WRITE_BUDGETS) ?? false);
 
   const onSubmit: SubmitHandler<BudgetInput> = async (data) => {
     setServerError("");
@@ -231,7 +284,51 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
     }
   };
 
-  type WorkflowAction = 'submit' | 'approve' | 'reject' | 'convert-to-order';
+  const handleCalculateQuote = async () => {
+    const values = getValues();
+    if (!values.centerId) {
+      toast.error('Selecione o centro de produção para calcular o preço.');
+      return;
+    }
+
+    setIsQuoting(true);
+    try {
+      const res = await fetch('/api/budgets/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          centerId: values.centerId,
+          formato: values.formato,
+          total_pgs: values.total_pgs,
+          pgs_colors: values.pgs_colors,
+          papel_miolo: values.papel_miolo,
+          papel_capa: values.papel_capa,
+          cor_miolo: values.cor_miolo,
+          cor_capa: values.cor_capa,
+          laminacao: values.laminacao,
+          acabamento: values.acabamento,
+          shrink: values.shrink,
+          tiragem: values.tiragem,
+        }),
+      });
+
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || 'Erro ao calcular preço.');
+      }
+
+      const result: BudgetQuoteResult = json.data;
+      setQuote(result);
+      setValue('preco_unitario', result.preco_unitario, { shouldDirty: true, shouldValidate: true });
+      toast.success('Preço calculado a partir da tabela de preços.');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Erro ao calcular preço.');
+    } finally {
+      setIsQuoting(false);
+    }
+  };
+
+  type WorkflowAction = 'submit' | 'approve' | 'reject' | 'cancel' | 'convert-to-order';
   const handleWorkflowAction = async (
     action: WorkflowAction,
     data?: Record<string, unknown>
@@ -242,7 +339,10 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
     try {
       const res = await fetch(`/api/budgets/${initialData.id}/${action}`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(action === 'convert-to-order' ? { 'Idempotency-Key': conversionKey } : {}),
+        },
         body: data ? JSON.stringify(data) : undefined,
       });
 
@@ -255,6 +355,7 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
         submit: 'enviado para aprovação',
         approve: 'aprovado',
         reject: 'rejeitado',
+        cancel: 'cancelado',
         'convert-to-order': 'convertido em pedido'
       };
 
@@ -307,7 +408,7 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
                 </Button>
                 <Button
                   type="button"
-                  onClick={() => handleWorkflowAction('reject')}
+                  onClick={() => setRejectDialogOpen(true)}
                   disabled={isSubmittingWorkflow}
                   variant="destructive"
                 >
@@ -327,6 +428,30 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
                 Converter em Pedido
               </Button>
             )}
+            {canCancel && (
+              <ConfirmDialog
+                title="Cancelar orçamento"
+                description="O orçamento será cancelado e não poderá mais ser editado ou convertido."
+                confirmLabel="Cancelar Orçamento"
+                cancelLabel="Voltar"
+                onConfirm={() => handleWorkflowAction('cancel')}
+                trigger={
+                  <Button type="button" variant="outline" disabled={isSubmittingWorkflow}>
+                    <Ban className="w-4 h-4" />
+                    Cancelar Orçamento
+                  </Button>
+                }
+              />
+            )}
+            <RejectBudgetDialog
+              open={rejectDialogOpen}
+              onOpenChange={setRejectDialogOpen}
+              busy={isSubmittingWorkflow}
+              onConfirm={async (reason) => {
+                await handleWorkflowAction('reject', { reason });
+                setRejectDialogOpen(false);
+              }}
+            />
           </div>
         )}
 
@@ -350,7 +475,10 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
                   render={({ field }) => (
                     <Select
                       value={field.value?.toString() || ""}
-                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      onValueChange={(value) => {
+                        field.onChange(parseInt(value));
+                        setValue("contactId", null);
+                      }}
                       disabled={!canEdit}
                     >
                       <SelectTrigger>
@@ -423,6 +551,19 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
                   <span className="text-sm text-red-500">{errors.centerId.message}</span>
                 )}
               </FormField>
+
+              {user?.permissions.includes(Permission.ASSIGN_RECORDS) && (
+                <FormField>
+                  <Label htmlFor="assignedToUserId">Responsável</Label>
+                  <Controller
+                    name="assignedToUserId"
+                    control={control}
+                    render={({ field }) => (
+                      <AssigneeSelect value={field.value} onChange={field.onChange} disabled={!canEdit} />
+                    )}
+                  />
+                </FormField>
+              )}
             </FormGrid>
           </div>
 
@@ -464,12 +605,46 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
 
               <FormField>
                 <Label htmlFor="solicitante">Solicitante</Label>
-                <Input
-                  id="solicitante" 
-                  placeholder="Nome de quem solicitou" 
-                  disabled={!canEdit}
-                  {...register('solicitante')} 
-                />
+                {contacts.length > 0 && (
+                  <Controller
+                    name="contactId"
+                    control={control}
+                    render={({ field }) => (
+                      <Select
+                        value={field.value ? field.value.toString() : NO_CONTACT}
+                        onValueChange={(value) => {
+                          const contact = contacts.find((option) => option.id.toString() === value);
+                          field.onChange(contact ? contact.id : null);
+                          if (contact) setValue('solicitante', contact.name);
+                        }}
+                        disabled={!canEdit}
+                      >
+                        <SelectTrigger id="contactId">
+                          <SelectValue placeholder="Selecione um contato" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {contacts.map((contact) => (
+                            <SelectItem key={contact.id} value={contact.id.toString()}>
+                              {contact.name}
+                              {contact.role && <span className="text-gray-500"> • {contact.role}</span>}
+                              {contact.isPrimary && <span className="text-gray-500"> (principal)</span>}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={NO_CONTACT}>Outro (informar nome)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  />
+                )}
+                {/* Budgets without a contact, including those from before contacts, keep the typed name */}
+                {!contactId && (
+                  <Input
+                    id="solicitante" 
+                    placeholder="Nome de quem solicitou" 
+                    disabled={!canEdit}
+                    {...register('solicitante')} 
+                  />
+                )}
               </FormField>
             </FormGrid>
 
@@ -723,6 +898,20 @@ export function BudgetForm({ mode, initialData, specifications }: BudgetFormProp
                 )}
               </FormGrid>
 
+              {canEdit && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleCalculateQuote}
+                  disabled={isQuoting}
+                >
+                  {isQuoting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Calculator className="w-4 h-4" />}
+                  Calcular preço
+                </Button>
+              )}
+
+              {quote && <QuoteBreakdown quote={quote} />}
+
               <FormField>
                 <Label htmlFor="pagamento">Forma de Pagamento</Label>
                 {specifications?.["Forma de pagamento"] ? (
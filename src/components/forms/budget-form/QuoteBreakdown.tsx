@@ -0,0 +1,86 @@
+// src/components/forms/budget-form/QuoteBreakdown.tsx
+
+"use client";
+
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatCurrencyBRL } from "@/lib/utils";
+import type { Quote } from "@/lib/pricing/engine";
+
+export interface BudgetQuoteResult extends Quote {
+  center: { id: number; name: string };
+  usingDefaultPrices: boolean;
+}
+
+interface QuoteBreakdownProps {
+  quote: BudgetQuoteResult;
+}
+
+const formatQuantity = (value: number) => value.toLocaleString("pt-BR");
+
+export const QuoteBreakdown: React.FC<QuoteBreakdownProps> = ({ quote }) => {
+  return (
+    <div className="space-y-3 rounded-lg border p-4" data-testid="quote-breakdown">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h5 className="font-medium text-gray-800">Composição do preço</h5>
+        <span className="text-xs text-gray-500">
+          Tabela de preços: {quote.center.name}
+          {quote.usingDefaultPrices && " (padrão)"}
+        </span>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Componente</TableHead>
+            <TableHead>Opção</TableHead>
+            <TableHead className="text-right">Qtd.</TableHead>
+            <TableHead className="text-right">Custo unit.</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {quote.lines.map((line) => (
+            <TableRow key={`${line.component}:${line.option}`}>
+              <TableCell>{line.label}</TableCell>
+              <TableCell>{line.option || "-"}</TableCell>
+              <TableCell className="text-right">{formatQuantity(line.quantity)}</TableCell>
+              <TableCell className="text-right">
+                {line.unitCost.toLocaleString("pt-BR", { style: "currency", currency: "BRL", maximumFractionDigits: 4 })}
+              </TableCell>
+              <TableCell className="text-right">{formatCurrencyBRL(line.total)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={4}>Subtotal</TableCell>
+            <TableCell className="text-right">{formatCurrencyBRL(quote.subtotal)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell colSpan={4}>Margem ({quote.marginPercent}%)</TableCell>
+            <TableCell className="text-right">{formatCurrencyBRL(quote.margin)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell colSpan={4}>
+              Total ({formatQuantity(quote.tiragem)} un. × {formatCurrencyBRL(quote.preco_unitario)})
+            </TableCell>
+            <TableCell className="text-right font-semibold">{formatCurrencyBRL(quote.preco_total)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+
+      {quote.warnings.length > 0 && (
+        <ul className="space-y-1 text-sm text-amber-700">
+          {quote.warnings.map((warning) => (
+            <li key={warning} className="flex items-start gap-2">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
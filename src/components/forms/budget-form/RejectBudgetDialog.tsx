@@ -0,0 +1,60 @@
+// src/components/forms/budget-form/RejectBudgetDialog.tsx
+
+"use client";
+
+import React, { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+interface RejectBudgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (reason: string) => void | Promise<void>;
+  busy?: boolean;
+}
+
+export const RejectBudgetDialog: React.FC<RejectBudgetDialogProps> = ({ open, onOpenChange, onConfirm, busy }) => {
+  const [reason, setReason] = useState("");
+
+  const handleConfirm = async () => {
+    await onConfirm(reason.trim());
+    setReason("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rejeitar Orçamento</DialogTitle>
+          <DialogDescription>
+            Informe o motivo da rejeição. Ele ficará registrado no histórico do orçamento.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="reject-reason">Motivo *</Label>
+          <textarea
+            id="reject-reason"
+            rows={4}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Ex.: valor acima do orçamento do cliente"
+            className="flex min-h-[100px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            Cancelar
+          </Button>
+          <Button type="button" variant="destructive" onClick={handleConfirm} disabled={busy || !reason.trim()}>
+            {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+            Rejeitar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
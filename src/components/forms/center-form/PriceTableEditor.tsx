@@ -0,0 +1,192 @@
+// src/components/forms/center-form/PriceTableEditor.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PRICE_COMPONENTS,
+  PRICE_COMPONENT_LABELS,
+  type PriceComponent,
+  type PriceTableEntry,
+} from "@/lib/pricing/engine";
+
+interface PriceTableEditorProps {
+  centerId: number;
+}
+
+interface PriceTableRow extends PriceTableEntry {
+  key: string;
+}
+
+let rowSequence = 0;
+const toRow = (entry: PriceTableEntry): PriceTableRow => ({
+  ...entry,
+  key: `row-${rowSequence++}`,
+});
+
+export function PriceTableEditor({ centerId }: PriceTableEditorProps) {
+  const [rows, setRows] = useState<PriceTableRow[]>([]);
+  const [isDefault, setIsDefault] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/centers/${centerId}/price-table`);
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || "Erro ao carregar tabela de preços.");
+      }
+      setRows((json.data.items as PriceTableEntry[]).map(toRow));
+      setIsDefault(Boolean(json.data.isDefault));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro ao carregar tabela de preços.");
+    } finally {
+      setLoading(false);
+    }
+  }, [centerId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateRow = (key: string, patch: Partial<PriceTableEntry>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+  };
+
+  const removeRow = (key: string) => {
+    setRows((current) => current.filter((row) => row.key !== key));
+  };
+
+  const addRow = () => {
+    setRows((current) => [...current, toRow({ component: "PAPEL_MIOLO", option: "", value: 0 })]);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/centers/${centerId}/price-table`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          items: rows.map(({ component, option, value }) => ({ component, option, value })),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || "Erro ao salvar tabela de preços.");
+      }
+      setRows((json.data.items as PriceTableEntry[]).map(toRow));
+      setIsDefault(Boolean(json.data.isDefault));
+      toast.success("Tabela de preços salva com sucesso!");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro ao salvar tabela de preços.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-4xl w-full">
+      <CardHeader>
+        <CardTitle>Tabela de Preços</CardTitle>
+        <CardDescription>
+          Valores usados pelo cálculo automático de orçamentos deste centro.
+          {isDefault && " Este centro ainda usa a tabela padrão; salve para personalizá-la."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <ErrorAlert message={error} onRetry={load} />}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Carregando tabela de preços...
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[280px]">Componente</TableHead>
+                <TableHead>Opção</TableHead>
+                <TableHead className="w-[140px]">Valor</TableHead>
+                <TableHead className="w-[60px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell>
+                    <Select
+                      value={row.component}
+                      onValueChange={(value) => updateRow(row.key, { component: value as PriceComponent })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PRICE_COMPONENTS.map((component) => (
+                          <SelectItem key={component} value={component}>
+                            {PRICE_COMPONENT_LABELS[component]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={row.option}
+                      placeholder={row.component === "SETUP" || row.component === "MARGEM" ? "(geral)" : "Opção"}
+                      onChange={(e) => updateRow(row.key, { option: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={Number.isFinite(row.value) ? row.value : ""}
+                      onChange={(e) => updateRow(row.key, { value: Number(e.target.value) })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeRow(row.key)}
+                      aria-label="Remover item"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={addRow} disabled={loading || saving}>
+            <Plus className="mr-2 h-4 w-4" /> Adicionar item
+          </Button>
+          <Button type="button" onClick={save} disabled={loading || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar Tabela
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,10 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { ClientSchema } from "@/lib/validation";
-import { onlyDigits } from "@/lib/validators";
+import { isCNPJ, onlyDigits } from "@/lib/validators";
 import { useRouter } from "next/navigation";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
@@ -12,24 +12,91 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { FormGrid, FormField } from "@/components/ui/form-grid";
 import { ErrorAlert } from "@/components/ui/error-alert";
-import { Loader2 } from "lucide-react";
+import { AssigneeSelect } from "@/components/ui/assignee-select";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { Permission } from "@/lib/rbac";
+import { Loader2, Plus, RefreshCw } from "lucide-react";
 import { toast } from "sonner";
-import type { Client } from "@/types/models";
+import { formatPhoneBR } from "@/lib/utils";
+import { formatCep, type AddressType, type ClientAddressFields } from "@/lib/address";
+import type { ClientContactFields } from "@/lib/client-contacts";
+import { ACTIVE_REGISTRATION_STATUS, type CompanyRecord } from "@/lib/company-registry/provider";
+import { AddressFields } from "./client-form/AddressFields";
+import { ContactFields } from "./client-form/ContactFields";
+import type { ClientDetail } from "@/types/models";
 
-type ClientFormData = {
+export type ClientFormData = {
   name: string;
+  tradeName?: string | null;
   cnpjCpf: string;
+  registrationStatus?: string | null;
   phone: string;
   email: string;
-  address: string;
+  addresses: ClientAddressFields[];
+  contacts?: ClientContactFields[];
+  assignedToUserId?: number | null;
   force?: boolean;
 };
 
 interface ClientFormProps {
   mode: 'create' | 'edit'
-  initialData?: Client
+  initialData?: ClientDetail
 }
 
+const emptyAddress = (type: AddressType): ClientAddressFields => ({
+  type,
+  cep: "",
+  logradouro: "",
+  numero: "",
+  complemento: "",
+  bairro: "",
+  cidade: "",
+  uf: "",
+});
+
+// Billing address first; clients saved before structured addresses start with an empty one
+function initialAddresses(client?: ClientDetail): ClientAddressFields[] {
+  if (!client?.addresses?.length) return [emptyAddress("BILLING")];
+  return [...client.addresses]
+    .sort((a, b) => (a.type === b.type ? a.id - b.id : a.type === "BILLING" ? -1 : 1))
+    .map((address) => ({
+      type: address.type,
+      cep: formatCep(address.cep),
+      logradouro: address.logradouro,
+      numero: address.numero,
+      complemento: address.complemento ?? "",
+      bairro: address.bairro,
+      cidade: address.cidade,
+      uf: address.uf,
+    }));
+}
+
+const emptyContact = (isPrimary: boolean): ClientContactFields => ({
+  name: "",
+  role: "",
+  email: "",
+  phone: "",
+  isPrimary,
+});
+
+function initialContacts(client?: ClientDetail): ClientContactFields[] {
+  return (client?.contacts ?? []).map((contact) => ({
+    id: contact.id,
+    name: contact.name,
+    role: contact.role ?? "",
+    email: contact.email ?? "",
+    phone: contact.phone ?? "",
+    isPrimary: contact.isPrimary,
+  }));
+}
+
+type RegistryState = "idle" | "loading" | "found" | "not-found" | "failed";
+
+const REGISTRY_MESSAGES: Partial<Record<RegistryState, string>> = {
+  "not-found": "CNPJ não encontrado na Receita Federal. Preencha os dados manualmente.",
+  failed: "Não foi possível consultar o CNPJ agora. Preencha os dados manualmente.",
+};
+
 function formatCpfCnpj(value: string): string {
   const d = onlyDigits(value);
   if (d.length <= 11) {
@@ -56,43 +123,89 @@ function formatCpfCnpj(value: string): string {
   return out;
 }
 
-function formatPhone(value: string): string {
-  const d = onlyDigits(value).slice(0, 11);
-  const dd = d.slice(0, 2);
-  const p1 = d.length > 10 ? d.slice(2, 7) : d.slice(2, 6);
-  const p2 = d.length > 10 ? d.slice(7, 11) : d.slice(6, 10);
-  let out = dd ? `(${dd}` : "";
-  if (dd && dd.length === 2) out += ") ";
-  if (p1) out += p1;
-  if (p2) out += "-" + p2;
-  return out;
-}
-
 export function ClientForm({ mode, initialData }: ClientFormProps) {
   const router = useRouter();
+  const { user } = useAuth();
   const [serverError, setServerError] = useState("");
   const [duplicationError, setDuplicationError] = useState("");
+  const [registryState, setRegistryState] = useState<RegistryState>("idle");
 
-  const { 
-    register, 
-    handleSubmit, 
-    setValue, 
-    watch, 
-    formState: { errors, isValid, isSubmitting } 
-  } = useForm<ClientFormData>({
+  const form = useForm<ClientFormData>({
     resolver: zodResolver(ClientSchema),
     mode: "onChange",
     reValidateMode: "onChange",
     defaultValues: initialData ? {
       name: initialData.name,
+      tradeName: initialData.tradeName ?? "",
       cnpjCpf: initialData.cnpjCpf,
+      registrationStatus: initialData.registrationStatus,
       phone: initialData.phone,
       email: initialData.email,
-      address: initialData.address,
-    } : undefined,
+      addresses: initialAddresses(initialData),
+      contacts: initialContacts(initialData),
+      assignedToUserId: initialData.assignedToUserId,
+    } : { addresses: initialAddresses(), contacts: [] },
   });
+  const { 
+    register, 
+    handleSubmit, 
+    setValue, 
+    getValues,
+    watch, 
+    control,
+    formState: { errors, isValid, isSubmitting } 
+  } = form;
+  const { fields: addressFields, append: appendAddress, remove: removeAddress } = useFieldArray({ control, name: "addresses" });
+  const { fields: contactFields, append: appendContact, remove: removeContact } = useFieldArray({ control, name: "contacts", keyName: "key" });
+  // Free-text address of a client saved before structured addresses, shown while they are filled in
+  const legacyAddress = initialData && !initialData.addresses?.length ? initialData.address : null;
 
   const cnpjCpf = watch('cnpjCpf');
+  const registrationStatus = watch('registrationStatus');
+  const inactiveRegistration = !!registrationStatus && registrationStatus !== ACTIVE_REGISTRATION_STATUS;
+
+  // Registry data replaces the names and status; the address, email and phone
+  // are only filled in when still empty
+  const lookupRegistry = async (cnpj: string) => {
+    setRegistryState("loading");
+    try {
+      const res = await fetch(`/api/cnpj/${onlyDigits(cnpj)}`);
+      if (res.status === 404) {
+        setRegistryState("not-found");
+        return;
+      }
+      if (!res.ok) {
+        setRegistryState("failed");
+        return;
+      }
+
+      const { data } = (await res.json()) as { data: CompanyRecord };
+      const fill = { shouldValidate: true, shouldDirty: true };
+      setValue('name', data.razaoSocial, fill);
+      setValue('tradeName', data.nomeFantasia ?? "", fill);
+      setValue('registrationStatus', data.registrationStatus, fill);
+      if (!getValues('email') && data.email) {
+        setValue('email', data.email, fill);
+      }
+      if (!getValues('phone') && data.phone) {
+        setValue('phone', formatPhoneBR(data.phone), fill);
+      }
+
+      const billingIndex = getValues('addresses').findIndex((address) => address.type === "BILLING");
+      if (billingIndex >= 0 && !getValues(`addresses.${billingIndex}.cep`) && data.address.cep) {
+        const { cep, ...rest } = data.address;
+        setValue(`addresses.${billingIndex}.cep`, formatCep(cep), fill);
+        for (const [field, value] of Object.entries(rest)) {
+          if (value) {
+            setValue(`addresses.${billingIndex}.${field as keyof typeof rest}`, value, fill);
+          }
+        }
+      }
+      setRegistryState("found");
+    } catch {
+      setRegistryState("failed");
+    }
+  };
 
   // Check for duplicates (only on create or if cnpjCpf changed)
   useEffect(() => {
@@ -119,6 +232,18 @@ export function ClientForm({ mode, initialData }: ClientFormProps) {
     return () => clearTimeout(timer);
   }, [cnpjCpf, mode, initialData?.cnpjCpf]);
 
+  // Look the company up once a complete CNPJ is typed (not when editing one already saved)
+  useEffect(() => {
+    if (!isCNPJ(cnpjCpf || "") || (mode === 'edit' && initialData?.cnpjCpf === cnpjCpf)) {
+      setRegistryState("idle");
+      return;
+    }
+
+    const timer = setTimeout(() => lookupRegistry(cnpjCpf), 500);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cnpjCpf, mode, initialData?.cnpjCpf]);
+
   const onSubmit = async (data: ClientFormData) => {
     setServerError("");
 
@@ -200,9 +325,39 @@ export function ClientForm({ mode, initialData }: ClientFormProps) {
               {duplicationError && (
                 <p className="text-sm text-yellow-600 dark:text-yellow-500">{duplicationError}</p>
               )}
+              {isCNPJ(cnpjCpf || "") && (
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto self-start p-0"
+                  disabled={registryState === "loading"}
+                  onClick={() => lookupRegistry(cnpjCpf)}
+                >
+                  {registryState === "loading"
+                    ? <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                    : <RefreshCw className="mr-1 h-3 w-3" />}
+                  Consultar na Receita Federal
+                </Button>
+              )}
+              {REGISTRY_MESSAGES[registryState] && (
+                <p className="text-sm text-muted-foreground">{REGISTRY_MESSAGES[registryState]}</p>
+              )}
             </FormField>
           </FormGrid>
 
+          {registrationStatus && (
+            <p className={inactiveRegistration ? "text-sm text-yellow-600 dark:text-yellow-500" : "text-sm text-muted-foreground"}>
+              Situação cadastral na Receita Federal: {registrationStatus}
+              {inactiveRegistration && ". O CNPJ não está ativo; confirme os dados com o cliente antes de emitir documentos."}
+            </p>
+          )}
+
+          <FormField>
+            <Label htmlFor="tradeName">Nome fantasia</Label>
+            <Input id="tradeName" placeholder="Nome fantasia" {...register('tradeName')} />
+          </FormField>
+
           <FormGrid columns={2} gap="md">
             <FormField>
               <Label htmlFor="phone">Telefone *</Label>
@@ -217,7 +372,7 @@ export function ClientForm({ mode, initialData }: ClientFormProps) {
                     aria-invalid={!!errors.phone} 
                     {...reg}
                     onChange={(e) => {
-                      e.target.value = formatPhone(e.target.value);
+                      e.target.value = formatPhoneBR(e.target.value);
                       reg.onChange(e);
                       setValue('phone', e.target.value, { shouldValidate: true });
                     }} 
@@ -244,18 +399,64 @@ export function ClientForm({ mode, initialData }: ClientFormProps) {
             </FormField>
           </FormGrid>
 
-          <FormField>
-            <Label htmlFor="address">Endereço *</Label>
-            <Input 
-              id="address" 
-              placeholder="Rua, número, bairro, cidade" 
-              aria-invalid={!!errors.address} 
-              {...register('address')} 
-            />
-            {errors.address?.message && (
-              <p className="text-sm text-destructive">{String(errors.address.message)}</p>
+          <div className="space-y-4">
+            <Label>Endereços *</Label>
+            {legacyAddress && (
+              <p className="text-sm text-muted-foreground">
+                Endereço cadastrado anteriormente: {legacyAddress}
+              </p>
             )}
-          </FormField>
+            {addressFields.map((field, index) => (
+              <AddressFields
+                key={field.id}
+                form={form}
+                index={index}
+                onRemove={field.type === "DELIVERY" ? () => removeAddress(index) : undefined}
+              />
+            ))}
+            {errors.addresses?.root?.message && (
+              <p className="text-sm text-destructive">{String(errors.addresses.root.message)}</p>
+            )}
+            <Button type="button" variant="outline" size="sm" onClick={() => appendAddress(emptyAddress("DELIVERY"))}>
+              <Plus className="mr-2 h-4 w-4" />
+              Adicionar endereço de entrega
+            </Button>
+          </div>
+
+          <div className="space-y-4">
+            <Label>Contatos</Label>
+            {contactFields.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Nenhum contato cadastrado. Os contatos podem ser escolhidos como solicitantes dos orçamentos.
+              </p>
+            )}
+            {contactFields.map((field, index) => (
+              <ContactFields
+                key={field.key}
+                form={form}
+                index={index}
+                onRemove={() => removeContact(index)}
+              />
+            ))}
+            {errors.contacts?.root?.message && (
+              <p className="text-sm text-destructive">{String(errors.contacts.root.message)}</p>
+            )}
+            <Button type="button" variant="outline" size="sm" onClick={() => appendContact(emptyContact(contactFields.length === 0))}>
+              <Plus className="mr-2 h-4 w-4" />
+              Adicionar contato
+            </Button>
+          </div>
+
+          {user?.permissions.includes(Permission.ASSIGN_RECORDS) && (
+            <FormField>
+              <Label htmlFor="assignedToUserId">Responsável</Label>
+              <Controller
+                name="assignedToUserId"
+                control={control}
+                render={({ field }) => <AssigneeSelect value={field.value} onChange={field.onChange} />}
+              />
+            </FormField>
+          )}
 
           <div className="flex gap-2 pt-4">
             <Button 
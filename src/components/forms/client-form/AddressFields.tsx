@@ -0,0 +1,205 @@
+// src/components/forms/client-form/AddressFields.tsx
+
+"use client";
+
+import React, { useState } from "react";
+import { Controller, type UseFormReturn } from "react-hook-form";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { FormGrid, FormField } from "@/components/ui/form-grid";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ADDRESS_TYPE_LABELS, BRAZIL_UFS, formatCep, normalizeCep } from "@/lib/address";
+import type { CepAddress } from "@/lib/cep/provider";
+import { Loader2, Trash2 } from "lucide-react";
+import type { ClientFormData } from "../client-form";
+
+type LookupState = "idle" | "loading" | "found" | "partial" | "not-found" | "failed";
+
+const LOOKUP_MESSAGES: Partial<Record<LookupState, string>> = {
+  partial: "CEP sem logradouro cadastrado. Preencha o endereço manualmente.",
+  "not-found": "CEP não encontrado. Preencha o endereço manualmente.",
+  failed: "Não foi possível consultar o CEP agora. Preencha o endereço manualmente.",
+};
+
+interface AddressFieldsProps {
+  form: UseFormReturn<ClientFormData>;
+  index: number;
+  onRemove?: () => void;
+}
+
+export const AddressFields: React.FC<AddressFieldsProps> = ({ form, index, onRemove }) => {
+  const { register, setValue, watch, control, formState: { errors } } = form;
+  const [lookupState, setLookupState] = useState<LookupState>("idle");
+
+  const type = watch(`addresses.${index}.type`);
+  const fieldErrors = errors.addresses?.[index];
+  const prefix = `address-${index}`;
+
+  // Fills what the lookup knows and leaves the rest to the user
+  const lookupCep = async (cep: string) => {
+    setLookupState("loading");
+    try {
+      const res = await fetch(`/api/cep/${cep}`);
+      if (res.status === 404) {
+        setLookupState("not-found");
+        return;
+      }
+      if (!res.ok) {
+        setLookupState("failed");
+        return;
+      }
+
+      const { data } = (await res.json()) as { data: CepAddress };
+      const fill = { logradouro: data.logradouro, bairro: data.bairro, cidade: data.cidade, uf: data.uf };
+      for (const [field, value] of Object.entries(fill)) {
+        if (value) {
+          setValue(`addresses.${index}.${field as keyof typeof fill}`, value, { shouldValidate: true });
+        }
+      }
+      setLookupState(data.logradouro ? "found" : "partial");
+    } catch {
+      setLookupState("failed");
+    }
+  };
+
+  const cepField = register(`addresses.${index}.cep`);
+
+  return (
+    <fieldset className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <legend className="text-sm font-medium">
+          Endereço de {ADDRESS_TYPE_LABELS[type].toLowerCase()}
+        </legend>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove} aria-label="Remover endereço">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <FormGrid columns={3} gap="md">
+        <FormField>
+          <Label htmlFor={`${prefix}-cep`}>CEP *</Label>
+          <div className="relative">
+            <Input
+              id={`${prefix}-cep`}
+              placeholder="00000-000"
+              inputMode="numeric"
+              maxLength={9}
+              aria-invalid={!!fieldErrors?.cep}
+              {...cepField}
+              onChange={(e) => {
+                e.target.value = formatCep(e.target.value);
+                cepField.onChange(e);
+                const cep = normalizeCep(e.target.value);
+                if (cep) {
+                  lookupCep(cep);
+                } else {
+                  setLookupState("idle");
+                }
+              }}
+            />
+            {lookupState === "loading" && (
+              <Loader2 className="absolute right-3 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+          {fieldErrors?.cep?.message && (
+            <p className="text-sm text-destructive">{String(fieldErrors.cep.message)}</p>
+          )}
+          {LOOKUP_MESSAGES[lookupState] && (
+            <p className="text-sm text-muted-foreground">{LOOKUP_MESSAGES[lookupState]}</p>
+          )}
+        </FormField>
+      </FormGrid>
+
+      <FormGrid columns={3} gap="md">
+        <FormField className="md:col-span-2">
+          <Label htmlFor={`${prefix}-logradouro`}>Logradouro *</Label>
+          <Input
+            id={`${prefix}-logradouro`}
+            placeholder="Rua, avenida..."
+            aria-invalid={!!fieldErrors?.logradouro}
+            {...register(`addresses.${index}.logradouro`)}
+          />
+          {fieldErrors?.logradouro?.message && (
+            <p className="text-sm text-destructive">{String(fieldErrors.logradouro.message)}</p>
+          )}
+        </FormField>
+
+        <FormField>
+          <Label htmlFor={`${prefix}-numero`}>Número *</Label>
+          <Input
+            id={`${prefix}-numero`}
+            placeholder="123 ou S/N"
+            aria-invalid={!!fieldErrors?.numero}
+            {...register(`addresses.${index}.numero`)}
+          />
+          {fieldErrors?.numero?.message && (
+            <p className="text-sm text-destructive">{String(fieldErrors.numero.message)}</p>
+          )}
+        </FormField>
+      </FormGrid>
+
+      <FormGrid columns={2} gap="md">
+        <FormField>
+          <Label htmlFor={`${prefix}-complemento`}>Complemento</Label>
+          <Input
+            id={`${prefix}-complemento`}
+            placeholder="Sala, andar, bloco..."
+            {...register(`addresses.${index}.complemento`)}
+          />
+        </FormField>
+
+        <FormField>
+          <Label htmlFor={`${prefix}-bairro`}>Bairro *</Label>
+          <Input
+            id={`${prefix}-bairro`}
+            aria-invalid={!!fieldErrors?.bairro}
+            {...register(`addresses.${index}.bairro`)}
+          />
+          {fieldErrors?.bairro?.message && (
+            <p className="text-sm text-destructive">{String(fieldErrors.bairro.message)}</p>
+          )}
+        </FormField>
+      </FormGrid>
+
+      <FormGrid columns={3} gap="md">
+        <FormField className="md:col-span-2">
+          <Label htmlFor={`${prefix}-cidade`}>Cidade *</Label>
+          <Input
+            id={`${prefix}-cidade`}
+            aria-invalid={!!fieldErrors?.cidade}
+            {...register(`addresses.${index}.cidade`)}
+          />
+          {fieldErrors?.cidade?.message && (
+            <p className="text-sm text-destructive">{String(fieldErrors.cidade.message)}</p>
+          )}
+        </FormField>
+
+        <FormField>
+          <Label htmlFor={`${prefix}-uf`}>UF *</Label>
+          <Controller
+            name={`addresses.${index}.uf`}
+            control={control}
+            render={({ field }) => (
+              <Select value={field.value || undefined} onValueChange={field.onChange}>
+                <SelectTrigger id={`${prefix}-uf`} aria-invalid={!!fieldErrors?.uf}>
+                  <SelectValue placeholder="UF" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BRAZIL_UFS.map((uf) => (
+                    <SelectItem key={uf} value={uf}>{uf}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+          {fieldErrors?.uf?.message && (
+            <p className="text-sm text-destructive">{String(fieldErrors.uf.message)}</p>
+          )}
+        </FormField>
+      </FormGrid>
+    </fieldset>
+  );
+};
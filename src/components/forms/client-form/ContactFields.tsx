@@ -0,0 +1,117 @@
+// src/components/forms/client-form/ContactFields.tsx
+
+"use client";
+
+import React from "react";
+import { Controller, type UseFormReturn } from "react-hook-form";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { FormGrid, FormField } from "@/components/ui/form-grid";
+import { formatPhoneBR } from "@/lib/utils";
+import { Trash2 } from "lucide-react";
+import type { ClientFormData } from "../client-form";
+
+interface ContactFieldsProps {
+  form: UseFormReturn<ClientFormData>;
+  index: number;
+  onRemove: () => void;
+}
+
+export const ContactFields: React.FC<ContactFieldsProps> = ({ form, index, onRemove }) => {
+  const { register, setValue, getValues, control, formState: { errors } } = form;
+  const fieldErrors = errors.contacts?.[index];
+  const prefix = `contact-${index}`;
+
+  // Only one contact is primary; checking this one clears the others
+  const markPrimary = (checked: boolean) => {
+    (getValues("contacts") ?? []).forEach((_, other) => {
+      setValue(`contacts.${other}.isPrimary`, other === index ? checked : false, { shouldValidate: true });
+    });
+  };
+
+  const phoneField = register(`contacts.${index}.phone`);
+
+  return (
+    <fieldset className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Controller
+            name={`contacts.${index}.isPrimary`}
+            control={control}
+            render={({ field }) => (
+              <Checkbox
+                id={`${prefix}-primary`}
+                checked={!!field.value}
+                onCheckedChange={(checked) => markPrimary(checked === true)}
+              />
+            )}
+          />
+          <Label htmlFor={`${prefix}-primary`} className="font-normal">Contato principal</Label>
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={onRemove} aria-label="Remover contato">
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <FormGrid columns={2} gap="md">
+        <FormField>
+          <Label htmlFor={`${prefix}-name`}>Nome *</Label>
+          <Input
+            id={`${prefix}-name`}
+            aria-invalid={!!fieldErrors?.name}
+            {...register(`contacts.${index}.name`)}
+          />
+          {fieldErrors?.name?.message && (
+            <p className="text-sm text-destructive">{String(fieldErrors.name.message)}</p>
+          )}
+        </FormField>
+
+        <FormField>
+          <Label htmlFor={`${prefix}-role`}>Cargo</Label>
+          <Input
+            id={`${prefix}-role`}
+            placeholder="Editor, compras, financeiro..."
+            {...register(`contacts.${index}.role`)}
+          />
+        </FormField>
+      </FormGrid>
+
+      <FormGrid columns={2} gap="md">
+        <FormField>
+          <Label htmlFor={`${prefix}-email`}>Email</Label>
+          <Input
+            id={`${prefix}-email`}
+            type="email"
+            placeholder="nome@exemplo.com"
+            aria-invalid={!!fieldErrors?.email}
+            {...register(`contacts.${index}.email`)}
+          />
+          {fieldErrors?.email?.message && (
+            <p className="text-sm text-destructive">{String(fieldErrors.email.message)}</p>
+          )}
+        </FormField>
+
+        <FormField>
+          <Label htmlFor={`${prefix}-phone`}>Telefone</Label>
+          <Input
+            id={`${prefix}-phone`}
+            type="tel"
+            placeholder="(11) 98765-4321"
+            maxLength={16}
+            aria-invalid={!!fieldErrors?.phone}
+            {...phoneField}
+            onChange={(e) => {
+              e.target.value = formatPhoneBR(e.target.value);
+              phoneField.onChange(e);
+            }}
+          />
+          {fieldErrors?.phone?.message && (
+            <p className="text-sm text-destructive">{String(fieldErrors.phone.message)}</p>
+          )}
+        </FormField>
+      </FormGrid>
+    </fieldset>
+  );
+};
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useRouter } from "next/navigation";
@@ -9,26 +9,32 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { FormGrid, FormField } from "@/components/ui/form-grid";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ErrorAlert } from "@/components/ui/error-alert";
 import { StatusBadge } from "@/components/ui/status-badge";
-import { Loader2, Package, CheckCircle, XCircle, AlertCircle, Clock, Truck } from "lucide-react";
+import { OrderStatusDialog } from "@/components/ui/order-status-dialog";
+import { Loader2, Package } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/components/auth/AuthProvider";
-import { formatCurrencyBRL } from "@/lib/utils";
+import { Permission } from "@/lib/rbac";
+import { createIdempotencyKey, formatCurrencyBRL } from "@/lib/utils";
+import { ORDER_PRIORITY_LABELS, ORDER_TYPE_LABELS, type ImplicitOrderType } from "@/lib/order-types";
+import { DirectOrderForm } from "./order-form/DirectOrderForm";
 import { z } from "zod";
+import { AssignedToUserSchema } from "@/lib/validation";
+import { AssigneeSelect } from "@/components/ui/assignee-select";
 import type { OrderWithBudget, BudgetWithRelations } from "@/types/models";
 
 
+// Status changes go through PATCH /api/orders/[id]/status (OrderStatusDialog)
 const OrderSchema = z.object({
-  status: z.enum(['PENDING', 'IN_PRODUCTION', 'COMPLETED', 'DELIVERED', 'CANCELLED', 'ON_HOLD']),
   data_entrega_real: z.string().optional(),
   data_inicio_producao: z.string().optional(),
   data_fim_producao: z.string().optional(),
   obs_producao: z.string().optional(),
   frete_real: z.number().optional(),
   custo_adicional: z.number().optional(),
-  responsavel_producao: z.string().optional()
+  responsavel_producao: z.string().optional(),
+  assignedToUserId: AssignedToUserSchema
 });
 
 type OrderInput = z.infer<typeof OrderSchema>;
@@ -37,17 +43,10 @@ interface OrderFormProps {
   mode: 'create' | 'edit';
   initialData?: OrderWithBudget;
   budgetId?: number;
+  // Create mode without a budget: the order creates its own implicit budget
+  orderType?: ImplicitOrderType;
 }
 
-const statusOptions = [
-  { value: 'PENDING', label: 'Pendente', icon: Clock, color: 'bg-yellow-100 text-yellow-800' },
-  { value: 'IN_PRODUCTION', label: 'Em Produção', icon: Package, color: 'bg-blue-100 text-blue-800' },
-  { value: 'COMPLETED', label: 'Concluída', icon: CheckCircle, color: 'bg-green-100 text-green-800' },
-  { value: 'DELIVERED', label: 'Entregue', icon: Truck, color: 'bg-green-100 text-green-800' },
-  { value: 'ON_HOLD', label: 'Em Espera', icon: AlertCircle, color: 'bg-orange-100 text-orange-800' },
-  { value: 'CANCELLED', label: 'Cancelada', icon: XCircle, color: 'bg-red-100 text-red-800' }
-];
-
 // Date helper functions
 const toDateInputValue = (value: Date | string | null | undefined) => {
   if (!value) return "";
@@ -62,32 +61,36 @@ const toDateInputValue = (value: Date | string | null | undefined) => {
 };
 
 const mapOrderDefaults = (order: OrderFormProps['initialData']): OrderInput => ({
-  status: order?.status || 'PENDING',
   data_entrega_real: toDateInputValue(order?.data_entrega_real ?? null),
   data_inicio_producao: toDateInputValue(order?.data_inicio_producao ?? null),
   data_fim_producao: toDateInputValue(order?.data_fim_producao ?? null),
   obs_producao: order?.obs_producao || "",
   frete_real: order?.frete_real ?? undefined,
   custo_adicional: order?.custo_adicional ?? undefined,
-  responsavel_producao: order?.responsavel_producao || ""
+  responsavel_producao: order?.responsavel_producao || "",
+  assignedToUserId: order?.assignedToUserId ?? null
 });
 
-export function OrderForm({ mode, initialData, budgetId }: OrderFormProps) {
+export function OrderForm({ mode, initialData, budgetId, orderType }: OrderFormProps) {
   const router = useRouter();
   const { user } = useAuth();
   const [serverError, setServerError] = useState("");
+  const [status, setStatus] = useState(initialData?.status);
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false);
   const [budget, setBudget] = useState<BudgetWithRelations | null>(null);
   const [budgetLoading, setBudgetLoading] = useState(!!budgetId);
+  // Resubmitting the create form replays the first order instead of failing
+  const creationKey = useMemo(() => createIdempotencyKey(), []);
 
   const formDefaultValues = mode === 'edit' && initialData
     ? mapOrderDefaults(initialData)
-    : { status: 'PENDING' as const };
+    : {};
 
   const {
     register,
     handleSubmit,
     control,
-    formState: { errors, isValid, isSubmitting }
+    formState: { isValid, isSubmitting }
   } = useForm<OrderInput>({
     resolver: zodResolver(OrderSchema),
     mode: "onChange",
@@ -119,7 +122,9 @@ export function OrderForm({ mode, initialData, budgetId }: OrderFormProps) {
   }, [budgetId, mode, router]);
 
   const displayBudget = initialData?.budget || budget;
-  const canEdit = user?.role !== 'USER';
+  // Editing beyond status changes is production management
+  const canEdit = user?.permissions.includes(Permission.MANAGE_PRODUCTION) ?? false;
+  const canChangeStatus = canEdit || (user?.permissions.includes(Permission.WRITE_ORDERS) ?? false);
 
   const onSubmit = async (data: OrderInput) => {
     setServerError("");
@@ -146,7 +151,10 @@ export function OrderForm({ mode, initialData, budgetId }: OrderFormProps) {
 
       const response = await fetch(url, {
         method: mode === 'create' ? 'POST' : 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(mode === 'create' ? { 'Idempotency-Key': creationKey } : {}),
+        },
         body: JSON.stringify(payload)
       });
 
@@ -162,6 +170,22 @@ export function OrderForm({ mode, initialData, budgetId }: OrderFormProps) {
     }
   };
 
+  if (mode === 'create' && !budgetId && orderType) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Package className="w-5 h-5" />
+            Nova Ordem de Produção
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DirectOrderForm orderType={orderType} />
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (budgetLoading) {
     return (
       <Card>
@@ -179,8 +203,19 @@ export function OrderForm({ mode, initialData, budgetId }: OrderFormProps) {
         <CardTitle className="flex items-center gap-2">
           <Package className="w-5 h-5" />
           {mode === 'create' ? 'Nova Ordem de Produção' : 'Editar Ordem'}
-          {initialData && (
-            <StatusBadge status={initialData.status} className="ml-2" />
+          {status && (
+            <StatusBadge status={status} className="ml-2" />
+          )}
+          {initialData && initialData.orderType !== 'BUDGET_DERIVED' && (
+            <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700">
+              {ORDER_TYPE_LABELS[initialData.orderType]}
+            </span>
+          )}
+          {initialData && initialData.priority !== 'NORMAL' && (
+            <span className="ml-2 rounded-full bg-orange-100 px-2 py-0.5 text-xs font-medium text-orange-800">
+              Prioridade {ORDER_PRIORITY_LABELS[initialData.priority]}
+              {initialData.rushSurchargePercent ? ` • +${initialData.rushSurchargePercent}%` : ''}
+            </span>
           )}
         </CardTitle>
       </CardHeader>
@@ -262,34 +297,17 @@ export function OrderForm({ mode, initialData, budgetId }: OrderFormProps) {
             {/* Status e Responsável */}
             <FormGrid columns={2} gap="md">
               <FormField>
-                <Label htmlFor="status">Status da Ordem *</Label>
-                <Controller
-                  name="status"
-                  control={control}
-                  render={({ field }) => (
-                    <Select
-                      value={field.value}
-                      onValueChange={field.onChange}
-                      disabled={!canEdit}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Selecione o status" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {statusOptions.map((option) => (
-                          <SelectItem key={option.value} value={option.value}>
-                            <div className="flex items-center gap-2">
-                              <option.icon className="w-4 h-4" />
-                              {option.label}
-                            </div>
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                <Label>Status da Ordem</Label>
+                <div className="flex items-center gap-2">
+                  <StatusBadge status={status ?? 'PENDING'} />
+                  {initialData && status && canChangeStatus && (
+                    <Button type="button" variant="outline" size="sm" onClick={() => setStatusDialogOpen(true)}>
+                      Alterar status
+                    </Button>
                   )}
-                />
-                {errors.status?.message && (
-                  <span className="text-sm text-red-500">{errors.status.message}</span>
+                </div>
+                {!initialData && (
+                  <span className="text-sm text-muted-foreground">A ordem é criada como pendente.</span>
                 )}
               </FormField>
 
@@ -302,6 +320,17 @@ export function OrderForm({ mode, initialData, budgetId }: OrderFormProps) {
                   {...register('responsavel_producao')}
                 />
               </FormField>
+
+              {mode === 'edit' && canEdit && (
+                <FormField>
+                  <Label htmlFor="assignedToUserId">Atribuída a</Label>
+                  <Controller
+                    name="assignedToUserId"
+                    control={control}
+                    render={({ field }) => <AssigneeSelect value={field.value} onChange={field.onChange} />}
+                  />
+                </FormField>
+              )}
             </FormGrid>
 
             {/* Datas de Produção */}
@@ -410,6 +439,16 @@ export function OrderForm({ mode, initialData, budgetId }: OrderFormProps) {
             </div>
           )}
         </form>
+
+        {initialData && status && (
+          <OrderStatusDialog
+            open={statusDialogOpen}
+            onOpenChange={setStatusDialogOpen}
+            orderId={initialData.id}
+            currentStatus={status}
+            onStatusChanged={setStatus}
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,410 @@
+// src/components/forms/order-form/DirectOrderForm.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useForm, Controller, SubmitHandler } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { FormGrid, FormField } from "@/components/ui/form-grid";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { Loader2, Zap } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { Permission } from "@/lib/rbac";
+import { DirectOrderSchema, type DirectOrderInput } from "@/lib/validation";
+import {
+  ORDER_DEADLINE_RULES,
+  ORDER_PRIORITY_LABELS,
+  ORDER_TYPE_LABELS,
+  RUSH_PRIORITIES,
+  RUSH_SURCHARGE_DEFAULTS,
+  applyRushSurcharge,
+  type ImplicitOrderType,
+  type RushPriority,
+} from "@/lib/order-types";
+import { createIdempotencyKey, formatCurrencyBRL } from "@/lib/utils";
+
+interface DirectOrderFormProps {
+  orderType: ImplicitOrderType;
+}
+
+interface Option {
+  id: number;
+  name: string;
+}
+
+const addDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+export function DirectOrderForm({ orderType: initialOrderType }: DirectOrderFormProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [serverError, setServerError] = useState("");
+  const [clients, setClients] = useState<Option[]>([]);
+  const [centers, setCenters] = useState<Option[]>([]);
+  // Resubmitting the form replays the first order instead of creating another
+  const creationKey = useMemo(() => createIdempotencyKey(), []);
+
+  const canCreateRush = user?.permissions.includes(Permission.CREATE_RUSH_ORDERS) ?? false;
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    watch,
+    setValue,
+    formState: { errors, isSubmitting },
+  } = useForm<DirectOrderInput>({
+    resolver: zodResolver(DirectOrderSchema),
+    mode: "onChange",
+    defaultValues: {
+      orderType: initialOrderType,
+      priority: initialOrderType === "RUSH_ORDER" ? "URGENT" : "NORMAL",
+      rushSurchargePercent: initialOrderType === "RUSH_ORDER" ? RUSH_SURCHARGE_DEFAULTS.URGENT : undefined,
+    },
+  });
+
+  const orderType = watch("orderType");
+  const isRush = orderType === "RUSH_ORDER";
+  const deadlineRule = ORDER_DEADLINE_RULES[orderType];
+
+  const tiragem = Number(watch("tiragem")) || 0;
+  const precoUnitario = Number(watch("preco_unitario")) || 0;
+  const surcharge = isRush ? Number(watch("rushSurchargePercent")) || 0 : 0;
+  const finalUnitPrice = applyRushSurcharge(precoUnitario, surcharge);
+
+  useEffect(() => {
+    const load = async (url: string, setter: (options: Option[]) => void) => {
+      try {
+        const res = await fetch(url);
+        if (res.ok) {
+          const json = await res.json();
+          setter(json.data || []);
+        }
+      } catch (error) {
+        console.error(`Error fetching ${url}:`, error);
+      }
+    };
+    load("/api/clients?pageSize=100", setClients);
+    load("/api/centers?pageSize=100", setCenters);
+  }, []);
+
+  const handleOrderTypeChange = (value: ImplicitOrderType) => {
+    setValue("orderType", value, { shouldValidate: true });
+    setValue("priority", value === "RUSH_ORDER" ? "URGENT" : "NORMAL", { shouldValidate: true });
+    setValue(
+      "rushSurchargePercent",
+      value === "RUSH_ORDER" ? RUSH_SURCHARGE_DEFAULTS.URGENT : undefined,
+      { shouldValidate: true }
+    );
+  };
+
+  const handlePriorityChange = (value: RushPriority) => {
+    setValue("priority", value, { shouldValidate: true });
+    setValue("rushSurchargePercent", RUSH_SURCHARGE_DEFAULTS[value], { shouldValidate: true });
+  };
+
+  const onSubmit: SubmitHandler<DirectOrderInput> = async (data) => {
+    setServerError("");
+    try {
+      const payload = isRush
+        ? data
+        : { ...data, priority: undefined, rushSurchargePercent: undefined };
+
+      const res = await fetch("/api/orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": creationKey },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || "Erro ao criar ordem.");
+      }
+
+      toast.success(`${ORDER_TYPE_LABELS[data.orderType]} ${json.data?.numero_pedido ?? ""} criado com sucesso!`);
+      router.push("/orders");
+    } catch (err) {
+      setServerError(err instanceof Error ? err.message : "Erro ao processar requisição.");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
+      {serverError && <ErrorAlert message={serverError} />}
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">Tipo de Pedido</h3>
+        <p className="text-sm text-gray-600">
+          O orçamento é criado automaticamente a partir destes dados, sem etapa de aprovação.
+        </p>
+
+        <FormGrid columns={2} gap="md">
+          <FormField>
+            <Label htmlFor="orderType">Tipo *</Label>
+            <Select value={orderType} onValueChange={(value) => handleOrderTypeChange(value as ImplicitOrderType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="DIRECT_ORDER">{ORDER_TYPE_LABELS.DIRECT_ORDER}</SelectItem>
+                {canCreateRush && (
+                  <SelectItem value="RUSH_ORDER">{ORDER_TYPE_LABELS.RUSH_ORDER}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </FormField>
+
+          <FormField>
+            <Label htmlFor="data_entrega">Data de Entrega *</Label>
+            <Input
+              id="data_entrega"
+              type="date"
+              min={addDays(deadlineRule.minDays)}
+              max={deadlineRule.maxDays !== null ? addDays(deadlineRule.maxDays) : undefined}
+              {...register("data_entrega")}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {deadlineRule.maxDays !== null
+                ? `Entre ${deadlineRule.minDays} e ${deadlineRule.maxDays} dias a partir de hoje`
+                : `Mínimo de ${deadlineRule.minDays} dias a partir de hoje`}
+            </p>
+            {errors.data_entrega?.message && (
+              <span className="text-sm text-red-500">{errors.data_entrega.message}</span>
+            )}
+          </FormField>
+        </FormGrid>
+
+        {isRush && (
+          <FormGrid columns={2} gap="md">
+            <FormField>
+              <Label htmlFor="priority">Prioridade *</Label>
+              <Controller
+                name="priority"
+                control={control}
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={(value) => handlePriorityChange(value as RushPriority)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione a prioridade" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RUSH_PRIORITIES.map((priority) => (
+                        <SelectItem key={priority} value={priority}>
+                          {ORDER_PRIORITY_LABELS[priority]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              {errors.priority?.message && (
+                <span className="text-sm text-red-500">{errors.priority.message}</span>
+              )}
+            </FormField>
+
+            <FormField>
+              <Label htmlFor="rushSurchargePercent">Acréscimo de Urgência (%)</Label>
+              <Input
+                id="rushSurchargePercent"
+                type="number"
+                step="0.1"
+                {...register("rushSurchargePercent", { valueAsNumber: true })}
+              />
+              {errors.rushSurchargePercent?.message && (
+                <span className="text-sm text-red-500">{errors.rushSurchargePercent.message}</span>
+              )}
+            </FormField>
+          </FormGrid>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">Cliente e Produto</h3>
+
+        <FormGrid columns={2} gap="md">
+          <FormField>
+            <Label htmlFor="clientId">Cliente *</Label>
+            <Controller
+              name="clientId"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value?.toString() || ""} onValueChange={(value) => field.onChange(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione um cliente" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id.toString()}>{client.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+            {errors.clientId?.message && (
+              <span className="text-sm text-red-500">{errors.clientId.message}</span>
+            )}
+          </FormField>
+
+          <FormField>
+            <Label htmlFor="centerId">Centro de Produção *</Label>
+            <Controller
+              name="centerId"
+              control={control}
+              render={({ field }) => (
+                <Select value={field.value?.toString() || ""} onValueChange={(value) => field.onChange(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione um centro" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {centers.map((center) => (
+                      <SelectItem key={center.id} value={center.id.toString()}>{center.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+            {errors.centerId?.message && (
+              <span className="text-sm text-red-500">{errors.centerId.message}</span>
+            )}
+          </FormField>
+        </FormGrid>
+
+        <FormGrid columns={2} gap="md">
+          <FormField>
+            <Label htmlFor="titulo">Título *</Label>
+            <Input id="titulo" placeholder="Nome do produto" {...register("titulo")} />
+            {errors.titulo?.message && (
+              <span className="text-sm text-red-500">{errors.titulo.message}</span>
+            )}
+          </FormField>
+
+          <FormField>
+            <Label htmlFor="solicitante">Solicitante</Label>
+            <Input id="solicitante" placeholder="Nome de quem solicitou" {...register("solicitante")} />
+          </FormField>
+        </FormGrid>
+
+        <FormGrid columns={4} gap="md">
+          <FormField>
+            <Label htmlFor="formato">Formato *</Label>
+            <Input id="formato" placeholder="Ex: 14x21" {...register("formato")} />
+            {errors.formato?.message && (
+              <span className="text-sm text-red-500">{errors.formato.message}</span>
+            )}
+          </FormField>
+
+          <FormField>
+            <Label htmlFor="tiragem">Tiragem *</Label>
+            <Input id="tiragem" type="number" {...register("tiragem", { valueAsNumber: true })} />
+            {errors.tiragem?.message && (
+              <span className="text-sm text-red-500">{errors.tiragem.message}</span>
+            )}
+          </FormField>
+
+          <FormField>
+            <Label htmlFor="total_pgs">Total de Páginas *</Label>
+            <Input id="total_pgs" type="number" {...register("total_pgs", { valueAsNumber: true })} />
+            {errors.total_pgs?.message && (
+              <span className="text-sm text-red-500">{errors.total_pgs.message}</span>
+            )}
+          </FormField>
+
+          <FormField>
+            <Label htmlFor="pgs_colors">Páginas Coloridas *</Label>
+            <Input id="pgs_colors" type="number" {...register("pgs_colors", { valueAsNumber: true })} />
+            {errors.pgs_colors?.message && (
+              <span className="text-sm text-red-500">{errors.pgs_colors.message}</span>
+            )}
+          </FormField>
+        </FormGrid>
+
+        <FormGrid columns={4} gap="md">
+          <FormField>
+            <Label htmlFor="papel_miolo">Papel Miolo</Label>
+            <Input id="papel_miolo" {...register("papel_miolo")} />
+          </FormField>
+          <FormField>
+            <Label htmlFor="papel_capa">Papel Capa</Label>
+            <Input id="papel_capa" {...register("papel_capa")} />
+          </FormField>
+          <FormField>
+            <Label htmlFor="cor_miolo">Cor Miolo</Label>
+            <Input id="cor_miolo" {...register("cor_miolo")} />
+          </FormField>
+          <FormField>
+            <Label htmlFor="acabamento">Acabamento</Label>
+            <Input id="acabamento" {...register("acabamento")} />
+          </FormField>
+        </FormGrid>
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">Preço e Produção</h3>
+
+        <FormGrid columns={2} gap="md">
+          <FormField>
+            <Label htmlFor="preco_unitario">Preço Unitário (R$) *</Label>
+            <Input
+              id="preco_unitario"
+              type="number"
+              step="0.01"
+              placeholder="0,00"
+              {...register("preco_unitario", { valueAsNumber: true })}
+            />
+            {errors.preco_unitario?.message && (
+              <span className="text-sm text-red-500">{errors.preco_unitario.message}</span>
+            )}
+          </FormField>
+
+          <FormField>
+            <Label>Valor Total</Label>
+            <div className="font-medium text-gray-900 py-2">
+              {formatCurrencyBRL(finalUnitPrice * tiragem)}
+              {isRush && surcharge > 0 && (
+                <span className="ml-2 inline-flex items-center gap-1 text-sm text-orange-700">
+                  <Zap className="w-3 h-3" />
+                  inclui {surcharge}% de urgência ({formatCurrencyBRL(finalUnitPrice)}/un.)
+                </span>
+              )}
+            </div>
+          </FormField>
+        </FormGrid>
+
+        <FormField>
+          <Label htmlFor="responsavel_producao">Responsável Produção</Label>
+          <Input id="responsavel_producao" placeholder="Nome do responsável" {...register("responsavel_producao")} />
+        </FormField>
+
+        <FormField>
+          <Label htmlFor="obs_producao">Observações de Produção</Label>
+          <textarea
+            id="obs_producao"
+            rows={3}
+            placeholder="Observações internas sobre a produção..."
+            className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            {...register("obs_producao")}
+          />
+        </FormField>
+      </div>
+
+      <div className="flex justify-end pt-6">
+        <Button type="submit" disabled={isSubmitting} className="min-w-[120px]">
+          {isSubmitting ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              Salvando...
+            </>
+          ) : (
+            `Criar ${ORDER_TYPE_LABELS[orderType]}`
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { ReactNode } from "react";
+import { usePathname } from "next/navigation";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { AppSidebar } from "@/components/app-sidebar";
 import {
@@ -16,8 +17,20 @@ interface AuthenticatedLayoutProps {
   children: ReactNode;
 }
 
+// Pages opened without a session: links from e-mails and from the login form
+const PUBLIC_PATHS = ["/forgot-password", "/reset-password", "/verify-email"];
+
 export function AuthenticatedLayout({ children }: AuthenticatedLayoutProps) {
   const { isAuthenticated, isLoading, showLoginModal } = useAuth();
+  const pathname = usePathname();
+
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return (
+      <div className="flex min-h-svh w-full items-center justify-center p-6 md:p-10">
+        <div className="w-full max-w-sm">{children}</div>
+      </div>
+    );
+  }
 
   // Show loading state while checking authentication
   if (isLoading) {
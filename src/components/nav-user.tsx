@@ -7,6 +7,8 @@ import {
   ChevronsUpDown,
   CreditCard,
   LogOut,
+  MonitorSmartphone,
+  ShieldCheck,
   Sparkles,
 } from "lucide-react"
 
@@ -123,6 +125,14 @@ export function NavUser({
               </DropdownMenuItem>
             </DropdownMenuGroup> */}
             <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => router.push('/account/sessions')}>
+              <MonitorSmartphone />
+              Sessões ativas
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => router.push('/account/security')}>
+              <ShieldCheck />
+              Segurança
+            </DropdownMenuItem>
             <DropdownMenuItem onClick={handleLogout}>
               <LogOut />
               Log out
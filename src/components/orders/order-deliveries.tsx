@@ -0,0 +1,301 @@
+// src/components/orders/order-deliveries.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FormGrid, FormField } from "@/components/ui/form-grid";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { Permission } from "@/lib/rbac";
+import { formatCurrencyBRL } from "@/lib/utils";
+import { DELIVERABLE_STATUSES, type DeliverySummary } from "@/lib/order-deliveries";
+import type { OrderStatus } from "@/generated/prisma";
+
+interface DeliveryRow {
+  id: number;
+  quantity: number;
+  deliveredAt: string;
+  carrier: string | null;
+  trackingCode: string | null;
+  freightCost: number | null;
+  deliveryNote: string | null;
+  createdBy: { id: number; name: string } | null;
+}
+
+interface DeliveriesData {
+  status: OrderStatus;
+  deliveries: DeliveryRow[];
+  summary: DeliverySummary;
+}
+
+interface OrderDeliveriesProps {
+  orderId: number;
+}
+
+const emptyForm = {
+  quantity: "",
+  deliveredAt: new Date().toISOString().slice(0, 10),
+  carrier: "",
+  trackingCode: "",
+  freightCost: "",
+  deliveryNote: "",
+};
+
+export function OrderDeliveries({ orderId }: OrderDeliveriesProps) {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [data, setData] = useState<DeliveriesData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const canManage = user?.permissions.includes(Permission.WRITE_DELIVERIES) ?? false;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/orders/${orderId}/deliveries`);
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || "Erro ao carregar entregas.");
+      }
+      setData(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro ao carregar entregas.");
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRegister = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setFormError("");
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/deliveries`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          quantity: Number(form.quantity),
+          deliveredAt: form.deliveredAt,
+          carrier: form.carrier || undefined,
+          trackingCode: form.trackingCode || undefined,
+          freightCost: form.freightCost ? Number(form.freightCost) : undefined,
+          deliveryNote: form.deliveryNote || undefined,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || "Erro ao registrar entrega.");
+      }
+
+      toast.success(json.data.summary.complete ? "Entrega concluída! Ordem marcada como entregue." : "Entrega registrada.");
+      setForm(emptyForm);
+      await load();
+      // The order status and totals shown by the page may have changed
+      router.refresh();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Erro ao registrar entrega.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (deliveryId: number) => {
+    try {
+      const res = await fetch(`/api/orders/${orderId}/deliveries/${deliveryId}`, { method: "DELETE" });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || "Erro ao remover entrega.");
+      }
+      toast.success("Entrega removida.");
+      await load();
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Erro ao remover entrega.");
+    }
+  };
+
+  if (loading && !data) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> Carregando entregas...
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <ErrorAlert message={error || "Entregas indisponíveis."} onRetry={load} />;
+  }
+
+  const { summary, deliveries } = data;
+  const progress = summary.tiragem > 0
+    ? Math.min(100, Math.round((summary.deliveredQuantity / summary.tiragem) * 100))
+    : 0;
+  const canRegister = canManage && DELIVERABLE_STATUSES.includes(data.status) && summary.remainingQuantity > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="text-sm text-gray-600">Tiragem</label>
+          <p className="font-medium">{summary.tiragem.toLocaleString("pt-BR")}</p>
+        </div>
+        <div>
+          <label className="text-sm text-gray-600">Entregue</label>
+          <p className="font-medium">{summary.deliveredQuantity.toLocaleString("pt-BR")}</p>
+        </div>
+        <div>
+          <label className="text-sm text-gray-600">Saldo a entregar</label>
+          <p className={`font-medium ${summary.remainingQuantity > 0 ? "text-orange-700" : "text-green-700"}`}>
+            {summary.remainingQuantity.toLocaleString("pt-BR")}
+          </p>
+        </div>
+      </div>
+
+      <div className="h-2 w-full rounded-full bg-gray-200">
+        <div className="h-2 rounded-full bg-green-500" style={{ width: `${progress}%` }} />
+      </div>
+
+      {deliveries.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead className="text-right">Quantidade</TableHead>
+              <TableHead>Transportadora</TableHead>
+              <TableHead>Rastreio</TableHead>
+              <TableHead>Nota de Entrega</TableHead>
+              <TableHead className="text-right">Frete</TableHead>
+              {canManage && <TableHead className="w-[60px]" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.map((delivery) => (
+              <TableRow key={delivery.id}>
+                <TableCell>{new Date(delivery.deliveredAt).toLocaleDateString("pt-BR", { timeZone: "UTC" })}</TableCell>
+                <TableCell className="text-right">{delivery.quantity.toLocaleString("pt-BR")}</TableCell>
+                <TableCell>{delivery.carrier || "-"}</TableCell>
+                <TableCell>{delivery.trackingCode || "-"}</TableCell>
+                <TableCell>{delivery.deliveryNote || "-"}</TableCell>
+                <TableCell className="text-right">
+                  {delivery.freightCost !== null ? formatCurrencyBRL(delivery.freightCost) : "-"}
+                </TableCell>
+                {canManage && (
+                  <TableCell>
+                    <ConfirmDialog
+                      title="Remover entrega"
+                      description="A entrega será removida e o saldo recalculado."
+                      confirmLabel="Remover"
+                      onConfirm={() => handleRemove(delivery.id)}
+                      trigger={
+                        <Button variant="ghost" size="sm" aria-label="Remover entrega">
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      }
+                    />
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-gray-500">Nenhuma entrega registrada.</p>
+      )}
+
+      {canRegister && (
+        <form onSubmit={handleRegister} className="space-y-4 rounded border p-4">
+          <h4 className="text-sm font-medium text-gray-700">Registrar entrega</h4>
+          {formError && <ErrorAlert message={formError} />}
+          <FormGrid columns={3} gap="md">
+            <FormField>
+              <Label htmlFor="delivery-quantity">Quantidade *</Label>
+              <Input
+                id="delivery-quantity"
+                type="number"
+                min={1}
+                max={summary.remainingQuantity}
+                value={form.quantity}
+                onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                required
+              />
+            </FormField>
+            <FormField>
+              <Label htmlFor="delivery-date">Data *</Label>
+              <Input
+                id="delivery-date"
+                type="date"
+                value={form.deliveredAt}
+                onChange={(e) => setForm({ ...form, deliveredAt: e.target.value })}
+                required
+              />
+            </FormField>
+            <FormField>
+              <Label htmlFor="delivery-freight">Frete (R$)</Label>
+              <Input
+                id="delivery-freight"
+                type="number"
+                step="0.01"
+                min={0}
+                value={form.freightCost}
+                onChange={(e) => setForm({ ...form, freightCost: e.target.value })}
+              />
+            </FormField>
+            <FormField>
+              <Label htmlFor="delivery-carrier">Transportadora</Label>
+              <Input
+                id="delivery-carrier"
+                value={form.carrier}
+                onChange={(e) => setForm({ ...form, carrier: e.target.value })}
+              />
+            </FormField>
+            <FormField>
+              <Label htmlFor="delivery-tracking">Código de Rastreio</Label>
+              <Input
+                id="delivery-tracking"
+                value={form.trackingCode}
+                onChange={(e) => setForm({ ...form, trackingCode: e.target.value })}
+              />
+            </FormField>
+            <FormField>
+              <Label htmlFor="delivery-note">Nº Nota de Entrega</Label>
+              <Input
+                id="delivery-note"
+                value={form.deliveryNote}
+                onChange={(e) => setForm({ ...form, deliveryNote: e.target.value })}
+              />
+            </FormField>
+          </FormGrid>
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setForm({ ...form, quantity: String(summary.remainingQuantity) })}
+            >
+              Entregar saldo
+            </Button>
+            <Button type="submit" disabled={saving || !form.quantity}>
+              {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+              Registrar
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
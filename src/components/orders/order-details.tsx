@@ -1,11 +1,13 @@
 // src/components/orders/order-details.tsx
 import { StatusBadge } from "@/components/ui/status-badge";
 import Link from "next/link";
+import { OrderStatusTimeline } from "./order-status-timeline";
+import { OrderDeliveries } from "./order-deliveries";
 import type { OrderStatus } from "@/generated/prisma";
 
 interface BudgetSummary {
   id: number;
-  numero_pedido: string;
+  numero_pedido: string | null;
   titulo: string;
   tiragem: number;
   preco_total: number;
@@ -15,6 +17,7 @@ interface BudgetSummary {
 
 interface OrderDetailsProps {
   order: {
+    id: number;
     numero_pedido: string;
     status: OrderStatus;
     budget: BudgetSummary;
@@ -35,7 +38,7 @@ export function OrderDetails({ order }: OrderDetailsProps) {
           <StatusBadge status={order.status} />
         </div>
         <p className="text-gray-600">
-          Baseada no orçamento: {budget.numero_pedido}
+          Baseada no orçamento: {budget.numero_pedido ?? `#${budget.id}`}
         </p>
       </div>
 
@@ -72,10 +75,16 @@ export function OrderDetails({ order }: OrderDetailsProps) {
         </div>
       </div>
 
-      {/* Production Information (Editable) */}
+      {/* Partial deliveries and remaining balance */}
       <div className="space-y-4">
-        <h3 className="font-semibold">Informações de Produção</h3>
-        {/* Production timeline, costs, notes, etc. */}
+        <h3 className="font-semibold">Entregas</h3>
+        <OrderDeliveries orderId={order.id} />
+      </div>
+
+      {/* Production Information */}
+      <div className="space-y-4">
+        <h3 className="font-semibold">Histórico de Status</h3>
+        <OrderStatusTimeline orderId={order.id} />
       </div>
     </div>
   );
@@ -0,0 +1,113 @@
+// src/components/orders/order-status-timeline.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { Loader2 } from "lucide-react";
+import { formatDuration, type OrderStatusDurations } from "@/lib/order-history";
+import type { OrderStatus } from "@/generated/prisma";
+
+interface OrderStatusEvent {
+  id: number;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  reason: string | null;
+  createdAt: string;
+  actor: { id: number; name: string; email: string } | null;
+}
+
+interface OrderHistory {
+  currentStatus: OrderStatus;
+  createdAt: string;
+  events: OrderStatusEvent[];
+  durations: OrderStatusDurations;
+}
+
+interface OrderStatusTimelineProps {
+  orderId: number;
+}
+
+export function OrderStatusTimeline({ orderId }: OrderStatusTimelineProps) {
+  const [history, setHistory] = useState<OrderHistory | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/orders/${orderId}/history`);
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json?.error?.message || "Erro ao carregar histórico.");
+      }
+      setHistory(json.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Erro ao carregar histórico.");
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> Carregando histórico...
+      </div>
+    );
+  }
+
+  if (error || !history) {
+    return <ErrorAlert message={error || "Histórico indisponível."} onRetry={load} />;
+  }
+
+  const durationEntries = Object.entries(history.durations) as [OrderStatus, number][];
+
+  return (
+    <div className="space-y-4">
+      <ol className="relative ml-2 border-l border-gray-200">
+        <li className="mb-6 ml-6">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-400" />
+          <p className="font-medium text-gray-900">Ordem criada</p>
+          <p className="text-sm text-gray-500">{new Date(history.createdAt).toLocaleString("pt-BR")}</p>
+        </li>
+        {history.events.map((event) => (
+          <li key={event.id} className="mb-6 ml-6 last:mb-0">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+            <div className="flex flex-wrap items-center gap-2">
+              <StatusBadge status={event.fromStatus} />
+              <span className="text-gray-400">→</span>
+              <StatusBadge status={event.toStatus} />
+            </div>
+            <p className="text-sm text-gray-500">
+              {new Date(event.createdAt).toLocaleString("pt-BR")}
+              {event.actor && ` por ${event.actor.name}`}
+            </p>
+            {event.reason && (
+              <p className="mt-1 rounded bg-gray-50 p-2 text-sm text-gray-700">{event.reason}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {durationEntries.length > 0 && (
+        <div>
+          <h4 className="mb-2 text-sm font-medium text-gray-700">Tempo em cada status</h4>
+          <div className="flex flex-wrap gap-3">
+            {durationEntries.map(([status, ms]) => (
+              <div key={status} className="flex items-center gap-2 text-sm">
+                <StatusBadge status={status} />
+                <span>{formatDuration(ms)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface UserOption {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface AssigneeSelectProps {
+  value: number | null | undefined;
+  onChange: (value: number | null) => void;
+  disabled?: boolean;
+}
+
+const UNASSIGNED = "none";
+
+/**
+ * Picks the user responsible for a client, budget or order.
+ * Lists users from /api/users, so render it for MODERATOR/ADMIN only.
+ */
+export function AssigneeSelect({ value, onChange, disabled }: AssigneeSelectProps) {
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchUsers = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch("/api/users");
+        if (!res.ok) throw new Error("Erro ao carregar usuários");
+        const json = await res.json();
+        if (!cancelled) setUsers(json.data ?? []);
+      } catch (error) {
+        console.error("Failed to load users", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchUsers();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <Select
+      value={value ? value.toString() : UNASSIGNED}
+      onValueChange={(next) => onChange(next === UNASSIGNED ? null : parseInt(next, 10))}
+      disabled={disabled || loading}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder={loading ? "Carregando..." : "Sem responsável"} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Sem responsável</SelectItem>
+        {users.map((option) => (
+          <SelectItem key={option.id} value={option.id.toString()}>
+            {option.name} ({option.email})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
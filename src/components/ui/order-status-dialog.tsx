@@ -31,11 +31,11 @@ const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
   ON_HOLD: "Em Espera"
 };
 
+// DELIVERED is not offered: it follows from the registered deliveries
 const ORDER_STATUS_OPTIONS: OrderStatus[] = [
   "PENDING",
   "IN_PRODUCTION", 
   "COMPLETED",
-  "DELIVERED",
   "CANCELLED",
   "ON_HOLD"
 ];
@@ -89,7 +89,8 @@ export function OrderStatusDialog({
       toast.success('Status da ordem alterado com sucesso!');
       onStatusChanged(data.status);
       onOpenChange(false);
-      reset();
+      // The new status is the current one the next time the dialog opens
+      reset({ status: data.status, reason: "" });
     } catch (err) {
       setServerError(err instanceof Error ? err.message : 'Erro ao processar requisição.');
     }
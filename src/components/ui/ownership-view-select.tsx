@@ -0,0 +1,36 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+export type OwnershipViewValue = "all" | "mine" | "assigned";
+
+const VIEW_LABELS: Record<OwnershipViewValue, string> = {
+  all: "Todos",
+  mine: "Criados por mim",
+  assigned: "Atribuídos a mim",
+};
+
+interface OwnershipViewSelectProps {
+  value: OwnershipViewValue;
+  onChange: (value: OwnershipViewValue) => void;
+}
+
+/**
+ * "My items" filter for list pages; maps to the `view` query parameter.
+ */
+export function OwnershipViewSelect({ value, onChange }: OwnershipViewSelectProps) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as OwnershipViewValue)}>
+      <SelectTrigger className="w-44">
+        <SelectValue placeholder="Todos" />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(VIEW_LABELS) as OwnershipViewValue[]).map((option) => (
+          <SelectItem key={option} value={option}>
+            {VIEW_LABELS[option]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from "vitest";
+
+// auth.ts validates the secret when it is imported
+vi.hoisted(() => {
+  process.env.JWT_SECRET ??= "test-secret-with-at-least-32-characters";
+});
+
+import {
+  applyOwnershipView,
+  applyUserFilter,
+  canAccessResource,
+  canAssignRole,
+  parseOwnershipView,
+  type AuthenticatedUser,
+} from "../api-auth";
+import { Permission, Role, ROLE_HIERARCHY, ROLE_PERMISSIONS } from "../rbac";
+
+const admin: AuthenticatedUser = { userId: 1, email: "admin@example.com", role: Role.ADMIN, permissions: ROLE_PERMISSIONS[Role.ADMIN] };
+const moderator: AuthenticatedUser = { userId: 2, email: "mod@example.com", role: Role.MODERATOR, permissions: ROLE_PERMISSIONS[Role.MODERATOR] };
+const user: AuthenticatedUser = { userId: 3, email: "user@example.com", role: Role.USER, permissions: ROLE_PERMISSIONS[Role.USER] };
+// Custom role from the Role table; only the permissions in the token count
+const finance: AuthenticatedUser = {
+  userId: 4,
+  email: "finance@example.com",
+  role: "FINANCEIRO",
+  permissions: [Permission.READ_ORDERS, Permission.VIEW_ALL_RECORDS],
+};
+
+describe("applyUserFilter", () => {
+  it("leaves the filter untouched for ADMIN and MODERATOR", () => {
+    const where = { status: "PENDING" };
+    expect(applyUserFilter(admin, where)).toBe(where);
+    expect(applyUserFilter(moderator, where)).toBe(where);
+  });
+
+  it("restricts USER to created or assigned rows without dropping the search OR", () => {
+    const where = { OR: [{ titulo: { contains: "livro" } }] };
+    expect(applyUserFilter(user, where)).toEqual({
+      AND: [
+        where,
+        { OR: [{ createdByUserId: 3 }, { assignedToUserId: 3 }] },
+      ],
+    });
+  });
+
+  it("goes by the permissions of custom roles", () => {
+    const where = { status: "PENDING" };
+    expect(applyUserFilter(finance, where)).toBe(where);
+    expect(applyUserFilter({ ...finance, permissions: [Permission.READ_ORDERS] }, where)).toEqual({
+      AND: [where, { OR: [{ createdByUserId: 4 }, { assignedToUserId: 4 }] }],
+    });
+  });
+});
+
+describe("ownership views", () => {
+  it("parses only known views", () => {
+    expect(parseOwnershipView("mine")).toBe("mine");
+    expect(parseOwnershipView("assigned")).toBe("assigned");
+    expect(parseOwnershipView("all")).toBeNull();
+    expect(parseOwnershipView(null)).toBeNull();
+  });
+
+  it("narrows to created or assigned items", () => {
+    expect(applyOwnershipView(moderator, "mine", {})).toEqual({ AND: [{}, { createdByUserId: 2 }] });
+    expect(applyOwnershipView(moderator, "assigned", {})).toEqual({ AND: [{}, { assignedToUserId: 2 }] });
+    expect(applyOwnershipView(moderator, null, { id: 1 })).toEqual({ id: 1 });
+  });
+});
+
+describe("canAccessResource", () => {
+  it("checks ownership for USER only", () => {
+    expect(canAccessResource(admin, { createdByUserId: 99 })).toBe(true);
+    expect(canAccessResource(user, { createdByUserId: 3, assignedToUserId: null })).toBe(true);
+    expect(canAccessResource(user, { createdByUserId: 99, assignedToUserId: 3 })).toBe(true);
+    expect(canAccessResource(user, { createdByUserId: 99, assignedToUserId: null })).toBe(false);
+  });
+});
+
+describe("canAssignRole", () => {
+  const builtIn = (role: Role) => ({ level: ROLE_HIERARCHY[role], permissions: ROLE_PERMISSIONS[role] });
+
+  it("needs a higher level, except for ADMIN appointing peers", () => {
+    expect(canAssignRole(builtIn(Role.MODERATOR), builtIn(Role.USER))).toBe(true);
+    expect(canAssignRole(builtIn(Role.MODERATOR), builtIn(Role.MODERATOR))).toBe(false);
+    expect(canAssignRole(builtIn(Role.MODERATOR), builtIn(Role.ADMIN))).toBe(false);
+    expect(canAssignRole(builtIn(Role.ADMIN), builtIn(Role.ADMIN))).toBe(true);
+  });
+
+  it("refuses low-level custom roles with permissions the actor lacks", () => {
+    const roleManager = { level: 1, permissions: [Permission.READ_CLIENTS, Permission.MANAGE_ROLES] };
+    const production = { level: 1, permissions: [Permission.READ_ORDERS] };
+    expect(canAssignRole(builtIn(Role.MODERATOR), roleManager)).toBe(false);
+    expect(canAssignRole(builtIn(Role.MODERATOR), production)).toBe(true);
+    expect(canAssignRole(builtIn(Role.ADMIN), roleManager)).toBe(true);
+  });
+});
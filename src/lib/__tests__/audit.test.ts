@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyUpdateData,
+  buildAuditEntry,
+  diffRecords,
+  getAuditContext,
+  getAuditTransaction,
+  runAuditedTransaction,
+  runWithAuditContext,
+  type PendingAuditEntry,
+} from "../audit";
+
+describe("diffRecords", () => {
+  it("keeps only the fields that changed", () => {
+    const before = { id: 1, name: "Editora A", email: "a@example.com", updatedAt: new Date("2025-01-01") };
+    const after = { id: 1, name: "Editora B", email: "a@example.com", updatedAt: new Date("2025-02-01") };
+
+    expect(diffRecords("Client", before, after)).toEqual({
+      before: { name: "Editora A" },
+      after: { name: "Editora B" },
+    });
+  });
+
+  it("returns null when only bookkeeping fields changed", () => {
+    const before = { id: 2, failedLoginAttempts: 0, lockedUntil: null };
+    const after = { id: 2, failedLoginAttempts: 3, lockedUntil: new Date() };
+
+    expect(diffRecords("User", before, after)).toBeNull();
+  });
+
+  it("masks secrets but still shows that they changed", () => {
+    expect(diffRecords("User", { password: "old-hash" }, { password: "new-hash" })).toEqual({
+      before: { password: "[redacted]" },
+      after: { password: "[redacted]" },
+    });
+  });
+
+  it("serializes dates", () => {
+    const diff = diffRecords("Budget", { data_entrega: null }, { data_entrega: new Date("2025-03-10T00:00:00.000Z") });
+    expect(diff?.after).toEqual({ data_entrega: "2025-03-10T00:00:00.000Z" });
+  });
+});
+
+describe("buildAuditEntry", () => {
+  it("stores the whole record on create and delete", () => {
+    const user = { id: 7, email: "ana@example.com", password: "hash", totpSecret: null };
+
+    expect(buildAuditEntry("User", "CREATE", null, user)).toEqual({
+      entity: "User",
+      entityId: "7",
+      action: "CREATE",
+      before: null,
+      after: { id: 7, email: "ana@example.com", password: "[redacted]", totpSecret: null },
+    });
+    expect(buildAuditEntry("User", "DELETE", user, null)?.before).toMatchObject({ id: 7, password: "[redacted]" });
+  });
+
+  it("skips updates that changed nothing", () => {
+    expect(buildAuditEntry("Center", "UPDATE", { id: 1, name: "A" }, { id: 1, name: "A" })).toBeNull();
+  });
+});
+
+describe("applyUpdateData", () => {
+  it("applies plain values and atomic number operations", () => {
+    const before = { id: 1, status: "DRAFT", revision: 2, notes: "x" };
+    const data = { status: { set: "APPROVED" }, revision: { increment: 1 }, notes: null };
+
+    expect(applyUpdateData(before, data)).toEqual({ id: 1, status: "APPROVED", revision: 3, notes: null });
+  });
+});
+
+describe("audit context", () => {
+  it("is empty outside a request and visible inside one", async () => {
+    expect(getAuditContext().actorId).toBeNull();
+
+    const context = { actorId: 3, actorEmail: "admin@example.com", ipAddress: "10.0.0.1", requestId: "req-1" };
+    await runWithAuditContext(context, async () => {
+      await Promise.resolve();
+      expect(getAuditContext()).toEqual(context);
+    });
+  });
+});
+
+describe("audited transactions", () => {
+  // Stands in for the client: $transaction rejects when the callback throws
+  function fakeDatabase() {
+    const auditLog: PendingAuditEntry[] = [];
+    const begin = <T>(callback: (tx: { name: string }) => Promise<T>) => callback({ name: "tx" });
+    const flush = async (entries: PendingAuditEntry[]) => {
+      auditLog.push(...entries);
+    };
+    return { auditLog, begin, flush };
+  }
+
+  // What the Prisma extension does for a write inside the transaction
+  function queueWrite(entity: "Client" | "Budget", id: number) {
+    const entry = buildAuditEntry(entity, "CREATE", null, { id });
+    if (entry) getAuditTransaction()?.pending.push({ ...entry, ...getAuditContext() });
+  }
+
+  it("writes the entries of a committed transaction once it commits", async () => {
+    const db = fakeDatabase();
+    const context = { actorId: 3, actorEmail: "admin@example.com", ipAddress: null, requestId: "req-2" };
+
+    const result = await runWithAuditContext(context, () =>
+      runAuditedTransaction(db.begin, async (tx) => {
+        expect(getAuditTransaction()?.db).toBe(tx);
+        queueWrite("Client", 1);
+        queueWrite("Budget", 2);
+        expect(db.auditLog).toHaveLength(0);
+        return "done";
+      }, db.flush)
+    );
+
+    expect(result).toBe("done");
+    expect(db.auditLog.map((entry) => [entry.entity, entry.entityId, entry.actorId])).toEqual([
+      ["Client", "1", 3],
+      ["Budget", "2", 3],
+    ]);
+    expect(getAuditTransaction()).toBeUndefined();
+  });
+
+  it("leaves no entries when the transaction rolls back", async () => {
+    const db = fakeDatabase();
+
+    await expect(
+      runAuditedTransaction(db.begin, async () => {
+        queueWrite("Client", 1);
+        throw new Error("Cliente não encontrado");
+      }, db.flush)
+    ).rejects.toThrow("Cliente não encontrado");
+
+    expect(db.auditLog).toHaveLength(0);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { buildBudgetSnapshot, diffBudgetSnapshots } from "../budget-revisions";
+import type { Budget } from "@/generated/prisma";
+
+const budget = {
+  id: 1,
+  clientId: 1,
+  centerId: 2,
+  status: "DRAFT",
+  titulo: "Livro",
+  tiragem: 500,
+  formato: "A4",
+  total_pgs: 100,
+  pgs_colors: 0,
+  preco_unitario: 10,
+  preco_total: 5000,
+  data_pedido: new Date("2025-01-10T00:00:00.000Z"),
+  data_entrega: null,
+} as unknown as Budget;
+
+describe("budget revisions", () => {
+  it("snapshots dates as ISO strings and missing values as null", () => {
+    const snapshot = buildBudgetSnapshot(budget);
+    expect(snapshot.data_pedido).toBe("2025-01-10T00:00:00.000Z");
+    expect(snapshot.data_entrega).toBeNull();
+    expect(snapshot.papel_miolo).toBeNull();
+    expect(snapshot).not.toHaveProperty("status");
+  });
+
+  it("lists only changed fields", () => {
+    const before = buildBudgetSnapshot(budget);
+    const after = buildBudgetSnapshot({ ...budget, tiragem: 1000, preco_total: 10000 } as Budget);
+    expect(diffBudgetSnapshots(before, after).map((change) => change.field)).toEqual([
+      "tiragem",
+      "preco_total",
+    ]);
+  });
+});
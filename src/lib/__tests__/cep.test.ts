@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { billingAddressLine, formatAddress, formatCep, normalizeCep } from "../address";
+import { OfflineCepProvider, parseCepCsv, ufFromCep } from "../cep/offline";
+import { CepLookupError, type CepAddress, type CepLookupProvider } from "../cep/provider";
+import { lookupCep, setCepProvider } from "../cep-lookup";
+
+const PAULISTA: CepAddress = {
+  cep: "01310100",
+  logradouro: "Avenida Paulista",
+  bairro: "Bela Vista",
+  cidade: "São Paulo",
+  uf: "SP",
+};
+
+class FixedProvider implements CepLookupProvider {
+  calls = 0;
+  constructor(private result: CepAddress | null | Error) {}
+
+  async lookup(): Promise<CepAddress | null> {
+    this.calls++;
+    if (this.result instanceof Error) throw this.result;
+    return this.result;
+  }
+}
+
+describe("CEP formatting", () => {
+  it("normalizes and masks CEPs", () => {
+    expect(normalizeCep("01310-100")).toBe("01310100");
+    expect(normalizeCep("1310-100")).toBeNull();
+    expect(formatCep("01310100")).toBe("01310-100");
+    expect(formatCep("0131")).toBe("0131");
+  });
+
+  it("formats an address on one line", () => {
+    const address = { cep: "01310100", logradouro: "Av. Paulista", numero: "1000", complemento: "Conj. 12", bairro: "Bela Vista", cidade: "São Paulo", uf: "SP" };
+    expect(formatAddress(address)).toBe("Av. Paulista, 1000, Conj. 12 - Bela Vista, São Paulo/SP - CEP 01310-100");
+  });
+
+  it("uses the billing address for Client.address", () => {
+    const delivery = { type: "DELIVERY" as const, cep: "80010000", logradouro: "Rua XV", numero: "10", bairro: "Centro", cidade: "Curitiba", uf: "PR" };
+    const billing = { ...delivery, type: "BILLING" as const, logradouro: "Rua Marechal", numero: "5" };
+    expect(billingAddressLine([delivery, billing])).toBe("Rua Marechal, 5 - Centro, Curitiba/PR - CEP 80010-000");
+  });
+});
+
+describe("offline CEP dataset", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it("parses the CSV, skipping comments and malformed lines", () => {
+    const entries = parseCepCsv(
+      ["cep,logradouro,bairro,cidade,uf", "# comment", "01310-100,Avenida Paulista,Bela Vista,São Paulo,SP", "123,Rua,Bairro,Cidade,SP", "89010001,,,Blumenau,SC"].join("\n")
+    );
+    expect([...entries.keys()]).toEqual(["01310100", "89010001"]);
+    expect(entries.get("89010001")).toEqual({ cep: "89010001", logradouro: null, bairro: null, cidade: "Blumenau", uf: "SC" });
+  });
+
+  it("knows the state of every CEP range", () => {
+    expect(ufFromCep("01310100")).toBe("SP");
+    expect(ufFromCep("69301000")).toBe("RR");
+    expect(ufFromCep("73010000")).toBe("DF");
+    expect(ufFromCep("90010000")).toBe("RS");
+    expect(ufFromCep("00000000")).toBeNull();
+  });
+
+  it("answers from the file first and from the state ranges otherwise", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "cep-"));
+    const file = path.join(dir, "cep.csv");
+    await writeFile(file, "01310100,Avenida Paulista,Bela Vista,São Paulo,SP\n", "utf8");
+    const provider = new OfflineCepProvider(file);
+
+    expect(await provider.lookup("01310100")).toEqual(PAULISTA);
+    expect(await provider.lookup("80010000")).toEqual({ cep: "80010000", logradouro: null, bairro: null, cidade: null, uf: "PR" });
+  });
+
+  it("works without the file", async () => {
+    const provider = new OfflineCepProvider(path.join(os.tmpdir(), "missing-cep-dataset.csv"));
+    expect((await provider.lookup("30140071"))?.uf).toBe("MG");
+  });
+});
+
+describe("lookupCep", () => {
+  it("returns what the provider found", async () => {
+    const fallback = new FixedProvider(null);
+    setCepProvider(new FixedProvider(PAULISTA), fallback);
+
+    expect(await lookupCep("01310-100")).toEqual(PAULISTA);
+    expect(fallback.calls).toBe(0);
+  });
+
+  it("does not fall back for an unknown CEP", async () => {
+    const fallback = new FixedProvider(PAULISTA);
+    setCepProvider(new FixedProvider(null), fallback);
+
+    expect(await lookupCep("01310-100")).toBeNull();
+    expect(fallback.calls).toBe(0);
+  });
+
+  it("falls back to the offline dataset when the provider fails", async () => {
+    setCepProvider(new FixedProvider(new CepLookupError("timeout")), new FixedProvider(PAULISTA));
+    expect(await lookupCep("01310100")).toEqual(PAULISTA);
+  });
+
+  it("ignores malformed CEPs", async () => {
+    const provider = new FixedProvider(PAULISTA);
+    setCepProvider(provider);
+
+    expect(await lookupCep("0131")).toBeNull();
+    expect(provider.calls).toBe(0);
+  });
+});
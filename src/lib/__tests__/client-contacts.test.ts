@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { requesterName, toContactRows } from "../client-contacts";
+
+describe("client contacts", () => {
+  it("stores trimmed fields and empty ones as null", () => {
+    expect(toContactRows([{ id: 3, name: " Ana Souza ", role: "", email: " ana@example.com ", phone: null, isPrimary: true }]))
+      .toEqual([{ name: "Ana Souza", role: null, email: "ana@example.com", phone: null, isPrimary: true }]);
+  });
+
+  it("keeps a single primary contact", () => {
+    const primaries = (contacts: Parameters<typeof toContactRows>[0]) =>
+      toContactRows(contacts).map((row) => row.isPrimary);
+
+    expect(primaries([{ name: "Ana" }, { name: "Bruno", isPrimary: true }])).toEqual([false, true]);
+    // Without one the first contact is primary
+    expect(primaries([{ name: "Ana" }, { name: "Bruno" }])).toEqual([true, false]);
+    expect(primaries([])).toEqual([]);
+  });
+
+  it("falls back to solicitante for budgets without a contact", () => {
+    expect(requesterName({ solicitante: "Carlos", contact: { name: "Ana" } })).toBe("Ana");
+    expect(requesterName({ solicitante: "Carlos", contact: null })).toBe("Carlos");
+    expect(requesterName({ solicitante: "  " })).toBeNull();
+  });
+});
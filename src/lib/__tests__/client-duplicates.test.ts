@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { findDuplicateClients, nameSimilarity, normalizeClientName } from "../client-duplicates";
+
+const client = (id: number, name: string, cnpjCpf: string, email: string) => ({ id, name, cnpjCpf, email });
+
+describe("duplicate clients", () => {
+  it("normalizes names without accents, punctuation or legal suffixes", () => {
+    expect(normalizeClientName("Editora Ática Ltda.")).toBe("editora atica");
+    expect(normalizeClientName("EDITORA ATICA S/A")).toBe("editora atica");
+    expect(normalizeClientName("Gráfica São João ME EPP")).toBe("grafica sao joao");
+    // A name made only of a suffix is kept
+    expect(normalizeClientName("Ltda")).toBe("ltda");
+  });
+
+  it("scores name similarity", () => {
+    expect(nameSimilarity("Editora Ática Ltda", "EDITORA ATICA")).toBe(1);
+    expect(nameSimilarity("Editora Atica", "Editora Aticca")).toBeGreaterThan(0.85);
+    expect(nameSimilarity("Editora Atica", "Livraria Cultura")).toBeLessThan(0.5);
+    expect(nameSimilarity("", "Livraria Cultura")).toBe(0);
+  });
+
+  it("pairs clients by document, email and name, strongest first", () => {
+    const pairs = findDuplicateClients([
+      client(1, "Editora Ática Ltda", "04.252.011/0001-10", "contato@atica.com.br"),
+      client(2, "Livraria Cultura", "529.982.247-25", "compras@cultura.com.br"),
+      client(3, "Editora Atica", "04252011000110", "financeiro@atica.com.br"),
+      client(4, "Cultura Livros", "111.444.777-35", " Compras@Cultura.com.br "),
+      client(5, "Papelaria Central", "", ""),
+    ]);
+
+    expect(pairs.map((pair) => [pair.clients.map((c) => c.id), pair.reasons])).toEqual([
+      [[1, 3], ["document", "name"]],
+      [[2, 4], ["email"]],
+    ]);
+    expect(pairs[0].nameSimilarity).toBe(1);
+  });
+
+  it("does not pair clients on empty documents or emails", () => {
+    expect(findDuplicateClients([
+      client(1, "Papelaria Central", "", ""),
+      client(2, "Livraria Cultura", "", ""),
+    ])).toEqual([]);
+  });
+});
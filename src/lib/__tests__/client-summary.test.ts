@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { summarizeClient, type ClientSummaryBudget } from "../client-summary";
+
+const budget = (id: number, status: ClientSummaryBudget["status"], extra: Partial<ClientSummaryBudget> = {}): ClientSummaryBudget => ({
+  id,
+  numero_pedido: `000${id}/202503`,
+  titulo: `Livro ${id}`,
+  status,
+  data_pedido: "2025-03-01",
+  tiragem: 1000,
+  preco_total: 5000,
+  order: null,
+  ...extra,
+});
+
+const order = (id: number, status: NonNullable<ClientSummaryBudget["order"]>["status"], data_pedido: string, delivered = 0) => ({
+  id,
+  numero_pedido: `ORD-000${id}/202503`,
+  status,
+  data_pedido,
+  deliveries: delivered ? [{ quantity: delivered, deliveredAt: data_pedido, freightCost: null }] : [],
+});
+
+const budgets = [
+  budget(1, "CONVERTED", { order: order(1, "DELIVERED", "2025-03-02", 1000) }),
+  budget(2, "CONVERTED", { preco_total: 3000, order: order(2, "IN_PRODUCTION", "2025-03-10", 400) }),
+  budget(3, "CONVERTED", { order: order(3, "CANCELLED", "2025-03-20") }),
+  budget(4, "REJECTED"),
+  budget(5, "DRAFT"),
+];
+
+describe("client summary", () => {
+  it("counts budgets and orders by status", () => {
+    const summary = summarizeClient(budgets, { financials: true });
+
+    expect(summary.budgetCount).toBe(5);
+    expect(summary.budgetsByStatus).toMatchObject({ CONVERTED: 3, REJECTED: 1, DRAFT: 1, APPROVED: 0 });
+    expect(summary.orderCount).toBe(3);
+    expect(summary.ordersByStatus).toMatchObject({ DELIVERED: 1, IN_PRODUCTION: 1, CANCELLED: 1, PENDING: 0 });
+    expect(summary.lastOrderAt).toEqual(new Date("2025-03-20"));
+  });
+
+  it("rates approvals over the decided budgets", () => {
+    expect(summarizeClient(budgets, { financials: true }).approvalRate).toBe(0.75);
+    expect(summarizeClient([budget(1, "DRAFT"), budget(2, "SUBMITTED")], { financials: true }).approvalRate).toBeNull();
+  });
+
+  it("leaves cancelled orders out of the revenue", () => {
+    const summary = summarizeClient(budgets, { financials: true });
+
+    expect(summary.lifetimeRevenue).toBe(8000);
+    expect(summary.averageTicket).toBe(4000);
+  });
+
+  it("lists open orders with quantities still to deliver", () => {
+    expect(summarizeClient(budgets, { financials: true }).outstandingDeliveries).toEqual([
+      { orderId: 2, numero_pedido: "ORD-0002/202503", status: "IN_PRODUCTION", tiragem: 1000, deliveredQuantity: 400, remainingQuantity: 600 },
+    ]);
+  });
+
+  it("has no totals for roles without prices", () => {
+    const summary = summarizeClient(budgets.map((row) => ({ ...row, preco_total: undefined })), { financials: false });
+
+    expect(summary.lifetimeRevenue).toBeNull();
+    expect(summary.averageTicket).toBeNull();
+    expect(summary.orderCount).toBe(3);
+  });
+});
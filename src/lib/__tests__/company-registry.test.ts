@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { FixtureCompanyRegistryProvider } from "../company-registry/fixture";
+import { HttpCompanyRegistryProvider, parseRegistryResponse, type RegistryResponse } from "../company-registry/http";
+import { CompanyRegistryError, type CompanyRecord, type CompanyRegistryProvider } from "../company-registry/provider";
+import { lookupCompany, lookupRegistrationStatus, setCompanyRegistryProvider } from "../company-registry";
+
+const ACTIVE: RegistryResponse = {
+  cnpj: "11222333000181",
+  razao_social: "GRAFICA EXEMPLO LTDA",
+  nome_fantasia: "GRAFICA EXEMPLO",
+  descricao_situacao_cadastral: "ATIVA",
+  descricao_tipo_de_logradouro: "AVENIDA",
+  logradouro: "PAULISTA",
+  numero: "1000",
+  complemento: "CONJ 12",
+  bairro: "BELA VISTA",
+  municipio: "SAO PAULO",
+  uf: "sp",
+  cep: "01310100",
+  ddd_telefone_1: "1132345678",
+  email: "CONTATO@EXEMPLO.COM.BR",
+};
+
+const CLOSED: RegistryResponse = {
+  cnpj: "19.131.243/0001-97",
+  razao_social: "EDITORA ANTIGA ME",
+  nome_fantasia: "",
+  descricao_situacao_cadastral: "Baixada",
+  cep: 1310100,
+};
+
+class FixedProvider implements CompanyRegistryProvider {
+  calls: string[] = [];
+  constructor(private result: CompanyRecord | null | Error) {}
+
+  async lookup(cnpj: string): Promise<CompanyRecord | null> {
+    this.calls.push(cnpj);
+    if (this.result instanceof Error) throw this.result;
+    return this.result;
+  }
+}
+
+describe("registry answers", () => {
+  it("maps names, status, address and contact details", () => {
+    expect(parseRegistryResponse(ACTIVE)).toEqual({
+      cnpj: "11222333000181",
+      razaoSocial: "GRAFICA EXEMPLO LTDA",
+      nomeFantasia: "GRAFICA EXEMPLO",
+      registrationStatus: "ATIVA",
+      active: true,
+      address: {
+        cep: "01310100",
+        logradouro: "Avenida Paulista",
+        numero: "1000",
+        complemento: "Conj 12",
+        bairro: "Bela Vista",
+        cidade: "Sao Paulo",
+        uf: "SP",
+      },
+      email: "contato@exemplo.com.br",
+      phone: "1132345678",
+    });
+  });
+
+  it("flags companies that are not active and tolerates missing fields", () => {
+    const record = parseRegistryResponse(CLOSED);
+    expect(record).toMatchObject({
+      cnpj: "19131243000197",
+      nomeFantasia: null,
+      registrationStatus: "BAIXADA",
+      active: false,
+      email: null,
+      phone: null,
+    });
+    // Numeric CEPs lose their leading zero
+    expect(record?.address.cep).toBe("01310100");
+    expect(record?.address.logradouro).toBeNull();
+  });
+
+  it("ignores answers without a company name", () => {
+    expect(parseRegistryResponse({ cnpj: "11222333000181" })).toBeNull();
+  });
+});
+
+describe("http provider", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("reports a non-JSON answer as a registry failure", async () => {
+    vi.stubGlobal("fetch", async () => new Response("<html>Bad gateway</html>", { status: 200 }));
+    await expect(new HttpCompanyRegistryProvider("http://registry.test").lookup("11222333000181"))
+      .rejects.toBeInstanceOf(CompanyRegistryError);
+  });
+});
+
+describe("fixture provider", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it("answers from the given fixtures", async () => {
+    const provider = new FixtureCompanyRegistryProvider([ACTIVE, CLOSED]);
+    expect((await provider.lookup("19131243000197"))?.razaoSocial).toBe("EDITORA ANTIGA ME");
+    expect(await provider.lookup("45723174000110")).toBeNull();
+  });
+
+  it("reads a fixture file and treats a missing one as empty", async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "company-registry-"));
+    const file = path.join(dir, "company-registry.json");
+    await writeFile(file, JSON.stringify([ACTIVE]));
+
+    expect((await new FixtureCompanyRegistryProvider(file).lookup("11222333000181"))?.nomeFantasia).toBe("GRAFICA EXEMPLO");
+    expect(await new FixtureCompanyRegistryProvider(path.join(dir, "missing.json")).lookup("11222333000181")).toBeNull();
+  });
+});
+
+describe("company lookup", () => {
+  afterEach(() => setCompanyRegistryProvider(new FixtureCompanyRegistryProvider([])));
+
+  it("looks valid CNPJs up by their digits", async () => {
+    const record = parseRegistryResponse(ACTIVE);
+    const provider = new FixedProvider(record);
+    setCompanyRegistryProvider(provider);
+
+    expect(await lookupCompany("11.222.333/0001-81")).toEqual(record);
+    expect(provider.calls).toEqual(["11222333000181"]);
+  });
+
+  it("does not query the registry for invalid CNPJs or CPFs", async () => {
+    const provider = new FixedProvider(null);
+    setCompanyRegistryProvider(provider);
+
+    expect(await lookupCompany("11.222.333/0001-82")).toBeNull();
+    expect(await lookupCompany("529.982.247-25")).toBeNull();
+    expect(provider.calls).toEqual([]);
+  });
+
+  it("passes registry failures on", async () => {
+    setCompanyRegistryProvider(new FixedProvider(new CompanyRegistryError("Registry answered 503")));
+    await expect(lookupCompany("11222333000181")).rejects.toBeInstanceOf(CompanyRegistryError);
+  });
+
+  it("reads the situação cadastral stored with clients from the registry", async () => {
+    setCompanyRegistryProvider(new FixedProvider(parseRegistryResponse(CLOSED)));
+    expect(await lookupRegistrationStatus("19.131.243/0001-97")).toBe("BAIXADA");
+    expect(await lookupRegistrationStatus("529.982.247-25")).toBeNull();
+
+    setCompanyRegistryProvider(new FixedProvider(new CompanyRegistryError("Registry answered 503")));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await lookupRegistrationStatus("11222333000181")).toBeNull();
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+
+// unified-auth.ts validates the secrets when it is imported
+vi.hoisted(() => {
+  process.env.JWT_SECRET ??= "test-secret-with-at-least-32-characters";
+  process.env.JWT_REFRESH_SECRET ??= "test-refresh-secret-with-at-least-32-characters";
+});
+
+import fs from "fs";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  CSRF_COOKIE_NAME,
+  csrfTokensMatch,
+  generateCsrfToken,
+  readCsrfCookie,
+  requiresCsrfCheck,
+} from "../csrf";
+import { clearAuthCookies, setAuthCookies } from "../auth-cookies";
+
+describe("CSRF tokens", () => {
+  it("generates random 256-bit hex tokens", () => {
+    const token = generateCsrfToken();
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateCsrfToken()).not.toBe(token);
+  });
+
+  it("checks state-changing methods except on pre-session auth endpoints", () => {
+    expect(requiresCsrfCheck("GET", "/api/budgets")).toBe(false);
+    expect(requiresCsrfCheck("head", "/api/budgets")).toBe(false);
+    expect(requiresCsrfCheck("POST", "/api/budgets")).toBe(true);
+    expect(requiresCsrfCheck("PATCH", "/api/orders/1/status")).toBe(true);
+    expect(requiresCsrfCheck("DELETE", "/api/users/3")).toBe(true);
+    expect(requiresCsrfCheck("POST", "/api/auth/logout")).toBe(true);
+    expect(requiresCsrfCheck("POST", "/api/auth/login")).toBe(false);
+  });
+
+  it("only accepts identical, non-empty values", () => {
+    expect(csrfTokensMatch("abc123", "abc123")).toBe(true);
+    expect(csrfTokensMatch("abc123", "abc124")).toBe(false);
+    expect(csrfTokensMatch("abc123", "abc12")).toBe(false);
+    expect(csrfTokensMatch(undefined, undefined)).toBe(false);
+    expect(csrfTokensMatch("", "")).toBe(false);
+  });
+
+  it("reads the token from a cookie string", () => {
+    expect(readCsrfCookie(`sidebar_state=true; ${CSRF_COOKIE_NAME}=abc%3D; other=1`)).toBe("abc=");
+    expect(readCsrfCookie("sidebar_state=true")).toBeNull();
+  });
+});
+
+describe("auth cookies", () => {
+  const request = new NextRequest("http://localhost/api/auth/login", { method: "POST" });
+
+  it("keeps both tokens out of reach of page scripts", () => {
+    const response = NextResponse.json({});
+    setAuthCookies(request, response, { accessToken: "access", refreshToken: "refresh" });
+
+    expect(response.cookies.get("accessToken")).toMatchObject({ value: "access", httpOnly: true, path: "/", sameSite: "strict" });
+    expect(response.cookies.get("refreshToken")).toMatchObject({ value: "refresh", httpOnly: true, path: "/api/auth" });
+    expect(response.cookies.get(CSRF_COOKIE_NAME)?.httpOnly).toBe(false);
+    expect(response.cookies.get(CSRF_COOKIE_NAME)?.value).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("keeps the CSRF token the browser already has", () => {
+    const withToken = new NextRequest("http://localhost/api/auth/refresh", {
+      method: "POST",
+      headers: { cookie: `${CSRF_COOKIE_NAME}=existing` },
+    });
+    const response = NextResponse.json({});
+    setAuthCookies(withToken, response, { accessToken: "a", refreshToken: "r" });
+
+    expect(response.cookies.get(CSRF_COOKIE_NAME)?.value).toBe("existing");
+  });
+
+  it("expires every cookie on logout", () => {
+    const response = NextResponse.json({});
+    clearAuthCookies(response);
+
+    for (const name of ["accessToken", "refreshToken", CSRF_COOKIE_NAME]) {
+      expect(response.cookies.get(name)).toMatchObject({ value: "", maxAge: 0 });
+    }
+  });
+});
+
+describe("middleware matcher", () => {
+  // middleware.ts imports through the @ alias, so its static config is read as text
+  const source = fs.readFileSync(path.resolve(__dirname, "../../../middleware.ts"), "utf8");
+  const matcher = [...source.slice(source.indexOf("matcher:")).matchAll(/'([^']+)'/g)].map((match) => match[1]);
+  const matches = (pathname: string) =>
+    matcher.some((pattern) =>
+      pattern.endsWith("/:path*")
+        ? pathname === pattern.slice(0, -"/:path*".length) || pathname.startsWith(pattern.slice(0, -":path*".length))
+        : pathname === pattern
+    );
+
+  it("runs the CSRF check on every API route directory", () => {
+    const apiDir = path.resolve(__dirname, "../../app/api");
+    const routes = fs.readdirSync(apiDir, { withFileTypes: true }).filter((entry) => entry.isDirectory());
+    expect(routes.length).toBeGreaterThan(0);
+    for (const route of routes) {
+      expect(matches(`/api/${route.name}/x`), `/api/${route.name}`).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { findLocation, formatLocation, ipv4ToNumber, isPrivateAddress, parseGeoIpCsv } from "../geoip";
+
+const CSV = `network,country,region,city
+# comment
+177.32.0.0/14,BR,SP,São Paulo
+200.147.0.0/16,BR,RJ,Rio de Janeiro
+not-an-ip/8,BR,MG,Belo Horizonte
+8.8.8.0/24,US,,
+`;
+
+describe("geoip", () => {
+  it("parses IPv4 and IPv4-mapped addresses", () => {
+    expect(ipv4ToNumber("1.2.3.4")).toBe(16909060);
+    expect(ipv4ToNumber("::ffff:1.2.3.4")).toBe(16909060);
+    expect(ipv4ToNumber("256.0.0.1")).toBeNull();
+    expect(ipv4ToNumber("2001:db8::1")).toBeNull();
+  });
+
+  it("finds the range containing an address and skips malformed lines", () => {
+    const ranges = parseGeoIpCsv(CSV);
+    expect(ranges).toHaveLength(3);
+
+    expect(findLocation(ranges, "177.35.255.255")).toEqual({ country: "BR", region: "SP", city: "São Paulo" });
+    expect(findLocation(ranges, "177.36.0.0")).toBeNull();
+    expect(formatLocation(findLocation(ranges, "200.147.10.1")!)).toBe("Rio de Janeiro, RJ, BR");
+    expect(formatLocation(findLocation(ranges, "8.8.8.8")!)).toBe("US");
+  });
+
+  it("recognizes private and loopback addresses", () => {
+    expect(isPrivateAddress("192.168.0.10")).toBe(true);
+    expect(isPrivateAddress("172.31.255.1")).toBe(true);
+    expect(isPrivateAddress("::1")).toBe(true);
+    expect(isPrivateAddress("172.32.0.1")).toBe(false);
+  });
+});
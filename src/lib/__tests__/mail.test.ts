@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { buildMimeMessage, encodeHeader, extractAddress } from "../mail/transport";
+import { dotStuff } from "../mail/smtp";
+import { FileTransport } from "../mail/file";
+import { emailVerificationEmail, passwordResetEmail } from "../mail/templates";
+import { USER_TOKEN_TTL_MS, hashUserToken } from "../user-tokens";
+
+const FROM = "Alphabook <no-reply@alphabook.test>";
+const date = new Date("2025-06-01T12:00:00Z");
+
+function decodeBase64Body(message: string): string {
+  const body = message.split("\r\n\r\n")[1];
+  return Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8");
+}
+
+describe("encodeHeader", () => {
+  it("keeps plain ASCII as is", () => {
+    expect(encodeHeader("Password reset")).toBe("Password reset");
+  });
+
+  it("encodes non-ASCII values as an RFC 2047 word", () => {
+    const encoded = encodeHeader("Redefinição de senha");
+    expect(encoded).toMatch(/^=\?UTF-8\?B\?.+\?=$/);
+    expect(Buffer.from(encoded.slice(10, -2), "base64").toString("utf8")).toBe("Redefinição de senha");
+  });
+});
+
+describe("buildMimeMessage", () => {
+  it("builds a single text part with CRLF line endings", () => {
+    const message = buildMimeMessage({ to: "ana@example.com", subject: "Olá", text: "Corpo ç" }, FROM, date);
+
+    expect(message).toContain("From: Alphabook <no-reply@alphabook.test>\r\n");
+    expect(message).toContain("To: ana@example.com\r\n");
+    expect(message).toContain(`Date: ${date.toUTCString()}\r\n`);
+    expect(message).toMatch(/Message-ID: <[0-9a-f]+@alphabook\.test>/);
+    expect(message).toContain("Content-Type: text/plain; charset=UTF-8");
+    expect(message).not.toContain("multipart");
+    expect(message.replace(/\r\n/g, "")).not.toContain("\n");
+    expect(decodeBase64Body(message)).toBe("Corpo ç");
+  });
+
+  it("wraps base64 bodies at 76 characters", () => {
+    const message = buildMimeMessage({ to: "ana@example.com", subject: "x", text: "a".repeat(500) }, FROM, date);
+    const body = message.split("\r\n\r\n")[1].trim().split("\r\n");
+    expect(body.length).toBeGreaterThan(1);
+    expect(body.every((line) => line.length <= 76)).toBe(true);
+  });
+
+  it("builds multipart/alternative when html is given", () => {
+    const message = buildMimeMessage(
+      { to: "ana@example.com", subject: "x", text: "texto", html: "<p>html</p>" },
+      FROM,
+      date
+    );
+    const boundary = message.match(/boundary="([^"]+)"/)?.[1];
+
+    expect(boundary).toBeDefined();
+    expect(message).toContain(`--${boundary}\r\nContent-Type: text/plain`);
+    expect(message).toContain(`--${boundary}\r\nContent-Type: text/html`);
+    expect(message).toContain(`--${boundary}--`);
+  });
+});
+
+describe("dotStuff", () => {
+  it("doubles dots that start a line", () => {
+    expect(dotStuff(".first\r\nmiddle.\r\n.last")).toBe("..first\r\nmiddle.\r\n..last");
+  });
+});
+
+describe("extractAddress", () => {
+  it("takes the address out of a display name", () => {
+    expect(extractAddress(FROM)).toBe("no-reply@alphabook.test");
+    expect(extractAddress(" ana@example.com ")).toBe("ana@example.com");
+  });
+});
+
+describe("FileTransport", () => {
+  it("writes each message to an .eml file", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "alphabook-mail-"));
+    try {
+      const file = await new FileTransport(directory, FROM).send({
+        to: "ana@example.com",
+        subject: "Teste",
+        text: "Olá",
+      });
+
+      expect(path.dirname(file)).toBe(directory);
+      expect(file.endsWith(".eml")).toBe(true);
+      const content = await readFile(file, "utf8");
+      expect(content).toContain("To: ana@example.com");
+      expect(decodeBase64Body(content)).toBe("Olá");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("templates", () => {
+  const url = "https://alphabook.test/reset-password?token=abc&x=1";
+
+  it("puts the link in both bodies of the password reset e-mail", () => {
+    const message = passwordResetEmail("ana@example.com", "Ana", url);
+    expect(message.to).toBe("ana@example.com");
+    expect(message.text).toContain(url);
+    expect(message.html).toContain('href="https://alphabook.test/reset-password?token=abc&amp;x=1"');
+  });
+
+  it("escapes the user name in the verification e-mail", () => {
+    const message = emailVerificationEmail("ana@example.com", "<Ana>", url);
+    expect(message.html).toContain("&lt;Ana&gt;");
+    expect(message.html).not.toContain("<Ana>");
+  });
+});
+
+describe("user tokens", () => {
+  it("expires password reset links sooner than verification links", () => {
+    expect(USER_TOKEN_TTL_MS.PASSWORD_RESET).toBeLessThan(USER_TOKEN_TTL_MS.EMAIL_VERIFICATION);
+  });
+
+  it("stores a deterministic SHA-256 hash of the token", () => {
+    expect(hashUserToken("abc")).toBe(hashUserToken("abc"));
+    expect(hashUserToken("abc")).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashUserToken("abc")).not.toBe(hashUserToken("abd"));
+  });
+});
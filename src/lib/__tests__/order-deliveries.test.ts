@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { nextOrderFreight, summarizeDeliveries } from "../order-deliveries";
+
+describe("order deliveries", () => {
+  it("computes the remaining balance of partial deliveries", () => {
+    const summary = summarizeDeliveries(1000, [
+      { quantity: 400, deliveredAt: "2025-03-01", freightCost: 120 },
+      { quantity: 250, deliveredAt: "2025-03-05", freightCost: null },
+    ]);
+
+    expect(summary.deliveredQuantity).toBe(650);
+    expect(summary.remainingQuantity).toBe(350);
+    expect(summary.freightTotal).toBe(120);
+    expect(summary.complete).toBe(false);
+  });
+
+  it("is complete once the deliveries reach the tiragem", () => {
+    const summary = summarizeDeliveries(500, [
+      { quantity: 300, deliveredAt: "2025-03-10", freightCost: 80.1 },
+      { quantity: 200, deliveredAt: "2025-03-02", freightCost: 40.2 },
+    ]);
+
+    expect(summary.complete).toBe(true);
+    expect(summary.remainingQuantity).toBe(0);
+    expect(summary.freightTotal).toBe(120.3);
+    expect(summary.lastDeliveredAt).toEqual(new Date("2025-03-10"));
+  });
+
+  it("has no freight total or date without deliveries", () => {
+    const summary = summarizeDeliveries(100, []);
+
+    expect(summary.freightTotal).toBeNull();
+    expect(summary.lastDeliveredAt).toBeNull();
+    expect(summary.complete).toBe(false);
+  });
+
+  it("keeps freight entered manually on the order", () => {
+    const none = summarizeDeliveries(1000, []);
+    const first = summarizeDeliveries(1000, [
+      { quantity: 400, deliveredAt: "2025-03-01", freightCost: 120 },
+    ]);
+    const both = summarizeDeliveries(1000, [
+      { quantity: 400, deliveredAt: "2025-03-01", freightCost: 120 },
+      { quantity: 250, deliveredAt: "2025-03-05", freightCost: 60 },
+    ]);
+
+    // Derived from the deliveries: follows them, back to null with the last one
+    expect(nextOrderFreight(null, none, first)).toBe(120);
+    expect(nextOrderFreight(120, first, both)).toBe(180);
+    expect(nextOrderFreight(120, first, none)).toBeNull();
+
+    // Entered on the order: left alone when deliveries come and go
+    expect(nextOrderFreight(300, none, first)).toBeUndefined();
+    expect(nextOrderFreight(300, first, none)).toBeUndefined();
+  });
+});
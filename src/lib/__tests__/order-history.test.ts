@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { computeStatusDurations, formatDuration } from "../order-history";
+
+const HOUR = 3_600_000;
+
+describe("order status durations", () => {
+  it("splits time between transitions", () => {
+    const start = new Date("2025-01-01T00:00:00.000Z");
+    const durations = computeStatusDurations(
+      start,
+      "DELIVERED",
+      [
+        { fromStatus: "PENDING", toStatus: "IN_PRODUCTION", createdAt: new Date(start.getTime() + 2 * HOUR) },
+        { fromStatus: "IN_PRODUCTION", toStatus: "ON_HOLD", createdAt: new Date(start.getTime() + 5 * HOUR) },
+        { fromStatus: "ON_HOLD", toStatus: "IN_PRODUCTION", createdAt: new Date(start.getTime() + 6 * HOUR) },
+        { fromStatus: "IN_PRODUCTION", toStatus: "COMPLETED", createdAt: new Date(start.getTime() + 10 * HOUR) },
+        { fromStatus: "COMPLETED", toStatus: "DELIVERED", createdAt: new Date(start.getTime() + 34 * HOUR) },
+      ],
+      new Date(start.getTime() + 100 * HOUR)
+    );
+
+    expect(durations).toEqual({
+      PENDING: 2 * HOUR,
+      IN_PRODUCTION: 7 * HOUR,
+      ON_HOLD: HOUR,
+      COMPLETED: 24 * HOUR,
+    });
+  });
+
+  it("keeps counting the current non-final status", () => {
+    const start = new Date("2025-01-01T00:00:00.000Z");
+    const durations = computeStatusDurations(start, "PENDING", [], new Date(start.getTime() + 3 * HOUR));
+    expect(durations).toEqual({ PENDING: 3 * HOUR });
+  });
+
+  it("formats durations", () => {
+    expect(formatDuration(HOUR / 2)).toBe("< 1h");
+    expect(formatDuration(5 * HOUR)).toBe("5h");
+    expect(formatDuration(26 * HOUR)).toBe("1d 2h");
+    expect(formatDuration(48 * HOUR)).toBe("2d");
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { formatSequenceNumber, resolveSequencePeriod, SEQUENCE_DEFAULTS } from "../order-number";
+import { NumberSequenceSchema } from "../validation";
+
+const date = new Date(2025, 2, 15);
+
+describe("number sequences", () => {
+  it("resolves the reset period", () => {
+    expect(resolveSequencePeriod("MONTHLY", date)).toBe("202503");
+    expect(resolveSequencePeriod("YEARLY", date)).toBe("2025");
+    expect(resolveSequencePeriod("NEVER", date)).toBe("");
+  });
+
+  it("keeps the historical default formats", () => {
+    expect(formatSequenceNumber(SEQUENCE_DEFAULTS.ORDER, 7, date)).toBe("ORD-0007/202503");
+    expect(formatSequenceNumber(SEQUENCE_DEFAULTS.BUDGET, 12, date)).toBe("0012/202503");
+  });
+
+  it("does not truncate numbers past the padding", () => {
+    expect(formatSequenceNumber({ prefix: "OP", format: "{PREFIX}-{YY}{MM}-{SEQ}", padding: 3 }, 12345, date))
+      .toBe("OP-2503-12345");
+  });
+
+  it("requires the reset period in the format", () => {
+    const settings = { prefix: "", padding: 4 };
+    expect(NumberSequenceSchema.safeParse({ ...SEQUENCE_DEFAULTS.ORDER }).success).toBe(true);
+    expect(NumberSequenceSchema.safeParse({ ...settings, format: "{SEQ}", resetPeriod: "NEVER" }).success).toBe(true);
+    expect(NumberSequenceSchema.safeParse({ ...settings, format: "{SEQ}/{YY}", resetPeriod: "YEARLY" }).success).toBe(true);
+    expect(NumberSequenceSchema.safeParse({ ...settings, format: "{SEQ}/{MM}", resetPeriod: "YEARLY" }).success).toBe(false);
+    expect(NumberSequenceSchema.safeParse({ ...settings, format: "{SEQ}/{YYYY}", resetPeriod: "MONTHLY" }).success).toBe(false);
+    expect(NumberSequenceSchema.safeParse({ ...settings, format: "{SEQ}/{MM}", resetPeriod: "MONTHLY" }).success).toBe(false);
+  });
+});
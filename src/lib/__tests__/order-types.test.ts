@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { applyRushSurcharge, daysUntil, validateOrderDeadline } from "../order-types";
+
+const now = new Date("2025-03-10T15:00:00Z");
+const inDays = (days: number) => new Date(Date.UTC(2025, 2, 10 + days));
+
+describe("order types", () => {
+  it("counts calendar days until the deadline", () => {
+    expect(daysUntil(inDays(0), now)).toBe(0);
+    expect(daysUntil(inDays(7), now)).toBe(7);
+  });
+
+  it("requires the standard lead time for direct orders", () => {
+    expect(validateOrderDeadline("DIRECT_ORDER", inDays(6), now)).toMatch(/pedido urgente/);
+    expect(validateOrderDeadline("DIRECT_ORDER", inDays(7), now)).toBeNull();
+    expect(validateOrderDeadline("DIRECT_ORDER", inDays(60), now)).toBeNull();
+  });
+
+  it("only accepts short deadlines for rush orders", () => {
+    expect(validateOrderDeadline("RUSH_ORDER", inDays(0), now)).not.toBeNull();
+    expect(validateOrderDeadline("RUSH_ORDER", inDays(1), now)).toBeNull();
+    expect(validateOrderDeadline("RUSH_ORDER", inDays(6), now)).toBeNull();
+    expect(validateOrderDeadline("RUSH_ORDER", inDays(7), now)).toMatch(/pedido direto/);
+  });
+
+  it("rejects invalid dates", () => {
+    expect(validateOrderDeadline("RUSH_ORDER", new Date("invalid"), now)).toBe("Data de entrega inválida");
+  });
+
+  it("applies the rush surcharge to the unit price", () => {
+    expect(applyRushSurcharge(10, 25)).toBe(12.5);
+    expect(applyRushSurcharge(3.33, 50)).toBe(5);
+    expect(applyRushSurcharge(10, 0)).toBe(10);
+  });
+});
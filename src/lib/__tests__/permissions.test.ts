@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import { Permission, PERMISSION_GROUPS, RBAC, Role, ROLE_HIERARCHY, ROLE_PERMISSIONS } from "../rbac";
+
+// The route list is read from src/app/api, so a new or re-permissioned handler
+// fails here until the matrix below says who may call it.
+const API_DIR = path.join(process.cwd(), "src", "app", "api");
+
+// Lowest role allowed to call each handler; every role above it is allowed too
+const ROUTE_MATRIX: Record<string, Role> = {
+  "GET /api/analytics": Role.ADMIN,
+  "POST /api/analytics": Role.USER,
+
+  "GET /api/audit": Role.ADMIN,
+
+  "GET /api/auth/2fa": Role.USER,
+  "DELETE /api/auth/2fa": Role.USER,
+  "POST /api/auth/2fa/enable": Role.USER,
+  "POST /api/auth/2fa/recovery-codes": Role.USER,
+  "GET /api/auth/sessions": Role.USER,
+  "DELETE /api/auth/sessions/[id]": Role.USER,
+
+  "GET /api/budgets": Role.USER,
+  "POST /api/budgets": Role.MODERATOR,
+  "POST /api/budgets/quote": Role.MODERATOR,
+  "GET /api/budgets/[id]": Role.USER,
+  "PUT /api/budgets/[id]": Role.MODERATOR,
+  "DELETE /api/budgets/[id]": Role.ADMIN,
+  "GET /api/budgets/[id]/history": Role.USER,
+  "GET /api/budgets/[id]/revisions": Role.USER,
+  "POST /api/budgets/[id]/submit": Role.MODERATOR,
+  "POST /api/budgets/[id]/approve": Role.MODERATOR,
+  "POST /api/budgets/[id]/reject": Role.MODERATOR,
+  "POST /api/budgets/[id]/cancel": Role.MODERATOR,
+  "POST /api/budgets/[id]/convert-to-order": Role.MODERATOR,
+
+  "GET /api/cep/[cep]": Role.USER,
+  "GET /api/cnpj/[cnpj]": Role.USER,
+
+  "GET /api/centers": Role.USER,
+  "POST /api/centers": Role.MODERATOR,
+  "GET /api/centers/[id]": Role.USER,
+  "PUT /api/centers/[id]": Role.MODERATOR,
+  "PATCH /api/centers/[id]": Role.MODERATOR,
+  "DELETE /api/centers/[id]": Role.ADMIN,
+  "GET /api/centers/[id]/price-table": Role.USER,
+  "PUT /api/centers/[id]/price-table": Role.MODERATOR,
+
+  "GET /api/clients": Role.USER,
+  "POST /api/clients": Role.USER,
+  "GET /api/clients/check-cnpj-cpf": Role.USER,
+  "GET /api/clients/duplicates": Role.ADMIN,
+  "GET /api/clients/merge": Role.ADMIN,
+  "POST /api/clients/merge": Role.ADMIN,
+  "GET /api/clients/[id]": Role.USER,
+  "PUT /api/clients/[id]": Role.MODERATOR,
+  "PATCH /api/clients/[id]": Role.MODERATOR,
+  "DELETE /api/clients/[id]": Role.ADMIN,
+  "GET /api/clients/[id]/summary": Role.USER,
+
+  "GET /api/dashboard/recent-clients": Role.USER,
+  "GET /api/dashboard/recent-orders": Role.USER,
+  "GET /api/dashboard/summary": Role.USER,
+  "GET /api/navigation/counts": Role.USER,
+
+  "GET /api/orders": Role.USER,
+  "POST /api/orders": Role.MODERATOR,
+  "GET /api/orders/editorials": Role.USER,
+  "GET /api/orders/[id]": Role.USER,
+  "PUT /api/orders/[id]": Role.USER,
+  "DELETE /api/orders/[id]": Role.ADMIN,
+  "GET /api/orders/[id]/history": Role.USER,
+  "GET /api/orders/[id]/status": Role.USER,
+  "PATCH /api/orders/[id]/status": Role.USER,
+  "GET /api/orders/[id]/deliveries": Role.USER,
+  "POST /api/orders/[id]/deliveries": Role.MODERATOR,
+  "DELETE /api/orders/[id]/deliveries/[deliveryId]": Role.MODERATOR,
+
+  "GET /api/reports/production": Role.USER,
+  "GET /api/reports/financial": Role.MODERATOR,
+  "GET /api/reports/orders-by-client": Role.MODERATOR,
+  "GET /api/reports/orders-summary": Role.MODERATOR,
+  "GET /api/reports/profitability": Role.ADMIN,
+
+  "GET /api/roles": Role.MODERATOR,
+  "POST /api/roles": Role.ADMIN,
+  "PUT /api/roles/[id]": Role.ADMIN,
+  "DELETE /api/roles/[id]": Role.ADMIN,
+
+  "GET /api/sequences": Role.ADMIN,
+  "PUT /api/sequences/[key]": Role.ADMIN,
+
+  "GET /api/specifications": Role.USER,
+  "POST /api/specifications": Role.ADMIN,
+
+  "GET /api/users": Role.MODERATOR,
+  "POST /api/users": Role.ADMIN,
+  "GET /api/users/[id]": Role.USER,
+  "PUT /api/users/[id]": Role.USER,
+  "DELETE /api/users/[id]": Role.ADMIN,
+  "GET /api/users/[id]/sessions": Role.ADMIN,
+  "DELETE /api/users/[id]/sessions": Role.ADMIN,
+  "DELETE /api/users/[id]/sessions/[sessionId]": Role.ADMIN,
+  "POST /api/users/[id]/unlock": Role.ADMIN,
+};
+
+// Handlers that run before a session exists, or authenticate with something
+// other than the access token (refresh cookie, 2FA challenge, email tokens)
+const UNWRAPPED_HANDLERS = [
+  "POST /api/auth/login",
+  "POST /api/auth/logout",
+  "POST /api/auth/refresh",
+  "POST /api/auth/register",
+  "POST /api/auth/forgot-password",
+  "POST /api/auth/reset-password",
+  "POST /api/auth/verify-email",
+  "POST /api/auth/resend-verification",
+  "POST /api/auth/2fa/setup",
+  "GET /api/auth/validate",
+];
+
+interface RouteHandler {
+  route: string;
+  // Any of these lets the request through; null when the handler is not wrapped
+  permissions: Permission[] | null;
+}
+
+function findRouteFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(fullPath);
+    return entry.name === "route.ts" ? [fullPath] : [];
+  });
+}
+
+function scanHandlers(): RouteHandler[] {
+  return findRouteFiles(API_DIR).flatMap((file) => {
+    const urlPath = "/api/" + path.relative(API_DIR, path.dirname(file)).split(path.sep).join("/");
+    const source = fs.readFileSync(file, "utf8");
+    const exports = source.matchAll(
+      /export (?:async function|const) (GET|POST|PUT|PATCH|DELETE)\b(?: = withPermission(?:<[^>]*>)?\((\[?Permission\.\w+(?:, Permission\.\w+)*\]?))?/g
+    );
+    return [...exports].map(([, method, permissions]) => ({
+      route: `${method} ${urlPath}`,
+      permissions: permissions
+        ? [...permissions.matchAll(/Permission\.(\w+)/g)].map(([, name]) => Permission[name as keyof typeof Permission])
+        : null,
+    }));
+  });
+}
+
+const handlers = scanHandlers();
+const wrapped = handlers.filter((handler) => handler.permissions !== null);
+const roles = Object.values(Role);
+
+describe("role permissions", () => {
+  it("inherits every permission of the roles below in ROLE_HIERARCHY", () => {
+    for (const role of roles) {
+      for (const lower of roles.filter((other) => ROLE_HIERARCHY[other] < ROLE_HIERARCHY[role])) {
+        expect(ROLE_PERMISSIONS[role]).toEqual(expect.arrayContaining(ROLE_PERMISSIONS[lower]));
+      }
+    }
+  });
+
+  it("gives MODERATOR the USER permissions", () => {
+    expect(RBAC.hasPermission(Role.MODERATOR, Permission.READ_ORDERS)).toBe(true);
+    expect(RBAC.hasPermission(Role.MODERATOR, Permission.CREATE_CLIENTS)).toBe(true);
+  });
+
+  it("gives ADMIN every permission exactly once", () => {
+    expect([...ROLE_PERMISSIONS[Role.ADMIN]].sort()).toEqual(Object.values(Permission).sort());
+  });
+
+  it("keeps rush orders to MODERATOR and above, apart from CREATE_ORDERS", () => {
+    expect(RBAC.hasPermission(Role.USER, Permission.CREATE_RUSH_ORDERS)).toBe(false);
+    expect(RBAC.hasPermission(Role.MODERATOR, Permission.CREATE_RUSH_ORDERS)).toBe(true);
+
+    // A custom role granted CREATE_ORDERS alone reaches POST /api/orders, which
+    // then checks the rush permission itself
+    const source = fs.readFileSync(path.join(API_DIR, "orders", "route.ts"), "utf8");
+    expect(source).toMatch(/'RUSH_ORDER' && !hasPermission\(user, Permission\.CREATE_RUSH_ORDERS\)/);
+  });
+
+  it("lists every permission once in the role editor catalog", () => {
+    const listed = PERMISSION_GROUPS.flatMap((group) => group.permissions.map((entry) => entry.permission));
+    expect([...listed].sort()).toEqual(Object.values(Permission).sort());
+  });
+});
+
+describe("API permission matrix", () => {
+  it("finds the API handlers", () => {
+    expect(wrapped.length).toBeGreaterThan(50);
+  });
+
+  it("wraps every handler outside the pre-session auth endpoints", () => {
+    const unwrapped = handlers.filter((handler) => handler.permissions === null).map((handler) => handler.route);
+    expect(unwrapped.sort()).toEqual([...UNWRAPPED_HANDLERS].sort());
+  });
+
+  it("lists every wrapped handler in the matrix, and nothing else", () => {
+    expect(wrapped.map((handler) => handler.route).sort()).toEqual(Object.keys(ROUTE_MATRIX).sort());
+  });
+
+  const cases = wrapped.flatMap(({ route, permissions }) =>
+    roles.map((role) => ({
+      route,
+      role,
+      permissions: permissions as Permission[],
+      allowed: route in ROUTE_MATRIX && ROLE_HIERARCHY[role] >= ROLE_HIERARCHY[ROUTE_MATRIX[route]],
+    }))
+  );
+
+  it.each(cases)("$route as $role: allowed=$allowed", ({ role, permissions, allowed }) => {
+    expect(permissions.some((permission) => RBAC.hasPermission(role, permission))).toBe(allowed);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { calculateQuote, type PriceTableEntry } from "../pricing/engine";
+import { PriceTableSchema } from "../validation";
+
+const table: PriceTableEntry[] = [
+  { component: "PAPEL_MIOLO", option: "Offset 75g", value: 0.1 },
+  { component: "IMPRESSAO_MIOLO", option: "PB", value: 0.01 },
+  { component: "IMPRESSAO_MIOLO", option: "COR", value: 0.1 },
+  { component: "PAPEL_CAPA", option: "Couchê 150g", value: 0.5 },
+  { component: "IMPRESSAO_CAPA", option: "4/0", value: 0.5 },
+  { component: "LAMINACAO", option: "Fosca", value: 0.2 },
+  { component: "ACABAMENTO", option: "Lombada colada", value: 1 },
+  { component: "SHRINK", option: "sim", value: 0.1 },
+  { component: "SETUP", option: "", value: 100 },
+  { component: "FORMATO", option: "A4", value: 2 },
+  { component: "MARGEM", option: "", value: 10 },
+];
+
+const spec = {
+  formato: "A4",
+  tiragem: 100,
+  total_pgs: 10,
+  pgs_colors: 2,
+  papel_miolo: "offset 75g",
+  papel_capa: "Couchê 150g",
+  cor_capa: "4/0",
+  laminacao: "Fosca",
+  acabamento: "Lombada colada",
+  shrink: "sim",
+};
+
+describe("pricing engine", () => {
+  it("builds a per-component breakdown", () => {
+    const quote = calculateQuote(spec, table);
+    const totals = Object.fromEntries(
+      quote.lines.map((line) => [`${line.component}:${line.option}`, line.total])
+    );
+
+    // 5 sheets x 100 copies x 0.10 x format factor 2
+    expect(totals["PAPEL_MIOLO:offset 75g"]).toBe(100);
+    expect(totals["IMPRESSAO_MIOLO:PB"]).toBe(16);
+    expect(totals["IMPRESSAO_MIOLO:COR"]).toBe(40);
+    expect(totals["PAPEL_CAPA:Couchê 150g"]).toBe(100);
+    expect(totals["IMPRESSAO_CAPA:4/0"]).toBe(100);
+    expect(totals["LAMINACAO:Fosca"]).toBe(40);
+    expect(totals["ACABAMENTO:Lombada colada"]).toBe(100);
+    expect(totals["SHRINK:sim"]).toBe(10);
+    expect(totals["SETUP:"]).toBe(100);
+
+    expect(quote.subtotal).toBe(606);
+    expect(quote.margin).toBe(60.6);
+    expect(quote.preco_unitario).toBe(6.67);
+    expect(quote.preco_total).toBe(667);
+    expect(quote.warnings).toEqual([]);
+  });
+
+  it("skips cover components when there is no cover", () => {
+    const quote = calculateQuote({ ...spec, cor_capa: "Sem capa" }, table);
+    const components = quote.lines.map((line) => line.component);
+    expect(components).not.toContain("PAPEL_CAPA");
+    expect(components).not.toContain("IMPRESSAO_CAPA");
+    expect(components).not.toContain("LAMINACAO");
+  });
+
+  it("warns about options missing from the price table", () => {
+    const quote = calculateQuote({ ...spec, formato: "A3", acabamento: "wire-o" }, table);
+    expect(quote.warnings).toHaveLength(2);
+    expect(quote.lines.find((line) => line.component === "ACABAMENTO")).toBeUndefined();
+  });
+
+  it("rejects duplicated price table entries", () => {
+    const result = PriceTableSchema.safeParse({
+      items: [
+        { component: "SHRINK", option: "sim", value: 0.1 },
+        { component: "SHRINK", option: " SIM ", value: 0.2 },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateOrderProfitability,
+  groupProfitability,
+  summarizeProfitability,
+  type ProfitabilityOrder,
+} from "../profitability";
+import type { PriceTableEntry } from "../pricing/engine";
+
+const table: PriceTableEntry[] = [
+  { component: "PAPEL_MIOLO", option: "Offset 75g", value: 0.1 },
+  { component: "IMPRESSAO_MIOLO", option: "PB", value: 0.02 },
+  { component: "SETUP", option: "", value: 100 },
+  { component: "MARGEM", option: "", value: 30 },
+];
+
+function makeOrder(overrides: Partial<ProfitabilityOrder> = {}, budget: Partial<ProfitabilityOrder["budget"]> = {}): ProfitabilityOrder {
+  return {
+    numero_pedido: "ORD-0001/202503",
+    data_pedido: new Date(2025, 2, 10),
+    frete_real: null,
+    custo_adicional: null,
+    ...overrides,
+    budget: {
+      titulo: "Livro",
+      editorial: "Didáticos",
+      formato: "14x21",
+      tiragem: 100,
+      total_pgs: 100,
+      pgs_colors: 0,
+      papel_miolo: "Offset 75g",
+      papel_capa: null,
+      cor_miolo: null,
+      cor_capa: null,
+      laminacao: null,
+      acabamento: null,
+      shrink: null,
+      frete: "15000",
+      preco_total: 1000,
+      centerId: 1,
+      client: { name: "Editora A" },
+      center: { name: "Gráfica" },
+      ...budget,
+    },
+  };
+}
+
+describe("profitability", () => {
+  it("uses the quote cost and estimated freight as the estimate", () => {
+    // paper 50 sheets * 100 * 0.1 = 500, printing 100 pages * 100 * 0.02 = 200, setup 100
+    const row = calculateOrderProfitability(makeOrder(), table);
+
+    expect(row.estimatedCost).toBe(950);
+    expect(row.actualCost).toBe(950);
+    expect(row.variance).toBe(0);
+    expect(row.margin).toBe(50);
+    expect(row.marginPercent).toBe(5);
+    expect(row.month).toBe("2025-03");
+  });
+
+  it("replaces the estimated freight and adds extra costs for the actual cost", () => {
+    const row = calculateOrderProfitability(makeOrder({ frete_real: 200, custo_adicional: 25 }), table);
+
+    expect(row.actualCost).toBe(1025);
+    expect(row.variance).toBe(75);
+    expect(row.marginPercent).toBe(-2.5);
+  });
+
+  it("groups orders and recomputes the margin of each group", () => {
+    const rows = [
+      calculateOrderProfitability(makeOrder(), table),
+      calculateOrderProfitability(makeOrder({}, { editorial: null, preco_total: 2000 }), table),
+      calculateOrderProfitability(makeOrder({ data_pedido: new Date(2025, 1, 1) }, { client: { name: "Editora B" } }), table),
+    ];
+
+    const byClient = groupProfitability(rows, "client");
+    expect(byClient.map((group) => [group.key, group.orders])).toEqual([["Editora A", 2], ["Editora B", 1]]);
+    expect(byClient[0].marginPercent).toBe(36.67);
+
+    expect(groupProfitability(rows, "editorial").map((group) => group.key)).toContain("Sem editorial");
+    expect(groupProfitability(rows, "month").map((group) => group.key)).toEqual(["2025-02", "2025-03"]);
+    expect(summarizeProfitability(rows).revenue).toBe(4000);
+  });
+});
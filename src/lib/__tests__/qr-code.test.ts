@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { encodeQrCode, QrCodeError } from "../qr-code";
+
+// Format information of error correction level M for masks 0 to 7 (ISO/IEC 18004, table C.1)
+const LEVEL_M_FORMATS = [
+  0b101010000010010, 0b101000100100101, 0b101111001111100, 0b101101101001011,
+  0b100010111111001, 0b100000011001110, 0b100111110010111, 0b100101010100000,
+];
+
+// Format bits 0-14 from the copy around the top-left finder
+function readFormat(modules: boolean[][]): number {
+  const positions: Array<[number, number]> = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8],
+    [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ];
+  return positions.reduce((value, [x, y], i) => value | (modules[y][x] ? 1 << i : 0), 0);
+}
+
+function hasFinderAt(modules: boolean[][], left: number, top: number): boolean {
+  for (let dy = 0; dy < 7; dy++) {
+    for (let dx = 0; dx < 7; dx++) {
+      const ring = Math.min(dx, dy, 6 - dx, 6 - dy);
+      if (modules[top + dy][left + dx] !== (ring !== 1)) return false;
+    }
+  }
+  return true;
+}
+
+describe("encodeQrCode", () => {
+  it("picks the smallest version that fits", () => {
+    expect(encodeQrCode("hello")).toHaveLength(21);
+    expect(encodeQrCode("x".repeat(20))).toHaveLength(25);
+  });
+
+  it("draws the finder patterns and timing lines", () => {
+    const modules = encodeQrCode("otpauth://totp/Alphabook:ana%40example.com?secret=JBSWY3DPEHPK3PXP");
+    const size = modules.length;
+
+    expect(hasFinderAt(modules, 0, 0)).toBe(true);
+    expect(hasFinderAt(modules, size - 7, 0)).toBe(true);
+    expect(hasFinderAt(modules, 0, size - 7)).toBe(true);
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+  });
+
+  it("writes valid level M format information", () => {
+    for (const text of ["a", "otpauth://totp/Alphabook:ana?secret=JBSWY3DPEHPK3PXP", "y".repeat(150)]) {
+      expect(LEVEL_M_FORMATS).toContain(readFormat(encodeQrCode(text)));
+    }
+  });
+
+  it("rejects text beyond version 10", () => {
+    expect(encodeQrCode("z".repeat(213))).toHaveLength(57);
+    expect(() => encodeQrCode("z".repeat(214))).toThrow(QrCodeError);
+  });
+});
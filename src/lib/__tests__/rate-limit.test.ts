@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  consumeRateLimit,
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  rateLimitKey,
+  type RateLimitPolicy,
+  type RedisRateLimitClient,
+} from "../rate-limit";
+import { isAccountLocked, lockoutDurationMs } from "../account-lockout";
+
+const policy: RateLimitPolicy = { name: "test", limit: 2, windowMs: 60_000 };
+
+describe("consumeRateLimit", () => {
+  it("allows requests up to the limit within a window", async () => {
+    let now = 0;
+    const store = new MemoryRateLimitStore(() => now);
+
+    expect((await consumeRateLimit(store, policy, "1.2.3.4", new Date(now))).allowed).toBe(true);
+    expect((await consumeRateLimit(store, policy, "1.2.3.4", new Date(now))).remaining).toBe(0);
+
+    const blocked = await consumeRateLimit(store, policy, "1.2.3.4", new Date(now));
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterSeconds).toBe(60);
+
+    now = 60_000;
+    expect((await consumeRateLimit(store, policy, "1.2.3.4", new Date(now))).allowed).toBe(true);
+  });
+
+  it("keys identifiers case-insensitively per policy", async () => {
+    const store = new MemoryRateLimitStore();
+    await consumeRateLimit(store, policy, "User@Example.com");
+    await consumeRateLimit(store, policy, "user@example.com ");
+
+    expect(rateLimitKey(policy, " User@Example.com")).toBe("test:user@example.com");
+    expect((await consumeRateLimit(store, policy, "USER@example.com")).allowed).toBe(false);
+  });
+});
+
+describe("RedisRateLimitStore", () => {
+  function fakeRedis() {
+    const counts = new Map<string, number>();
+    const ttls = new Map<string, number>();
+    const client: RedisRateLimitClient = {
+      incr: async (key) => {
+        const next = (counts.get(key) ?? 0) + 1;
+        counts.set(key, next);
+        return next;
+      },
+      pexpire: async (key, ms) => ttls.set(key, ms),
+      pttl: async (key) => ttls.get(key) ?? -1,
+      del: async (key) => counts.delete(key),
+    };
+    return { client, ttls };
+  }
+
+  it("sets the window expiry on the first hit only", async () => {
+    const { client, ttls } = fakeRedis();
+    const store = new RedisRateLimitStore(client);
+
+    expect((await store.hit("login:ip:x", 1000)).count).toBe(1);
+    expect(ttls.get("ratelimit:login:ip:x")).toBe(1000);
+
+    ttls.set("ratelimit:login:ip:x", 400);
+    expect((await store.hit("login:ip:x", 1000)).count).toBe(2);
+    expect(ttls.get("ratelimit:login:ip:x")).toBe(400);
+  });
+});
+
+describe("account lockout", () => {
+  it("doubles the lockout up to one day", () => {
+    expect(lockoutDurationMs(0)).toBe(15 * 60 * 1000);
+    expect(lockoutDurationMs(2)).toBe(60 * 60 * 1000);
+    expect(lockoutDurationMs(20)).toBe(24 * 60 * 60 * 1000);
+  });
+
+  it("treats past lock expiries as unlocked", () => {
+    const now = new Date("2025-06-01T12:00:00Z");
+    expect(isAccountLocked({ lockedUntil: new Date("2025-06-01T12:05:00Z") }, now)).toBe(true);
+    expect(isAccountLocked({ lockedUntil: new Date("2025-06-01T11:55:00Z") }, now)).toBe(false);
+    expect(isAccountLocked({ lockedUntil: null }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import { csvChunks, escapeCsvValue, exportFileName, exportReportResponse, type ReportDocument } from "../reports/export";
+import { formatReportCell } from "../reports/format";
+import { xlsxChunks, columnName } from "../reports/xlsx";
+import { computeColumnWidths, pdfChunks } from "../reports/pdf";
+import { crc32, zipChunks } from "../reports/zip";
+import { mapRows, queryInBatches } from "../reports/batches";
+
+type Row = { numero: string; titulo: string; data: string | null; tiragem: number; valor: number };
+
+function makeReport(rows: Row[] = []): ReportDocument<Row> {
+  return {
+    title: "Relatório Financeiro",
+    fileName: "relatorio_financeiro",
+    filters: [{ label: "Editorial", value: "Didáticos" }],
+    columns: [
+      { header: "Número", value: (row) => row.numero },
+      { header: "Título", value: (row) => row.titulo },
+      { header: "Entrega", type: "date", value: (row) => row.data },
+      { header: "Tiragem", type: "integer", value: (row) => row.tiragem },
+      { header: "Valor", type: "currency", value: (row) => row.valor },
+    ],
+    rows,
+    summary: [{ label: "Total", value: "R$ 1.234,50" }],
+    generatedAt: new Date("2025-03-10T15:00:00Z"),
+  };
+}
+
+async function collect<T>(chunks: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const chunk of chunks) collected.push(chunk);
+  return collected;
+}
+
+async function collectBuffer(chunks: AsyncIterable<Buffer>): Promise<Buffer> {
+  return Buffer.concat(await collect(chunks));
+}
+
+const row: Row = { numero: "ORD-0001", titulo: 'Livro "A"; volume 1', data: "2025-03-05T00:00:00.000Z", tiragem: 12000, valor: 1234.5 };
+
+describe("formatReportCell", () => {
+  it("formats numbers and dates for pt-BR", () => {
+    expect(formatReportCell(12000, "integer")).toBe("12.000");
+    expect(formatReportCell(1234.5, "currency")).toBe("1.234,50");
+    expect(formatReportCell("2025-03-05T00:00:00.000Z", "date")).toBe("05/03/2025");
+    expect(formatReportCell(null, "currency")).toBe("");
+  });
+});
+
+describe("csv export", () => {
+  it("quotes values containing separators, quotes or line breaks", () => {
+    expect(escapeCsvValue("simples")).toBe("simples");
+    expect(escapeCsvValue('Livro "A"; volume 1')).toBe('"Livro ""A""; volume 1"');
+    expect(escapeCsvValue("linha\nquebrada")).toBe('"linha\nquebrada"');
+  });
+
+  it("writes the BOM, the filters, the rows and the summary", async () => {
+    const csv = (await collect(csvChunks(makeReport([row])))).join("");
+    const lines = csv.split("\r\n");
+
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    expect(lines).toContain("Editorial;Didáticos");
+    expect(lines).toContain("Número;Título;Entrega;Tiragem;Valor");
+    expect(lines).toContain('ORD-0001;"Livro ""A""; volume 1";05/03/2025;12.000;1.234,50');
+    expect(lines).toContain("Total;R$ 1.234,50");
+  });
+
+  it("neutralizes text that spreadsheets would run as a formula", async () => {
+    const csv = (await collect(csvChunks(makeReport([{ ...row, titulo: "=HYPERLINK()" }])))).join("");
+    expect(csv).toContain(";'=HYPERLINK();");
+  });
+
+  it("streams large reports in chunks", async () => {
+    const rows = Array.from({ length: 1200 }, (_, index) => ({ ...row, numero: `ORD-${index}` }));
+    expect(await collect(csvChunks(makeReport(rows)))).toHaveLength(3);
+  });
+
+  it("reads async rows and asks for the summary after the last one", async () => {
+    let total = 0;
+    const report = makeReport();
+    report.rows = mapRows(queryInBatches(async ({ skip, take }) => [row, row, row].slice(skip, skip + take), 2), (item) => {
+      total += item.valor;
+      return item;
+    });
+    report.summary = () => [{ label: "Total", value: total.toString() }];
+
+    const lines = (await collect(csvChunks(report))).join("").split("\r\n");
+    expect(lines.filter((line) => line.startsWith("ORD-0001"))).toHaveLength(3);
+    expect(lines).toContain("Total;3703.5");
+  });
+});
+
+describe("binary exports", () => {
+  it("computes the standard CRC-32", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("names spreadsheet columns", () => {
+    expect(columnName(0)).toBe("A");
+    expect(columnName(25)).toBe("Z");
+    expect(columnName(26)).toBe("AA");
+  });
+
+  it("continues the CRC-32 across chunks", () => {
+    expect(crc32(Buffer.from("6789"), crc32(Buffer.from("12345")))).toBe(0xcbf43926);
+  });
+
+  it("packages the workbook as a zip archive", async () => {
+    const xlsx = await collectBuffer(xlsxChunks(makeReport([row])));
+    expect(xlsx.readUInt32LE(0)).toBe(0x04034b50);
+    expect(xlsx.toString("utf8")).toContain("xl/worksheets/sheet1.xml");
+  });
+
+  it("records streamed zip entries in a data descriptor and the central directory", async () => {
+    async function* parts() {
+      yield Buffer.from("12345");
+      yield Buffer.from("6789");
+    }
+    const zip = await collectBuffer(zipChunks([{ name: "a.txt", data: parts() }]));
+
+    // Local header (30 + name) then the data, then the descriptor
+    expect(zip.readUInt16LE(6) & 0x0008).toBe(0x0008);
+    const descriptor = 30 + "a.txt".length + 9;
+    expect(zip.readUInt32LE(descriptor)).toBe(0x08074b50);
+    expect(zip.readUInt32LE(descriptor + 4)).toBe(0xcbf43926);
+    expect(zip.readUInt32LE(descriptor + 8)).toBe(9);
+
+    const central = descriptor + 16;
+    expect(zip.readUInt32LE(central)).toBe(0x02014b50);
+    expect(zip.readUInt32LE(central + 16)).toBe(0xcbf43926);
+    expect(zip.readUInt32LE(central + 24)).toBe(9);
+  });
+
+  it("writes a PDF with one page per block of rows", async () => {
+    const small = (await collectBuffer(pdfChunks(makeReport([row])))).toString("latin1");
+    expect(small.startsWith("%PDF-1.4")).toBe(true);
+    expect(small).toContain("/Count 1");
+    expect(small).toContain("(P\xe1gina 1 de )");
+    expect(small).toContain("(1) Tj");
+    expect(small.trimEnd().endsWith("%%EOF")).toBe(true);
+
+    const rows = Array.from({ length: 200 }, (_, index) => ({ ...row, numero: `ORD-${index}` }));
+    expect((await collectBuffer(pdfChunks(makeReport(rows)))).toString("latin1")).toContain("/Count 4");
+  });
+
+  it("points the PDF cross-reference table at every object", async () => {
+    const pdf = (await collectBuffer(pdfChunks(makeReport([row])))).toString("latin1");
+    const xrefStart = pdf.lastIndexOf("\nxref\n") + 1;
+    const xref = pdf.slice(xrefStart);
+    const offsets = xref.split("\n").filter((line) => line.endsWith(" 00000 n ")).map((line) => Number(line.slice(0, 10)));
+
+    offsets.forEach((offset, index) => {
+      expect(pdf.startsWith(`${index + 1} 0 obj`, offset)).toBe(true);
+    });
+    expect(Number(xref.split("\n").at(-2))).toBe(xrefStart);
+  });
+
+  it("sizes PDF columns for large reports", () => {
+    const cells = Array.from({ length: 200_000 }, (_, index) => [`ORD-${index}`]);
+    expect(computeColumnWidths(["Número"], cells, 100)).toEqual([10]);
+  });
+});
+
+describe("exportReportResponse", () => {
+  it("sets the download headers", () => {
+    const res = exportReportResponse(makeReport([row]), "xlsx");
+    expect(res.headers.get("Content-Disposition")).toBe('attachment; filename="relatorio_financeiro_2025-03-10.xlsx"');
+    expect(exportFileName("relatorio", "pdf", new Date("2025-01-02T00:00:00Z"))).toBe("relatorio_2025-01-02.pdf");
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { effectiveRole, isBuiltInRole, toPermissions } from "../roles";
+import { isTwoFactorRequired } from "../two-factor";
+import { Permission, Role, ROLE_HIERARCHY, ROLE_PERMISSIONS } from "../rbac";
+
+function stored(level: number, permissions: string[]) {
+  return { key: "PRODUCAO", level, permissions: permissions.map((permission) => ({ permission })) };
+}
+
+describe("effectiveRole", () => {
+  it("uses the stored permissions of a role", () => {
+    expect(effectiveRole("PRODUCAO", stored(1, [Permission.READ_ORDERS, Permission.MANAGE_PRODUCTION]))).toEqual({
+      key: "PRODUCAO",
+      level: 1,
+      permissions: [Permission.READ_ORDERS, Permission.MANAGE_PRODUCTION],
+    });
+  });
+
+  it("falls back to the defaults for built-in roles that are not seeded yet", () => {
+    expect(effectiveRole(Role.MODERATOR, null)).toEqual({
+      key: Role.MODERATOR,
+      level: ROLE_HIERARCHY[Role.MODERATOR],
+      permissions: ROLE_PERMISSIONS[Role.MODERATOR],
+    });
+  });
+
+  it("always gives ADMIN every permission, whatever is stored", () => {
+    const admin = effectiveRole(Role.ADMIN, { ...stored(3, [Permission.READ_ORDERS]), key: Role.ADMIN });
+    expect([...admin.permissions].sort()).toEqual(Object.values(Permission).sort());
+  });
+
+  it("gives unknown roles no permissions", () => {
+    expect(effectiveRole("REMOVED", null).permissions).toEqual([]);
+  });
+});
+
+describe("toPermissions", () => {
+  it("drops values that are no longer permissions and duplicates", () => {
+    expect(toPermissions(["read:orders", "old:permission", "read:orders"])).toEqual([Permission.READ_ORDERS]);
+  });
+});
+
+describe("custom roles in the hierarchy", () => {
+  it("recognises only the built-in keys", () => {
+    expect(isBuiltInRole(Role.USER)).toBe(true);
+    expect(isBuiltInRole("FINANCEIRO")).toBe(false);
+  });
+
+  it("applies the 2FA policy by level", () => {
+    expect(isTwoFactorRequired(effectiveRole("FINANCEIRO", stored(2, [])), Role.MODERATOR)).toBe(true);
+    expect(isTwoFactorRequired(effectiveRole("PRODUCAO", stored(1, [])), Role.MODERATOR)).toBe(false);
+  });
+});
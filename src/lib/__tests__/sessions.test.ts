@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from "vitest";
+
+// unified-auth.ts validates the secrets when it is imported
+vi.hoisted(() => {
+  process.env.JWT_SECRET ??= "test-secret-with-at-least-32-characters";
+  process.env.JWT_REFRESH_SECRET ??= "test-refresh-secret-with-at-least-32-characters";
+});
+
+import { classifyRefreshToken, describeUserAgent, hashRefreshToken } from "../sessions";
+import { generateRefreshToken, verifyRefreshToken } from "../unified-auth";
+
+const now = new Date("2025-06-01T12:00:00Z");
+const later = new Date("2025-06-08T12:00:00Z");
+const earlier = new Date("2025-05-25T12:00:00Z");
+
+function stored(overrides: { usedAt?: Date | null; expiresAt?: Date; revokedAt?: Date | null } = {}) {
+  return {
+    usedAt: overrides.usedAt ?? null,
+    expiresAt: overrides.expiresAt ?? later,
+    session: { revokedAt: overrides.revokedAt ?? null, expiresAt: later },
+  };
+}
+
+describe("classifyRefreshToken", () => {
+  it("accepts an unused token of an active session", () => {
+    expect(classifyRefreshToken(stored(), now)).toBe("valid");
+  });
+
+  it("flags a consumed token as reuse", () => {
+    expect(classifyRefreshToken(stored({ usedAt: earlier }), now)).toBe("reused");
+  });
+
+  it("reports revoked sessions before reuse", () => {
+    expect(classifyRefreshToken(stored({ usedAt: earlier, revokedAt: earlier }), now)).toBe("revoked");
+  });
+
+  it("rejects expired tokens", () => {
+    expect(classifyRefreshToken(stored({ expiresAt: earlier }), now)).toBe("expired");
+  });
+});
+
+describe("refresh tokens", () => {
+  it("issues a different token on every call for the same session", async () => {
+    const first = await generateRefreshToken(7, 42);
+    const second = await generateRefreshToken(7, 42);
+
+    expect(first).not.toBe(second);
+    expect(hashRefreshToken(first)).not.toBe(hashRefreshToken(second));
+    expect(hashRefreshToken(first)).toMatch(/^[0-9a-f]{64}$/);
+    expect(await verifyRefreshToken(first)).toEqual({ userId: 7, sessionId: 42 });
+  });
+
+  it("rejects tampered tokens", async () => {
+    const token = await generateRefreshToken(7, 42);
+    expect(await verifyRefreshToken(`${token}x`)).toBeNull();
+  });
+});
+
+describe("describeUserAgent", () => {
+  it("names browser and platform", () => {
+    expect(describeUserAgent(
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36"
+    )).toBe("Chrome em Windows");
+    expect(describeUserAgent(
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1"
+    )).toBe("Safari em iOS");
+    expect(describeUserAgent(null)).toBe("Dispositivo desconhecido");
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from "vitest";
+
+// unified-auth.ts validates the secrets when it is imported
+vi.hoisted(() => {
+  process.env.JWT_SECRET ??= "test-secret-with-at-least-32-characters";
+  process.env.JWT_REFRESH_SECRET ??= "test-refresh-secret-with-at-least-32-characters";
+});
+
+import { base32Decode, base32Encode, generateTotp, hotp, totpUri, verifyTotp } from "../totp";
+import {
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTwoFactorRequired,
+  twoFactorRequiredRole,
+} from "../two-factor";
+import { Role } from "../rbac";
+import { generateTwoFactorChallenge, verifyAccessToken, verifyTwoFactorChallenge } from "../unified-auth";
+
+// Test secret of RFC 4226 and RFC 6238 (SHA-1)
+const RFC_SECRET = Buffer.from("12345678901234567890", "ascii");
+const RFC_SECRET_BASE32 = base32Encode(RFC_SECRET);
+
+describe("base32", () => {
+  it("round-trips and ignores case, spaces and padding", () => {
+    expect(RFC_SECRET_BASE32).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq==")).toEqual(RFC_SECRET);
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("GEZ1")).toThrow();
+  });
+});
+
+describe("hotp / totp", () => {
+  it("matches the RFC 4226 test values", () => {
+    expect([0, 1, 2, 9].map((counter) => hotp(RFC_SECRET, counter))).toEqual(["755224", "287082", "359152", "520489"]);
+  });
+
+  it("matches the RFC 6238 SHA-1 test values", () => {
+    const cases: Array<[number, string]> = [
+      [59, "94287082"],
+      [1111111109, "07081804"],
+      [1234567890, "89005924"],
+      [2000000000, "69279037"],
+    ];
+    for (const [seconds, expected] of cases) {
+      expect(hotp(RFC_SECRET, Math.floor(seconds / 30), 8)).toBe(expected);
+    }
+  });
+
+  it("accepts the neighbouring steps and returns the matching one", () => {
+    const now = new Date(1234567890 * 1000);
+    const step = Math.floor(1234567890 / 30);
+    const previous = generateTotp(RFC_SECRET_BASE32, new Date(now.getTime() - 30_000));
+
+    expect(verifyTotp(RFC_SECRET_BASE32, generateTotp(RFC_SECRET_BASE32, now), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET_BASE32, previous, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET_BASE32, generateTotp(RFC_SECRET_BASE32, new Date(now.getTime() - 90_000)), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET_BASE32, "12345", now)).toBeNull();
+  });
+
+  it("builds an otpauth URI for authenticator apps", () => {
+    const uri = totpUri("JBSWY3DPEHPK3PXP", "ana@example.com", "Alphabook");
+    expect(uri.startsWith("otpauth://totp/Alphabook:ana%40example.com?")).toBe(true);
+    expect(new URL(uri).searchParams.get("secret")).toBe("JBSWY3DPEHPK3PXP");
+    expect(new URL(uri).searchParams.get("issuer")).toBe("Alphabook");
+  });
+});
+
+describe("2FA policy", () => {
+  it("applies to the configured role and every role above it", () => {
+    expect(isTwoFactorRequired(Role.USER, Role.MODERATOR)).toBe(false);
+    expect(isTwoFactorRequired(Role.MODERATOR, Role.MODERATOR)).toBe(true);
+    expect(isTwoFactorRequired(Role.ADMIN, Role.MODERATOR)).toBe(true);
+    expect(isTwoFactorRequired(Role.ADMIN, null)).toBe(false);
+  });
+
+  it("reads the role setting leniently and ignores unknown values", () => {
+    expect(twoFactorRequiredRole(" moderator ")).toBe(Role.MODERATOR);
+    expect(twoFactorRequiredRole("")).toBeNull();
+    expect(twoFactorRequiredRole("OWNER")).toBeNull();
+    expect(twoFactorRequiredRole(undefined)).toBeNull();
+  });
+});
+
+describe("secret encryption", () => {
+  it("round-trips with a fresh IV every time", () => {
+    const first = encryptTotpSecret("JBSWY3DPEHPK3PXP");
+    const second = encryptTotpSecret("JBSWY3DPEHPK3PXP");
+
+    expect(first).not.toBe(second);
+    expect(first).not.toContain("JBSWY3DPEHPK3PXP");
+    expect(decryptTotpSecret(first)).toBe("JBSWY3DPEHPK3PXP");
+  });
+
+  it("refuses a tampered value", () => {
+    const [version, iv, tag, ciphertext] = encryptTotpSecret("JBSWY3DPEHPK3PXP").split(":");
+    const flipped = Buffer.from(ciphertext, "base64url");
+    flipped[0] ^= 1;
+    expect(() => decryptTotpSecret([version, iv, tag, flipped.toString("base64url")].join(":"))).toThrow();
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates distinct codes in the xxxxx-xxxxx format", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    expect(codes.every((code) => /^[a-z2-9]{5}-[a-z2-9]{5}$/.test(code))).toBe(true);
+  });
+
+  it("hashes codes regardless of case, spaces and dashes", () => {
+    expect(hashRecoveryCode(" K7M2P-X9Q4R ")).toBe(hashRecoveryCode("k7m2px9q4r"));
+    expect(hashRecoveryCode("k7m2p-x9q4r")).not.toBe(hashRecoveryCode("k7m2p-x9q4s"));
+  });
+});
+
+describe("login challenge token", () => {
+  it("identifies the user and is not accepted as an access token", async () => {
+    const token = await generateTwoFactorChallenge(42);
+
+    expect(await verifyTwoFactorChallenge(token)).toBe(42);
+    expect(await verifyAccessToken(token)).toBeNull();
+    expect(await verifyTwoFactorChallenge(token.slice(0, -2) + "xx")).toBeNull();
+  });
+});
@@ -31,11 +31,72 @@ describe("zod schemas", () => {
       cnpjCpf: "529.982.247-25",
       phone: "(11) 98765-4321",
       email: "cliente@example.com",
-      address: "Av. Brasil, 100",
+      addresses: [
+        {
+          type: "BILLING",
+          cep: "01310-100",
+          logradouro: "Avenida Paulista",
+          numero: "1000",
+          bairro: "Bela Vista",
+          cidade: "São Paulo",
+          uf: "SP",
+        },
+      ],
     });
     expect(result.success).toBe(true);
   });
 
+  it("ClientSchema requires a billing address", () => {
+    const delivery = {
+      type: "DELIVERY",
+      cep: "80010-000",
+      logradouro: "Rua XV de Novembro",
+      numero: "10",
+      bairro: "Centro",
+      cidade: "Curitiba",
+      uf: "XX",
+    };
+    const result = ClientSchema.safeParse({
+      name: "Cliente X",
+      cnpjCpf: "529.982.247-25",
+      phone: "(11) 98765-4321",
+      email: "cliente@example.com",
+      addresses: [delivery],
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path.join("."))).toEqual(["addresses.0.uf", "addresses"]);
+  });
+
+  it("ClientSchema allows one primary contact", () => {
+    const client = {
+      name: "Cliente X",
+      cnpjCpf: "529.982.247-25",
+      phone: "(11) 98765-4321",
+      email: "cliente@example.com",
+      addresses: [
+        {
+          type: "BILLING",
+          cep: "01310-100",
+          logradouro: "Avenida Paulista",
+          numero: "1000",
+          bairro: "Bela Vista",
+          cidade: "São Paulo",
+          uf: "SP",
+        },
+      ],
+    };
+    const ana = { name: "Ana", role: "Editora", email: "", phone: "", isPrimary: true };
+    const bruno = { name: "Bruno", email: "bruno@example.com", isPrimary: false };
+
+    expect(ClientSchema.safeParse({ ...client, contacts: [ana, bruno] }).success).toBe(true);
+
+    const twoPrimary = ClientSchema.safeParse({ ...client, contacts: [ana, { ...bruno, isPrimary: true }] });
+    expect(twoPrimary.error?.issues.map((issue) => issue.path.join("."))).toEqual(["contacts"]);
+
+    const badEmail = ClientSchema.safeParse({ ...client, contacts: [{ ...bruno, email: "bruno" }] });
+    expect(badEmail.error?.issues.map((issue) => issue.path.join("."))).toEqual(["contacts.0.email"]);
+  });
+
   it("CenterSchema happy path", () => {
     const result = CenterSchema.safeParse({ name: "Centro A", type: "Interno", obs: "" });
     expect(result.success).toBe(true);
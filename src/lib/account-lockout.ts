@@ -0,0 +1,61 @@
+// src/lib/account-lockout.ts
+//
+// Progressive account lockout. Every LOCKOUT_THRESHOLD consecutive failed
+// logins lock the account, for twice as long as the previous lockout (15
+// minutes, 30, 1 hour... up to a day). A successful login or an admin unlock
+// clears the history.
+
+import type { Prisma } from "@/generated/prisma";
+
+export const LOCKOUT_THRESHOLD = 5;
+
+const BASE_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+export interface LockoutState {
+  lockedUntil: Date | null;
+}
+
+export function lockoutDurationMs(previousLockouts: number): number {
+  return Math.min(BASE_LOCKOUT_MS * 2 ** Math.max(0, previousLockouts), MAX_LOCKOUT_MS);
+}
+
+export function isAccountLocked(user: LockoutState, now: Date = new Date()): boolean {
+  return user.lockedUntil !== null && user.lockedUntil > now;
+}
+
+/**
+ * Records a wrong password. Returns the lock expiry when this failure locked
+ * the account, otherwise null.
+ */
+export async function recordFailedLogin(
+  db: Prisma.TransactionClient,
+  userId: number,
+  now: Date = new Date()
+): Promise<Date | null> {
+  const user = await db.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true, lockoutCount: true },
+  });
+
+  if (user.failedLoginAttempts < LOCKOUT_THRESHOLD) return null;
+
+  const lockedUntil = new Date(now.getTime() + lockoutDurationMs(user.lockoutCount));
+  await db.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lockoutCount: { increment: 1 }, lockedUntil },
+  });
+  return lockedUntil;
+}
+
+export async function recordSuccessfulLogin(db: Prisma.TransactionClient, userId: number): Promise<void> {
+  await db.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lockoutCount: 0, lockedUntil: null },
+  });
+}
+
+export async function unlockAccount(db: Prisma.TransactionClient, userId: number): Promise<void> {
+  await recordSuccessfulLogin(db, userId);
+}
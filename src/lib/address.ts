@@ -0,0 +1,105 @@
+// src/lib/address.ts
+//
+// Structured Brazilian addresses of clients. Every client has one billing
+// address and may have any number of delivery addresses. Client.address keeps
+// the billing address on a single line for the listings and printed documents
+// that show it.
+
+import type { Prisma } from "@/generated/prisma";
+
+export const ADDRESS_TYPES = ["BILLING", "DELIVERY"] as const;
+export type AddressType = (typeof ADDRESS_TYPES)[number];
+
+export const ADDRESS_TYPE_LABELS: Record<AddressType, string> = {
+  BILLING: "Cobrança",
+  DELIVERY: "Entrega",
+};
+
+export const BRAZIL_UFS = [
+  "AC", "AL", "AP", "AM", "BA", "CE", "DF", "ES", "GO", "MA", "MT", "MS", "MG", "PA",
+  "PB", "PR", "PE", "PI", "RJ", "RN", "RS", "RO", "RR", "SC", "SP", "SE", "TO",
+] as const;
+export type UF = (typeof BRAZIL_UFS)[number];
+
+export interface AddressFields {
+  cep: string;
+  logradouro: string;
+  numero: string;
+  complemento?: string | null;
+  bairro: string;
+  cidade: string;
+  uf: string;
+}
+
+export interface ClientAddressFields extends AddressFields {
+  type: AddressType;
+}
+
+/**
+ * The 8 digits of a CEP ("01310-100" -> "01310100"), or null when it does
+ * not have 8 digits.
+ */
+export function normalizeCep(value: string): string | null {
+  const digits = (value || "").replace(/\D+/g, "");
+  return digits.length === 8 ? digits : null;
+}
+
+/**
+ * Input mask: "01310100" -> "01310-100", also while the CEP is being typed.
+ */
+export function formatCep(value: string): string {
+  const digits = (value || "").replace(/\D+/g, "").slice(0, 8);
+  return digits.length > 5 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : digits;
+}
+
+/**
+ * "Av. Paulista, 1000, Conj. 12 - Bela Vista, São Paulo/SP - CEP 01310-100"
+ */
+export function formatAddress(address: AddressFields): string {
+  const street = [address.logradouro, address.numero, address.complemento].map((part) => part?.trim()).filter(Boolean).join(", ");
+  return `${street} - ${address.bairro}, ${address.cidade}/${address.uf} - CEP ${formatCep(address.cep)}`;
+}
+
+/**
+ * Rows to store for validated input (one BILLING entry, see ClientSchema).
+ */
+export function toAddressRows(addresses: ClientAddressFields[]) {
+  return addresses.map((address) => ({
+    type: address.type,
+    cep: normalizeCep(address.cep) ?? address.cep,
+    logradouro: address.logradouro.trim(),
+    numero: address.numero.trim(),
+    complemento: address.complemento?.trim() || null,
+    bairro: address.bairro.trim(),
+    cidade: address.cidade.trim(),
+    uf: address.uf,
+  }));
+}
+
+/**
+ * Value of Client.address for a set of addresses.
+ */
+export function billingAddressLine(addresses: ClientAddressFields[]): string {
+  const billing = addresses.find((address) => address.type === "BILLING") ?? addresses[0];
+  return billing ? formatAddress(billing) : "";
+}
+
+type Db = Prisma.TransactionClient;
+
+export async function listClientAddresses(db: Db, clientId: number) {
+  return db.clientAddress.findMany({
+    where: { clientId },
+    orderBy: [{ type: "asc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Replaces the addresses of a client, keeping Client.address in step.
+ */
+export async function replaceClientAddresses(db: Db, clientId: number, addresses: ClientAddressFields[]): Promise<void> {
+  await db.clientAddress.deleteMany({ where: { clientId } });
+  await db.clientAddress.createMany({
+    data: toAddressRows(addresses).map((row) => ({ ...row, clientId })),
+  });
+  await db.client.update({ where: { id: clientId }, data: { address: billingAddressLine(addresses) } });
+}
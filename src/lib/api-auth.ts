@@ -1,11 +1,14 @@
 import { NextRequest } from 'next/server';
-import { Role } from './rbac';
+import { Role, Permission, ROLE_HIERARCHY } from './rbac';
 import { verifyAccessToken, extractAccessToken } from './auth';
 
 export interface AuthenticatedUser {
   userId: number;
   email: string;
-  role: Role;
+  // Role key: a built-in Role or a custom role (see src/lib/roles.ts)
+  role: string;
+  // Permissions of the role, resolved when the access token was issued
+  permissions: Permission[];
 }
 
 export class ApiAuthError extends Error {
@@ -46,15 +49,24 @@ export function getAuthenticatedUser(request: NextRequest): AuthenticatedUser {
   return {
     userId: decoded.userId,
     email: decoded.email,
-    role: decoded.role as Role
+    role: decoded.role,
+    permissions: decoded.permissions ?? []
   };
 }
 
+/**
+ * Check a permission of the authenticated user. Uses the permissions from the
+ * token, so custom roles and edited built-in roles are honoured.
+ */
+export function hasPermission(user: AuthenticatedUser, permission: Permission): boolean {
+  return user.permissions.includes(permission);
+}
+
 /**
  * Require specific role
  */
 export function requireRole(user: AuthenticatedUser, requiredRole: Role): void {
-  if (user.role !== requiredRole && !hasHigherRole(user.role, requiredRole)) {
+  if (user.role !== requiredRole && !hasHigherRole(user.role as Role, requiredRole)) {
     throw new ApiAuthError('Insufficient permissions', 403);
   }
 }
@@ -73,45 +85,77 @@ function hasHigherRole(userRole: Role, requiredRole: Role): boolean {
 }
 
 /**
- * Check if user can manage another user
+ * Check if user can manage another user, by the levels of their roles
+ * (see resolveRole in src/lib/roles.ts)
  */
-export function canManageUser(actorRole: Role, targetRole: Role): boolean {
-  const hierarchy = {
-    [Role.USER]: 1,
-    [Role.MODERATOR]: 2,
-    [Role.ADMIN]: 3
-  };
-  
-  return hierarchy[actorRole] > hierarchy[targetRole];
+export function canManageUser(actorRole: { level: number }, targetRole: { level: number }): boolean {
+  return actorRole.level > targetRole.level;
 }
 
 /**
- * Apply user-specific data filtering based on role
+ * Check if the actor may give a role to a user. Levels say nothing about the
+ * permissions of custom roles, so the role must not grant anything the actor
+ * lacks. The top level (ADMIN) may also appoint peers.
  */
-export function applyUserFilter(user: AuthenticatedUser, baseWhere: Record<string, unknown> = {}) {
-  switch (user.role) {
-    case Role.ADMIN:
-      return baseWhere; // No restrictions for admins
-      
-    case Role.MODERATOR:
-      return baseWhere; // Moderators can see all data but with field restrictions
-      
-    case Role.USER:
-      return {
-        ...baseWhere,
+export function canAssignRole(
+  actorRole: { level: number; permissions: Permission[] },
+  role: { level: number; permissions: Permission[] }
+): boolean {
+  const outranks = canManageUser(actorRole, role) || actorRole.level >= ROLE_HIERARCHY[Role.ADMIN];
+  return outranks && role.permissions.every((permission) => actorRole.permissions.includes(permission));
+}
+
+/**
+ * Apply user-specific data filtering based on role.
+ * Works with Budget, Order and Client where inputs (all have the ownership columns).
+ * The ownership condition is combined with AND so an OR in baseWhere (search) is kept.
+ */
+export function applyUserFilter<T extends object>(user: AuthenticatedUser, baseWhere: T = {} as T): T {
+  // Moderators and admins see all rows (field restrictions still apply)
+  if (hasPermission(user, Permission.VIEW_ALL_RECORDS)) {
+    return baseWhere;
+  }
+
+  return {
+    AND: [
+      baseWhere,
+      {
         OR: [
           { createdByUserId: user.userId },
           { assignedToUserId: user.userId }
         ]
-      };
-      
+      }
+    ]
+  } as T;
+}
+
+/**
+ * "My items" views offered on the list pages
+ */
+export const OWNERSHIP_VIEWS = ['mine', 'assigned'] as const;
+export type OwnershipView = (typeof OWNERSHIP_VIEWS)[number];
+
+export function parseOwnershipView(value: string | null): OwnershipView | null {
+  return (OWNERSHIP_VIEWS as readonly string[]).includes(value ?? '') ? (value as OwnershipView) : null;
+}
+
+/**
+ * Narrow a where input to the items the user created ("mine") or is assigned to ("assigned")
+ */
+export function applyOwnershipView<T extends object>(user: AuthenticatedUser, view: OwnershipView | null, baseWhere: T): T {
+  switch (view) {
+    case 'mine':
+      return { AND: [baseWhere, { createdByUserId: user.userId }] } as T;
+    case 'assigned':
+      return { AND: [baseWhere, { assignedToUserId: user.userId }] } as T;
     default:
-      return { id: -1 }; // No access for unknown roles
+      return baseWhere;
   }
 }
 
 /**
- * Get field selection based on user role (for data filtering)
+ * Get field selection based on user role (for data filtering).
+ * Custom roles get the USER fields.
  */
 export function getFieldSelection(user: AuthenticatedUser, resourceType: 'client' | 'order' | 'budget' | 'user') {
   switch (resourceType) {
@@ -121,10 +165,11 @@ export function getFieldSelection(user: AuthenticatedUser, resourceType: 'client
           return undefined; // All fields
         case Role.MODERATOR:
           return {
-            id: true, name: true, email: true, cnpjCpf: true,
-            phone: true, createdAt: true, updatedAt: true
+            id: true, name: true, tradeName: true, email: true, cnpjCpf: true, registrationStatus: true,
+            phone: true, address: true, assignedToUserId: true, createdAt: true, updatedAt: true
           };
         case Role.USER:
+        default:
           return {
             id: true, name: true, email: true, phone: true, createdAt: true
           };
@@ -141,6 +186,7 @@ export function getFieldSelection(user: AuthenticatedUser, resourceType: 'client
             description: true, client: true, createdAt: true, updatedAt: true
           };
         case Role.USER:
+        default:
           return {
             id: true, numeroOrdem: true, valorTotal: true, status: true,
             description: true, client: { select: { id: true, name: true } },
@@ -149,6 +195,21 @@ export function getFieldSelection(user: AuthenticatedUser, resourceType: 'client
       }
       break;
       
+    case 'budget':
+      switch (user.role) {
+        case Role.ADMIN:
+        case Role.MODERATOR:
+          return undefined; // All fields
+        case Role.USER:
+        default:
+          // No prices
+          return {
+            id: true, clientId: true, numero_pedido: true, titulo: true, status: true,
+            tiragem: true, data_pedido: true, data_entrega: true, solicitante: true
+          };
+      }
+      break;
+      
     case 'user':
       switch (user.role) {
         case Role.ADMIN:
@@ -158,6 +219,7 @@ export function getFieldSelection(user: AuthenticatedUser, resourceType: 'client
             id: true, email: true, name: true, role: true, createdAt: true
           };
         case Role.USER:
+        default:
           return {
             id: true, email: true, name: true, createdAt: true
           };
@@ -175,23 +237,13 @@ export function getFieldSelection(user: AuthenticatedUser, resourceType: 'client
  * Check if user can access a specific resource (ownership check)
  */
 export function canAccessResource(user: AuthenticatedUser, resource: Record<string, unknown>): boolean {
-  // Admins can access everything
-  if (user.role === Role.ADMIN) {
+  if (hasPermission(user, Permission.VIEW_ALL_RECORDS)) {
     return true;
   }
-  
-  // Moderators can access most things
-  if (user.role === Role.MODERATOR) {
-    return true;
-  }
-  
-  // Users can only access their own resources
-  if (user.role === Role.USER) {
-    return resource.createdByUserId === user.userId || 
-           resource.assignedToUserId === user.userId;
-  }
-  
-  return false;
+
+  // Everyone else only reaches rows they created or are assigned to
+  return resource.createdByUserId === user.userId ||
+         resource.assignedToUserId === user.userId;
 }
 
 /**
@@ -0,0 +1,218 @@
+// src/lib/audit-extension.ts
+//
+// Prisma client extension that writes AuditLog rows (see src/lib/audit.ts)
+// for every mutation of an audited model, so no route has to remember to.
+//
+// Inside an interactive transaction the previous version of a record is read
+// through the transaction, and the entries wait until it commits (see
+// runAuditedTransaction): a rollback leaves none behind, and the transaction
+// needs no second connection. Elsewhere the plain client passed in does both.
+// A failed audit write is logged instead of failing the request.
+
+import { Prisma, type PrismaClient } from "@/generated/prisma";
+import {
+  applyUpdateData,
+  buildAuditEntry,
+  getAuditContext,
+  getAuditTransaction,
+  isAuditedModel,
+  runAuditedTransaction,
+  type AuditAction,
+  type AuditedModel,
+  type AuditEntry,
+  type AuditRecord,
+  type PendingAuditEntry,
+} from "./audit";
+
+type QueryArgs = {
+  where?: unknown;
+  data?: unknown;
+  select?: Record<string, unknown> | null;
+  omit?: Record<string, unknown> | null;
+};
+
+interface ModelDelegate {
+  findUnique(args: { where: unknown }): Promise<AuditRecord | null>;
+  findMany(args: { where: unknown }): Promise<AuditRecord[]>;
+}
+
+const MUTATIONS = new Set([
+  "create",
+  "update",
+  "upsert",
+  "delete",
+  "createMany",
+  "createManyAndReturn",
+  "updateMany",
+  "updateManyAndReturn",
+  "deleteMany",
+]);
+
+const scalarFieldCache = new Map<string, string[]>();
+
+function scalarFields(model: AuditedModel): string[] {
+  let fields = scalarFieldCache.get(model);
+  if (!fields) {
+    fields =
+      Prisma.dmmf.datamodel.models
+        .find((entry) => entry.name === model)
+        ?.fields.filter((field) => field.kind === "scalar" || field.kind === "enum")
+        .map((field) => field.name) ?? [];
+    scalarFieldCache.set(model, fields);
+  }
+  return fields;
+}
+
+// Drops relations brought in by include
+function scalarsOf(model: AuditedModel, record: AuditRecord): AuditRecord {
+  return Object.fromEntries(scalarFields(model).filter((field) => field in record).map((field) => [field, record[field]]));
+}
+
+/**
+ * Makes a create/update return every scalar field so the entry can be built
+ * from its result; the fields the caller did not ask for are removed again
+ * by hideFields.
+ */
+function widenSelection(model: AuditedModel, args: QueryArgs): { args: QueryArgs; hidden: string[] } {
+  const { select, omit } = args;
+  if (select) {
+    const hidden = scalarFields(model).filter((field) => !select[field]);
+    return { args: { ...args, select: { ...select, ...Object.fromEntries(hidden.map((field) => [field, true])) } }, hidden };
+  }
+  if (omit) {
+    const hidden = Object.keys(omit).filter((field) => omit[field]);
+    return { args: { ...args, omit: undefined }, hidden };
+  }
+  return { args, hidden: [] };
+}
+
+function hideFields<T>(result: T, hidden: string[]): T {
+  if (hidden.length === 0 || !result || typeof result !== "object") return result;
+  const visible = { ...(result as AuditRecord) };
+  for (const field of hidden) delete visible[field];
+  return visible as T;
+}
+
+function toJson(record: AuditRecord | null): Prisma.InputJsonValue | undefined {
+  return record ? (record as Prisma.InputJsonValue) : undefined;
+}
+
+export function auditExtension(base: PrismaClient) {
+  // Reads go through the current transaction, if any
+  const delegate = (model: AuditedModel) =>
+    ((getAuditTransaction()?.db ?? base) as Record<string, ModelDelegate>)[model.charAt(0).toLowerCase() + model.slice(1)];
+
+  async function write(rows: PendingAuditEntry[]): Promise<void> {
+    try {
+      await base.auditLog.createMany({
+        data: rows.map((entry) => ({
+          entity: entry.entity,
+          entityId: entry.entityId,
+          action: entry.action,
+          before: toJson(entry.before),
+          after: toJson(entry.after),
+          actorId: entry.actorId,
+          actorEmail: entry.actorEmail,
+          ipAddress: entry.ipAddress,
+          requestId: entry.requestId,
+        })),
+      });
+    } catch (error) {
+      console.error("[AUDIT] Failed to record audit log entries:", error);
+    }
+  }
+
+  async function record(entries: (AuditEntry | null)[]): Promise<void> {
+    const context = getAuditContext();
+    const rows = entries
+      .filter((entry): entry is AuditEntry => entry !== null)
+      .map((entry) => ({ ...entry, ...context }));
+    if (rows.length === 0) return;
+
+    const transaction = getAuditTransaction();
+    if (transaction) {
+      transaction.pending.push(...rows);
+    } else {
+      await write(rows);
+    }
+  }
+
+  return Prisma.defineExtension({
+    name: "audit-log",
+    client: {
+      // Interactive transactions hold their entries back until they commit;
+      // batch transactions only resolve their queries once committed
+      $transaction(this: PrismaClient, input: unknown, options?: unknown) {
+        const begin = (base.$transaction as unknown as (input: unknown, options?: unknown) => Promise<unknown>).bind(this);
+        if (typeof input !== "function") {
+          return begin(input, options);
+        }
+        return runAuditedTransaction(
+          (callback) => begin(callback, options),
+          input as (tx: unknown) => Promise<unknown>,
+          write
+        );
+      },
+    },
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          if (!isAuditedModel(model) || !MUTATIONS.has(operation)) {
+            return query(args);
+          }
+          const queryArgs = args as QueryArgs;
+
+          switch (operation) {
+            case "create": {
+              const widened = widenSelection(model, queryArgs);
+              const result = (await query(widened.args as typeof args)) as AuditRecord;
+              await record([buildAuditEntry(model, "CREATE", null, scalarsOf(model, result))]);
+              return hideFields(result, widened.hidden);
+            }
+
+            case "update":
+            case "upsert": {
+              const before = await delegate(model).findUnique({ where: queryArgs.where });
+              const widened = widenSelection(model, queryArgs);
+              const result = (await query(widened.args as typeof args)) as AuditRecord;
+              const action: AuditAction = before ? "UPDATE" : "CREATE";
+              await record([buildAuditEntry(model, action, before, scalarsOf(model, result))]);
+              return hideFields(result, widened.hidden);
+            }
+
+            case "delete": {
+              const before = await delegate(model).findUnique({ where: queryArgs.where });
+              const result = await query(args);
+              await record([buildAuditEntry(model, "DELETE", before, null)]);
+              return result;
+            }
+
+            case "createMany":
+            case "createManyAndReturn": {
+              const result = await query(args);
+              const data = Array.isArray(queryArgs.data) ? queryArgs.data : [queryArgs.data];
+              await record(data.map((row) => buildAuditEntry(model, "CREATE", null, row as AuditRecord)));
+              return result;
+            }
+
+            case "updateMany":
+            case "updateManyAndReturn": {
+              const before = await delegate(model).findMany({ where: queryArgs.where ?? {} });
+              const result = await query(args);
+              const data = (queryArgs.data ?? {}) as AuditRecord;
+              await record(before.map((row) => buildAuditEntry(model, "UPDATE", row, applyUpdateData(row, data))));
+              return result;
+            }
+
+            default: {
+              const before = await delegate(model).findMany({ where: queryArgs.where ?? {} });
+              const result = await query(args);
+              await record(before.map((row) => buildAuditEntry(model, "DELETE", row, null)));
+              return result;
+            }
+          }
+        },
+      },
+    },
+  });
+}
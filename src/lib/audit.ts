@@ -0,0 +1,219 @@
+// src/lib/audit.ts
+//
+// Audit trail of data mutations. The Prisma client extension in
+// src/lib/audit-extension.ts turns every create/update/delete of an audited
+// model into AuditLog rows built here; who made the change comes from the
+// request context that withPermission opens around each API handler.
+//
+// Updates store only the fields that changed. Secrets are never copied into
+// the log: a password change shows up as "[redacted]" on both sides.
+//
+// Writes made inside an interactive transaction are logged once it commits
+// (runAuditedTransaction), so a rollback leaves no entries behind.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export type AuditAction = "CREATE" | "UPDATE" | "DELETE";
+
+export interface AuditContext {
+  actorId: number | null;
+  actorEmail: string | null;
+  ipAddress: string | null;
+  requestId: string | null;
+}
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+export function runWithAuditContext<T>(context: AuditContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Actor of the current request; empty outside an authenticated API call
+ * (login, refresh, scripts).
+ */
+export function getAuditContext(): AuditContext {
+  return storage.getStore() ?? { actorId: null, actorEmail: null, ipAddress: null, requestId: null };
+}
+
+// AuditLog row: the entry and who made the change
+export type PendingAuditEntry = AuditEntry & AuditContext;
+
+interface AuditTransaction {
+  // The transaction client; previous versions of records are read through it
+  db: unknown;
+  pending: PendingAuditEntry[];
+}
+
+const transactionStorage = new AsyncLocalStorage<AuditTransaction>();
+
+/**
+ * Runs an interactive transaction through `begin` (the client's own
+ * $transaction) and hands the entries queued by its writes to `flush` after
+ * it commits. When the callback throws, the transaction rolls back and its
+ * entries are dropped.
+ */
+export async function runAuditedTransaction<Tx, T>(
+  begin: (callback: (tx: Tx) => Promise<T>) => Promise<T>,
+  callback: (tx: Tx) => Promise<T>,
+  flush: (entries: PendingAuditEntry[]) => Promise<void>
+): Promise<T> {
+  const pending: PendingAuditEntry[] = [];
+  const result = await begin((tx) => transactionStorage.run({ db: tx, pending }, () => callback(tx)));
+  if (pending.length > 0) {
+    await flush(pending);
+  }
+  return result;
+}
+
+/**
+ * The interactive transaction the current code runs in, if any.
+ */
+export function getAuditTransaction(): AuditTransaction | undefined {
+  return transactionStorage.getStore();
+}
+
+// Models whose mutations are logged. Sessions, tokens, rate-limit buckets and
+// the like change on every request and have their own records.
+export const AUDITED_MODELS = [
+  "Client",
+  "ClientAddress",
+  "ClientContact",
+  "Center",
+  "PriceTableItem",
+  "Budget",
+  "Order",
+  "Delivery",
+  "User",
+  "Role",
+  "RolePermission",
+] as const;
+
+export type AuditedModel = (typeof AUDITED_MODELS)[number];
+
+export function isAuditedModel(model: string | undefined): model is AuditedModel {
+  return (AUDITED_MODELS as readonly string[]).includes(model ?? "");
+}
+
+// Bookkeeping that changes without anyone editing the record
+const IGNORED_FIELDS: Partial<Record<AuditedModel, string[]>> = {
+  User: ["failedLoginAttempts", "lockoutCount", "lockedUntil", "totpLastStep"],
+};
+
+const REDACTED_FIELDS = new Set(["password", "totpSecret"]);
+const REDACTED = "[redacted]";
+
+export type AuditRecord = Record<string, unknown>;
+
+// Dates become ISO strings and Decimals their string form, as in the API
+function toJsonValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+function isLogged(model: AuditedModel, field: string): boolean {
+  return field !== "updatedAt" && !IGNORED_FIELDS[model]?.includes(field);
+}
+
+/**
+ * JSON-safe copy of a record with secrets masked and bookkeeping fields left out.
+ */
+export function snapshotRecord(model: AuditedModel, record: AuditRecord): AuditRecord {
+  const snapshot: AuditRecord = {};
+  for (const [field, value] of Object.entries(record)) {
+    if (!isLogged(model, field)) continue;
+    snapshot[field] = REDACTED_FIELDS.has(field) && value != null ? REDACTED : toJsonValue(value);
+  }
+  return snapshot;
+}
+
+/**
+ * The fields that differ between two versions of a record, or null when
+ * nothing worth logging changed.
+ */
+export function diffRecords(
+  model: AuditedModel,
+  before: AuditRecord,
+  after: AuditRecord
+): { before: AuditRecord; after: AuditRecord } | null {
+  const changedBefore: AuditRecord = {};
+  const changedAfter: AuditRecord = {};
+
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (!isLogged(model, field)) continue;
+    const previous = toJsonValue(before[field]);
+    const next = toJsonValue(after[field]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    const redacted = REDACTED_FIELDS.has(field);
+    changedBefore[field] = redacted && previous !== null ? REDACTED : previous;
+    changedAfter[field] = redacted && next !== null ? REDACTED : next;
+  }
+
+  return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : null;
+}
+
+const NUMBER_OPERATIONS: Record<string, (current: number, operand: number) => number> = {
+  increment: (current, operand) => current + operand,
+  decrement: (current, operand) => current - operand,
+  multiply: (current, operand) => current * operand,
+  divide: (current, operand) => current / operand,
+};
+
+/**
+ * A record after applying updateMany data to it: plain values replace the
+ * field, `{ set }` and the numeric operations are evaluated. updateMany does
+ * not return rows, so their new versions are derived from the data.
+ */
+export function applyUpdateData(before: AuditRecord, data: AuditRecord): AuditRecord {
+  const after = { ...before };
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    after[field] = value;
+
+    if (value === null || typeof value !== "object" || value instanceof Date || Array.isArray(value)) continue;
+    const [operation, operand] = Object.entries(value)[0] ?? [];
+    if (operation === "set") {
+      after[field] = operand;
+    } else if (operation && operation in NUMBER_OPERATIONS && typeof before[field] === "number") {
+      after[field] = NUMBER_OPERATIONS[operation](before[field] as number, Number(operand));
+    }
+  }
+  return after;
+}
+
+export interface AuditEntry {
+  entity: AuditedModel;
+  entityId: string | null;
+  action: AuditAction;
+  before: AuditRecord | null;
+  after: AuditRecord | null;
+}
+
+function entityIdOf(record: AuditRecord | null): string | null {
+  const id = record?.id;
+  return id === undefined || id === null ? null : String(id);
+}
+
+/**
+ * Log entry for one record, or null for an update that changed nothing.
+ * Pass the record as it was before (update/delete) and after (create/update).
+ */
+export function buildAuditEntry(
+  model: AuditedModel,
+  action: AuditAction,
+  before: AuditRecord | null,
+  after: AuditRecord | null
+): AuditEntry | null {
+  const entityId = entityIdOf(after) ?? entityIdOf(before);
+
+  if (action === "CREATE") {
+    return { entity: model, entityId, action, before: null, after: after && snapshotRecord(model, after) };
+  }
+  if (action === "DELETE") {
+    return { entity: model, entityId, action, before: before && snapshotRecord(model, before), after: null };
+  }
+
+  const diff = diffRecords(model, before ?? {}, after ?? {});
+  return diff && { entity: model, entityId, action, ...diff };
+}
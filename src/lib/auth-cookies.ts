@@ -0,0 +1,69 @@
+// src/lib/auth-cookies.ts
+//
+// Cookies of a login, set identically by every auth route:
+// - accessToken: httpOnly, sent to every path; scripts never see it.
+// - refreshToken: httpOnly, only sent to /api/auth (refresh, logout, sessions).
+// - csrfToken: readable by scripts for the double-submit check (src/lib/csrf.ts).
+
+import type { NextRequest, NextResponse } from "next/server";
+import { REFRESH_TOKEN_TTL_SECONDS } from "./unified-auth";
+import { CSRF_COOKIE_NAME, generateCsrfToken } from "./csrf";
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+const REFRESH_TOKEN_PATH = "/api/auth";
+
+function baseOptions() {
+  return {
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict" as const,
+  };
+}
+
+export function setAccessTokenCookie(response: NextResponse, accessToken: string) {
+  response.cookies.set("accessToken", accessToken, {
+    ...baseOptions(),
+    httpOnly: true,
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+    path: "/",
+  });
+}
+
+export function setRefreshTokenCookie(response: NextResponse, refreshToken: string) {
+  response.cookies.set("refreshToken", refreshToken, {
+    ...baseOptions(),
+    httpOnly: true,
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
+    path: REFRESH_TOKEN_PATH,
+  });
+}
+
+/**
+ * Keeps the CSRF token of the browser when it has one, so requests already
+ * prepared in other tabs stay valid; otherwise issues a new one.
+ */
+export function ensureCsrfCookie(request: NextRequest, response: NextResponse) {
+  const token = request.cookies.get(CSRF_COOKIE_NAME)?.value || generateCsrfToken();
+  response.cookies.set(CSRF_COOKIE_NAME, token, {
+    ...baseOptions(),
+    httpOnly: false,
+    maxAge: REFRESH_TOKEN_TTL_SECONDS,
+    path: "/",
+  });
+}
+
+export function setAuthCookies(request: NextRequest, response: NextResponse, tokens: { accessToken: string; refreshToken: string }) {
+  setAccessTokenCookie(response, tokens.accessToken);
+  setRefreshTokenCookie(response, tokens.refreshToken);
+  ensureCsrfCookie(request, response);
+}
+
+export function clearRefreshTokenCookie(response: NextResponse) {
+  response.cookies.set("refreshToken", "", { ...baseOptions(), httpOnly: true, maxAge: 0, path: REFRESH_TOKEN_PATH });
+}
+
+export function clearAuthCookies(response: NextResponse) {
+  response.cookies.set("accessToken", "", { ...baseOptions(), httpOnly: true, maxAge: 0, path: "/" });
+  clearRefreshTokenCookie(response);
+  response.cookies.set(CSRF_COOKIE_NAME, "", { ...baseOptions(), httpOnly: false, maxAge: 0, path: "/" });
+}
@@ -1,10 +1,13 @@
-import { Role } from "@/lib/rbac";
+import type { Permission } from "@/lib/rbac";
 
 export interface JWTPayload {
   userId: number;
   email: string;
   name: string;
-  role: Role;
+  // Role key: a built-in Role or a custom role from the Role table
+  role: string;
+  // Resolved when the token is issued (see src/lib/roles.ts)
+  permissions: Permission[];
   iat?: number;
   exp?: number;
 }
@@ -121,7 +121,7 @@ export function requireAuth(request: NextRequest): JWTPayload {
 
 export function requireRole(request: NextRequest, requiredRole: Role): JWTPayload {
   const user = requireAuth(request);
-  if (user.role !== requiredRole && !RBAC.canManageRole(user.role, requiredRole)) {
+  if (user.role !== requiredRole && !RBAC.canManageRole(user.role as Role, requiredRole)) {
     throw new AuthError("Insufficient permissions", 403);
   }
   return user;
@@ -129,7 +129,7 @@ export function requireRole(request: NextRequest, requiredRole: Role): JWTPayloa
 
 export function requirePermission(request: NextRequest, permission: Permission): JWTPayload {
   const user = requireAuth(request);
-  if (!RBAC.hasPermission(user.role, permission)) {
+  if (!user.permissions?.includes(permission)) {
     throw new AuthError("Insufficient permissions", 403);
   }
   return user;
@@ -137,7 +137,7 @@ export function requirePermission(request: NextRequest, permission: Permission):
 
 export function requireAnyPermission(request: NextRequest, permissions: Permission[]): JWTPayload {
   const user = requireAuth(request);
-  if (!RBAC.hasAnyPermission(user.role, permissions)) {
+  if (!permissions.some((permission) => user.permissions?.includes(permission))) {
     throw new AuthError("Insufficient permissions", 403);
   }
   return user;
@@ -145,7 +145,7 @@ export function requireAnyPermission(request: NextRequest, permissions: Permissi
 
 export function requireAllPermissions(request: NextRequest, permissions: Permission[]): JWTPayload {
   const user = requireAuth(request);
-  if (!RBAC.hasAllPermissions(user.role, permissions)) {
+  if (!permissions.every((permission) => user.permissions?.includes(permission))) {
     throw new AuthError("Insufficient permissions", 403);
   }
   return user;
@@ -158,7 +158,7 @@ export function requireAdmin(request: NextRequest): JWTPayload {
 
 export function requireModerator(request: NextRequest): JWTPayload {
   const user = requireAuth(request);
-  if (!RBAC.canManageRole(user.role, Role.USER)) {
+  if (!RBAC.canManageRole(user.role as Role, Role.USER)) {
     throw new AuthError("Moderator or Admin access required", 403);
   }
   return user;
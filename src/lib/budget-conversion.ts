@@ -0,0 +1,218 @@
+// src/lib/budget-conversion.ts
+//
+// Converts an approved budget into a production order. Creating the order,
+// reserving its number, marking the budget CONVERTED and recording the
+// workflow event all happen in one transaction, so a failure never leaves an
+// order whose budget is still APPROVED.
+//
+// Direct and rush orders skip the approval workflow: an implicit budget is
+// created already CONVERTED from the order data, in the same transaction.
+
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+import { nextSequenceNumber } from '@/lib/order-number';
+import { recordBudgetStatusEvent } from '@/lib/budget-history';
+import { isAssignableUser } from '@/lib/ownership';
+import { resolveRequesterContact } from '@/lib/client-contacts';
+import {
+  ORDER_TYPE_LABELS,
+  RUSH_SURCHARGE_DEFAULTS,
+  applyRushSurcharge,
+  validateOrderDeadline,
+} from '@/lib/order-types';
+import type { DirectOrderInput } from '@/lib/validation';
+
+export class BudgetConversionError extends Error {
+  constructor(public message: string, public status: number = 400) {
+    super(message);
+    this.name = 'BudgetConversionError';
+  }
+}
+
+export interface BudgetConversionInput {
+  budgetId: number;
+  actorId: number;
+  obs_producao?: string | null;
+  responsavel_producao?: string | null;
+}
+
+const CONVERTED_ORDER_INCLUDE = {
+  budget: {
+    include: {
+      client: true,
+      center: true,
+    },
+  },
+} satisfies Prisma.OrderInclude;
+
+export async function convertBudgetToOrder(input: BudgetConversionInput) {
+  const { budgetId, actorId, obs_producao, responsavel_producao } = input;
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const budget = await tx.budget.findUnique({
+        where: { id: budgetId },
+        include: { order: { select: { id: true } } },
+      });
+
+      if (!budget) {
+        throw new BudgetConversionError('Orçamento não encontrado', 404);
+      }
+      if (budget.order) {
+        throw new BudgetConversionError('Este orçamento já possui uma ordem associada', 409);
+      }
+      if (budget.status !== 'APPROVED') {
+        throw new BudgetConversionError('Apenas orçamentos aprovados podem ser convertidos em ordens', 400);
+      }
+
+      // Conditional update: a concurrent conversion that already moved the
+      // budget out of APPROVED makes this a no-op instead of a double convert
+      const converted = await tx.budget.updateMany({
+        where: { id: budgetId, status: 'APPROVED' },
+        data: { status: 'CONVERTED', convertedAt: new Date() },
+      });
+      if (converted.count === 0) {
+        throw new BudgetConversionError('Este orçamento já possui uma ordem associada', 409);
+      }
+
+      const order = await tx.order.create({
+        data: {
+          budgetId,
+          numero_pedido: await nextSequenceNumber(tx, 'ORDER'),
+          orderType: 'BUDGET_DERIVED',
+          obs_producao,
+          responsavel_producao,
+          status: 'PENDING',
+          // The order stays with whoever the budget was assigned to
+          createdByUserId: actorId,
+          assignedToUserId: budget.assignedToUserId,
+        },
+        include: CONVERTED_ORDER_INCLUDE,
+      });
+
+      await recordBudgetStatusEvent(tx, {
+        budgetId,
+        action: 'CONVERT',
+        fromStatus: budget.status,
+        toStatus: 'CONVERTED',
+        actorId,
+        comment: `Pedido ${order.numero_pedido}`,
+      });
+
+      return order;
+    });
+  } catch (error) {
+    // Two conversions racing on Order.budgetId (@unique)
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002' &&
+      String(error.meta?.target ?? '').includes('budgetId')
+    ) {
+      throw new BudgetConversionError('Este orçamento já possui uma ordem associada', 409);
+    }
+    throw error;
+  }
+}
+
+export interface ImplicitOrderInput {
+  data: DirectOrderInput;
+  actorId: number;
+}
+
+export async function createOrderWithImplicitBudget(input: ImplicitOrderInput) {
+  const { data, actorId } = input;
+  const {
+    orderType,
+    priority: requestedPriority,
+    rushSurchargePercent: requestedSurcharge,
+    obs_producao,
+    responsavel_producao,
+    ...budgetData
+  } = data;
+
+  const deadline = new Date(budgetData.data_entrega);
+  const deadlineError = validateOrderDeadline(orderType, deadline);
+  if (deadlineError) {
+    throw new BudgetConversionError(deadlineError, 400);
+  }
+
+  // Direct orders always run at normal priority; rush orders default to URGENT
+  const priority = orderType === 'RUSH_ORDER'
+    ? (requestedPriority === 'HIGH' ? 'HIGH' : 'URGENT')
+    : 'NORMAL';
+  const rushSurchargePercent = priority === 'NORMAL'
+    ? null
+    : requestedSurcharge ?? RUSH_SURCHARGE_DEFAULTS[priority];
+  const preco_unitario = rushSurchargePercent
+    ? applyRushSurcharge(budgetData.preco_unitario, rushSurchargePercent)
+    : budgetData.preco_unitario;
+
+  const [client, center, assigneeExists] = await Promise.all([
+    prisma.client.findFirst({ where: { id: budgetData.clientId, active: true }, select: { id: true } }),
+    prisma.center.findFirst({ where: { id: budgetData.centerId, active: true }, select: { id: true } }),
+    isAssignableUser(budgetData.assignedToUserId),
+  ]);
+  if (!client) {
+    throw new BudgetConversionError('Cliente não encontrado ou inativo', 400);
+  }
+  if (!center) {
+    throw new BudgetConversionError('Centro de produção não encontrado ou inativo', 400);
+  }
+  if (!assigneeExists) {
+    throw new BudgetConversionError('Responsável não encontrado', 400);
+  }
+  // Throws ClientContactError for a contact of another client
+  const contact = await resolveRequesterContact(prisma, budgetData.clientId, budgetData.contactId);
+
+  return prisma.$transaction(async (tx) => {
+    const now = new Date();
+
+    const budget = await tx.budget.create({
+      data: {
+        ...budgetData,
+        solicitante: contact?.name ?? budgetData.solicitante,
+        numero_pedido: await nextSequenceNumber(tx, 'BUDGET', now),
+        data_pedido: budgetData.data_pedido ? new Date(budgetData.data_pedido) : now,
+        data_entrega: deadline,
+        preco_unitario,
+        preco_total: Math.round(preco_unitario * budgetData.tiragem * 100) / 100,
+        status: 'CONVERTED',
+        approved: true,
+        submittedAt: now,
+        approvedAt: now,
+        approvedById: actorId,
+        convertedAt: now,
+        createdByUserId: actorId,
+      },
+    });
+
+    const order = await tx.order.create({
+      data: {
+        budgetId: budget.id,
+        numero_pedido: await nextSequenceNumber(tx, 'ORDER', now),
+        orderType,
+        priority,
+        rushSurchargePercent,
+        obs_producao,
+        responsavel_producao,
+        status: 'PENDING',
+        createdByUserId: actorId,
+        assignedToUserId: budget.assignedToUserId,
+      },
+      include: CONVERTED_ORDER_INCLUDE,
+    });
+
+    await recordBudgetStatusEvent(tx, {
+      budgetId: budget.id,
+      action: 'CONVERT',
+      fromStatus: 'DRAFT',
+      toStatus: 'CONVERTED',
+      actorId,
+      comment: rushSurchargePercent
+        ? `${ORDER_TYPE_LABELS[orderType]} ${order.numero_pedido} (acréscimo de ${rushSurchargePercent}%)`
+        : `${ORDER_TYPE_LABELS[orderType]} ${order.numero_pedido}`,
+    });
+
+    return order;
+  });
+}
@@ -0,0 +1,44 @@
+// src/lib/budget-history.ts
+//
+// Workflow history for budgets. Every status transition (submit, approve,
+// reject, convert, cancel) is stored as a BudgetStatusEvent together with the
+// actor and an optional comment, such as the rejection reason.
+
+import type { BudgetStatus, BudgetStatusAction, Prisma } from "@/generated/prisma";
+
+export const BUDGET_ACTION_LABELS: Record<BudgetStatusAction, string> = {
+  SUBMIT: "Enviado para aprovação",
+  APPROVE: "Aprovado",
+  REJECT: "Rejeitado",
+  CONVERT: "Convertido em pedido",
+  CANCEL: "Cancelado",
+};
+
+export interface BudgetStatusEventInput {
+  budgetId: number;
+  action: BudgetStatusAction;
+  fromStatus: BudgetStatus;
+  toStatus: BudgetStatus;
+  actorId: number | null;
+  comment?: string | null;
+}
+
+/**
+ * Records a budget status transition. Call it inside the same transaction
+ * that updates the budget so history and status never diverge.
+ */
+export function recordBudgetStatusEvent(
+  tx: Prisma.TransactionClient,
+  event: BudgetStatusEventInput
+) {
+  return tx.budgetStatusEvent.create({
+    data: {
+      budgetId: event.budgetId,
+      action: event.action,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      actorId: event.actorId,
+      comment: event.comment?.trim() || null,
+    },
+  });
+}
@@ -0,0 +1,111 @@
+// src/lib/budget-revisions.ts
+//
+// Budget revisions are immutable snapshots taken every time a budget is
+// submitted for approval, so the values a client was quoted are never lost
+// when a rejected budget is edited and resubmitted.
+
+import type { Budget, Prisma } from "@/generated/prisma";
+
+// Snapshotted fields and their labels, in the order they appear in the form
+export const BUDGET_REVISION_FIELDS = {
+  clientId: "Cliente",
+  centerId: "Centro de produção",
+  numero_pedido: "Nº do pedido",
+  data_pedido: "Data do pedido",
+  data_entrega: "Data de entrega",
+  solicitante: "Solicitante",
+  documento: "Documento",
+  editorial: "Editorial",
+  tipo_produto: "Tipo de produto",
+  titulo: "Título",
+  tiragem: "Tiragem",
+  formato: "Formato",
+  total_pgs: "Total de páginas",
+  pgs_colors: "Páginas coloridas",
+  cor_miolo: "Cor do miolo",
+  papel_miolo: "Papel do miolo",
+  papel_capa: "Papel da capa",
+  cor_capa: "Cor da capa",
+  laminacao: "Laminação",
+  acabamento: "Acabamento",
+  shrink: "Shrink",
+  centro_producao: "Centro de produção (texto)",
+  observacoes: "Observações",
+  preco_unitario: "Valor unitário",
+  preco_total: "Valor total",
+  prazo_producao: "Prazo de produção",
+  pagamento: "Pagamento",
+  frete: "Frete",
+} as const satisfies Partial<Record<keyof Budget, string>>;
+
+export type BudgetRevisionField = keyof typeof BUDGET_REVISION_FIELDS;
+
+export type BudgetSnapshotValue = string | number | boolean | null;
+export type BudgetSnapshot = Record<BudgetRevisionField, BudgetSnapshotValue>;
+
+export interface BudgetRevisionChange {
+  field: BudgetRevisionField;
+  label: string;
+  before: BudgetSnapshotValue;
+  after: BudgetSnapshotValue;
+}
+
+const toSnapshotValue = (value: unknown): BudgetSnapshotValue => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  return String(value);
+};
+
+export function buildBudgetSnapshot(budget: Budget): BudgetSnapshot {
+  const snapshot = {} as BudgetSnapshot;
+  for (const field of Object.keys(BUDGET_REVISION_FIELDS) as BudgetRevisionField[]) {
+    snapshot[field] = toSnapshotValue(budget[field]);
+  }
+  return snapshot;
+}
+
+/**
+ * Lists the fields that differ between two snapshots. Missing fields (older
+ * snapshots) are treated as null.
+ */
+export function diffBudgetSnapshots(
+  previous: Partial<BudgetSnapshot> | null,
+  next: Partial<BudgetSnapshot>
+): BudgetRevisionChange[] {
+  const changes: BudgetRevisionChange[] = [];
+  for (const field of Object.keys(BUDGET_REVISION_FIELDS) as BudgetRevisionField[]) {
+    const before = previous?.[field] ?? null;
+    const after = next[field] ?? null;
+    if (before !== after) {
+      changes.push({ field, label: BUDGET_REVISION_FIELDS[field], before, after });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Stores the next revision of a budget. Must run inside the same transaction
+ * that changes the budget status.
+ */
+export async function createBudgetRevision(
+  tx: Prisma.TransactionClient,
+  budget: Budget,
+  createdById: number | null
+) {
+  const last = await tx.budgetRevision.aggregate({
+    where: { budgetId: budget.id },
+    _max: { revision: true },
+  });
+
+  return tx.budgetRevision.create({
+    data: {
+      budgetId: budget.id,
+      revision: (last._max.revision ?? 0) + 1,
+      snapshot: buildBudgetSnapshot(budget),
+      createdById,
+    },
+  });
+}
@@ -0,0 +1,62 @@
+// src/lib/cep-lookup.ts
+//
+// CEP lookup used by the address autocomplete. CEP_LOOKUP_PROVIDER selects
+// the provider: "viacep" (default; CEP_LOOKUP_URL points to a compatible
+// mirror) or "offline" (local dataset only, see src/lib/cep/offline.ts). When
+// the provider fails the offline dataset answers instead.
+
+import type { CepAddress, CepLookupProvider } from "./cep/provider";
+import { ViaCepProvider } from "./cep/viacep";
+import { OfflineCepProvider } from "./cep/offline";
+import { normalizeCep } from "./address";
+
+let provider: CepLookupProvider | null = null;
+let fallback: CepLookupProvider | null = null;
+
+function createProvider(): CepLookupProvider {
+  switch (process.env.CEP_LOOKUP_PROVIDER) {
+    case "offline":
+      return getFallbackProvider();
+    default:
+      return new ViaCepProvider(process.env.CEP_LOOKUP_URL || undefined);
+  }
+}
+
+function getFallbackProvider(): CepLookupProvider {
+  fallback ??= new OfflineCepProvider();
+  return fallback;
+}
+
+export function getCepProvider(): CepLookupProvider {
+  provider ??= createProvider();
+  return provider;
+}
+
+export function setCepProvider(next: CepLookupProvider, nextFallback?: CepLookupProvider) {
+  provider = next;
+  if (nextFallback) fallback = nextFallback;
+}
+
+/**
+ * Address of a CEP in any format, or null when the CEP is malformed or
+ * unknown. Never throws: a provider outage falls back to the offline dataset.
+ */
+export async function lookupCep(value: string): Promise<CepAddress | null> {
+  const cep = normalizeCep(value);
+  if (!cep) return null;
+
+  const primary = getCepProvider();
+  try {
+    return await primary.lookup(cep);
+  } catch (error) {
+    console.error("[CEP] Lookup failed, using the offline dataset:", error instanceof Error ? error.message : error);
+  }
+
+  const offline = getFallbackProvider();
+  if (offline === primary) return null;
+  try {
+    return await offline.lookup(cep);
+  } catch {
+    return null;
+  }
+}
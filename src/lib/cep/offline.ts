@@ -0,0 +1,103 @@
+// src/lib/cep/offline.ts
+//
+// Lookup without network access. CEPs are first searched in a local CSV file
+// read from CEP_DATABASE_PATH (default data/cep.csv); each line is
+// `cep,logradouro,bairro,cidade,uf`, e.g.
+// `01310100,Avenida Paulista,Bela Vista,São Paulo,SP`. A CEP missing from the
+// file (or every CEP, without the file) still gets its state from the ranges
+// the Correios assign to each UF.
+
+import { readFile } from "fs/promises";
+import path from "path";
+import type { CepAddress, CepLookupProvider } from "./provider";
+
+const DEFAULT_DATABASE_PATH = "data/cep.csv";
+
+// First and last 5-digit prefix of each state's range
+const UF_RANGES: Array<[number, number, string]> = [
+  [1000, 19999, "SP"],
+  [20000, 28999, "RJ"],
+  [29000, 29999, "ES"],
+  [30000, 39999, "MG"],
+  [40000, 48999, "BA"],
+  [49000, 49999, "SE"],
+  [50000, 56999, "PE"],
+  [57000, 57999, "AL"],
+  [58000, 58999, "PB"],
+  [59000, 59999, "RN"],
+  [60000, 63999, "CE"],
+  [64000, 64999, "PI"],
+  [65000, 65999, "MA"],
+  [66000, 68899, "PA"],
+  [68900, 68999, "AP"],
+  [69000, 69299, "AM"],
+  [69300, 69399, "RR"],
+  [69400, 69899, "AM"],
+  [69900, 69999, "AC"],
+  [70000, 72799, "DF"],
+  [72800, 72999, "GO"],
+  [73000, 73699, "DF"],
+  [73700, 76799, "GO"],
+  [76800, 76999, "RO"],
+  [77000, 77999, "TO"],
+  [78000, 78899, "MT"],
+  [79000, 79999, "MS"],
+  [80000, 87999, "PR"],
+  [88000, 89999, "SC"],
+  [90000, 99999, "RS"],
+];
+
+/**
+ * State of a CEP (8 digits) from the Correios ranges, or null outside them.
+ */
+export function ufFromCep(cep: string): string | null {
+  const prefix = Number(cep.slice(0, 5));
+  return UF_RANGES.find(([first, last]) => prefix >= first && prefix <= last)?.[2] ?? null;
+}
+
+/**
+ * Parses the CSV dataset into a map keyed by CEP. Blank lines, `#` comments,
+ * a header row and malformed lines are skipped.
+ */
+export function parseCepCsv(text: string): Map<string, CepAddress> {
+  const entries = new Map<string, CepAddress>();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const [rawCep, logradouro, bairro, cidade, uf] = line.split(",").map((value) => value.trim());
+    const cep = (rawCep ?? "").replace(/\D+/g, "");
+    if (cep.length !== 8 || !uf || !/^[A-Z]{2}$/.test(uf)) continue;
+
+    entries.set(cep, { cep, logradouro: logradouro || null, bairro: bairro || null, cidade: cidade || null, uf });
+  }
+
+  return entries;
+}
+
+export class OfflineCepProvider implements CepLookupProvider {
+  private entries: Promise<Map<string, CepAddress>> | null = null;
+
+  constructor(private file: string = path.resolve(process.cwd(), process.env.CEP_DATABASE_PATH || DEFAULT_DATABASE_PATH)) {}
+
+  private load(): Promise<Map<string, CepAddress>> {
+    this.entries ??= readFile(this.file, "utf8")
+      .then(parseCepCsv)
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== "ENOENT") {
+          console.error("[CEP] Failed to load dataset:", error.message);
+        }
+        return new Map<string, CepAddress>();
+      });
+    return this.entries;
+  }
+
+  async lookup(cep: string): Promise<CepAddress | null> {
+    const entry = (await this.load()).get(cep);
+    if (entry) return entry;
+
+    const uf = ufFromCep(cep);
+    return uf ? { cep, logradouro: null, bairro: null, cidade: null, uf } : null;
+  }
+}
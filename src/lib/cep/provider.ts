@@ -0,0 +1,27 @@
+// src/lib/cep/provider.ts
+//
+// CEP lookup provider interface. Providers resolve with null for a CEP they
+// do not know and throw CepLookupError when the lookup itself failed, so the
+// caller can tell "no such CEP" from "service down" and fall back.
+
+export interface CepAddress {
+  cep: string;
+  // Null when only the city or state is known (CEPs of whole towns, or the
+  // state ranges of the offline fallback)
+  logradouro: string | null;
+  bairro: string | null;
+  cidade: string | null;
+  uf: string;
+}
+
+export interface CepLookupProvider {
+  // Receives the 8 digits of the CEP
+  lookup(cep: string): Promise<CepAddress | null>;
+}
+
+export class CepLookupError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = "CepLookupError";
+  }
+}
@@ -0,0 +1,51 @@
+// src/lib/cep/viacep.ts
+//
+// ViaCEP web service (https://viacep.com.br). The base URL can point to a
+// compatible mirror.
+
+import { CepLookupError, type CepAddress, type CepLookupProvider } from "./provider";
+
+const DEFAULT_BASE_URL = "https://viacep.com.br/ws";
+const TIMEOUT_MS = 3000;
+
+interface ViaCepResponse {
+  cep?: string;
+  logradouro?: string;
+  bairro?: string;
+  localidade?: string;
+  uf?: string;
+  erro?: boolean | string;
+}
+
+export class ViaCepProvider implements CepLookupProvider {
+  constructor(private baseUrl: string = DEFAULT_BASE_URL) {}
+
+  async lookup(cep: string): Promise<CepAddress | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/${cep}/json/`, {
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+        cache: "no-store",
+      });
+    } catch (error) {
+      throw new CepLookupError(`ViaCEP request failed: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+
+    // ViaCEP answers 400 for malformed CEPs and { erro: true } for unknown ones
+    if (response.status === 400) return null;
+    if (!response.ok) {
+      throw new CepLookupError(`ViaCEP answered ${response.status}`);
+    }
+
+    const body = (await response.json()) as ViaCepResponse;
+    if (body.erro || !body.uf) return null;
+
+    return {
+      cep,
+      logradouro: body.logradouro || null,
+      bairro: body.bairro || null,
+      cidade: body.localidade || null,
+      uf: body.uf,
+    };
+  }
+}
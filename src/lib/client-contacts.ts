@@ -0,0 +1,108 @@
+// src/lib/client-contacts.ts
+//
+// People at a client. A client may have any number of contacts, one of them
+// primary. A budget points to the contact who requested it and copies the
+// name into Budget.solicitante, the only record of the requester on budgets
+// from before contacts existed.
+
+import type { Prisma } from "@/generated/prisma";
+
+export class ClientContactError extends Error {
+  constructor(public message: string, public status: number = 400) {
+    super(message);
+    this.name = "ClientContactError";
+  }
+}
+
+export interface ClientContactFields {
+  // Present for contacts that are already stored
+  id?: number;
+  name: string;
+  role?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  isPrimary?: boolean;
+}
+
+/**
+ * Rows to store for validated input. When no contact is marked primary the
+ * first one is.
+ */
+export function toContactRows(contacts: ClientContactFields[]) {
+  const primaryIndex = Math.max(contacts.findIndex((contact) => contact.isPrimary), 0);
+  return contacts.map((contact, index) => ({
+    name: contact.name.trim(),
+    role: contact.role?.trim() || null,
+    email: contact.email?.trim() || null,
+    phone: contact.phone?.trim() || null,
+    isPrimary: index === primaryIndex,
+  }));
+}
+
+/**
+ * Who requested a budget: the linked contact, or the free-text solicitante of
+ * budgets without one.
+ */
+export function requesterName(budget: {
+  solicitante: string | null;
+  contact?: { name: string } | null;
+}): string | null {
+  return budget.contact?.name ?? (budget.solicitante?.trim() || null);
+}
+
+type Db = Prisma.TransactionClient;
+
+export async function listClientContacts(db: Db, clientId: number) {
+  return db.clientContact.findMany({
+    where: { clientId },
+    orderBy: [{ isPrimary: "desc" }, { name: "asc" }],
+  });
+}
+
+/**
+ * Makes the contacts of a client match the list: entries with the id of one
+ * of its contacts update it, the others are created and contacts missing from
+ * the list are removed. Budgets requested by a removed contact keep its name
+ * in solicitante.
+ */
+export async function syncClientContacts(db: Db, clientId: number, contacts: ClientContactFields[]): Promise<void> {
+  const existing = await db.clientContact.findMany({ where: { clientId }, select: { id: true, name: true } });
+  const existingIds = new Set(existing.map((contact) => contact.id));
+  const keptIds = new Set(contacts.flatMap(({ id }) => (id && existingIds.has(id) ? [id] : [])));
+
+  for (const removed of existing.filter((contact) => !keptIds.has(contact.id))) {
+    await db.budget.updateMany({
+      where: { contactId: removed.id, OR: [{ solicitante: null }, { solicitante: "" }] },
+      data: { solicitante: removed.name },
+    });
+  }
+  await db.clientContact.deleteMany({ where: { clientId, id: { notIn: [...keptIds] } } });
+
+  const rows = toContactRows(contacts);
+  for (const [index, data] of rows.entries()) {
+    const id = contacts[index].id;
+    if (id && keptIds.has(id)) {
+      await db.clientContact.update({ where: { id }, data });
+    } else {
+      await db.clientContact.create({ data: { ...data, clientId } });
+    }
+  }
+}
+
+/**
+ * The contact picked as requester of a budget, checked against the budget
+ * client. Returns null when no contact is picked.
+ */
+export async function resolveRequesterContact(db: Db, clientId: number, contactId: number | null | undefined) {
+  if (!contactId) {
+    return null;
+  }
+  const contact = await db.clientContact.findFirst({
+    where: { id: contactId, clientId },
+    select: { id: true, name: true },
+  });
+  if (!contact) {
+    throw new ClientContactError("Contato não pertence ao cliente do orçamento");
+  }
+  return contact;
+}
@@ -0,0 +1,143 @@
+// src/lib/client-duplicates.ts
+//
+// Finds clients registered more than once. Two clients are flagged when they
+// share the CNPJ/CPF digits or the email address, or when their names are
+// nearly the same once accents, punctuation and company suffixes are
+// removed. Merging a pair is in src/lib/client-merge.ts.
+
+import type { Prisma } from "@/generated/prisma";
+import { onlyDigits } from "./validators";
+
+export const DUPLICATE_REASONS = ["document", "email", "name"] as const;
+export type DuplicateReason = (typeof DUPLICATE_REASONS)[number];
+
+// Names at least this similar (0..1, see nameSimilarity) are flagged
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// Legal form suffixes that differ between registrations of the same company
+const COMPANY_SUFFIXES = new Set(["ltda", "limitada", "me", "mei", "epp", "eireli", "sa", "cia"]);
+
+export interface DuplicateCandidate {
+  id: number;
+  name: string;
+  cnpjCpf: string;
+  email: string;
+}
+
+export interface DuplicatePair<T extends DuplicateCandidate = DuplicateCandidate> {
+  clients: [T, T];
+  reasons: DuplicateReason[];
+  nameSimilarity: number;
+}
+
+export function normalizeClientName(name: string): string {
+  const words = (name || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  while (words.length > 1) {
+    if (COMPANY_SUFFIXES.has(words[words.length - 1])) {
+      words.pop();
+    } else if (words.length > 2 && words.slice(-2).join(" ") === "s a") {
+      // "S/A"
+      words.splice(-2);
+    } else {
+      break;
+    }
+  }
+  return words.join(" ");
+}
+
+export function normalizeEmail(email: string): string {
+  return (email || "").trim().toLowerCase();
+}
+
+function bigrams(value: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const gram = value.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+function diceCoefficient(a: Map<string, number>, b: Map<string, number>, sizeA: number, sizeB: number): number {
+  if (sizeA === 0 || sizeB === 0) return 0;
+  let shared = 0;
+  for (const [gram, count] of a) {
+    shared += Math.min(count, b.get(gram) ?? 0);
+  }
+  return (2 * shared) / (sizeA + sizeB);
+}
+
+/**
+ * Similarity of two client names from 0 to 1 (Dice coefficient of the letter
+ * pairs of the normalized names).
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeClientName(a);
+  const right = normalizeClientName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return diceCoefficient(bigrams(left), bigrams(right), left.length - 1, right.length - 1);
+}
+
+/**
+ * Pairs of clients that look like the same customer, strongest evidence
+ * first. Compares every pair of names, which is fine for the few thousand
+ * clients of a print shop.
+ */
+export function findDuplicateClients<T extends DuplicateCandidate>(clients: T[]): DuplicatePair<T>[] {
+  const prepared = clients.map((client) => {
+    const name = normalizeClientName(client.name);
+    return {
+      client,
+      document: onlyDigits(client.cnpjCpf || ""),
+      email: normalizeEmail(client.email),
+      grams: bigrams(name),
+      size: Math.max(name.length - 1, 0),
+      name,
+    };
+  });
+
+  const pairs: DuplicatePair<T>[] = [];
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const a = prepared[i];
+      const b = prepared[j];
+      const similarity = a.name && a.name === b.name ? 1 : diceCoefficient(a.grams, b.grams, a.size, b.size);
+
+      const reasons: DuplicateReason[] = [];
+      if (a.document && a.document === b.document) reasons.push("document");
+      if (a.email && a.email === b.email) reasons.push("email");
+      if (similarity >= NAME_SIMILARITY_THRESHOLD) reasons.push("name");
+
+      if (reasons.length > 0) {
+        pairs.push({ clients: [a.client, b.client], reasons, nameSimilarity: Math.round(similarity * 100) / 100 });
+      }
+    }
+  }
+
+  const strength = (pair: DuplicatePair<T>) =>
+    pair.reasons.reduce((sum, reason) => sum + 2 ** (DUPLICATE_REASONS.length - DUPLICATE_REASONS.indexOf(reason)), 0);
+  return pairs.sort((x, y) => strength(y) - strength(x) || y.nameSimilarity - x.nameSimilarity);
+}
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Ids of the clients whose CNPJ/CPF has the same digits as the value, however
+ * either one is formatted.
+ */
+export async function findClientIdsByDocument(db: Db, value: string): Promise<number[]> {
+  const digits = onlyDigits(value || "");
+  if (!digits) return [];
+  const rows = await db.$queryRaw<{ id: number }[]>`
+    SELECT id FROM "Client" WHERE regexp_replace("cnpjCpf", '[^0-9]', '', 'g') = ${digits} ORDER BY id
+  `;
+  return rows.map((row) => row.id);
+}
@@ -0,0 +1,35 @@
+// src/lib/client-info.ts
+//
+// Request metadata recorded with sessions and used for rate limiting.
+
+import type { NextRequest } from "next/server";
+
+export function getClientIP(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const realIP = request.headers.get('x-real-ip');
+  const clientIP = request.headers.get('x-client-ip');
+
+  if (forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  if (realIP) {
+    return realIP;
+  }
+  if (clientIP) {
+    return clientIP;
+  }
+  return 'unknown';
+}
+
+export interface ClientInfo {
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export function getClientInfo(request: NextRequest): ClientInfo {
+  const ip = getClientIP(request);
+  return {
+    ipAddress: ip === 'unknown' ? null : ip,
+    userAgent: request.headers.get('user-agent')?.slice(0, 512) ?? null,
+  };
+}
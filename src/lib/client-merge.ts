@@ -0,0 +1,79 @@
+// src/lib/client-merge.ts
+//
+// Folds a duplicate client into the one that is kept (the survivor). Its
+// budgets, contacts and delivery addresses move to the survivor, the merge is
+// recorded as a ClientMerge with a snapshot of the duplicate, and the
+// duplicate is deleted. Run it inside a transaction so a failed merge leaves
+// both clients as they were.
+
+import type { Prisma } from "@/generated/prisma";
+import { snapshotRecord } from "./audit";
+
+export class ClientMergeError extends Error {
+  constructor(public message: string, public status: number = 400) {
+    super(message);
+    this.name = "ClientMergeError";
+  }
+}
+
+export interface ClientMergeInput {
+  survivorId: number;
+  duplicateId: number;
+  actorId: number | null;
+}
+
+export async function mergeClients(tx: Prisma.TransactionClient, input: ClientMergeInput) {
+  const { survivorId, duplicateId, actorId } = input;
+  if (survivorId === duplicateId) {
+    throw new ClientMergeError("Selecione dois clientes diferentes");
+  }
+
+  const [survivor, duplicate] = await Promise.all([
+    tx.client.findUnique({ where: { id: survivorId }, include: { contacts: true } }),
+    tx.client.findUnique({ where: { id: duplicateId }, include: { addresses: true, contacts: true } }),
+  ]);
+  if (!survivor || !duplicate) {
+    throw new ClientMergeError("Cliente não encontrado", 404);
+  }
+
+  const budgets = await tx.budget.findMany({ where: { clientId: duplicateId }, select: { id: true } });
+  await tx.budget.updateMany({ where: { clientId: duplicateId }, data: { clientId: survivorId } });
+
+  // Contacts stay linked to their budgets; the survivor keeps its primary contact
+  const survivorHasPrimary = survivor.contacts.some((contact) => contact.isPrimary);
+  await tx.clientContact.updateMany({
+    where: { clientId: duplicateId },
+    data: { clientId: survivorId, ...(survivorHasPrimary ? { isPrimary: false } : {}) },
+  });
+
+  // The survivor keeps its billing address; the duplicate's is only in the snapshot
+  await tx.clientAddress.updateMany({
+    where: { clientId: duplicateId, type: "DELIVERY" },
+    data: { clientId: survivorId },
+  });
+
+  const { addresses, contacts, ...client } = duplicate;
+  const snapshot = {
+    ...snapshotRecord("Client", client),
+    addresses: addresses.map((address) => snapshotRecord("ClientAddress", address)),
+    contacts: contacts.map((contact) => snapshotRecord("ClientContact", contact)),
+  };
+
+  const merge = await tx.clientMerge.create({
+    data: {
+      survivorId,
+      mergedClientId: duplicate.id,
+      mergedName: duplicate.name,
+      mergedCnpjCpf: duplicate.cnpjCpf,
+      snapshot: snapshot as Prisma.InputJsonValue,
+      budgetIds: budgets.map((budget) => budget.id),
+      actorId,
+    },
+  });
+
+  // Earlier merges into the duplicate now belong to the survivor
+  await tx.clientMerge.updateMany({ where: { survivorId: duplicateId }, data: { survivorId } });
+  await tx.client.delete({ where: { id: duplicateId } });
+
+  return merge;
+}
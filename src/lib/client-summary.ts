@@ -0,0 +1,106 @@
+// src/lib/client-summary.ts
+//
+// Client profile figures (/clients/[id]): budgets and orders by status,
+// approval rate, last order and the orders still waiting for deliveries.
+// Revenue figures come from Budget.preco_total and are left out (null) for
+// roles whose budget field selection does not include it.
+
+import type { BudgetStatus, OrderStatus } from "@/generated/prisma";
+import { BudgetStatusSchema, OrderStatusSchema } from "./validation";
+import { summarizeDeliveries, type DeliveryLike } from "./order-deliveries";
+
+export interface ClientSummaryBudget {
+  id: number;
+  numero_pedido: string | null;
+  titulo: string;
+  status: BudgetStatus;
+  data_pedido: Date | string;
+  tiragem: number;
+  // Absent when the role does not see prices
+  preco_total?: number;
+  order: {
+    id: number;
+    numero_pedido: string;
+    status: OrderStatus;
+    data_pedido: Date | string;
+    deliveries: DeliveryLike[];
+  } | null;
+}
+
+export interface OutstandingDelivery {
+  orderId: number;
+  numero_pedido: string;
+  status: OrderStatus;
+  tiragem: number;
+  deliveredQuantity: number;
+  remainingQuantity: number;
+}
+
+export interface ClientSummary {
+  budgetCount: number;
+  budgetsByStatus: Record<BudgetStatus, number>;
+  orderCount: number;
+  ordersByStatus: Record<OrderStatus, number>;
+  // Share of the decided budgets (approved, converted or rejected) that were approved
+  approvalRate: number | null;
+  lastOrderAt: Date | null;
+  outstandingDeliveries: OutstandingDelivery[];
+  // Value of the orders that were not cancelled, and per order
+  lifetimeRevenue: number | null;
+  averageTicket: number | null;
+}
+
+const APPROVED_STATUSES: BudgetStatus[] = ["APPROVED", "CONVERTED"];
+const CLOSED_ORDER_STATUSES: OrderStatus[] = ["DELIVERED", "CANCELLED"];
+
+const countBy = <K extends string>(keys: readonly K[], values: K[]) => {
+  const counts = Object.fromEntries(keys.map((key) => [key, 0])) as Record<K, number>;
+  for (const value of values) {
+    counts[value] += 1;
+  }
+  return counts;
+};
+
+export function summarizeClient(budgets: ClientSummaryBudget[], options: { financials: boolean }): ClientSummary {
+  const orders = budgets.flatMap((budget) => (budget.order ? [{ ...budget.order, budget }] : []));
+  const billedOrders = orders.filter((order) => order.status !== "CANCELLED");
+
+  const approved = budgets.filter((budget) => APPROVED_STATUSES.includes(budget.status)).length;
+  const decided = approved + budgets.filter((budget) => budget.status === "REJECTED").length;
+
+  const lastOrderAt = orders.reduce<Date | null>((latest, order) => {
+    const date = new Date(order.data_pedido);
+    return !latest || date > latest ? date : latest;
+  }, null);
+
+  const outstandingDeliveries = orders
+    .filter((order) => !CLOSED_ORDER_STATUSES.includes(order.status))
+    .map((order) => ({ order, deliveries: summarizeDeliveries(order.budget.tiragem, order.deliveries) }))
+    .filter(({ deliveries }) => deliveries.remainingQuantity > 0)
+    .map(({ order, deliveries }) => ({
+      orderId: order.id,
+      numero_pedido: order.numero_pedido,
+      status: order.status,
+      tiragem: deliveries.tiragem,
+      deliveredQuantity: deliveries.deliveredQuantity,
+      remainingQuantity: deliveries.remainingQuantity,
+    }));
+
+  const lifetimeRevenue = options.financials
+    ? Math.round(billedOrders.reduce((sum, order) => sum + (order.budget.preco_total ?? 0), 0) * 100) / 100
+    : null;
+
+  return {
+    budgetCount: budgets.length,
+    budgetsByStatus: countBy(BudgetStatusSchema.options, budgets.map((budget) => budget.status)),
+    orderCount: orders.length,
+    ordersByStatus: countBy(OrderStatusSchema.options, orders.map((order) => order.status)),
+    approvalRate: decided > 0 ? approved / decided : null,
+    lastOrderAt,
+    outstandingDeliveries,
+    lifetimeRevenue,
+    averageTicket: lifetimeRevenue !== null && billedOrders.length > 0
+      ? Math.round((lifetimeRevenue / billedOrders.length) * 100) / 100
+      : null,
+  };
+}
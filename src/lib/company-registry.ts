@@ -0,0 +1,55 @@
+// src/lib/company-registry.ts
+//
+// CNPJ lookup used to prefill the client form. COMPANY_REGISTRY_PROVIDER
+// selects the provider: "http" (default; COMPANY_REGISTRY_URL points to a
+// BrasilAPI-compatible service) or "fixture" (local answers only, see
+// src/lib/company-registry/fixture.ts).
+
+import { CompanyRegistryError, type CompanyRecord, type CompanyRegistryProvider } from "./company-registry/provider";
+import { HttpCompanyRegistryProvider } from "./company-registry/http";
+import { FixtureCompanyRegistryProvider } from "./company-registry/fixture";
+import { isCNPJ, onlyDigits } from "./validators";
+
+let provider: CompanyRegistryProvider | null = null;
+
+function createProvider(): CompanyRegistryProvider {
+  switch (process.env.COMPANY_REGISTRY_PROVIDER) {
+    case "fixture":
+      return new FixtureCompanyRegistryProvider();
+    default:
+      return new HttpCompanyRegistryProvider(process.env.COMPANY_REGISTRY_URL || undefined);
+  }
+}
+
+export function getCompanyRegistryProvider(): CompanyRegistryProvider {
+  provider ??= createProvider();
+  return provider;
+}
+
+export function setCompanyRegistryProvider(next: CompanyRegistryProvider) {
+  provider = next;
+}
+
+/**
+ * Registry record of a CNPJ in any format, or null when the CNPJ is invalid
+ * or unknown. Throws CompanyRegistryError when the registry cannot be reached.
+ */
+export async function lookupCompany(value: string): Promise<CompanyRecord | null> {
+  if (!isCNPJ(value)) return null;
+  return getCompanyRegistryProvider().lookup(onlyDigits(value));
+}
+
+/**
+ * Situação cadastral to store with a client. It is always read from the
+ * registry, never taken from the request. Null for CPFs and unknown CNPJs,
+ * and when the registry is unreachable, so an outage does not block saving.
+ */
+export async function lookupRegistrationStatus(value: string): Promise<string | null> {
+  try {
+    return (await lookupCompany(value))?.registrationStatus ?? null;
+  } catch (error) {
+    if (!(error instanceof CompanyRegistryError)) throw error;
+    console.error("[COMPANY-REGISTRY]", error.message);
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+// src/lib/company-registry/fixture.ts
+//
+// Registry answers stored locally, for tests and development without network
+// access. Fixtures are registry answers in the BrasilAPI format (see
+// http.ts), given directly or read from a JSON array in
+// COMPANY_REGISTRY_FIXTURES (default data/company-registry.json).
+
+import { readFile } from "fs/promises";
+import path from "path";
+import type { CompanyRecord, CompanyRegistryProvider } from "./provider";
+import { parseRegistryResponse, type RegistryResponse } from "./http";
+
+const DEFAULT_FIXTURES_PATH = "data/company-registry.json";
+
+function indexFixtures(fixtures: RegistryResponse[]): Map<string, CompanyRecord> {
+  const records = new Map<string, CompanyRecord>();
+  for (const fixture of fixtures) {
+    const record = parseRegistryResponse(fixture);
+    if (record && record.cnpj.length === 14) {
+      records.set(record.cnpj, record);
+    }
+  }
+  return records;
+}
+
+export class FixtureCompanyRegistryProvider implements CompanyRegistryProvider {
+  private records: Promise<Map<string, CompanyRecord>> | null = null;
+
+  constructor(
+    private source: RegistryResponse[] | string = path.resolve(process.cwd(), process.env.COMPANY_REGISTRY_FIXTURES || DEFAULT_FIXTURES_PATH)
+  ) {}
+
+  private load(): Promise<Map<string, CompanyRecord>> {
+    const source = this.source;
+    if (typeof source !== "string") {
+      this.records ??= Promise.resolve(indexFixtures(source));
+      return this.records;
+    }
+
+    this.records ??= readFile(source, "utf8")
+      .then((content) => indexFixtures(JSON.parse(content) as RegistryResponse[]))
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== "ENOENT") {
+          console.error("[COMPANY-REGISTRY] Failed to load fixtures:", error.message);
+        }
+        return new Map<string, CompanyRecord>();
+      });
+    return this.records;
+  }
+
+  async lookup(cnpj: string): Promise<CompanyRecord | null> {
+    return (await this.load()).get(cnpj) ?? null;
+  }
+}
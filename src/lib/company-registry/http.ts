@@ -0,0 +1,102 @@
+// src/lib/company-registry/http.ts
+//
+// CNPJ web service in the BrasilAPI format
+// (https://brasilapi.com.br/api/cnpj/v1/{cnpj}). The base URL can point to a
+// compatible mirror or proxy.
+
+import { ACTIVE_REGISTRATION_STATUS, CompanyRegistryError, type CompanyRecord, type CompanyRegistryProvider } from "./provider";
+
+const DEFAULT_BASE_URL = "https://brasilapi.com.br/api/cnpj/v1";
+const TIMEOUT_MS = 5000;
+
+// The fields of the BrasilAPI answer that are used
+export interface RegistryResponse {
+  cnpj?: string;
+  razao_social?: string;
+  nome_fantasia?: string | null;
+  descricao_situacao_cadastral?: string | null;
+  descricao_tipo_de_logradouro?: string | null;
+  logradouro?: string | null;
+  numero?: string | null;
+  complemento?: string | null;
+  bairro?: string | null;
+  municipio?: string | null;
+  uf?: string | null;
+  cep?: string | number | null;
+  ddd_telefone_1?: string | null;
+  email?: string | null;
+}
+
+const text = (value: string | number | null | undefined) => {
+  const trimmed = String(value ?? "").trim();
+  return trimmed || null;
+};
+
+// "SAO PAULO" -> "Sao Paulo"; the registry writes names in capitals
+const titleCase = (value: string | null) =>
+  value && value.toLowerCase().replace(/(^|[\s/-])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+
+/**
+ * Maps a registry answer to a CompanyRecord, or null when it has no company
+ * name.
+ */
+export function parseRegistryResponse(body: RegistryResponse): CompanyRecord | null {
+  const razaoSocial = text(body.razao_social);
+  if (!razaoSocial) return null;
+
+  const registrationStatus = (text(body.descricao_situacao_cadastral) ?? "DESCONHECIDA").toUpperCase();
+  const street = [text(body.descricao_tipo_de_logradouro), text(body.logradouro)].filter(Boolean).join(" ");
+  const cep = (text(body.cep) ?? "").replace(/\D+/g, "").padStart(8, "0");
+
+  return {
+    cnpj: (text(body.cnpj) ?? "").replace(/\D+/g, ""),
+    razaoSocial,
+    nomeFantasia: text(body.nome_fantasia),
+    registrationStatus,
+    active: registrationStatus === ACTIVE_REGISTRATION_STATUS,
+    address: {
+      cep: cep === "00000000" ? null : cep,
+      logradouro: titleCase(street || null),
+      numero: text(body.numero),
+      complemento: titleCase(text(body.complemento)),
+      bairro: titleCase(text(body.bairro)),
+      cidade: titleCase(text(body.municipio)),
+      uf: text(body.uf)?.toUpperCase() ?? null,
+    },
+    email: text(body.email)?.toLowerCase() ?? null,
+    phone: text(body.ddd_telefone_1)?.replace(/\D+/g, "") || null,
+  };
+}
+
+export class HttpCompanyRegistryProvider implements CompanyRegistryProvider {
+  constructor(private baseUrl: string = DEFAULT_BASE_URL) {}
+
+  async lookup(cnpj: string): Promise<CompanyRecord | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/${cnpj}`, {
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+        cache: "no-store",
+      });
+    } catch (error) {
+      throw new CompanyRegistryError(`Registry request failed: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+
+    // Unknown CNPJs are 404; malformed ones 400
+    if (response.status === 404 || response.status === 400) return null;
+    if (!response.ok) {
+      throw new CompanyRegistryError(`Registry answered ${response.status}`);
+    }
+
+    // A proxy can answer 200 with an HTML error page
+    let body: RegistryResponse;
+    try {
+      body = (await response.json()) as RegistryResponse;
+    } catch {
+      throw new CompanyRegistryError("Registry answered with invalid JSON");
+    }
+
+    const record = parseRegistryResponse(body);
+    return record ? { ...record, cnpj } : null;
+  }
+}
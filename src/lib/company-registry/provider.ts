@@ -0,0 +1,45 @@
+// src/lib/company-registry/provider.ts
+//
+// Company registry (Receita Federal CNPJ data) provider interface. Providers
+// resolve with null for a CNPJ the registry does not know and throw
+// CompanyRegistryError when the lookup itself failed.
+
+// Any other situação cadastral means the company cannot operate
+export const ACTIVE_REGISTRATION_STATUS = "ATIVA";
+
+export interface CompanyAddress {
+  cep: string | null;
+  logradouro: string | null;
+  numero: string | null;
+  complemento: string | null;
+  bairro: string | null;
+  cidade: string | null;
+  uf: string | null;
+}
+
+export interface CompanyRecord {
+  // 14 digits
+  cnpj: string;
+  razaoSocial: string;
+  nomeFantasia: string | null;
+  // Situação cadastral as the registry spells it: ATIVA, BAIXADA, INAPTA,
+  // SUSPENSA or NULA
+  registrationStatus: string;
+  // registrationStatus is ACTIVE_REGISTRATION_STATUS
+  active: boolean;
+  address: CompanyAddress;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface CompanyRegistryProvider {
+  // Receives the 14 digits of a valid CNPJ
+  lookup(cnpj: string): Promise<CompanyRecord | null>;
+}
+
+export class CompanyRegistryError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = "CompanyRegistryError";
+  }
+}
@@ -0,0 +1,101 @@
+// src/lib/csrf.ts
+//
+// Double-submit CSRF protection. The server sets a random token in a cookie
+// that page scripts can read (see src/lib/auth-cookies.ts); every
+// state-changing API request must echo it in the X-CSRF-Token header, which
+// another site cannot do because it cannot read our cookies. middleware.ts
+// checks the pair; installCsrfFetch() adds the header in the browser.
+//
+// Runs in the Edge runtime and in the browser, so it only uses Web Crypto.
+
+export const CSRF_COOKIE_NAME = "csrfToken";
+export const CSRF_HEADER_NAME = "x-csrf-token";
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Endpoints called before a session (and its CSRF cookie) exists
+const CSRF_EXEMPT_PATHS = new Set([
+  "/api/auth/login",
+  "/api/auth/register",
+  "/api/auth/forgot-password",
+  "/api/auth/reset-password",
+  "/api/auth/verify-email",
+  "/api/auth/resend-verification",
+]);
+
+export function generateCsrfToken(): string {
+  const bytes = new Uint8Array(32);
+  globalThis.crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function requiresCsrfCheck(method: string, pathname: string): boolean {
+  return !SAFE_METHODS.has(method.toUpperCase()) && !CSRF_EXEMPT_PATHS.has(pathname);
+}
+
+/**
+ * Compares the cookie and header values in constant time.
+ */
+export function csrfTokensMatch(cookieValue: string | null | undefined, headerValue: string | null | undefined): boolean {
+  if (!cookieValue || !headerValue || cookieValue.length !== headerValue.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < cookieValue.length; i++) {
+    difference |= cookieValue.charCodeAt(i) ^ headerValue.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+export function readCsrfCookie(cookieHeader: string): string | null {
+  for (const part of cookieHeader.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === CSRF_COOKIE_NAME) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+}
+
+function isSameOrigin(input: RequestInfo | URL, origin: string): boolean {
+  const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  return new URL(url, origin).origin === origin;
+}
+
+/**
+ * Wraps window.fetch so same-origin, state-changing requests carry the CSRF
+ * header. Returns a function that restores the original fetch.
+ */
+let installed = false;
+
+export function installCsrfFetch(): () => void {
+  if (typeof window === "undefined" || installed) {
+    return () => {};
+  }
+
+  installed = true;
+  const originalFetch = window.fetch;
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const method = init?.method ?? (input instanceof Request ? input.method : "GET");
+    if (SAFE_METHODS.has(method.toUpperCase()) || !isSameOrigin(input, window.location.origin)) {
+      return originalFetch(input, init);
+    }
+
+    const token = readCsrfCookie(document.cookie);
+    if (!token) {
+      return originalFetch(input, init);
+    }
+
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    if (!headers.has(CSRF_HEADER_NAME)) {
+      headers.set(CSRF_HEADER_NAME, token);
+    }
+    return originalFetch(input, { ...init, headers });
+  };
+
+  return () => {
+    window.fetch = originalFetch;
+    installed = false;
+  };
+}
@@ -1,7 +1,6 @@
 import { NextRequest } from "next/server";
 import { jwtVerify } from "jose";
 import type { JWTPayload as JoseJWTPayload } from "jose";
-import { Role } from "@/lib/rbac";
 import { JWTPayload } from "@/lib/auth-types";
 
 const JWT_SECRET = process.env.JWT_SECRET;
@@ -19,13 +18,15 @@ const isAppJWTPayload = (payload: JoseJWTPayload): payload is JWTPayload & JoseJ
   const email = candidate.email;
   const name = candidate.name;
   const role = candidate.role;
+  const permissions = candidate.permissions;
 
   const hasValidUserId = typeof userId === 'number' && Number.isFinite(userId);
   const hasValidEmail = typeof email === 'string' && email.length > 0;
   const hasValidName = typeof name === 'string' && name.length > 0;
-  const hasValidRole = typeof role === 'string' && (Object.values(Role) as string[]).includes(role);
+  const hasValidRole = typeof role === 'string' && role.length > 0;
+  const hasValidPermissions = Array.isArray(permissions) && permissions.every((permission) => typeof permission === 'string');
 
-  return hasValidUserId && hasValidEmail && hasValidName && hasValidRole;
+  return hasValidUserId && hasValidEmail && hasValidName && hasValidRole && hasValidPermissions;
 };
 
 export async function verifyAccessTokenEdge(token: string): Promise<JWTPayload | null> {
@@ -0,0 +1,152 @@
+// src/lib/geoip.ts
+//
+// Approximate location of an IP address, looked up in a local CSV file so the
+// session listings never send addresses to an external service. The file is
+// read from GEOIP_DATABASE_PATH (default data/geoip.csv); each line is
+// `network,country,region,city` with an IPv4 CIDR network, e.g.
+// `177.32.0.0/14,BR,SP,São Paulo`. Without the file every lookup returns null.
+
+import { readFile } from "fs/promises";
+import path from "path";
+
+export interface GeoLocation {
+  country: string;
+  region: string | null;
+  city: string | null;
+}
+
+export interface GeoRange {
+  start: number;
+  end: number;
+  location: GeoLocation;
+}
+
+const DEFAULT_DATABASE_PATH = "data/geoip.csv";
+
+// 10/8, 172.16/12, 192.168/16, 127/8 and 169.254/16
+const PRIVATE_RANGES: Array<[string, number]> = [
+  ["10.0.0.0", 8],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+];
+
+/**
+ * Numeric value of a dotted IPv4 address; IPv4-mapped IPv6 (::ffff:a.b.c.d)
+ * is accepted. Anything else returns null.
+ */
+export function ipv4ToNumber(ip: string): number | null {
+  const address = ip.trim().replace(/^::ffff:/i, "");
+  const parts = address.split(".");
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+function cidrRange(network: string, prefix: number): { start: number; end: number } | null {
+  const base = ipv4ToNumber(network);
+  if (base === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) return null;
+  const size = 2 ** (32 - prefix);
+  const start = Math.floor(base / size) * size;
+  return { start, end: start + size - 1 };
+}
+
+export function isPrivateAddress(ip: string): boolean {
+  if (ip === "::1") return true;
+  const value = ipv4ToNumber(ip);
+  if (value === null) return false;
+  return PRIVATE_RANGES.some(([network, prefix]) => {
+    const range = cidrRange(network, prefix)!;
+    return value >= range.start && value <= range.end;
+  });
+}
+
+/**
+ * Parses the CSV database into ranges sorted by start address. Blank lines,
+ * `#` comments, a header row and malformed lines are skipped.
+ */
+export function parseGeoIpCsv(text: string): GeoRange[] {
+  const ranges: GeoRange[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const [network, country, region, city] = line.split(",").map((value) => value.trim());
+    const [address, prefix] = (network ?? "").split("/");
+    const range = cidrRange(address, Number(prefix ?? "32"));
+    if (!range || !country) continue;
+
+    ranges.push({
+      ...range,
+      location: { country, region: region || null, city: city || null },
+    });
+  }
+
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Binary search for the range containing the address. Ranges are expected not
+ * to overlap.
+ */
+export function findLocation(ranges: GeoRange[], ip: string): GeoLocation | null {
+  const value = ipv4ToNumber(ip);
+  if (value === null) return null;
+
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const range = ranges[mid];
+    if (value < range.start) {
+      high = mid - 1;
+    } else if (value > range.end) {
+      low = mid + 1;
+    } else {
+      return range.location;
+    }
+  }
+  return null;
+}
+
+export function formatLocation(location: GeoLocation): string {
+  return [location.city, location.region, location.country].filter(Boolean).join(", ");
+}
+
+let rangesPromise: Promise<GeoRange[]> | null = null;
+
+function loadRanges(): Promise<GeoRange[]> {
+  if (!rangesPromise) {
+    const file = path.resolve(process.cwd(), process.env.GEOIP_DATABASE_PATH || DEFAULT_DATABASE_PATH);
+    rangesPromise = readFile(file, "utf8")
+      .then(parseGeoIpCsv)
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== "ENOENT") {
+          console.error("[GEOIP] Failed to load database:", error.message);
+        }
+        return [];
+      });
+  }
+  return rangesPromise;
+}
+
+/**
+ * Human readable location for an IP ("São Paulo, SP, BR"), "Rede local" for
+ * private addresses and null when unknown.
+ */
+export async function describeIpLocation(ip: string | null): Promise<string | null> {
+  if (!ip) return null;
+  if (isPrivateAddress(ip)) return "Rede local";
+
+  const location = findLocation(await loadRanges(), ip);
+  return location ? formatLocation(location) : null;
+}
@@ -0,0 +1,119 @@
+// src/lib/idempotency.ts
+//
+// Support for the Idempotency-Key request header. The first request with a
+// given key reserves it, runs the handler and stores the response; retries
+// with the same key get the stored response back instead of running again.
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Keys expire after 24 hours and may then be reused
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+export interface IdempotentResult {
+  status: number;
+  body: unknown;
+}
+
+interface IdempotencyOptions {
+  // Identifies the operation, e.g. 'POST /api/orders'
+  scope: string;
+  userId: number;
+  // Request payload; a retry with a different payload is rejected
+  fingerprint: unknown;
+}
+
+function hashFingerprint(fingerprint: unknown): string {
+  return createHash('sha256').update(JSON.stringify(fingerprint ?? null)).digest('hex');
+}
+
+function isUniqueViolation(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: { message, details: null } }, { status });
+}
+
+/**
+ * Runs `handler` at most once per Idempotency-Key. Requests without the
+ * header run normally. Errors thrown by the handler release the key so the
+ * client can retry.
+ */
+export async function withIdempotency(
+  req: NextRequest,
+  options: IdempotencyOptions,
+  handler: () => Promise<IdempotentResult>
+): Promise<NextResponse> {
+  const key = req.headers.get(IDEMPOTENCY_HEADER)?.trim();
+
+  if (!key) {
+    const result = await handler();
+    return NextResponse.json(result.body, { status: result.status });
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return errorResponse(`${IDEMPOTENCY_HEADER} inválida`, 400);
+  }
+
+  const where = { scope_userId_key: { scope: options.scope, userId: options.userId, key } };
+  const requestHash = hashFingerprint(options.fingerprint);
+
+  // Drop an expired reservation so the key can be used again
+  await prisma.idempotencyKey.deleteMany({
+    where: {
+      scope: options.scope,
+      userId: options.userId,
+      key,
+      createdAt: { lt: new Date(Date.now() - IDEMPOTENCY_TTL_MS) },
+    },
+  });
+
+  try {
+    await prisma.idempotencyKey.create({
+      data: { scope: options.scope, userId: options.userId, key, requestHash },
+    });
+  } catch (error) {
+    if (!isUniqueViolation(error)) throw error;
+
+    const existing = await prisma.idempotencyKey.findUnique({ where });
+    if (!existing) {
+      return errorResponse('Requisição em processamento, tente novamente', 409);
+    }
+    if (existing.requestHash !== requestHash) {
+      return errorResponse(`${IDEMPOTENCY_HEADER} já utilizada com outros dados`, 422);
+    }
+    if (existing.responseStatus === null) {
+      return errorResponse('Requisição em processamento, tente novamente', 409);
+    }
+
+    return NextResponse.json(existing.responseBody, {
+      status: existing.responseStatus,
+      headers: { 'Idempotent-Replayed': 'true' },
+    });
+  }
+
+  let result: IdempotentResult;
+  try {
+    result = await handler();
+  } catch (error) {
+    await prisma.idempotencyKey.delete({ where }).catch(() => undefined);
+    throw error;
+  }
+
+  await prisma.idempotencyKey.update({
+    where,
+    data: {
+      responseStatus: result.status,
+      // Round-trip through JSON so dates are stored exactly as they are sent
+      responseBody: JSON.parse(JSON.stringify(result.body ?? null)) as Prisma.InputJsonValue,
+    },
+  });
+
+  return NextResponse.json(result.body, { status: result.status });
+}
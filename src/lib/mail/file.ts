@@ -0,0 +1,28 @@
+// src/lib/mail/file.ts
+//
+// Offline transports for development and tests: FileTransport writes each
+// message as an .eml file (openable in any mail client), ConsoleTransport
+// prints it to the server log.
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomBytes } from "crypto";
+import { buildMimeMessage, type MailMessage, type MailTransport } from "./transport";
+
+export class FileTransport implements MailTransport {
+  constructor(private directory: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<string> {
+    await mkdir(this.directory, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const file = path.join(this.directory, `${stamp}-${randomBytes(4).toString("hex")}.eml`);
+    await writeFile(file, buildMimeMessage(message, this.from), "utf8");
+    return file;
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[MAIL] To: ${message.to}\n[MAIL] Subject: ${message.subject}\n${message.text}`);
+  }
+}
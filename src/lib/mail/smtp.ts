@@ -0,0 +1,179 @@
+// src/lib/mail/smtp.ts
+//
+// Minimal SMTP client: EHLO, STARTTLS when offered (or implicit TLS on port
+// 465), AUTH PLAIN and a single message per connection. Enough for the
+// transactional e-mails sent by the auth flows.
+
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { buildMimeMessage, extractAddress, MailError, type MailMessage, type MailTransport } from "./transport";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+/**
+ * Dot-stuffing for the DATA phase: lines starting with "." get another one.
+ */
+export function dotStuff(message: string): string {
+  return message.replace(/(^|\r\n)\./g, "$1..");
+}
+
+class SmtpConnection {
+  private socket!: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  private pending: { resolve: (line: string) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private config: SmtpConfig) {}
+
+  async open(): Promise<void> {
+    const { host, port, secure } = this.config;
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once(secure ? "secureConnect" : "connect", () => resolve());
+      socket.once("error", reject);
+    });
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding("utf8");
+    socket.setTimeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+      socket.destroy(new MailError("SMTP connection timed out"));
+    });
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      let index;
+      while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.deliver();
+    });
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new MailError("SMTP connection closed")));
+  }
+
+  private deliver() {
+    if (this.pending && this.lines.length > 0) {
+      const { resolve } = this.pending;
+      this.pending = null;
+      resolve(this.lines.shift()!);
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.pending) {
+      const { reject } = this.pending;
+      this.pending = null;
+      reject(error);
+    }
+  }
+
+  private nextLine(): Promise<string> {
+    if (this.lines.length > 0) return Promise.resolve(this.lines.shift()!);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  async reply(expected: number[]): Promise<SmtpReply> {
+    const lines: string[] = [];
+    let line: string;
+    do {
+      line = await this.nextLine();
+      lines.push(line);
+    } while (line.charAt(3) === "-");
+
+    const code = parseInt(line.slice(0, 3), 10);
+    if (!expected.includes(code)) {
+      throw new MailError(`SMTP error: ${lines.join(" ")}`);
+    }
+    return { code, lines };
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.reply(expected);
+  }
+
+  async startTls(): Promise<void> {
+    await this.command("STARTTLS", [220]);
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("close");
+    plain.setTimeout(0);
+
+    const secured = tls.connect({ socket: plain, servername: this.config.host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once("secureConnect", () => resolve());
+      secured.once("error", reject);
+    });
+    this.attach(secured);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+export class SmtpTransport implements MailTransport {
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const connection = new SmtpConnection(this.config);
+    await connection.open();
+
+    try {
+      await connection.reply([220]);
+      const hello = `EHLO ${os.hostname() || "localhost"}`;
+      const ehlo = await connection.command(hello, [250]);
+
+      if (!this.config.secure && ehlo.lines.some((line) => /^250[- ]STARTTLS/i.test(line))) {
+        await connection.startTls();
+        await connection.command(hello, [250]);
+      }
+
+      if (this.config.user) {
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.pass ?? ""}`).toString("base64");
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(this.config.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${extractAddress(message.to)}>`, [250, 251]);
+      await connection.command("DATA", [354]);
+      connection.write(dotStuff(buildMimeMessage(message, this.config.from)));
+      await connection.command(".", [250]);
+      await connection.command("QUIT", [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
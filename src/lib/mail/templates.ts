@@ -0,0 +1,50 @@
+// src/lib/mail/templates.ts
+//
+// Transactional e-mails of the auth flows. Links are absolute, built from
+// the application base URL.
+
+import type { MailMessage } from "./transport";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function linkEmail(to: string, subject: string, intro: string, action: string, url: string, outro: string): MailMessage {
+  return {
+    to,
+    subject,
+    text: `${intro}\n\n${url}\n\n${outro}\n\nAlphabook`,
+    html: [
+      `<p>${escapeHtml(intro)}</p>`,
+      `<p><a href="${escapeHtml(url)}">${escapeHtml(action)}</a></p>`,
+      `<p>${escapeHtml(outro)}</p>`,
+      "<p>Alphabook</p>",
+    ].join("\n"),
+  };
+}
+
+export function passwordResetEmail(to: string, name: string, url: string): MailMessage {
+  return linkEmail(
+    to,
+    "Redefinição de senha",
+    `Olá, ${name}. Recebemos um pedido para redefinir a senha da sua conta. Use o link abaixo em até 1 hora:`,
+    "Redefinir senha",
+    url,
+    "Se você não fez este pedido, ignore este e-mail; sua senha continua a mesma."
+  );
+}
+
+export function emailVerificationEmail(to: string, name: string, url: string): MailMessage {
+  return linkEmail(
+    to,
+    "Confirme seu e-mail",
+    `Olá, ${name}. Confirme o endereço de e-mail da sua conta usando o link abaixo em até 24 horas:`,
+    "Confirmar e-mail",
+    url,
+    "Se você não criou uma conta, ignore este e-mail."
+  );
+}
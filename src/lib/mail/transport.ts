@@ -0,0 +1,87 @@
+// src/lib/mail/transport.ts
+//
+// Mail transport interface and the MIME encoding shared by the transports.
+// Bodies are UTF-8 and base64 encoded, which keeps every line short and
+// 7-bit clean whatever the content.
+
+import { randomBytes } from "crypto";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  // Transports may resolve with a delivery detail (FileTransport: the file path)
+  send(message: MailMessage): Promise<unknown>;
+}
+
+export class MailError extends Error {
+  constructor(public message: string) {
+    super(message);
+    this.name = "MailError";
+  }
+}
+
+/**
+ * RFC 2047 encoded-word for header values that are not plain ASCII.
+ */
+export function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(content: string): string {
+  return (Buffer.from(content, "utf8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+}
+
+function bodyPart(contentType: string, content: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(content),
+  ].join("\r\n");
+}
+
+/**
+ * Full RFC 5322 message with CRLF line endings. Text-only messages are a
+ * single part; with html a multipart/alternative is built.
+ */
+export function buildMimeMessage(message: MailMessage, from: string, date: Date = new Date()): string {
+  const domain = from.match(/@([^>\s]+)/)?.[1] ?? "localhost";
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (!message.html) {
+    return [...headers, bodyPart("text/plain", message.text)].join("\r\n") + "\r\n";
+  }
+
+  const boundary = `=_alt_${randomBytes(12).toString("hex")}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    bodyPart("text/plain", message.text),
+    `--${boundary}`,
+    bodyPart("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/**
+ * Address part of "Name <address>" (or the value itself).
+ */
+export function extractAddress(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+}
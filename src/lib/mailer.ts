@@ -0,0 +1,73 @@
+// src/lib/mailer.ts
+//
+// Mail transport used by the API routes. MAIL_TRANSPORT selects it:
+// "smtp" (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS), "file"
+// (.eml files in MAIL_OUTBOX_DIR) or "console" (default).
+
+import path from "path";
+import type { NextRequest } from "next/server";
+import type { MailMessage, MailTransport } from "@/lib/mail/transport";
+import { SmtpTransport } from "@/lib/mail/smtp";
+import { ConsoleTransport, FileTransport } from "@/lib/mail/file";
+
+const DEFAULT_FROM = "Alphabook <no-reply@localhost>";
+
+let transport: MailTransport | null = null;
+
+function createTransport(): MailTransport {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST must be set when MAIL_TRANSPORT=smtp");
+      }
+      return new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        from,
+      });
+    case "file":
+      return new FileTransport(path.resolve(process.cwd(), process.env.MAIL_OUTBOX_DIR || "tmp/mail"), from);
+    default:
+      return new ConsoleTransport();
+  }
+}
+
+export function getMailTransport(): MailTransport {
+  transport ??= createTransport();
+  return transport;
+}
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+/**
+ * Sends without failing the request: a mail outage must not reveal whether an
+ * account exists or break registration. Returns false when sending failed.
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  try {
+    await getMailTransport().send(message);
+    return true;
+  } catch (error) {
+    console.error("[MAIL] Failed to send message:", error);
+    return false;
+  }
+}
+
+/**
+ * Absolute link into the application. APP_URL wins over the request origin,
+ * which a proxy may rewrite.
+ */
+export function appUrl(request: NextRequest, pathname: string, params: Record<string, string> = {}): string {
+  const url = new URL(pathname, process.env.APP_URL || request.nextUrl.origin);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
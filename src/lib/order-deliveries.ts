@@ -0,0 +1,222 @@
+// src/lib/order-deliveries.ts
+//
+// Partial deliveries. Large print runs leave the plant in several batches;
+// each batch is a Delivery row. The order totals (frete_real and
+// data_entrega_real) are derived from the deliveries, and the order moves to
+// DELIVERED when the delivered quantities reach the budget tiragem. Freight
+// entered manually on the order is never replaced by the deliveries' total.
+
+import type { OrderStatus, Prisma } from "@/generated/prisma";
+import type { DeliveryInput } from "./validation";
+import { recordOrderStatusEvent } from "./order-history";
+
+export class OrderDeliveryError extends Error {
+  constructor(public message: string, public status: number = 400) {
+    super(message);
+    this.name = "OrderDeliveryError";
+  }
+}
+
+// Deliveries can only be registered once production has started
+export const DELIVERABLE_STATUSES: OrderStatus[] = ["IN_PRODUCTION", "COMPLETED", "ON_HOLD"];
+
+// Status an order returns to when a delivery is removed from a DELIVERED order
+const REOPENED_STATUS: OrderStatus = "COMPLETED";
+
+export interface DeliveryLike {
+  quantity: number;
+  deliveredAt: Date | string;
+  freightCost: number | null;
+}
+
+export interface DeliverySummary {
+  tiragem: number;
+  deliveredQuantity: number;
+  remainingQuantity: number;
+  freightTotal: number | null;
+  lastDeliveredAt: Date | null;
+  complete: boolean;
+}
+
+export function summarizeDeliveries(tiragem: number, deliveries: DeliveryLike[]): DeliverySummary {
+  const deliveredQuantity = deliveries.reduce((sum, delivery) => sum + delivery.quantity, 0);
+  const freightCosts = deliveries
+    .map((delivery) => delivery.freightCost)
+    .filter((cost): cost is number => cost !== null);
+  const lastDeliveredAt = deliveries.reduce<Date | null>((latest, delivery) => {
+    const date = new Date(delivery.deliveredAt);
+    return !latest || date > latest ? date : latest;
+  }, null);
+
+  return {
+    tiragem,
+    deliveredQuantity,
+    remainingQuantity: Math.max(tiragem - deliveredQuantity, 0),
+    freightTotal: freightCosts.length > 0
+      ? Math.round(freightCosts.reduce((sum, cost) => sum + cost, 0) * 100) / 100
+      : null,
+    lastDeliveredAt,
+    complete: tiragem > 0 && deliveredQuantity >= tiragem,
+  };
+}
+
+/**
+ * Returns the order's frete_real after a delivery change, or undefined to
+ * leave it alone. frete_real only follows the deliveries while it still
+ * matches their freight total, so a value entered manually on the order is
+ * kept when deliveries are registered or removed.
+ */
+export function nextOrderFreight(
+  current: number | null,
+  before: DeliverySummary,
+  after: DeliverySummary
+): number | null | undefined {
+  const derived = current === null || current === before.freightTotal;
+  return derived && after.freightTotal !== before.freightTotal ? after.freightTotal : undefined;
+}
+
+/**
+ * Locks the order row and returns it with its budget tiragem and deliveries.
+ * The no-op update takes the row lock, so concurrent deliveries for the same
+ * order run one after the other and cannot exceed the tiragem together.
+ */
+async function lockOrderForDelivery(tx: Prisma.TransactionClient, orderId: number) {
+  const exists = await tx.order.findUnique({ where: { id: orderId }, select: { id: true } });
+  if (!exists) {
+    throw new OrderDeliveryError("Ordem não encontrada", 404);
+  }
+
+  return tx.order.update({
+    where: { id: orderId },
+    data: { updatedAt: new Date() },
+    select: {
+      id: true,
+      status: true,
+      frete_real: true,
+      budget: { select: { tiragem: true } },
+      deliveries: { select: { quantity: true, deliveredAt: true, freightCost: true } },
+    },
+  });
+}
+
+/**
+ * Registers a delivery. Call it inside a transaction; the delivery that
+ * completes the tiragem moves the order to DELIVERED.
+ */
+export async function registerDelivery(
+  tx: Prisma.TransactionClient,
+  { orderId, actorId, data }: { orderId: number; actorId: number; data: DeliveryInput }
+) {
+  const order = await lockOrderForDelivery(tx, orderId);
+
+  if (!DELIVERABLE_STATUSES.includes(order.status)) {
+    throw new OrderDeliveryError(
+      order.status === "PENDING"
+        ? "Inicie a produção antes de registrar entregas"
+        : "Esta ordem não aceita novas entregas",
+      400
+    );
+  }
+
+  const deliveredAt = new Date(data.deliveredAt);
+  if (Number.isNaN(deliveredAt.getTime())) {
+    throw new OrderDeliveryError("Data da entrega inválida", 400);
+  }
+
+  const before = summarizeDeliveries(order.budget.tiragem, order.deliveries);
+  if (data.quantity > before.remainingQuantity) {
+    throw new OrderDeliveryError(
+      `Quantidade excede o saldo a entregar (${before.remainingQuantity})`,
+      400
+    );
+  }
+
+  const delivery = await tx.delivery.create({
+    data: {
+      orderId,
+      quantity: data.quantity,
+      deliveredAt,
+      carrier: data.carrier?.trim() || null,
+      trackingCode: data.trackingCode?.trim() || null,
+      freightCost: data.freightCost ?? null,
+      deliveryNote: data.deliveryNote?.trim() || null,
+      createdById: actorId,
+    },
+  });
+
+  const after = summarizeDeliveries(order.budget.tiragem, [...order.deliveries, delivery]);
+  const freight = nextOrderFreight(order.frete_real, before, after);
+
+  await tx.order.update({
+    where: { id: orderId },
+    data: {
+      ...(freight !== undefined ? { frete_real: freight } : {}),
+      ...(after.complete ? { status: "DELIVERED" as const, data_entrega_real: after.lastDeliveredAt } : {}),
+    },
+  });
+
+  if (after.complete) {
+    await recordOrderStatusEvent(tx, {
+      orderId,
+      fromStatus: order.status,
+      toStatus: "DELIVERED",
+      actorId,
+      reason: `Entrega total: ${after.deliveredQuantity} de ${after.tiragem} unidades`,
+    });
+  }
+
+  return { delivery, summary: after };
+}
+
+/**
+ * Removes a delivery registered by mistake. A DELIVERED order that loses a
+ * delivery goes back to COMPLETED.
+ */
+export async function removeDelivery(
+  tx: Prisma.TransactionClient,
+  { orderId, deliveryId, actorId }: { orderId: number; deliveryId: number; actorId: number }
+) {
+  const order = await lockOrderForDelivery(tx, orderId);
+
+  if (order.status === "CANCELLED") {
+    throw new OrderDeliveryError("Entregas de ordens canceladas não podem ser alteradas", 400);
+  }
+
+  const delivery = await tx.delivery.findFirst({ where: { id: deliveryId, orderId } });
+  if (!delivery) {
+    throw new OrderDeliveryError("Entrega não encontrada", 404);
+  }
+  await tx.delivery.delete({ where: { id: deliveryId } });
+
+  const remaining = await tx.delivery.findMany({
+    where: { orderId },
+    select: { quantity: true, deliveredAt: true, freightCost: true },
+  });
+  const summary = summarizeDeliveries(order.budget.tiragem, remaining);
+  const freight = nextOrderFreight(
+    order.frete_real,
+    summarizeDeliveries(order.budget.tiragem, order.deliveries),
+    summary
+  );
+  const reopen = order.status === "DELIVERED" && !summary.complete;
+
+  await tx.order.update({
+    where: { id: orderId },
+    data: {
+      ...(freight !== undefined ? { frete_real: freight } : {}),
+      ...(reopen ? { status: REOPENED_STATUS, data_entrega_real: null } : {}),
+    },
+  });
+
+  if (reopen) {
+    await recordOrderStatusEvent(tx, {
+      orderId,
+      fromStatus: "DELIVERED",
+      toStatus: REOPENED_STATUS,
+      actorId,
+      reason: "Entrega removida; saldo pendente",
+    });
+  }
+
+  return summary;
+}
@@ -0,0 +1,90 @@
+// src/lib/order-history.ts
+//
+// Order status history. Every transition is stored as an OrderStatusEvent
+// in the same transaction as the status update; the helpers below turn
+// that history into time spent per status for the production report.
+
+import type { OrderStatus, Prisma } from "@/generated/prisma";
+
+// Statuses after which an order no longer accumulates time
+const FINAL_STATUSES: OrderStatus[] = ["DELIVERED", "CANCELLED"];
+
+export interface OrderStatusEventInput {
+  orderId: number;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  actorId: number | null;
+  reason?: string | null;
+}
+
+export interface OrderStatusTransition {
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  createdAt: Date | string;
+}
+
+export type OrderStatusDurations = Partial<Record<OrderStatus, number>>;
+
+/**
+ * Records an order status transition. Call it inside the same transaction
+ * that updates Order.status.
+ */
+export function recordOrderStatusEvent(
+  tx: Prisma.TransactionClient,
+  event: OrderStatusEventInput
+) {
+  return tx.orderStatusEvent.create({
+    data: {
+      orderId: event.orderId,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      actorId: event.actorId,
+      reason: event.reason?.trim() || null,
+    },
+  });
+}
+
+/**
+ * Computes how long (in milliseconds) an order stayed in each status.
+ * The first status starts at `startedAt` (the order creation); the current
+ * status keeps counting until `now` unless it is final.
+ */
+export function computeStatusDurations(
+  startedAt: Date | string,
+  currentStatus: OrderStatus,
+  events: OrderStatusTransition[],
+  now: Date = new Date()
+): OrderStatusDurations {
+  const durations: OrderStatusDurations = {};
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  let status: OrderStatus = sorted[0]?.fromStatus ?? currentStatus;
+  let cursor = new Date(startedAt).getTime();
+
+  const add = (target: OrderStatus, until: number) => {
+    durations[target] = (durations[target] ?? 0) + Math.max(0, until - cursor);
+    cursor = Math.max(cursor, until);
+  };
+
+  for (const event of sorted) {
+    add(status, new Date(event.createdAt).getTime());
+    status = event.toStatus;
+  }
+
+  if (!FINAL_STATUSES.includes(status)) {
+    add(status, now.getTime());
+  }
+
+  return durations;
+}
+
+export function formatDuration(ms: number): string {
+  const totalHours = Math.floor(ms / 3_600_000);
+  if (totalHours < 1) return "< 1h";
+  const days = Math.floor(totalHours / 24);
+  const hours = totalHours % 24;
+  if (days === 0) return `${hours}h`;
+  return hours ? `${days}d ${hours}h` : `${days}d`;
+}
@@ -1,53 +1,86 @@
-import { prisma } from '@/lib/prisma';
-
-export async function generateNumeroPedido(type: 'BUDGET' | 'ORDER' = 'ORDER'): Promise<string> {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = (now.getMonth() + 1).toString().padStart(2, '0');
-  
-  if (type === 'ORDER') {
-    // Find the last order number for current month
-    const lastOrder = await prisma.order.findFirst({
-      where: {
-        numero_pedido: {
-          startsWith: 'ORD-'
-        }
-      },
-      orderBy: {
-        numero_pedido: 'desc'
-      }
-    });
-
-    let nextNumber = 1;
-    if (lastOrder) {
-      const match = lastOrder.numero_pedido.match(/ORD-(\d+)/);
-      if (match) {
-        nextNumber = parseInt(match[1]) + 1;
-      }
-    }
-
-    return `ORD-${nextNumber.toString().padStart(4, '0')}/${year}${month}`;
-  } else {
-    // Budget number generation (existing logic)
-    const lastBudget = await prisma.budget.findFirst({
-      where: {
-        numero_pedido: {
-          not: null
-        }
-      },
-      orderBy: {
-        numero_pedido: 'desc'
-      }
-    });
-
-    let nextNumber = 1;
-    if (lastBudget && lastBudget.numero_pedido) {
-      const match = lastBudget.numero_pedido.match(/(\d+)/);
-      if (match) {
-        nextNumber = parseInt(match[1]) + 1;
-      }
-    }
-
-    return `${nextNumber.toString().padStart(4, '0')}/${year}${month}`;
+import type { Prisma, SequenceResetPeriod } from '@/generated/prisma';
+
+export type SequenceKey = 'BUDGET' | 'ORDER';
+
+export interface SequenceSettings {
+  prefix: string;
+  format: string;
+  padding: number;
+  resetPeriod: SequenceResetPeriod;
+}
+
+// Format tokens: {PREFIX}, {SEQ}, {YYYY}, {YY}, {MM}
+export const SEQUENCE_TOKENS = ['{PREFIX}', '{SEQ}', '{YYYY}', '{YY}', '{MM}'] as const;
+
+// Defaults keep the historical numbering: ORD-0001/202501 and 0001/202501
+export const SEQUENCE_DEFAULTS: Record<SequenceKey, SequenceSettings> = {
+  ORDER: { prefix: 'ORD-', format: '{PREFIX}{SEQ}/{YYYY}{MM}', padding: 4, resetPeriod: 'MONTHLY' },
+  BUDGET: { prefix: '', format: '{PREFIX}{SEQ}/{YYYY}{MM}', padding: 4, resetPeriod: 'MONTHLY' },
+};
+
+/**
+ * Identifies the numbering period a date belongs to. The counter restarts
+ * whenever the period changes.
+ */
+export function resolveSequencePeriod(resetPeriod: SequenceResetPeriod, date: Date): string {
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+
+  switch (resetPeriod) {
+    case 'YEARLY':
+      return year;
+    case 'MONTHLY':
+      return `${year}${month}`;
+    default:
+      return '';
   }
 }
+
+export function formatSequenceNumber(
+  settings: Pick<SequenceSettings, 'prefix' | 'format' | 'padding'>,
+  value: number,
+  date: Date
+): string {
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+
+  return settings.format
+    .replaceAll('{PREFIX}', settings.prefix)
+    .replaceAll('{SEQ}', value.toString().padStart(settings.padding, '0'))
+    .replaceAll('{YYYY}', year)
+    .replaceAll('{YY}', year.slice(-2))
+    .replaceAll('{MM}', month);
+}
+
+/**
+ * Reserves the next number of a sequence. Must run inside the transaction
+ * that creates the budget or order: the row lock taken by the update makes
+ * concurrent callers wait, so two transactions never get the same value,
+ * and a rolled back create also rolls back the reserved number.
+ */
+export async function nextSequenceNumber(
+  tx: Prisma.TransactionClient,
+  key: SequenceKey,
+  date: Date = new Date()
+): Promise<string> {
+  const settings = await tx.numberSequence.upsert({
+    where: { key },
+    create: { key, ...SEQUENCE_DEFAULTS[key] },
+    update: {},
+  });
+
+  const period = resolveSequencePeriod(settings.resetPeriod, date);
+
+  // Restart the counter when entering a new period
+  await tx.numberSequence.updateMany({
+    where: { key, currentPeriod: { not: period } },
+    data: { currentPeriod: period, currentValue: 0 },
+  });
+
+  const sequence = await tx.numberSequence.update({
+    where: { key },
+    data: { currentValue: { increment: 1 } },
+  });
+
+  return formatSequenceNumber(sequence, sequence.currentValue, date);
+}
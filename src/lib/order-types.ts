@@ -0,0 +1,80 @@
+// src/lib/order-types.ts
+//
+// Business rules for orders created without a prior budget approval. Both
+// flows create an implicit budget from the order data; rush orders also carry
+// a priority, a price surcharge and accept shorter deadlines.
+
+import type { OrderPriority } from '@/generated/prisma';
+
+export type ImplicitOrderType = 'DIRECT_ORDER' | 'RUSH_ORDER';
+
+export const ORDER_TYPE_LABELS: Record<'BUDGET_DERIVED' | ImplicitOrderType, string> = {
+  BUDGET_DERIVED: 'A partir de orçamento',
+  DIRECT_ORDER: 'Pedido direto',
+  RUSH_ORDER: 'Pedido urgente',
+};
+
+export const ORDER_PRIORITY_LABELS: Record<OrderPriority, string> = {
+  NORMAL: 'Normal',
+  HIGH: 'Alta',
+  URGENT: 'Urgente',
+};
+
+export const RUSH_PRIORITIES = ['HIGH', 'URGENT'] as const satisfies readonly OrderPriority[];
+export type RushPriority = (typeof RUSH_PRIORITIES)[number];
+
+// Suggested surcharge per rush priority, in percent over the base unit price
+export const RUSH_SURCHARGE_DEFAULTS: Record<RushPriority, number> = {
+  HIGH: 25,
+  URGENT: 50,
+};
+
+export const MAX_RUSH_SURCHARGE_PERCENT = 200;
+
+// Deadline window in calendar days from today. Direct orders follow the
+// standard production lead time; anything shorter must go through a rush order.
+export const ORDER_DEADLINE_RULES: Record<ImplicitOrderType, { minDays: number; maxDays: number | null }> = {
+  DIRECT_ORDER: { minDays: 7, maxDays: null },
+  RUSH_ORDER: { minDays: 1, maxDays: 6 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function utcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+export function daysUntil(deadline: Date, now: Date = new Date()): number {
+  return Math.round((utcDay(deadline) - utcDay(now)) / DAY_MS);
+}
+
+/**
+ * Checks the requested delivery date against the deadline window of the
+ * order type. Returns an error message, or null when the deadline is valid.
+ */
+export function validateOrderDeadline(
+  orderType: ImplicitOrderType,
+  deadline: Date,
+  now: Date = new Date()
+): string | null {
+  if (Number.isNaN(deadline.getTime())) {
+    return 'Data de entrega inválida';
+  }
+
+  const { minDays, maxDays } = ORDER_DEADLINE_RULES[orderType];
+  const days = daysUntil(deadline, now);
+
+  if (days < minDays) {
+    return orderType === 'RUSH_ORDER'
+      ? `Pedidos urgentes precisam de pelo menos ${minDays} dia(s) de prazo`
+      : `Pedidos diretos precisam de pelo menos ${minDays} dias de prazo; para prazos menores use um pedido urgente`;
+  }
+  if (maxDays !== null && days > maxDays) {
+    return `Pedidos urgentes devem ter entrega em até ${maxDays} dias; use um pedido direto`;
+  }
+  return null;
+}
+
+export function applyRushSurcharge(unitPrice: number, surchargePercent: number): number {
+  return Math.round(unitPrice * (1 + surchargePercent / 100) * 100) / 100;
+}
@@ -0,0 +1,21 @@
+// src/lib/ownership.ts
+//
+// Helpers for the createdByUserId / assignedToUserId columns on Client,
+// Budget and Order. Row filtering itself lives in applyUserFilter (api-auth).
+
+import { prisma } from "@/lib/prisma";
+
+export const OWNER_SELECT = {
+  createdBy: { select: { id: true, name: true } },
+  assignedTo: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * True when the assignment can be stored: no assignee (undefined/null) or an
+ * existing user.
+ */
+export async function isAssignableUser(userId: number | null | undefined): Promise<boolean> {
+  if (userId === undefined || userId === null) return true;
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+  return user !== null;
+}
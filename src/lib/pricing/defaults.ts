@@ -0,0 +1,78 @@
+// src/lib/pricing/defaults.ts
+//
+// Reference price table used when a center has no prices of its own.
+// Options mirror especificacoes.json; matching is case-insensitive.
+
+import type { PriceTableEntry } from "./engine";
+
+export const DEFAULT_PRICE_TABLE: PriceTableEntry[] = [
+  // Papel do miolo (R$ por folha, formato de referência)
+  { component: "PAPEL_MIOLO", option: "Offset 75g", value: 0.05 },
+  { component: "PAPEL_MIOLO", option: "Offset 90g", value: 0.06 },
+  { component: "PAPEL_MIOLO", option: "Offset 120g", value: 0.08 },
+  { component: "PAPEL_MIOLO", option: "Pólen Bold 70g", value: 0.07 },
+  { component: "PAPEL_MIOLO", option: "Pólen Soft Natural 80g", value: 0.075 },
+  { component: "PAPEL_MIOLO", option: "Pólen Bold 90g", value: 0.09 },
+  { component: "PAPEL_MIOLO", option: "Couchê 90g", value: 0.08 },
+  { component: "PAPEL_MIOLO", option: "Couchê 115g", value: 0.1 },
+  { component: "PAPEL_MIOLO", option: "Couchê 150g", value: 0.13 },
+  { component: "PAPEL_MIOLO", option: "Avena 70g", value: 0.065 },
+  { component: "PAPEL_MIOLO", option: "Avena 80g", value: 0.07 },
+
+  // Papel da capa (R$ por capa)
+  { component: "PAPEL_CAPA", option: "Cartão Sup. Triplex 250g", value: 0.35 },
+  { component: "PAPEL_CAPA", option: "Cartão Sup. Triplex 300g", value: 0.42 },
+  { component: "PAPEL_CAPA", option: "Couchê 150g", value: 0.25 },
+  { component: "PAPEL_CAPA", option: "Couchê 170g", value: 0.28 },
+  { component: "PAPEL_CAPA", option: "Cartão DuoDesing 300g", value: 0.5 },
+
+  // Impressão do miolo (R$ por página)
+  { component: "IMPRESSAO_MIOLO", option: "PB", value: 0.02 },
+  { component: "IMPRESSAO_MIOLO", option: "COR", value: 0.12 },
+
+  // Impressão da capa (R$ por capa)
+  { component: "IMPRESSAO_CAPA", option: "4/0", value: 0.4 },
+  { component: "IMPRESSAO_CAPA", option: "4/4", value: 0.7 },
+  { component: "IMPRESSAO_CAPA", option: "Fichário", value: 2.5 },
+
+  // Laminação (R$ por unidade)
+  { component: "LAMINACAO", option: "Brilho", value: 0.3 },
+  { component: "LAMINACAO", option: "Fosca", value: 0.35 },
+  { component: "LAMINACAO", option: "Verniz Localizado", value: 0.6 },
+
+  // Acabamento (R$ por unidade)
+  { component: "ACABAMENTO", option: "Lombada colada", value: 0.9 },
+  { component: "ACABAMENTO", option: "Grampo e dobra", value: 0.25 },
+  { component: "ACABAMENTO", option: "wire-o", value: 2.2 },
+  { component: "ACABAMENTO", option: "espiral", value: 1.8 },
+  { component: "ACABAMENTO", option: "espiral + Acetato", value: 2.4 },
+  { component: "ACABAMENTO", option: "Costurado e colado", value: 1.6 },
+  { component: "ACABAMENTO", option: "Capa Dura", value: 7.5 },
+  { component: "ACABAMENTO", option: "corte reto", value: 0.1 },
+
+  // Shrink (R$ por unidade)
+  { component: "SHRINK", option: "sim", value: 0.15 },
+
+  // Acerto de máquina (R$ por trabalho)
+  { component: "SETUP", option: "", value: 150 },
+
+  // Fator multiplicador por formato fechado
+  { component: "FORMATO", option: "Pocket 10 x 15 cm", value: 0.5 },
+  { component: "FORMATO", option: "Pocket 12 x 18 cm", value: 0.6 },
+  { component: "FORMATO", option: "14 x 21 cm", value: 0.75 },
+  { component: "FORMATO", option: "14 x 23 cm", value: 0.8 },
+  { component: "FORMATO", option: "15 x 21 cm", value: 0.8 },
+  { component: "FORMATO", option: "16 x 23 cm", value: 0.85 },
+  { component: "FORMATO", option: "15,5 x 22,5 cm", value: 0.85 },
+  { component: "FORMATO", option: "17 x 23 cm", value: 0.9 },
+  { component: "FORMATO", option: "18 x 24 cm", value: 0.95 },
+  { component: "FORMATO", option: "20,5 x 29,50", value: 1 },
+  { component: "FORMATO", option: "A4", value: 1 },
+  { component: "FORMATO", option: "20 x 20 cm", value: 0.9 },
+  { component: "FORMATO", option: "21 x 21 cm", value: 0.95 },
+  { component: "FORMATO", option: "A3", value: 2 },
+  { component: "FORMATO", option: "24 x 28 cm", value: 1.2 },
+
+  // Margem aplicada sobre o custo (%)
+  { component: "MARGEM", option: "", value: 30 },
+];
@@ -0,0 +1,191 @@
+// src/lib/pricing/engine.ts
+//
+// Pure parametric cost calculator. Given the production specification of a
+// budget and a center's price table, it returns a per-component breakdown and
+// the resulting unit/total price. No database access happens here so the
+// engine can be reused on the server and unit tested in isolation.
+
+export const PRICE_COMPONENTS = [
+  "PAPEL_MIOLO",
+  "PAPEL_CAPA",
+  "IMPRESSAO_MIOLO",
+  "IMPRESSAO_CAPA",
+  "LAMINACAO",
+  "ACABAMENTO",
+  "SHRINK",
+  "SETUP",
+  "FORMATO",
+  "MARGEM",
+] as const;
+
+export type PriceComponent = (typeof PRICE_COMPONENTS)[number];
+
+export const PRICE_COMPONENT_LABELS: Record<PriceComponent, string> = {
+  PAPEL_MIOLO: "Papel do miolo (por folha)",
+  PAPEL_CAPA: "Papel da capa (por capa)",
+  IMPRESSAO_MIOLO: "Impressão do miolo (por página)",
+  IMPRESSAO_CAPA: "Impressão da capa (por capa)",
+  LAMINACAO: "Laminação (por unidade)",
+  ACABAMENTO: "Acabamento (por unidade)",
+  SHRINK: "Shrink (por unidade)",
+  SETUP: "Acerto / setup (por trabalho)",
+  FORMATO: "Fator de formato (multiplicador)",
+  MARGEM: "Margem (%)",
+};
+
+// Options used by IMPRESSAO_MIOLO to distinguish mono and color pages
+export const PRINT_OPTION_MONO = "PB";
+export const PRINT_OPTION_COLOR = "COR";
+
+export interface PriceTableEntry {
+  component: PriceComponent;
+  option: string;
+  value: number;
+}
+
+export interface QuoteSpecification {
+  formato: string;
+  tiragem: number;
+  total_pgs: number;
+  pgs_colors: number;
+  papel_miolo?: string;
+  papel_capa?: string;
+  cor_miolo?: string;
+  cor_capa?: string;
+  laminacao?: string;
+  acabamento?: string;
+  shrink?: string;
+}
+
+export interface QuoteLine {
+  component: PriceComponent;
+  label: string;
+  option: string;
+  quantity: number;
+  unitCost: number;
+  total: number;
+}
+
+export interface Quote {
+  lines: QuoteLine[];
+  subtotal: number;
+  marginPercent: number;
+  margin: number;
+  total: number;
+  tiragem: number;
+  preco_unitario: number;
+  preco_total: number;
+  warnings: string[];
+}
+
+const NO_COVER_OPTIONS = ["sem capa"];
+const NO_FINISHING_OPTIONS = ["sem acabamento"];
+
+export function normalizeOption(option: string | null | undefined): string {
+  return (option ?? "").trim().toLowerCase();
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function buildLookup(table: PriceTableEntry[]) {
+  const map = new Map<string, number>();
+  for (const entry of table) {
+    map.set(`${entry.component}:${normalizeOption(entry.option)}`, entry.value);
+  }
+  return (component: PriceComponent, option = ""): number | undefined =>
+    map.get(`${component}:${normalizeOption(option)}`);
+}
+
+export function calculateQuote(spec: QuoteSpecification, table: PriceTableEntry[]): Quote {
+  const lookup = buildLookup(table);
+  const lines: QuoteLine[] = [];
+  const warnings: string[] = [];
+
+  const tiragem = Math.max(0, Math.floor(spec.tiragem));
+  const totalPages = Math.max(0, Math.floor(spec.total_pgs));
+  const colorPages = Math.min(totalPages, Math.max(0, Math.floor(spec.pgs_colors)));
+  const monoPages = totalPages - colorPages;
+  const hasCover = Boolean(spec.cor_capa) && !NO_COVER_OPTIONS.includes(normalizeOption(spec.cor_capa));
+
+  const formatFactor = lookup("FORMATO", spec.formato);
+  if (formatFactor === undefined && spec.formato) {
+    warnings.push(`Formato "${spec.formato}" sem fator cadastrado; considerado 1.`);
+  }
+  const factor = formatFactor ?? 1;
+
+  const addLine = (
+    component: PriceComponent,
+    option: string | undefined,
+    quantity: number,
+    multiplier = 1
+  ) => {
+    if (!option || quantity <= 0) return;
+    const price = lookup(component, option);
+    if (price === undefined) {
+      warnings.push(`Sem preço cadastrado para ${PRICE_COMPONENT_LABELS[component]}: "${option}".`);
+      return;
+    }
+    const unitCost = price * multiplier;
+    lines.push({
+      component,
+      label: PRICE_COMPONENT_LABELS[component],
+      option,
+      quantity,
+      unitCost,
+      total: round2(unitCost * quantity),
+    });
+  };
+
+  // Miolo: paper is priced per sheet (two pages), printing per page
+  addLine("PAPEL_MIOLO", spec.papel_miolo, Math.ceil(totalPages / 2) * tiragem, factor);
+  addLine("IMPRESSAO_MIOLO", PRINT_OPTION_MONO, monoPages * tiragem, factor);
+  addLine("IMPRESSAO_MIOLO", PRINT_OPTION_COLOR, colorPages * tiragem, factor);
+
+  // Capa
+  if (hasCover) {
+    addLine("PAPEL_CAPA", spec.papel_capa, tiragem, factor);
+    addLine("IMPRESSAO_CAPA", spec.cor_capa, tiragem, factor);
+    addLine("LAMINACAO", spec.laminacao, tiragem, factor);
+  }
+
+  // Acabamento e embalagem
+  if (!NO_FINISHING_OPTIONS.includes(normalizeOption(spec.acabamento))) {
+    addLine("ACABAMENTO", spec.acabamento, tiragem);
+  }
+  if (normalizeOption(spec.shrink) === "sim") {
+    addLine("SHRINK", spec.shrink, tiragem);
+  }
+
+  const setup = lookup("SETUP");
+  if (setup !== undefined && setup > 0 && tiragem > 0) {
+    lines.push({
+      component: "SETUP",
+      label: PRICE_COMPONENT_LABELS.SETUP,
+      option: "",
+      quantity: 1,
+      unitCost: setup,
+      total: round2(setup),
+    });
+  }
+
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.total, 0));
+  const marginPercent = lookup("MARGEM") ?? 0;
+  const margin = round2((subtotal * marginPercent) / 100);
+  const total = round2(subtotal + margin);
+  const preco_unitario = tiragem > 0 ? round2(total / tiragem) : 0;
+
+  return {
+    lines,
+    subtotal,
+    marginPercent,
+    margin,
+    total,
+    tiragem,
+    preco_unitario,
+    // Keep the budget invariant preco_total = tiragem * preco_unitario
+    preco_total: round2(preco_unitario * tiragem),
+    warnings,
+  };
+}
@@ -0,0 +1,57 @@
+// src/lib/pricing/price-table.ts
+//
+// Database access for per-center price tables.
+
+import prisma from "@/lib/prisma";
+import { DEFAULT_PRICE_TABLE } from "./defaults";
+import type { PriceTableEntry } from "./engine";
+
+export interface CenterPriceTable {
+  centerId: number;
+  // True when the center has no prices of its own and defaults are returned
+  isDefault: boolean;
+  items: PriceTableEntry[];
+}
+
+export async function getCenterPriceTable(centerId: number): Promise<CenterPriceTable> {
+  const rows = await prisma.priceTableItem.findMany({
+    where: { centerId },
+    orderBy: [{ component: "asc" }, { option: "asc" }],
+  });
+
+  if (rows.length === 0) {
+    return { centerId, isDefault: true, items: DEFAULT_PRICE_TABLE };
+  }
+
+  return {
+    centerId,
+    isDefault: false,
+    items: rows.map((row) => ({
+      component: row.component,
+      option: row.option,
+      value: row.value,
+    })),
+  };
+}
+
+/**
+ * Replaces the whole price table of a center in a single transaction.
+ */
+export async function replaceCenterPriceTable(
+  centerId: number,
+  items: PriceTableEntry[]
+): Promise<CenterPriceTable> {
+  await prisma.$transaction([
+    prisma.priceTableItem.deleteMany({ where: { centerId } }),
+    prisma.priceTableItem.createMany({
+      data: items.map((item) => ({
+        centerId,
+        component: item.component,
+        option: item.option.trim(),
+        value: item.value,
+      })),
+    }),
+  ]);
+
+  return getCenterPriceTable(centerId);
+}
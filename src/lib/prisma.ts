@@ -1,13 +1,21 @@
 import { PrismaClient } from '@/generated/prisma'
+import { auditExtension } from './audit-extension'
 
 
 const globalForPrisma = global as unknown as { prisma: PrismaClient };
 
-export const prisma =
-  globalForPrisma.prisma ||
-  new PrismaClient({
+function createPrismaClient(): PrismaClient {
+  const base = new PrismaClient({
     log: ['query', 'error', 'warn'],
   });
+  // Mutations of audited models are logged through the plain client, after
+  // the transaction commits when there is one. The extension only adds query
+  // hooks and wraps $transaction, so the client keeps its own types and still
+  // fits helpers that take a Prisma.TransactionClient.
+  return base.$extends(auditExtension(base)) as unknown as PrismaClient;
+}
+
+export const prisma = globalForPrisma.prisma || createPrismaClient();
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
 
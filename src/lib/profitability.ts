@@ -0,0 +1,171 @@
+// src/lib/profitability.ts
+//
+// Margin per order, comparing estimated and actual costs. The production
+// cost is the pricing engine cost (quote subtotal, before margin) for the
+// budget specification; freight is estimated from Budget.frete and actual from
+// Order.frete_real, and Order.custo_adicional only counts towards actual cost.
+
+import { calculateQuote, type PriceTableEntry } from "./pricing/engine";
+import { parseCurrencyBRL } from "./utils";
+
+export const PROFITABILITY_GROUPINGS = ["client", "center", "editorial", "month"] as const;
+export type ProfitabilityGrouping = (typeof PROFITABILITY_GROUPINGS)[number];
+
+export const PROFITABILITY_GROUPING_LABELS: Record<ProfitabilityGrouping, string> = {
+  client: "Cliente",
+  center: "Centro",
+  editorial: "Editorial",
+  month: "Mês",
+};
+
+export interface ProfitabilityBudget {
+  titulo: string;
+  editorial: string | null;
+  formato: string;
+  tiragem: number;
+  total_pgs: number;
+  pgs_colors: number;
+  papel_miolo: string | null;
+  papel_capa: string | null;
+  cor_miolo: string | null;
+  cor_capa: string | null;
+  laminacao: string | null;
+  acabamento: string | null;
+  shrink: string | null;
+  frete: string | null;
+  preco_total: number;
+  centerId: number;
+  client: { name: string };
+  center: { name: string };
+}
+
+export interface ProfitabilityOrder {
+  numero_pedido: string;
+  data_pedido: Date;
+  frete_real: number | null;
+  custo_adicional: number | null;
+  budget: ProfitabilityBudget;
+}
+
+export interface ProfitabilityTotals {
+  revenue: number;
+  estimatedCost: number;
+  actualCost: number;
+  variance: number;
+  margin: number;
+  marginPercent: number | null;
+}
+
+export interface ProfitabilityRow extends ProfitabilityTotals {
+  numero_pedido: string;
+  titulo: string;
+  client: string;
+  center: string;
+  editorial: string;
+  month: string;
+}
+
+export interface ProfitabilityGroup extends ProfitabilityTotals {
+  key: string;
+  orders: number;
+}
+
+const NO_EDITORIAL = "Sem editorial";
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toTotals(revenue: number, estimatedCost: number, actualCost: number): ProfitabilityTotals {
+  const margin = revenue - actualCost;
+  return {
+    revenue: round2(revenue),
+    estimatedCost: round2(estimatedCost),
+    actualCost: round2(actualCost),
+    variance: round2(actualCost - estimatedCost),
+    margin: round2(margin),
+    marginPercent: revenue > 0 ? round2((margin / revenue) * 100) : null,
+  };
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, "0")}`;
+}
+
+export function calculateOrderProfitability(
+  order: ProfitabilityOrder,
+  priceTable: PriceTableEntry[]
+): ProfitabilityRow {
+  const { budget } = order;
+  const quote = calculateQuote(
+    {
+      formato: budget.formato,
+      tiragem: budget.tiragem,
+      total_pgs: budget.total_pgs,
+      pgs_colors: budget.pgs_colors,
+      papel_miolo: budget.papel_miolo ?? undefined,
+      papel_capa: budget.papel_capa ?? undefined,
+      cor_miolo: budget.cor_miolo ?? undefined,
+      cor_capa: budget.cor_capa ?? undefined,
+      laminacao: budget.laminacao ?? undefined,
+      acabamento: budget.acabamento ?? undefined,
+      shrink: budget.shrink ?? undefined,
+    },
+    priceTable
+  );
+
+  const productionCost = quote.subtotal;
+  const estimatedFreight = budget.frete ? parseCurrencyBRL(budget.frete) : 0;
+  // Without an actual freight value the estimate is the best figure we have
+  const actualFreight = order.frete_real ?? estimatedFreight;
+
+  return {
+    numero_pedido: order.numero_pedido,
+    titulo: budget.titulo,
+    client: budget.client.name,
+    center: budget.center.name,
+    editorial: budget.editorial?.trim() || NO_EDITORIAL,
+    month: monthKey(new Date(order.data_pedido)),
+    ...toTotals(
+      budget.preco_total,
+      productionCost + estimatedFreight,
+      productionCost + actualFreight + (order.custo_adicional ?? 0)
+    ),
+  };
+}
+
+export function groupProfitability(
+  rows: ProfitabilityRow[],
+  grouping: ProfitabilityGrouping
+): ProfitabilityGroup[] {
+  const groups = new Map<string, { orders: number; revenue: number; estimatedCost: number; actualCost: number }>();
+
+  for (const row of rows) {
+    const key = row[grouping];
+    const group = groups.get(key) ?? { orders: 0, revenue: 0, estimatedCost: 0, actualCost: 0 };
+    group.orders += 1;
+    group.revenue += row.revenue;
+    group.estimatedCost += row.estimatedCost;
+    group.actualCost += row.actualCost;
+    groups.set(key, group);
+  }
+
+  const result = Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    orders: group.orders,
+    ...toTotals(group.revenue, group.estimatedCost, group.actualCost),
+  }));
+
+  // Months read chronologically; other groupings by revenue
+  return grouping === "month"
+    ? result.sort((a, b) => a.key.localeCompare(b.key))
+    : result.sort((a, b) => b.revenue - a.revenue);
+}
+
+export function summarizeProfitability(rows: ProfitabilityRow[]): ProfitabilityTotals {
+  return toTotals(
+    rows.reduce((sum, row) => sum + row.revenue, 0),
+    rows.reduce((sum, row) => sum + row.estimatedCost, 0),
+    rows.reduce((sum, row) => sum + row.actualCost, 0)
+  );
+}
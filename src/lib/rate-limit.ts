@@ -0,0 +1,182 @@
+// src/lib/rate-limit.ts
+//
+// Fixed-window rate limiting with pluggable storage. Counters must be shared
+// by every server instance (Netlify runs many function instances), so the
+// default backend is a Postgres table; RedisRateLimitStore adapts any Redis
+// client, and MemoryRateLimitStore is for tests and single-process
+// development. The active store is picked in src/lib/server-rate-limit.ts.
+
+import type { PrismaClient } from "@/generated/prisma";
+
+export interface RateLimitHit {
+  // Requests counted in the current window, including this one
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  // Counts a request for `key` and returns the window state after counting it
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+export interface RateLimitPolicy {
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+const MINUTE = 60 * 1000;
+
+export const RATE_LIMIT_POLICIES = {
+  // Every login attempt from one address
+  LOGIN_IP: { name: "login:ip", limit: 20, windowMs: 15 * MINUTE },
+  // Login attempts against one e-mail from any address
+  LOGIN_ACCOUNT: { name: "login:account", limit: 10, windowMs: 15 * MINUTE },
+  REGISTER_IP: { name: "register:ip", limit: 5, windowMs: 60 * MINUTE },
+  REFRESH_IP: { name: "refresh:ip", limit: 60, windowMs: 15 * MINUTE },
+  // Requests that e-mail a link (password reset, verification resend)
+  EMAIL_LINK_IP: { name: "email-link:ip", limit: 10, windowMs: 15 * MINUTE },
+  EMAIL_LINK_ACCOUNT: { name: "email-link:account", limit: 3, windowMs: 60 * MINUTE },
+  // Submissions of a mailed token
+  EMAIL_TOKEN_IP: { name: "email-token:ip", limit: 20, windowMs: 15 * MINUTE },
+  // Second-factor codes per user; 6 digits must not be guessable by brute force
+  TWO_FACTOR_USER: { name: "2fa:user", limit: 5, windowMs: 15 * MINUTE },
+} satisfies Record<string, RateLimitPolicy>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export function rateLimitKey(policy: RateLimitPolicy, identifier: string): string {
+  return `${policy.name}:${identifier.trim().toLowerCase()}`;
+}
+
+/**
+ * Counts a request against the policy. Requests over the limit are still
+ * counted, so a client that keeps retrying does not get a fresh window early.
+ */
+export async function consumeRateLimit(
+  store: RateLimitStore,
+  policy: RateLimitPolicy,
+  identifier: string,
+  now: Date = new Date()
+): Promise<RateLimitResult> {
+  const { count, resetAt } = await store.hit(rateLimitKey(policy, identifier), policy.windowMs);
+  const retryAfterSeconds = Math.max(1, Math.ceil((resetAt.getTime() - now.getTime()) / 1000));
+
+  return {
+    allowed: count <= policy.limit,
+    remaining: Math.max(0, policy.limit - count),
+    retryAfterSeconds,
+  };
+}
+
+/**
+ * In-process counters. Not shared between instances and lost on restart.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, RateLimitHit>();
+
+  constructor(private clock: () => number = Date.now) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = this.clock();
+    const bucket = this.buckets.get(key);
+
+    if (!bucket || bucket.resetAt.getTime() <= now) {
+      const fresh = { count: 1, resetAt: new Date(now + windowMs) };
+      this.buckets.set(key, fresh);
+      return { ...fresh };
+    }
+
+    bucket.count += 1;
+    return { ...bucket };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key);
+  }
+}
+
+/**
+ * The commands RedisRateLimitStore needs; ioredis and node-redis clients
+ * both provide them.
+ */
+export interface RedisRateLimitClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<unknown>;
+  pttl(key: string): Promise<number>;
+  del(key: string): Promise<unknown>;
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private client: RedisRateLimitClient, private prefix = "ratelimit:") {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const redisKey = this.prefix + key;
+    const count = await this.client.incr(redisKey);
+
+    let ttl = await this.client.pttl(redisKey);
+    // First hit of the window, or a key left without expiry by a crash between INCR and PEXPIRE
+    if (count === 1 || ttl < 0) {
+      await this.client.pexpire(redisKey, windowMs);
+      ttl = windowMs;
+    }
+
+    return { count, resetAt: new Date(Date.now() + ttl) };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+// Share of hits that also delete expired rows, keeping the table small
+const PURGE_PROBABILITY = 0.01;
+
+/**
+ * Counters in the RateLimitBucket table. Each hit runs in a transaction: the
+ * row lock taken by the upsert makes concurrent hits on the same key wait,
+ * so no increment is lost across instances.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private db: PrismaClient) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + windowMs);
+
+    const bucket = await this.db.$transaction(async (tx) => {
+      await tx.rateLimitBucket.upsert({
+        where: { key },
+        create: { key, count: 0, windowStart: now, expiresAt },
+        update: {},
+      });
+
+      // Start a new window when the previous one is over
+      await tx.rateLimitBucket.updateMany({
+        where: { key, expiresAt: { lte: now } },
+        data: { count: 0, windowStart: now, expiresAt },
+      });
+
+      return tx.rateLimitBucket.update({
+        where: { key },
+        data: { count: { increment: 1 } },
+        select: { count: true, expiresAt: true },
+      });
+    });
+
+    if (Math.random() < PURGE_PROBABILITY) {
+      await this.db.rateLimitBucket.deleteMany({ where: { expiresAt: { lte: now } } });
+    }
+
+    return { count: bucket.count, resetAt: bucket.expiresAt };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.db.rateLimitBucket.deleteMany({ where: { key } });
+  }
+}
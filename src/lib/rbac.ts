@@ -8,7 +8,14 @@ export enum Permission {
   // User management
   READ_USERS = 'read:users',
   WRITE_USERS = 'write:users',
+  UPDATE_USERS = 'update:users',
   DELETE_USERS = 'delete:users',
+  MANAGE_SESSIONS = 'manage:sessions',
+  MANAGE_ROLES = 'manage:roles',
+
+  // Own account
+  READ_PROFILE = 'read:profile',
+  WRITE_PROFILE = 'write:profile',
 
   // Content management
   READ_CONTENT = 'read:content',
@@ -20,56 +27,110 @@ export enum Permission {
   READ_SYSTEM = 'read:system',
   WRITE_SYSTEM = 'write:system',
   DELETE_SYSTEM = 'delete:system',
+  READ_AUDIT_LOG = 'read:audit-log',
 
   // Reports and analytics
   READ_REPORTS = 'read:reports',
   WRITE_REPORTS = 'write:reports',
+  READ_FINANCIAL_REPORTS = 'read:financial-reports',
+  READ_PROFITABILITY = 'read:profitability',
+  READ_DASHBOARD = 'read:dashboard',
+  READ_REVENUE = 'read:revenue',
+  SEND_ANALYTICS = 'send:analytics',
+  READ_ANALYTICS = 'read:analytics',
+
+  // Record visibility: every row instead of created/assigned ones, prices
+  VIEW_ALL_RECORDS = 'view:all-records',
+  ASSIGN_RECORDS = 'assign:records',
+  READ_PRICES = 'read:prices',
+
+  // Budgets
+  READ_BUDGETS = 'read:budgets',
+  WRITE_BUDGETS = 'write:budgets',
+  APPROVE_BUDGETS = 'approve:budgets',
+  DELETE_BUDGETS = 'delete:budgets',
 
-  // Orders and budgets
+  // Orders
   READ_ORDERS = 'read:orders',
   WRITE_ORDERS = 'write:orders',
+  CREATE_ORDERS = 'create:orders',
+  CREATE_RUSH_ORDERS = 'create:rush-orders',
   APPROVE_ORDERS = 'approve:orders',
+  MANAGE_PRODUCTION = 'manage:production',
+  WRITE_DELIVERIES = 'write:deliveries',
+  DELETE_ORDERS = 'delete:orders',
 
   // Centers and clients
   READ_CENTERS = 'read:centers',
   WRITE_CENTERS = 'write:centers',
+  DELETE_CENTERS = 'delete:centers',
   READ_CLIENTS = 'read:clients',
-  WRITE_CLIENTS = 'write:clients'
+  CREATE_CLIENTS = 'create:clients',
+  WRITE_CLIENTS = 'write:clients',
+  READ_CLIENT_DOCUMENTS = 'read:client-documents',
+  DELETE_CLIENTS = 'delete:clients',
+  MERGE_CLIENTS = 'merge:clients'
 }
 
-// Role hierarchy and permissions mapping
-export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+// Role hierarchy for checking if one role can access another level
+export const ROLE_HIERARCHY: Record<Role, number> = {
+  [Role.USER]: 1,
+  [Role.MODERATOR]: 2,
+  [Role.ADMIN]: 3
+};
+
+// Permissions each role adds on top of the roles below it in ROLE_HIERARCHY.
+// ADMIN is granted everything, so a new permission is admin-only until it is
+// listed for a lower role.
+const ROLE_GRANTS: Record<Role, Permission[]> = {
   [Role.USER]: [
+    Permission.READ_PROFILE,
+    Permission.WRITE_PROFILE,
     Permission.READ_CONTENT,
     Permission.WRITE_CONTENT,
+    Permission.READ_DASHBOARD,
+    Permission.READ_REPORTS,
+    Permission.SEND_ANALYTICS,
+    Permission.READ_BUDGETS,
     Permission.READ_ORDERS,
     Permission.WRITE_ORDERS,
     Permission.READ_CENTERS,
     Permission.READ_CLIENTS,
-    Permission.WRITE_CLIENTS,
-    Permission.READ_REPORTS
+    Permission.CREATE_CLIENTS
   ],
   [Role.MODERATOR]: [
-    // All user permissions plus
     Permission.READ_USERS,
+    Permission.UPDATE_USERS,
     Permission.MODERATE_CONTENT,
     Permission.DELETE_CONTENT,
+    Permission.WRITE_REPORTS,
+    Permission.READ_FINANCIAL_REPORTS,
+    Permission.VIEW_ALL_RECORDS,
+    Permission.ASSIGN_RECORDS,
+    Permission.READ_PRICES,
+    Permission.WRITE_BUDGETS,
+    Permission.APPROVE_BUDGETS,
+    Permission.CREATE_ORDERS,
+    Permission.CREATE_RUSH_ORDERS,
     Permission.APPROVE_ORDERS,
+    Permission.MANAGE_PRODUCTION,
+    Permission.WRITE_DELIVERIES,
     Permission.WRITE_CENTERS,
-    Permission.WRITE_REPORTS
+    Permission.WRITE_CLIENTS,
+    Permission.READ_CLIENT_DOCUMENTS
   ],
-  [Role.ADMIN]: [
-    // All permissions
-    ...Object.values(Permission)
-  ]
+  [Role.ADMIN]: Object.values(Permission)
 };
 
-// Role hierarchy for checking if one role can access another level
-export const ROLE_HIERARCHY: Record<Role, number> = {
-  [Role.USER]: 1,
-  [Role.MODERATOR]: 2,
-  [Role.ADMIN]: 3
-};
+// Effective permissions: a role inherits the grants of every role below it
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = Object.fromEntries(
+  Object.values(Role).map((role) => {
+    const inherited = Object.values(Role)
+      .filter((other) => ROLE_HIERARCHY[other] <= ROLE_HIERARCHY[role])
+      .flatMap((other) => ROLE_GRANTS[other]);
+    return [role, [...new Set(inherited)]];
+  })
+) as Record<Role, Permission[]>;
 
 export class RBAC {
   /**
@@ -144,4 +205,102 @@ export const canReadReports = (role: Role) => RBAC.hasPermission(role, Permissio
 
 export const isAdmin = (role: Role) => role === Role.ADMIN;
 export const isModerator = (role: Role) => role === Role.MODERATOR || role === Role.ADMIN;
-export const isUser = (role: Role) => role === Role.USER || role === Role.MODERATOR || role === Role.ADMIN;
\ No newline at end of file
+export const isUser = (role: Role) => role === Role.USER || role === Role.MODERATOR || role === Role.ADMIN;
+
+// Permission catalog for the role editor (/admin/roles); every permission is
+// listed in exactly one group
+export interface PermissionGroup {
+  label: string;
+  permissions: { permission: Permission; label: string }[];
+}
+
+export const PERMISSION_GROUPS: PermissionGroup[] = [
+  {
+    label: 'Usuários e acesso',
+    permissions: [
+      { permission: Permission.READ_USERS, label: 'Listar usuários' },
+      { permission: Permission.WRITE_USERS, label: 'Criar usuários' },
+      { permission: Permission.UPDATE_USERS, label: 'Editar outros usuários' },
+      { permission: Permission.DELETE_USERS, label: 'Excluir usuários' },
+      { permission: Permission.MANAGE_SESSIONS, label: 'Gerenciar sessões e bloqueios' },
+      { permission: Permission.MANAGE_ROLES, label: 'Gerenciar perfis' },
+      { permission: Permission.READ_PROFILE, label: 'Ver o próprio perfil' },
+      { permission: Permission.WRITE_PROFILE, label: 'Editar o próprio perfil' }
+    ]
+  },
+  {
+    label: 'Conteúdo',
+    permissions: [
+      { permission: Permission.READ_CONTENT, label: 'Ler conteúdo' },
+      { permission: Permission.WRITE_CONTENT, label: 'Escrever conteúdo' },
+      { permission: Permission.DELETE_CONTENT, label: 'Excluir conteúdo' },
+      { permission: Permission.MODERATE_CONTENT, label: 'Moderar conteúdo' }
+    ]
+  },
+  {
+    label: 'Sistema',
+    permissions: [
+      { permission: Permission.READ_SYSTEM, label: 'Ver configurações do sistema' },
+      { permission: Permission.WRITE_SYSTEM, label: 'Alterar configurações do sistema' },
+      { permission: Permission.DELETE_SYSTEM, label: 'Excluir dados do sistema' },
+      { permission: Permission.READ_AUDIT_LOG, label: 'Ver log de auditoria' }
+    ]
+  },
+  {
+    label: 'Relatórios e painel',
+    permissions: [
+      { permission: Permission.READ_DASHBOARD, label: 'Ver painel' },
+      { permission: Permission.READ_REVENUE, label: 'Ver valores de faturamento' },
+      { permission: Permission.READ_REPORTS, label: 'Ver relatórios de produção' },
+      { permission: Permission.WRITE_REPORTS, label: 'Criar relatórios' },
+      { permission: Permission.READ_FINANCIAL_REPORTS, label: 'Ver relatórios financeiros' },
+      { permission: Permission.READ_PROFITABILITY, label: 'Ver rentabilidade' },
+      { permission: Permission.SEND_ANALYTICS, label: 'Enviar eventos de analytics' },
+      { permission: Permission.READ_ANALYTICS, label: 'Ver analytics' }
+    ]
+  },
+  {
+    label: 'Visibilidade de registros',
+    permissions: [
+      { permission: Permission.VIEW_ALL_RECORDS, label: 'Ver todos os registros, não só os próprios ou atribuídos' },
+      { permission: Permission.ASSIGN_RECORDS, label: 'Atribuir registros a usuários' },
+      { permission: Permission.READ_PRICES, label: 'Ver preços' }
+    ]
+  },
+  {
+    label: 'Orçamentos',
+    permissions: [
+      { permission: Permission.READ_BUDGETS, label: 'Ver orçamentos' },
+      { permission: Permission.WRITE_BUDGETS, label: 'Criar e editar orçamentos' },
+      { permission: Permission.APPROVE_BUDGETS, label: 'Aprovar ou rejeitar orçamentos' },
+      { permission: Permission.DELETE_BUDGETS, label: 'Excluir orçamentos' }
+    ]
+  },
+  {
+    label: 'Ordens de produção',
+    permissions: [
+      { permission: Permission.READ_ORDERS, label: 'Ver ordens' },
+      { permission: Permission.WRITE_ORDERS, label: 'Editar, pausar e retomar ordens' },
+      { permission: Permission.CREATE_ORDERS, label: 'Criar ordens' },
+      { permission: Permission.CREATE_RUSH_ORDERS, label: 'Criar pedidos urgentes' },
+      { permission: Permission.APPROVE_ORDERS, label: 'Aprovar ordens' },
+      { permission: Permission.MANAGE_PRODUCTION, label: 'Avançar ordens na produção' },
+      { permission: Permission.WRITE_DELIVERIES, label: 'Registrar entregas' },
+      { permission: Permission.DELETE_ORDERS, label: 'Excluir ordens' }
+    ]
+  },
+  {
+    label: 'Centros e clientes',
+    permissions: [
+      { permission: Permission.READ_CENTERS, label: 'Ver centros' },
+      { permission: Permission.WRITE_CENTERS, label: 'Editar centros e tabelas de preço' },
+      { permission: Permission.DELETE_CENTERS, label: 'Excluir centros' },
+      { permission: Permission.READ_CLIENTS, label: 'Ver clientes' },
+      { permission: Permission.CREATE_CLIENTS, label: 'Criar clientes' },
+      { permission: Permission.WRITE_CLIENTS, label: 'Editar clientes' },
+      { permission: Permission.READ_CLIENT_DOCUMENTS, label: 'Ver CNPJ/CPF' },
+      { permission: Permission.DELETE_CLIENTS, label: 'Excluir clientes' },
+      { permission: Permission.MERGE_CLIENTS, label: 'Mesclar clientes duplicados' }
+    ]
+  }
+];
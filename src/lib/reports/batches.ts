@@ -0,0 +1,33 @@
+// src/lib/reports/batches.ts
+//
+// Reads report queries a batch at a time, so an export holds one batch in
+// memory instead of the whole dataset. The query must have a total order
+// (end orderBy with the id) or rows could repeat or go missing between
+// batches.
+
+export const REPORT_BATCH_SIZE = 500;
+
+export interface ReportBatch {
+  skip: number;
+  take: number;
+}
+
+export async function* queryInBatches<T>(
+  findMany: (batch: ReportBatch) => Promise<T[]>,
+  batchSize: number = REPORT_BATCH_SIZE
+): AsyncGenerator<T> {
+  for (let skip = 0; ; skip += batchSize) {
+    const rows = await findMany({ skip, take: batchSize });
+    yield* rows;
+    if (rows.length < batchSize) return;
+  }
+}
+
+export async function* mapRows<T, R>(
+  rows: AsyncIterable<T>,
+  map: (row: T) => R | Promise<R>
+): AsyncGenerator<R> {
+  for await (const row of rows) {
+    yield await map(row);
+  }
+}
@@ -0,0 +1,126 @@
+// src/lib/reports/export.ts
+//
+// Server-side export of report data. Every /api/reports/* route accepts
+// ?format=csv|xlsx|pdf and hands its full filtered dataset to
+// exportReportResponse instead of returning JSON. Values are formatted for
+// pt-BR (dd/mm/aaaa dates, 1.234,56 numbers) and every file starts with the
+// filters that produced it.
+//
+// Row-level reports pass their rows as a batched query (see ./batches), and
+// every format is streamed to the client as the rows are read.
+
+import { xlsxChunks } from "./xlsx";
+import { pdfChunks } from "./pdf";
+import {
+  EXPORT_FORMATS,
+  formatReportCell,
+  reportHeaderLines,
+  reportSummaryLines,
+  type ExportFormat,
+  type ReportDocument,
+} from "./format";
+
+export { EXPORT_FORMATS } from "./format";
+export type { ExportFormat, ReportCellType, ReportCellValue, ReportColumn, ReportDocument, ReportLine } from "./format";
+
+const CSV_SEPARATOR = ";";
+// Byte order mark so Excel opens the file as UTF-8
+const CSV_BOM = "\uFEFF";
+const CSV_CHUNK_ROWS = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function escapeCsvValue(value: string): string {
+  return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Text starting with =, +, - or @ would be evaluated as a formula by spreadsheets
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+function csvLine(values: string[]): string {
+  return values.map(escapeCsvValue).join(CSV_SEPARATOR) + "\r\n";
+}
+
+export async function* csvChunks<T>(report: ReportDocument<T>): AsyncGenerator<string> {
+  let chunk = CSV_BOM + csvLine([report.title]);
+  for (const line of reportHeaderLines(report)) {
+    chunk += csvLine([line.label, line.value]);
+  }
+  chunk += "\r\n" + csvLine(report.columns.map((column) => column.header));
+
+  let written = 0;
+  for await (const row of report.rows) {
+    const cells = report.columns.map((column) => {
+      const formatted = formatReportCell(column.value(row), column.type);
+      return (column.type ?? "text") === "text" ? neutralizeFormula(formatted) : formatted;
+    });
+    chunk += csvLine(cells);
+
+    if (++written % CSV_CHUNK_ROWS === 0) {
+      yield chunk;
+      chunk = "";
+    }
+  }
+
+  const summary = reportSummaryLines(report);
+  if (summary.length) {
+    chunk += "\r\n";
+    for (const line of summary) {
+      chunk += csvLine([line.label, line.value]);
+    }
+  }
+  yield chunk;
+}
+
+function byteStream(chunks: AsyncIterator<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await chunks.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(typeof next.value === "string" ? encoder.encode(next.value) : next.value);
+        }
+      } catch (error) {
+        // Headers are already sent; the download ends incomplete
+        console.error("Report export failed:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return?.();
+    },
+  });
+}
+
+export function exportFileName(baseName: string, format: ExportFormat, date: Date = new Date()): string {
+  return `${baseName}_${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+export function exportReportResponse<T>(report: ReportDocument<T>, format: ExportFormat): Response {
+  const generated = { ...report, generatedAt: report.generatedAt ?? new Date() };
+  const chunks =
+    format === "csv" ? csvChunks(generated) : format === "xlsx" ? xlsxChunks(generated) : pdfChunks(generated);
+  const body = byteStream(chunks);
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      "Content-Type": CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${exportFileName(report.fileName, format, generated.generatedAt)}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
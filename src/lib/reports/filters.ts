@@ -0,0 +1,39 @@
+// src/lib/reports/filters.ts
+//
+// Human readable description of the filters applied to a report, printed at
+// the top of every exported file.
+
+import { prisma } from "@/lib/prisma";
+import { formatDatePtBR, type ReportLine } from "./format";
+
+export interface ReportFilterValues {
+  dateFrom?: string | null;
+  dateTo?: string | null;
+  editorial?: string | null;
+  centerId?: string | null;
+}
+
+export async function describeReportFilters(
+  filters: ReportFilterValues,
+  dateLabel: string = "Data de entrega"
+): Promise<ReportLine[]> {
+  const lines: ReportLine[] = [];
+
+  if (filters.dateFrom || filters.dateTo) {
+    const from = filters.dateFrom ? formatDatePtBR(filters.dateFrom) : "...";
+    const to = filters.dateTo ? formatDatePtBR(filters.dateTo) : "...";
+    lines.push({ label: dateLabel, value: `${from} a ${to}` });
+  }
+  if (filters.editorial && filters.editorial !== "all") {
+    lines.push({ label: "Editorial", value: filters.editorial });
+  }
+  if (filters.centerId && filters.centerId !== "all") {
+    const id = parseInt(filters.centerId, 10);
+    const center = Number.isNaN(id)
+      ? null
+      : await prisma.center.findUnique({ where: { id }, select: { name: true } });
+    lines.push({ label: "Centro", value: center?.name ?? `#${filters.centerId}` });
+  }
+
+  return lines;
+}
@@ -0,0 +1,84 @@
+// src/lib/reports/format.ts
+//
+// Report document model and pt-BR value formatting shared by the CSV, XLSX
+// and PDF exporters.
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "pdf"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ReportCellType = "text" | "integer" | "number" | "currency" | "percent" | "date";
+export type ReportCellValue = string | number | Date | null | undefined;
+
+export interface ReportColumn<T> {
+  header: string;
+  type?: ReportCellType;
+  value: (row: T) => ReportCellValue;
+}
+
+export interface ReportLine {
+  label: string;
+  value: string;
+}
+
+export interface ReportDocument<T> {
+  title: string;
+  // Base name of the downloaded file, without extension
+  fileName: string;
+  filters: ReportLine[];
+  columns: ReportColumn<T>[];
+  // Read once, in order; exporters write each row as it arrives
+  rows: Iterable<T> | AsyncIterable<T>;
+  // Totals printed after the rows. A function is called after the last row,
+  // so it can report totals accumulated while the rows were streamed
+  summary?: ReportLine[] | (() => ReportLine[]);
+  generatedAt?: Date;
+}
+
+const integerFormat = new Intl.NumberFormat("pt-BR", { maximumFractionDigits: 0 });
+const decimalFormat = new Intl.NumberFormat("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Report dates are calendar dates stored at UTC midnight; format them in UTC
+// so they do not shift a day in Brazilian time zones
+export function formatDatePtBR(value: Date | string): string {
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : date.toLocaleDateString("pt-BR", { timeZone: "UTC" });
+}
+
+export function formatDateTimePtBR(date: Date): string {
+  return date.toLocaleString("pt-BR", { timeZone: "America/Sao_Paulo" });
+}
+
+export function formatReportCell(value: ReportCellValue, type: ReportCellType = "text"): string {
+  if (value === null || value === undefined || value === "") return "";
+
+  switch (type) {
+    case "date":
+      return formatDatePtBR(value instanceof Date ? value : String(value));
+    case "integer":
+      return typeof value === "number" ? integerFormat.format(value) : String(value);
+    case "number":
+    case "currency":
+    case "percent":
+      return typeof value === "number" ? decimalFormat.format(value) : String(value);
+    default:
+      return value instanceof Date ? formatDatePtBR(value) : String(value);
+  }
+}
+
+export function formatRowCells<T>(report: ReportDocument<T>, row: T): string[] {
+  return report.columns.map((column) => formatReportCell(column.value(row), column.type));
+}
+
+export function reportSummaryLines<T>(report: ReportDocument<T>): ReportLine[] {
+  return typeof report.summary === "function" ? report.summary() : report.summary ?? [];
+}
+
+/**
+ * Header block shared by every format: title, generation time and filters.
+ */
+export function reportHeaderLines<T>(report: ReportDocument<T>): ReportLine[] {
+  return [
+    { label: "Gerado em", value: formatDateTimePtBR(report.generatedAt ?? new Date()) },
+    ...(report.filters.length > 0 ? report.filters : [{ label: "Filtros", value: "Nenhum" }]),
+  ];
+}
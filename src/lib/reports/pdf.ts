@@ -0,0 +1,241 @@
+// src/lib/reports/pdf.ts
+//
+// Plain PDF writer for report exports: landscape A4 pages with the report
+// header, the filters and a monospaced table that repeats its column headers
+// on every page. Uses the built-in Courier fonts with WinAnsi encoding, which
+// covers the accented characters used in Portuguese. Pages are written as
+// they fill up, so the page count is drawn from a form object written last.
+
+import { formatRowCells, reportHeaderLines, reportSummaryLines, type ReportDocument } from "./format";
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 30;
+const FONT_SIZE = 7;
+const LINE_HEIGHT = 9;
+// Courier glyphs are 600/1000 em wide
+const CHAR_WIDTH = FONT_SIZE * 0.6;
+const MAX_COLUMN_CHARS = 40;
+const COLUMN_GAP = 2;
+// Rows measured to size the columns; later rows are truncated to fit
+const WIDTH_SAMPLE_ROWS = 100;
+// Room reserved for "Página N de M" at the bottom right
+const PAGE_LABEL_CHARS = 24;
+
+// Characters WinAnsi places outside the Latin-1 range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "•": 0x95, "–": 0x96, "—": 0x97,
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "™": 0x99,
+};
+
+function encodeWinAnsi(text: string): Buffer {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (code === 0x202f || code === 0x00a0) {
+      // Intl uses (narrow) no-break spaces in dates and numbers
+      bytes.push(0x20);
+    } else if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      bytes.push(WIN_ANSI_EXTRAS[char]);
+    } else if (code >= 0x20 && code <= 0xff && !(code >= 0x7f && code <= 0x9f)) {
+      bytes.push(code);
+    } else {
+      bytes.push(0x3f); // "?"
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function pdfString(text: string): Buffer {
+  const escaped = encodeWinAnsi(text).toString("latin1").replace(/([\\()])/g, "\\$1");
+  return Buffer.from(`(${escaped})`, "latin1");
+}
+
+function fit(text: string, width: number, alignRight = false): string {
+  const value = text.length > width ? `${text.slice(0, Math.max(width - 1, 0))}…` : text;
+  return alignRight ? value.padStart(width) : value.padEnd(width);
+}
+
+/**
+ * Column widths in characters: the widest value per column, capped, then
+ * scaled down proportionally when the table is wider than the page.
+ */
+export function computeColumnWidths(header: string[], rows: string[][], availableChars: number): number[] {
+  const widths = header.map((title, index) =>
+    Math.min(MAX_COLUMN_CHARS, rows.reduce((widest, row) => Math.max(widest, row[index]?.length ?? 0), Math.max(title.length, 1)))
+  );
+  const total = widths.reduce((sum, width) => sum + width, 0) + COLUMN_GAP * (widths.length - 1);
+  if (total <= availableChars) return widths;
+
+  const scale = (availableChars - COLUMN_GAP * (widths.length - 1)) / (total - COLUMN_GAP * (widths.length - 1));
+  return widths.map((width) => Math.max(3, Math.floor(width * scale)));
+}
+
+interface TextLine {
+  text: string;
+  bold?: boolean;
+}
+
+function streamObject(dictionary: string, stream: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(`<< ${dictionary ? `${dictionary} ` : ""}/Length ${stream.length} >>\nstream\n`, "latin1"),
+    stream,
+    Buffer.from("\nendstream", "latin1"),
+  ]);
+}
+
+// Objects: 1 catalog, 2 page tree, 3 regular font, 4 bold font, 5 page count,
+// then a page and a content stream per page. The page tree and the page
+// count are only known at the end, so they are written last.
+const PAGE_COUNT_ID = 5;
+const FIRST_PAGE_ID = 6;
+
+export async function* pdfChunks<T>(report: ReportDocument<T>): AsyncGenerator<Buffer> {
+  const availableChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / CHAR_WIDTH);
+  const header = report.columns.map((column) => column.header);
+  const rightAligned = report.columns.map((column) => (column.type ?? "text") !== "text");
+  const linesPerPage = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT) - 1; // last line for page number
+
+  const offsets: number[] = [];
+  let length = 0;
+  const writeObject = (id: number, body: Buffer): Buffer => {
+    const object = Buffer.concat([
+      Buffer.from(`${id} 0 obj\n`, "latin1"),
+      body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    offsets[id] = length;
+    length += object.length;
+    return object;
+  };
+
+  const pageIds: number[] = [];
+  const writePage = (lines: TextLine[]): Buffer => {
+    const pageId = FIRST_PAGE_ID + pageIds.length * 2;
+    pageIds.push(pageId);
+
+    const parts: Buffer[] = [Buffer.from("BT\n", "latin1")];
+    lines.forEach((line, lineIndex) => {
+      const y = PAGE_HEIGHT - MARGIN - (lineIndex + 1) * LINE_HEIGHT;
+      parts.push(
+        Buffer.from(`/${line.bold ? "F2" : "F1"} ${FONT_SIZE} Tf 1 0 0 1 ${MARGIN} ${y} Tm `, "latin1"),
+        pdfString(line.text),
+        Buffer.from(" Tj\n", "latin1")
+      );
+    });
+    const pageLabel = `Página ${pageIds.length} de `;
+    const labelX = PAGE_WIDTH - MARGIN - PAGE_LABEL_CHARS * CHAR_WIDTH;
+    parts.push(
+      Buffer.from(`/F1 ${FONT_SIZE} Tf 1 0 0 1 ${labelX} ${MARGIN / 2} Tm `, "latin1"),
+      pdfString(pageLabel),
+      Buffer.from(` Tj\nET\nq 1 0 0 1 ${labelX + pageLabel.length * CHAR_WIDTH} ${MARGIN / 2} cm /PageCount Do Q`, "latin1")
+    );
+
+    return Buffer.concat([
+      writeObject(
+        pageId,
+        Buffer.from(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << /PageCount ${PAGE_COUNT_ID} 0 R >> >> ` +
+            `/Contents ${pageId + 1} 0 R >>`,
+          "latin1"
+        )
+      ),
+      writeObject(pageId + 1, streamObject("", Buffer.concat(parts))),
+    ]);
+  };
+
+  // Paginate: the preamble only on the first page, the table header on all
+  const written: Buffer[] = [];
+  let widths: number[] = [];
+  let tableHeader: TextLine[] = [];
+  let current: TextLine[] = [];
+  const formatRow = (values: string[]) =>
+    values.map((value, index) => fit(value, widths[index], rightAligned[index])).join(" ".repeat(COLUMN_GAP));
+  const addLine = (line: TextLine) => {
+    if (current.length >= linesPerPage) {
+      written.push(writePage(current));
+      current = [...tableHeader];
+    }
+    current.push(line);
+  };
+
+  let sample: string[][] | null = [];
+  const startTable = (rows: string[][]) => {
+    widths = computeColumnWidths(header, rows, availableChars);
+    tableHeader = [
+      { text: formatRow(header), bold: true },
+      { text: "-".repeat(Math.min(availableChars, formatRow(header).length)) },
+    ];
+    current = [
+      { text: report.title, bold: true },
+      ...reportHeaderLines(report).map((line) => ({ text: `${line.label}: ${line.value}` })),
+      { text: "" },
+      ...tableHeader,
+    ];
+    rows.forEach((cells) => addLine({ text: formatRow(cells) }));
+  };
+
+  const start = Buffer.from("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n", "latin1");
+  length = start.length;
+  yield Buffer.concat([
+    start,
+    writeObject(1, Buffer.from("<< /Type /Catalog /Pages 2 0 R >>", "latin1")),
+    writeObject(3, Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>", "latin1")),
+    writeObject(4, Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>", "latin1")),
+  ]);
+
+  for await (const row of report.rows) {
+    const cells = formatRowCells(report, row);
+    if (!sample) {
+      addLine({ text: formatRow(cells) });
+    } else {
+      sample.push(cells);
+      if (sample.length >= WIDTH_SAMPLE_ROWS) {
+        startTable(sample);
+        sample = null;
+      }
+    }
+    yield* written.splice(0);
+  }
+  if (sample) {
+    startTable(sample);
+  }
+
+  const summary = reportSummaryLines(report);
+  if (summary.length) {
+    addLine({ text: "" });
+    summary.forEach((line) => addLine({ text: `${line.label}: ${line.value}`, bold: true }));
+  }
+  written.push(writePage(current));
+  yield* written.splice(0);
+
+  yield writeObject(
+    2,
+    Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`, "latin1")
+  );
+  yield writeObject(
+    PAGE_COUNT_ID,
+    streamObject(
+      `/Type /XObject /Subtype /Form /BBox [0 -2 ${PAGE_LABEL_CHARS * CHAR_WIDTH} ${LINE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >>`,
+      Buffer.concat([
+        Buffer.from(`BT /F1 ${FONT_SIZE} Tf `, "latin1"),
+        pdfString(pageIds.length.toString()),
+        Buffer.from(" Tj ET", "latin1"),
+      ])
+    )
+  );
+
+  const xref = [
+    "xref",
+    `0 ${offsets.length}`,
+    "0000000000 65535 f ",
+    ...offsets.slice(1).map((offset) => `${offset.toString().padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${offsets.length} /Root 1 0 R >>`,
+    "startxref",
+    length.toString(),
+    "%%EOF",
+  ].join("\n");
+  yield Buffer.from(xref, "latin1");
+}
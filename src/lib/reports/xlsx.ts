@@ -0,0 +1,173 @@
+// src/lib/reports/xlsx.ts
+//
+// Single-sheet XLSX writer for report exports. Numbers and dates are written
+// as real cell values with pt-BR friendly number formats, so the workbook
+// can be summed and filtered in Excel. The sheet is streamed into the
+// archive as its rows arrive.
+
+import { zipChunks } from "./zip";
+import {
+  reportHeaderLines,
+  reportSummaryLines,
+  type ReportCellType,
+  type ReportCellValue,
+  type ReportDocument,
+} from "./format";
+
+const SHEET_CHUNK_ROWS = 500;
+
+// Indexes into cellXfs in STYLES_XML
+const STYLE = {
+  default: 0,
+  bold: 1,
+  integer: 2,
+  number: 3,
+  currency: 4,
+  percent: 5,
+  date: 6,
+} as const;
+
+const CELL_STYLES: Record<ReportCellType, number> = {
+  text: STYLE.default,
+  integer: STYLE.integer,
+  number: STYLE.number,
+  currency: STYLE.currency,
+  percent: STYLE.percent,
+  date: STYLE.date,
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="&quot;R$&quot; #,##0.00"/><numFmt numFmtId="165" formatCode="dd/mm/yyyy"/><numFmt numFmtId="166" formatCode="0.00&quot;%&quot;"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="7"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+</styleSheet>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Sheet names are limited to 31 characters and cannot contain []:*?/\
+function sheetName(title: string): string {
+  return title.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Relatório";
+}
+
+function workbookXml(title: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sheetName(title))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Excel serial date (days since 1899-12-30)
+function excelDate(date: Date): number {
+  return date.getTime() / 86_400_000 + 25569;
+}
+
+function textCell(ref: string, value: string, style: number = STYLE.default): string {
+  return `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ""}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function valueCell(ref: string, value: ReportCellValue, type: ReportCellType = "text"): string {
+  if (value === null || value === undefined || value === "") return "";
+
+  if (type === "date") {
+    const date = value instanceof Date ? value : new Date(String(value));
+    return Number.isNaN(date.getTime()) ? "" : `<c r="${ref}" s="${STYLE.date}"><v>${excelDate(date)}</v></c>`;
+  }
+  if (type !== "text" && typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}" s="${CELL_STYLES[type]}"><v>${value}</v></c>`;
+  }
+  return textCell(ref, value instanceof Date ? value.toISOString() : String(value));
+}
+
+async function* sheetChunks<T>(report: ReportDocument<T>): AsyncGenerator<Buffer> {
+  let chunk = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetData>`;
+  let rowCount = 0;
+  const addRow = (cells: string[]) => {
+    rowCount += 1;
+    chunk += `<row r="${rowCount}">${cells.join("")}</row>`;
+  };
+  const nextRef = (column: number) => `${columnName(column)}${rowCount + 1}`;
+
+  addRow([textCell(nextRef(0), report.title, STYLE.bold)]);
+  for (const line of reportHeaderLines(report)) {
+    addRow([textCell(nextRef(0), line.label, STYLE.bold), textCell(nextRef(1), line.value)]);
+  }
+  addRow([]);
+  addRow(report.columns.map((column, index) => textCell(nextRef(index), column.header, STYLE.bold)));
+
+  let written = 0;
+  for await (const row of report.rows) {
+    addRow(report.columns.map((column, index) => valueCell(nextRef(index), column.value(row), column.type)));
+    if (++written % SHEET_CHUNK_ROWS === 0) {
+      yield Buffer.from(chunk, "utf8");
+      chunk = "";
+    }
+  }
+
+  const summary = reportSummaryLines(report);
+  if (summary.length) {
+    addRow([]);
+    for (const line of summary) {
+      addRow([textCell(nextRef(0), line.label, STYLE.bold), textCell(nextRef(1), line.value)]);
+    }
+  }
+
+  chunk += `</sheetData>
+</worksheet>`;
+  yield Buffer.from(chunk, "utf8");
+}
+
+export function xlsxChunks<T>(report: ReportDocument<T>): AsyncGenerator<Buffer> {
+  return zipChunks(
+    [
+      { name: "[Content_Types].xml", data: Buffer.from(CONTENT_TYPES_XML, "utf8") },
+      { name: "_rels/.rels", data: Buffer.from(ROOT_RELS_XML, "utf8") },
+      { name: "xl/workbook.xml", data: Buffer.from(workbookXml(report.title), "utf8") },
+      { name: "xl/_rels/workbook.xml.rels", data: Buffer.from(WORKBOOK_RELS_XML, "utf8") },
+      { name: "xl/styles.xml", data: Buffer.from(STYLES_XML, "utf8") },
+      { name: "xl/worksheets/sheet1.xml", data: sheetChunks(report) },
+    ],
+    report.generatedAt
+  );
+}
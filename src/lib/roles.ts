@@ -0,0 +1,225 @@
+// src/lib/roles.ts
+//
+// Roles stored in the Role/RolePermission tables. USER, MODERATOR and ADMIN
+// are built in: they are seeded from ROLE_PERMISSIONS the first time the role
+// list is read and can be edited but not deleted. Admins add their own roles
+// (e.g. "Financeiro", "Produção") under /admin/roles.
+//
+// A role's permissions are resolved when an access token is issued (login,
+// register, refresh) and travel in the token, so edits apply from the next
+// refresh. ADMIN always resolves to every permission, which keeps at least one
+// role able to undo a bad edit.
+
+import type { Prisma } from "@/generated/prisma";
+import { Permission, Role, ROLE_HIERARCHY, ROLE_PERMISSIONS } from "./rbac";
+import type { RoleInput, RoleUpdateInput } from "./validation";
+
+export class RoleError extends Error {
+  constructor(public message: string, public status: number = 400) {
+    super(message);
+    this.name = "RoleError";
+  }
+}
+
+type Db = Prisma.TransactionClient;
+
+// What the rest of the app needs to know about a user's role
+export interface ResolvedRole {
+  key: string;
+  level: number;
+  permissions: Permission[];
+}
+
+// Row of the /admin/roles listing
+export interface RoleSummary extends ResolvedRole {
+  id: number;
+  name: string;
+  description: string | null;
+  builtIn: boolean;
+  userCount: number;
+}
+
+const BUILT_IN_ROLE_NAMES: Record<Role, string> = {
+  [Role.USER]: "User",
+  [Role.MODERATOR]: "Moderator",
+  [Role.ADMIN]: "Admin",
+};
+
+export function isBuiltInRole(key: string): key is Role {
+  return (Object.values(Role) as string[]).includes(key);
+}
+
+const KNOWN_PERMISSIONS = new Set<string>(Object.values(Permission));
+
+/**
+ * Drops stored values that are no longer in the Permission enum.
+ */
+export function toPermissions(values: string[]): Permission[] {
+  return [...new Set(values.filter((value) => KNOWN_PERMISSIONS.has(value)))] as Permission[];
+}
+
+interface StoredRole {
+  key: string;
+  level: number;
+  permissions: { permission: string }[];
+}
+
+/**
+ * Effective role for a key and its row, if any. Built-in roles without a row
+ * (not seeded yet) use the defaults; unknown keys get no permissions.
+ */
+export function effectiveRole(key: string, stored: StoredRole | null): ResolvedRole {
+  if (key === Role.ADMIN) {
+    return { key, level: ROLE_HIERARCHY[Role.ADMIN], permissions: ROLE_PERMISSIONS[Role.ADMIN] };
+  }
+  if (stored) {
+    return { key, level: stored.level, permissions: toPermissions(stored.permissions.map((row) => row.permission)) };
+  }
+  if (isBuiltInRole(key)) {
+    return { key, level: ROLE_HIERARCHY[key], permissions: ROLE_PERMISSIONS[key] };
+  }
+  return { key, level: ROLE_HIERARCHY[Role.USER], permissions: [] };
+}
+
+export async function resolveRole(db: Db, key: string): Promise<ResolvedRole> {
+  const stored = await db.role.findUnique({
+    where: { key },
+    select: { key: true, level: true, permissions: { select: { permission: true } } },
+  });
+  return effectiveRole(key, stored);
+}
+
+/**
+ * Creates the built-in roles that have no row yet. Existing rows are left
+ * alone, so edits made by admins survive.
+ */
+export async function ensureBuiltInRoles(db: Db): Promise<void> {
+  const existing = await db.role.findMany({
+    where: { key: { in: Object.values(Role) } },
+    select: { key: true },
+  });
+  const seeded = new Set(existing.map((row) => row.key));
+
+  for (const role of Object.values(Role).filter((key) => !seeded.has(key))) {
+    await db.role.create({
+      data: {
+        key: role,
+        name: BUILT_IN_ROLE_NAMES[role],
+        level: ROLE_HIERARCHY[role],
+        builtIn: true,
+        permissions: { create: ROLE_PERMISSIONS[role].map((permission) => ({ permission })) },
+      },
+    });
+  }
+}
+
+const ROLE_SELECT = {
+  id: true,
+  key: true,
+  name: true,
+  description: true,
+  level: true,
+  builtIn: true,
+  permissions: { select: { permission: true } },
+} as const;
+
+type RoleRow = Prisma.RoleGetPayload<{ select: typeof ROLE_SELECT }>;
+
+function toSummary(row: RoleRow, userCount: number): RoleSummary {
+  return {
+    ...effectiveRole(row.key, row),
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    builtIn: row.builtIn,
+    userCount,
+  };
+}
+
+export async function listRoles(db: Db): Promise<RoleSummary[]> {
+  await ensureBuiltInRoles(db);
+
+  const [rows, counts] = await Promise.all([
+    db.role.findMany({ select: ROLE_SELECT, orderBy: [{ level: "asc" }, { name: "asc" }] }),
+    db.user.groupBy({ by: ["role"], _count: { _all: true } }),
+  ]);
+  const usersByRole = new Map(counts.map((count) => [count.role, count._count._all]));
+
+  return rows.map((row) => toSummary(row, usersByRole.get(row.key) ?? 0));
+}
+
+/**
+ * Whether the key belongs to a role that can be assigned to users.
+ */
+export async function roleExists(db: Db, key: string): Promise<boolean> {
+  if (isBuiltInRole(key)) return true;
+  return (await db.role.count({ where: { key } })) > 0;
+}
+
+export async function createRole(db: Db, input: RoleInput): Promise<RoleSummary> {
+  if (await roleExists(db, input.key)) {
+    throw new RoleError("A role with this key already exists", 409);
+  }
+
+  const row = await db.role.create({
+    data: {
+      key: input.key,
+      name: input.name,
+      description: input.description ?? null,
+      level: input.level,
+      permissions: { create: toPermissions(input.permissions).map((permission) => ({ permission })) },
+    },
+    select: ROLE_SELECT,
+  });
+  return toSummary(row, 0);
+}
+
+export async function updateRole(db: Db, id: number, input: RoleUpdateInput): Promise<RoleSummary> {
+  const role = await db.role.findUnique({ where: { id }, select: { key: true, level: true, builtIn: true } });
+  if (!role) {
+    throw new RoleError("Role not found", 404);
+  }
+  // The hierarchy of the built-in roles is what the rest of the app relies on
+  if (role.builtIn && input.level !== undefined && input.level !== role.level) {
+    throw new RoleError("The level of a built-in role cannot be changed");
+  }
+  if (role.key === Role.ADMIN && input.permissions !== undefined) {
+    throw new RoleError("The ADMIN role always has every permission");
+  }
+
+  if (input.permissions !== undefined) {
+    await db.rolePermission.deleteMany({ where: { roleId: id } });
+    await db.rolePermission.createMany({
+      data: toPermissions(input.permissions).map((permission) => ({ roleId: id, permission })),
+    });
+  }
+
+  const row = await db.role.update({
+    where: { id },
+    data: {
+      name: input.name,
+      description: input.description,
+      level: role.builtIn ? undefined : input.level,
+    },
+    select: ROLE_SELECT,
+  });
+  const userCount = await db.user.count({ where: { role: row.key } });
+  return toSummary(row, userCount);
+}
+
+export async function deleteRole(db: Db, id: number): Promise<void> {
+  const role = await db.role.findUnique({ where: { id }, select: { key: true, builtIn: true } });
+  if (!role) {
+    throw new RoleError("Role not found", 404);
+  }
+  if (role.builtIn) {
+    throw new RoleError("Built-in roles cannot be deleted");
+  }
+
+  const userCount = await db.user.count({ where: { role: role.key } });
+  if (userCount > 0) {
+    throw new RoleError(`The role is assigned to ${userCount} user(s); move them to another role first`, 409);
+  }
+
+  await db.role.delete({ where: { id } });
+}
@@ -0,0 +1,53 @@
+// src/lib/server-rate-limit.ts
+//
+// Rate-limit store used by the API routes. RATE_LIMIT_BACKEND selects it:
+// "postgres" (default) or "memory". A Redis deployment registers its own
+// store once at startup with setRateLimitStore(new RedisRateLimitStore(client)).
+
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  consumeRateLimit,
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  type RateLimitPolicy,
+  type RateLimitStore,
+} from "@/lib/rate-limit";
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_BACKEND === "memory"
+      ? new MemoryRateLimitStore()
+      : new PostgresRateLimitStore(prisma);
+  }
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+/**
+ * Counts the request and returns a 429 response when the limit is exceeded,
+ * or null when the request may proceed. A failing store lets the request
+ * through: the limiter must not take the login down with it.
+ */
+export async function enforceRateLimit(
+  policy: RateLimitPolicy,
+  identifier: string
+): Promise<NextResponse | null> {
+  try {
+    const result = await consumeRateLimit(getRateLimitStore(), policy, identifier);
+    if (result.allowed) return null;
+
+    return NextResponse.json(
+      { error: { message: "Too many requests. Please try again later.", details: null } },
+      { status: 429, headers: { "Retry-After": result.retryAfterSeconds.toString() } }
+    );
+  } catch (error) {
+    console.error(`[RATE LIMIT] ${policy.name} check failed:`, error);
+    return null;
+  }
+}
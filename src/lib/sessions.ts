@@ -0,0 +1,275 @@
+// src/lib/sessions.ts
+//
+// Server-side login sessions. Each login creates a Session (one per device)
+// and a refresh token for it; only the SHA-256 hash of the token is stored.
+// Refreshing consumes the presented token and issues a replacement in the same
+// session. A token that is presented again after being consumed has leaked, so
+// the whole session (the token family) is revoked.
+//
+// The functions take a Prisma client instead of importing it; refresh must not
+// run inside a transaction, otherwise the revocation on reuse would be rolled
+// back together with the error.
+
+import { createHash } from "crypto";
+import type { Prisma } from "@/generated/prisma";
+import type { ClientInfo } from "./client-info";
+import { describeIpLocation } from "./geoip";
+import { generateRefreshToken, REFRESH_TOKEN_TTL_SECONDS } from "./unified-auth";
+
+export class SessionError extends Error {
+  constructor(public message: string, public status: number = 401) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+export const SESSION_REVOKE_REASONS = {
+  LOGOUT: "LOGOUT",
+  TOKEN_REUSE: "TOKEN_REUSE",
+  ADMIN_LOGOUT_EVERYWHERE: "ADMIN_LOGOUT_EVERYWHERE",
+  ROLE_CHANGED: "ROLE_CHANGED",
+  USER_REVOKED: "USER_REVOKED",
+  ADMIN_REVOKED: "ADMIN_REVOKED",
+  PASSWORD_RESET: "PASSWORD_RESET",
+  EMAIL_CHANGED: "EMAIL_CHANGED",
+} as const;
+
+export type SessionRevokeReason = (typeof SESSION_REVOKE_REASONS)[keyof typeof SESSION_REVOKE_REASONS];
+
+type Db = Prisma.TransactionClient;
+
+export type RefreshTokenState = "valid" | "reused" | "revoked" | "expired";
+
+export interface StoredRefreshToken {
+  usedAt: Date | null;
+  expiresAt: Date;
+  session: { revokedAt: Date | null; expiresAt: Date };
+}
+
+export interface IssuedSession {
+  sessionId: number;
+  refreshToken: string;
+}
+
+// Row of the session listings (/account/sessions and the admin page)
+export interface SessionSummary {
+  id: number;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  location: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * Short description of a user agent, e.g. "Chrome em Windows".
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Dispositivo desconhecido";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} em ${platform}`;
+  return browser ?? platform ?? "Outro dispositivo";
+}
+
+export function hashRefreshToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function refreshExpiry(now: Date): Date {
+  return new Date(now.getTime() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+}
+
+/**
+ * Decides whether a stored refresh token may be exchanged. A revoked session
+ * wins over reuse: there is nothing left to revoke.
+ */
+export function classifyRefreshToken(record: StoredRefreshToken, now: Date = new Date()): RefreshTokenState {
+  if (record.session.revokedAt) return "revoked";
+  if (record.usedAt) return "reused";
+  if (record.expiresAt <= now || record.session.expiresAt <= now) return "expired";
+  return "valid";
+}
+
+async function issueRefreshToken(db: Db, userId: number, sessionId: number, now: Date): Promise<string> {
+  const refreshToken = await generateRefreshToken(userId, sessionId);
+  await db.refreshToken.create({
+    data: {
+      sessionId,
+      tokenHash: hashRefreshToken(refreshToken),
+      expiresAt: refreshExpiry(now),
+    },
+  });
+  return refreshToken;
+}
+
+/**
+ * Starts a session for a successful login or registration.
+ */
+export async function createSession(db: Db, userId: number, client: ClientInfo): Promise<IssuedSession> {
+  const now = new Date();
+  const session = await db.session.create({
+    data: {
+      userId,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: refreshExpiry(now),
+    },
+    select: { id: true },
+  });
+
+  const refreshToken = await issueRefreshToken(db, userId, session.id, now);
+  return { sessionId: session.id, refreshToken };
+}
+
+/**
+ * Exchanges a refresh token for a new one in the same session. Throws
+ * SessionError when the token is unknown, expired, revoked or reused; reuse
+ * also revokes the session.
+ */
+export async function rotateRefreshToken(
+  db: Db,
+  token: string,
+  client: ClientInfo
+): Promise<IssuedSession & { userId: number }> {
+  const now = new Date();
+  const record = await db.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(token) },
+    select: {
+      id: true,
+      usedAt: true,
+      expiresAt: true,
+      session: { select: { id: true, userId: true, revokedAt: true, expiresAt: true } },
+    },
+  });
+
+  if (!record) {
+    throw new SessionError("Invalid refresh token");
+  }
+
+  const { session } = record;
+  const state = classifyRefreshToken(record, now);
+
+  if (state === "reused") {
+    await revokeSession(db, session.id, SESSION_REVOKE_REASONS.TOKEN_REUSE);
+    throw new SessionError("Refresh token reuse detected; session revoked");
+  }
+  if (state !== "valid") {
+    throw new SessionError("Session expired or revoked");
+  }
+
+  // Conditional update: of two requests racing with the same token only one wins
+  const consumed = await db.refreshToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: now },
+  });
+  if (consumed.count === 0) {
+    await revokeSession(db, session.id, SESSION_REVOKE_REASONS.TOKEN_REUSE);
+    throw new SessionError("Refresh token reuse detected; session revoked");
+  }
+
+  await db.session.update({
+    where: { id: session.id },
+    data: {
+      lastUsedAt: now,
+      expiresAt: refreshExpiry(now),
+      ipAddress: client.ipAddress ?? undefined,
+      userAgent: client.userAgent ?? undefined,
+    },
+  });
+
+  const refreshToken = await issueRefreshToken(db, session.userId, session.id, now);
+  return { userId: session.userId, sessionId: session.id, refreshToken };
+}
+
+/**
+ * Session the presented refresh token belongs to, used to flag the current
+ * login in the listings.
+ */
+export async function findSessionIdByToken(db: Db, token: string | undefined): Promise<number | null> {
+  if (!token) return null;
+  const record = await db.refreshToken.findUnique({
+    where: { tokenHash: hashRefreshToken(token) },
+    select: { sessionId: true },
+  });
+  return record?.sessionId ?? null;
+}
+
+/**
+ * Active (not revoked, not expired) sessions of a user, most recently used first.
+ */
+export async function listActiveSessions(
+  db: Db,
+  userId: number,
+  currentSessionId: number | null = null
+): Promise<SessionSummary[]> {
+  const sessions = await db.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: "desc" },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+  });
+
+  return Promise.all(
+    sessions.map(async (session) => ({
+      ...session,
+      device: describeUserAgent(session.userAgent),
+      location: await describeIpLocation(session.ipAddress),
+      current: session.id === currentSessionId,
+    }))
+  );
+}
+
+export async function revokeSession(db: Db, sessionId: number, reason: SessionRevokeReason): Promise<boolean> {
+  const result = await db.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Revokes the session a refresh token belongs to (logout). Unknown tokens are ignored.
+ */
+export async function revokeSessionByToken(db: Db, token: string, reason: SessionRevokeReason): Promise<boolean> {
+  const sessionId = await findSessionIdByToken(db, token);
+  if (sessionId === null) return false;
+  return revokeSession(db, sessionId, reason);
+}
+
+/**
+ * Revokes every active session of a user ("log out everywhere"). Returns the number revoked.
+ */
+export async function revokeUserSessions(db: Db, userId: number, reason: SessionRevokeReason): Promise<number> {
+  const result = await db.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.count;
+}
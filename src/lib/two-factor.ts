@@ -0,0 +1,243 @@
+// src/lib/two-factor.ts
+//
+// TOTP second factor. Enrollment stores an encrypted secret; the factor is
+// enforced once the user confirms a first code, which also issues the
+// recovery codes. At login, after the password, the user sends either a
+// 6-digit code or one of the recovery codes (see POST /api/auth/login).
+//
+// TWO_FACTOR_REQUIRED_ROLE makes the factor mandatory for that role and every
+// role above it in ROLE_HIERARCHY (custom roles by their level); users without
+// it must enroll before they get a session.
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import type { Prisma } from "@/generated/prisma";
+import { Role, ROLE_HIERARCHY } from "./rbac";
+import { resolveRole, type ResolvedRole } from "./roles";
+import { generateTotpSecret, verifyTotp } from "./totp";
+
+export class TwoFactorError extends Error {
+  constructor(public message: string, public status: number = 400) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+export const TWO_FACTOR_ISSUER = "Alphabook";
+export const RECOVERY_CODE_COUNT = 10;
+
+// --- Policy ---
+
+/**
+ * Lowest role that must use 2FA, or null when 2FA is optional for everyone.
+ */
+export function twoFactorRequiredRole(value: string | undefined = process.env.TWO_FACTOR_REQUIRED_ROLE): Role | null {
+  const role = value?.trim().toUpperCase();
+  return role && (Object.values(Role) as string[]).includes(role) ? (role as Role) : null;
+}
+
+export function isTwoFactorRequired(
+  role: Role | ResolvedRole,
+  minimumRole: Role | null = twoFactorRequiredRole()
+): boolean {
+  const level = typeof role === "string" ? ROLE_HIERARCHY[role] : role.level;
+  return minimumRole !== null && level >= ROLE_HIERARCHY[minimumRole];
+}
+
+// --- Secret encryption (AES-256-GCM) ---
+
+function encryptionKey(): Buffer {
+  const material = process.env.TOTP_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!material) {
+    throw new Error("TOTP_ENCRYPTION_KEY or JWT_SECRET must be set");
+  }
+  return createHash("sha256").update(material).digest();
+}
+
+export function encryptTotpSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return ["v1", iv, cipher.getAuthTag(), ciphertext].map((part) =>
+    typeof part === "string" ? part : part.toString("base64url")
+  ).join(":");
+}
+
+export function decryptTotpSecret(value: string): string {
+  const [version, iv, tag, ciphertext] = value.split(":");
+  if (version !== "v1" || !iv || !tag || !ciphertext) {
+    throw new Error("Unsupported TOTP secret format");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+}
+
+// --- Recovery codes ---
+
+/**
+ * Codes look like "k7m2p-x9q4r"; case, spaces and dashes are ignored on input.
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  const alphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+  return Array.from({ length: count }, () => {
+    const chars = Array.from(randomBytes(10), (byte) => alphabet[byte % alphabet.length]).join("");
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+async function replaceRecoveryCodes(db: Prisma.TransactionClient, userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await db.recoveryCode.deleteMany({ where: { userId } });
+  await db.recoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+  });
+  return codes;
+}
+
+// --- Enrollment and verification ---
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export async function getTwoFactorStatus(db: Prisma.TransactionClient, userId: number): Promise<TwoFactorStatus> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { role: true, totpEnabledAt: true },
+  });
+  if (!user) {
+    throw new TwoFactorError("User not found", 404);
+  }
+
+  const recoveryCodesRemaining = await db.recoveryCode.count({ where: { userId, usedAt: null } });
+  return {
+    enabled: user.totpEnabledAt !== null,
+    required: isTwoFactorRequired(await resolveRole(db, user.role)),
+    recoveryCodesRemaining,
+  };
+}
+
+/**
+ * Stores a new, not yet enabled secret and returns it for the QR code.
+ * Starting over replaces a previous unconfirmed secret.
+ */
+export async function startTwoFactorEnrollment(db: Prisma.TransactionClient, userId: number): Promise<string> {
+  const user = await db.user.findUnique({ where: { id: userId }, select: { totpEnabledAt: true } });
+  if (!user) {
+    throw new TwoFactorError("User not found", 404);
+  }
+  if (user.totpEnabledAt) {
+    throw new TwoFactorError("Two-factor authentication is already enabled", 409);
+  }
+
+  const secret = generateTotpSecret();
+  await db.user.update({
+    where: { id: userId },
+    data: { totpSecret: encryptTotpSecret(secret), totpLastStep: null },
+  });
+  return secret;
+}
+
+/**
+ * Enables 2FA once the user proves the authenticator works. Returns the
+ * recovery codes, which are shown once and never stored in clear.
+ */
+export async function completeTwoFactorEnrollment(
+  db: Prisma.TransactionClient,
+  userId: number,
+  code: string,
+  now: Date = new Date()
+): Promise<string[]> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true },
+  });
+  if (!user?.totpSecret) {
+    throw new TwoFactorError("Two-factor enrollment has not been started");
+  }
+  if (user.totpEnabledAt) {
+    throw new TwoFactorError("Two-factor authentication is already enabled", 409);
+  }
+
+  const step = verifyTotp(decryptTotpSecret(user.totpSecret), code, now);
+  if (step === null) {
+    throw new TwoFactorError("Invalid verification code", 401);
+  }
+
+  await db.user.update({
+    where: { id: userId },
+    data: { totpEnabledAt: now, totpLastStep: step },
+  });
+  return replaceRecoveryCodes(db, userId);
+}
+
+export type SecondFactorMethod = "totp" | "recovery";
+
+/**
+ * Checks the second factor of an enabled user: a TOTP code (not reusable
+ * within its time step) or an unused recovery code, which is consumed.
+ */
+export async function verifySecondFactor(
+  db: Prisma.TransactionClient,
+  userId: number,
+  code: string,
+  now: Date = new Date()
+): Promise<SecondFactorMethod> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true },
+  });
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    throw new TwoFactorError("Two-factor authentication is not enabled");
+  }
+
+  if (/^\d+$/.test(code.replace(/\s/g, ""))) {
+    const step = verifyTotp(decryptTotpSecret(user.totpSecret), code, now);
+    if (step !== null) {
+      // Conditional update: a concurrent login with the same code loses the race
+      const { count } = await db.user.updateMany({
+        where: { id: userId, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+        data: { totpLastStep: step },
+      });
+      if (count === 1) return "totp";
+    }
+    throw new TwoFactorError("Invalid verification code", 401);
+  }
+
+  const { count } = await db.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: now },
+  });
+  if (count !== 1) {
+    throw new TwoFactorError("Invalid verification code", 401);
+  }
+  return "recovery";
+}
+
+export async function regenerateRecoveryCodes(
+  db: Prisma.TransactionClient,
+  userId: number,
+  code: string,
+  now: Date = new Date()
+): Promise<string[]> {
+  await verifySecondFactor(db, userId, code, now);
+  return replaceRecoveryCodes(db, userId);
+}
+
+export async function disableTwoFactor(db: Prisma.TransactionClient, userId: number): Promise<void> {
+  await db.recoveryCode.deleteMany({ where: { userId } });
+  await db.user.update({
+    where: { id: userId },
+    data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+  });
+}
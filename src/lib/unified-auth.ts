@@ -47,7 +47,8 @@ export interface AuthContext {
   userId: number;
   email: string;
   name: string;
-  role: Role;
+  role: string;
+  permissions: Permission[];
 }
 
 // Type guard for JWTPayload validation
@@ -58,13 +59,16 @@ const isValidJWTPayload = (payload: JoseJWTPayload): payload is JWTPayload & Jos
   const email = candidate.email;
   const name = candidate.name;
   const role = candidate.role;
+  const permissions = candidate.permissions;
 
   const hasValidUserId = typeof userId === 'number' && Number.isFinite(userId);
   const hasValidEmail = typeof email === 'string' && email.length > 0;
   const hasValidName = typeof name === 'string' && name.length > 0;
-  const hasValidRole = typeof role === 'string' && (Object.values(Role) as string[]).includes(role);
+  // Custom roles live in the database, so any key is accepted; access comes from the permissions
+  const hasValidRole = typeof role === 'string' && role.length > 0;
+  const hasValidPermissions = Array.isArray(permissions) && permissions.every((permission) => typeof permission === 'string');
 
-  return hasValidUserId && hasValidEmail && hasValidName && hasValidRole;
+  return hasValidUserId && hasValidEmail && hasValidName && hasValidRole && hasValidPermissions;
 };
 
 // High-performance token verification using jose
@@ -158,6 +162,7 @@ export async function generateAccessToken(payload: AuthContext): Promise<string>
     email: payload.email,
     name: payload.name,
     role: payload.role,
+    permissions: payload.permissions,
   })
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
@@ -165,23 +170,63 @@ export async function generateAccessToken(payload: AuthContext): Promise<string>
     .sign(accessSecretKey);
 }
 
-// High-performance refresh token generation
-export async function generateRefreshToken(userId: number): Promise<string> {
-  return await new SignJWT({ userId })
+// Refresh tokens live 7 days; the matching session row is extended on each refresh
+export const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface RefreshTokenClaims {
+  userId: number;
+  sessionId: number;
+}
+
+// Refresh token for a stored session (see src/lib/sessions.ts). The random jti
+// makes every issued token unique so its hash can be looked up.
+export async function generateRefreshToken(userId: number, sessionId: number): Promise<string> {
+  return await new SignJWT({ userId, sid: sessionId })
     .setProtectedHeader({ alg: 'HS256' })
+    .setJti(crypto.randomUUID())
     .setIssuedAt()
-    .setExpirationTime('7d')
+    .setExpirationTime(`${REFRESH_TOKEN_TTL_SECONDS}s`)
     .sign(refreshSecretKey);
 }
 
-// Parallel token generation for refresh endpoint
-export async function generateTokenPair(payload: AuthContext): Promise<{ accessToken: string; refreshToken: string }> {
-  const [accessToken, refreshToken] = await Promise.all([
-    generateAccessToken(payload),
-    generateRefreshToken(payload.userId)
-  ]);
+// Signature and expiry check only; whether the token is still usable is decided by the session store
+export async function verifyRefreshToken(token: string): Promise<RefreshTokenClaims | null> {
+  try {
+    const { payload } = await jwtVerify(token, refreshSecretKey);
+    const { userId, sid } = payload as Record<string, unknown>;
 
-  return { accessToken, refreshToken };
+    if (typeof userId !== 'number' || typeof sid !== 'number') {
+      return null;
+    }
+
+    return { userId, sessionId: sid };
+  } catch {
+    return null;
+  }
+}
+
+// Issued after a correct password when a second factor is still missing. The
+// audience keeps it from being accepted anywhere an access token is expected.
+const TWO_FACTOR_CHALLENGE_AUDIENCE = 'login:2fa';
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+export async function generateTwoFactorChallenge(userId: number): Promise<string> {
+  return await new SignJWT({ userId })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(TWO_FACTOR_CHALLENGE_AUDIENCE)
+    .setIssuedAt()
+    .setExpirationTime(`${TWO_FACTOR_CHALLENGE_TTL_SECONDS}s`)
+    .sign(accessSecretKey);
+}
+
+export async function verifyTwoFactorChallenge(token: string): Promise<number | null> {
+  try {
+    const { payload } = await jwtVerify(token, accessSecretKey, { audience: TWO_FACTOR_CHALLENGE_AUDIENCE });
+    const { userId } = payload as Record<string, unknown>;
+    return typeof userId === 'number' ? userId : null;
+  } catch {
+    return null;
+  }
 }
 
 // Optimized token extraction from request
@@ -219,7 +264,7 @@ export async function requireAuth(request: NextRequest): Promise<JWTPayload> {
 // Optimized role-based authentication
 export async function requireRole(request: NextRequest, requiredRole: Role): Promise<JWTPayload> {
   const user = await requireAuth(request);
-  if (user.role !== requiredRole && !RBAC.canManageRole(user.role, requiredRole)) {
+  if (user.role !== requiredRole && !RBAC.canManageRole(user.role as Role, requiredRole)) {
     throw new AuthError("Insufficient permissions for this operation", 403);
   }
   return user;
@@ -228,7 +273,7 @@ export async function requireRole(request: NextRequest, requiredRole: Role): Pro
 // Permission-based authentication
 export async function requirePermission(request: NextRequest, permission: Permission): Promise<JWTPayload> {
   const user = await requireAuth(request);
-  if (!RBAC.hasPermission(user.role, permission)) {
+  if (!user.permissions.includes(permission)) {
     throw new AuthError("Insufficient permissions for this operation", 403);
   }
   return user;
@@ -237,7 +282,7 @@ export async function requirePermission(request: NextRequest, permission: Permis
 // Multiple permission checks
 export async function requireAnyPermission(request: NextRequest, permissions: Permission[]): Promise<JWTPayload> {
   const user = await requireAuth(request);
-  if (!RBAC.hasAnyPermission(user.role, permissions)) {
+  if (!permissions.some((permission) => user.permissions.includes(permission))) {
     throw new AuthError("Insufficient permissions for this operation", 403);
   }
   return user;
@@ -245,7 +290,7 @@ export async function requireAnyPermission(request: NextRequest, permissions: Pe
 
 export async function requireAllPermissions(request: NextRequest, permissions: Permission[]): Promise<JWTPayload> {
   const user = await requireAuth(request);
-  if (!RBAC.hasAllPermissions(user.role, permissions)) {
+  if (!permissions.every((permission) => user.permissions.includes(permission))) {
     throw new AuthError("Insufficient permissions for this operation", 403);
   }
   return user;
@@ -258,7 +303,7 @@ export async function requireAdmin(request: NextRequest): Promise<JWTPayload> {
 
 export async function requireModerator(request: NextRequest): Promise<JWTPayload> {
   const user = await requireAuth(request);
-  if (!RBAC.canManageRole(user.role, Role.USER)) {
+  if (!RBAC.canManageRole(user.role as Role, Role.USER)) {
     throw new AuthError("Moderator or Admin access required", 403);
   }
   return user;
@@ -269,53 +314,19 @@ export function canManageUser(actorRole: Role, targetRole: Role): boolean {
   return RBAC.canManageRole(actorRole, targetRole);
 }
 
-// Performance optimized header-based authentication context
+// Authentication context of an API request
 export interface RequestAuthContext {
   userId: number;
   email: string;
   name: string;
-  role: Role;
+  role: string;
+  permissions: Permission[];
   isAuthenticated: boolean;
 }
 
-// Extract authentication context from request headers (for optimized middleware flow)
-export function extractAuthContext(request: NextRequest): RequestAuthContext | null {
-  const userId = request.headers.get('X-Auth-User-Id');
-  const email = request.headers.get('X-Auth-Email');
-  const name = request.headers.get('X-Auth-Name');
-  const role = request.headers.get('X-Auth-Role');
-
-  if (!userId || !email || !name || !role) {
-    return null;
-  }
-
-  const parsedUserId = parseInt(userId, 10);
-  if (isNaN(parsedUserId)) {
-    return null;
-  }
-
-  if (!(Object.values(Role) as string[]).includes(role)) {
-    return null;
-  }
-
-  return {
-    userId: parsedUserId,
-    email,
-    name,
-    role: role as Role,
-    isAuthenticated: true
-  };
-}
-
-// Fallback authentication for direct API calls (bypassing middleware)
+// ✅ SECURITY: Always read from the verified token. X-Auth-* request headers
+// could be sent by the client, and they do not carry the permissions anyway.
 export async function getAuthContextWithFallback(request: NextRequest): Promise<RequestAuthContext | null> {
-  // Try header-based context first (optimized path)
-  const headerContext = extractAuthContext(request);
-  if (headerContext) {
-    return headerContext;
-  }
-
-  // Fallback to token validation (for direct API calls)
   const user = await getUserFromRequest(request);
   if (!user) {
     return null;
@@ -326,6 +337,7 @@ export async function getAuthContextWithFallback(request: NextRequest): Promise<
     email: user.email,
     name: user.name,
     role: user.role,
+    permissions: user.permissions,
     isAuthenticated: true
   };
-}
\ No newline at end of file
+}
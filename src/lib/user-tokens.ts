@@ -0,0 +1,75 @@
+// src/lib/user-tokens.ts
+//
+// Single-use tokens mailed to users: password reset and e-mail verification.
+// The raw token only exists in the link; the database keeps its SHA-256 hash.
+// Issuing a new token cancels the previous unused ones of the same type, so
+// only the most recent e-mail works.
+
+import { createHash, randomBytes } from "crypto";
+import type { Prisma, UserTokenType } from "@/generated/prisma";
+
+export class UserTokenError extends Error {
+  constructor(public message: string, public status: number = 400) {
+    super(message);
+    this.name = "UserTokenError";
+  }
+}
+
+export const USER_TOKEN_TTL_MS: Record<UserTokenType, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000,
+  EMAIL_VERIFICATION: 24 * 60 * 60 * 1000,
+};
+
+export function hashUserToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function issueUserToken(
+  db: Prisma.TransactionClient,
+  userId: number,
+  type: UserTokenType,
+  now: Date = new Date()
+): Promise<string> {
+  await db.userToken.updateMany({
+    where: { userId, type, usedAt: null },
+    data: { usedAt: now },
+  });
+
+  const token = randomBytes(32).toString("base64url");
+  await db.userToken.create({
+    data: {
+      userId,
+      type,
+      tokenHash: hashUserToken(token),
+      expiresAt: new Date(now.getTime() + USER_TOKEN_TTL_MS[type]),
+    },
+  });
+  return token;
+}
+
+/**
+ * Marks the token as used and returns its user. The conditional update makes
+ * a second use fail even when two requests race.
+ */
+export async function consumeUserToken(
+  db: Prisma.TransactionClient,
+  token: string,
+  type: UserTokenType,
+  now: Date = new Date()
+): Promise<number> {
+  const tokenHash = hashUserToken(token);
+  const consumed = await db.userToken.updateMany({
+    where: { tokenHash, type, usedAt: null, expiresAt: { gt: now } },
+    data: { usedAt: now },
+  });
+
+  if (consumed.count === 0) {
+    throw new UserTokenError("Invalid or expired token");
+  }
+
+  const record = await db.userToken.findUnique({
+    where: { tokenHash },
+    select: { userId: true },
+  });
+  return record!.userId;
+}
@@ -22,9 +22,30 @@ export function formatDateBR(date: Date | string | null | undefined): string {
   }
 }
 
+// Input mask: "11987654321" -> "(11) 98765-4321", also while the number is being typed
+export function formatPhoneBR(value: string): string {
+  const d = (value || "").replace(/\D+/g, "").slice(0, 11);
+  const dd = d.slice(0, 2);
+  const p1 = d.length > 10 ? d.slice(2, 7) : d.slice(2, 6);
+  const p2 = d.length > 10 ? d.slice(7, 11) : d.slice(6, 10);
+  let out = dd ? `(${dd}` : "";
+  if (dd && dd.length === 2) out += ") ";
+  if (p1) out += p1;
+  if (p2) out += "-" + p2;
+  return out;
+}
+
 export function parseCurrencyBRL(input: string): number {
   const digits = (input || "").replace(/\D+/g, "");
   if (!digits) return 0;
   const cents = parseInt(digits, 10);
   return cents / 100;
 }
+
+// Value for the Idempotency-Key header; reuse the same key when retrying a request
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
@@ -1,6 +1,10 @@
 import { z } from "zod";
 import { isBrazilPhone, isCpfOrCnpj, isEmail } from "./validators";
 import { SPECIFICATION_OPTIONS } from "./specifications-enums";
+import { PRICE_COMPONENTS, normalizeOption } from "./pricing/engine";
+import { MAX_RUSH_SURCHARGE_PERCENT } from "./order-types";
+import { Permission, ROLE_HIERARCHY, Role } from "./rbac";
+import { ADDRESS_TYPES, BRAZIL_UFS, normalizeCep } from "./address";
 
 // Budget status enum validation
 export const BudgetStatusSchema = z.enum([
@@ -29,17 +33,82 @@ export const OrderTypeSchema = z.enum([
   "RUSH_ORDER"
 ]);
 
+// Order priority enum validation
+export const OrderPrioritySchema = z.enum([
+  "NORMAL",
+  "HIGH",
+  "URGENT"
+]);
+
+// User responsible for a client, budget or order (null clears the assignment)
+export const AssignedToUserSchema = z.number().int().positive("Responsável inválido").nullable().optional();
+
+export const ClientAddressSchema = z.object({
+  type: z.enum(ADDRESS_TYPES),
+  cep: z.string().refine((value) => normalizeCep(value) !== null, "CEP inválido"),
+  logradouro: z.string().trim().min(1, "Logradouro é obrigatório"),
+  numero: z.string().trim().min(1, "Número é obrigatório"),
+  complemento: z.string().trim().nullable().optional(),
+  bairro: z.string().trim().min(1, "Bairro é obrigatório"),
+  cidade: z.string().trim().min(1, "Cidade é obrigatória"),
+  uf: z.string().refine((value) => (BRAZIL_UFS as readonly string[]).includes(value), "UF inválida"),
+});
+
+export const ClientContactSchema = z.object({
+  id: z.number().int().positive().optional(),
+  name: z.string().trim().min(1, "Nome do contato é obrigatório"),
+  role: z.string().trim().nullable().optional(),
+  email: z
+    .string()
+    .trim()
+    .refine((value) => !value || isEmail(value), "Email inválido")
+    .nullable()
+    .optional(),
+  phone: z
+    .string()
+    .trim()
+    .refine((value) => !value || isBrazilPhone(value), "Telefone inválido")
+    .nullable()
+    .optional(),
+  isPrimary: z.boolean().optional(),
+});
+
 export const ClientSchema = z.object({
   name: z.string().min(1, "Nome é obrigatório"),
+  tradeName: z.string().trim().nullable().optional(),
   cnpjCpf: z.string().refine(isCpfOrCnpj, "CNPJ/CPF inválido"),
   phone: z.string().refine(isBrazilPhone, "Telefone inválido"),
   email: z.string().refine(isEmail, "Email inválido"),
-  address: z.string().min(1, "Endereço é obrigatório"),
+  addresses: z
+    .array(ClientAddressSchema)
+    .refine(
+      (addresses) => addresses.filter((address) => address.type === "BILLING").length === 1,
+      "Informe um endereço de cobrança"
+    ),
+  contacts: z
+    .array(ClientContactSchema)
+    .refine(
+      (contacts) => contacts.filter((contact) => contact.isPrimary).length <= 1,
+      "Apenas um contato pode ser o principal"
+    )
+    .optional(),
+  assignedToUserId: AssignedToUserSchema,
   force: z.boolean().optional(),
 });
 
 export type ClientInput = z.infer<typeof ClientSchema>;
 
+// The duplicate is folded into the survivor and deleted
+export const ClientMergeSchema = z.object({
+  survivorId: z.number().int().positive("Cliente inválido"),
+  duplicateId: z.number().int().positive("Cliente inválido"),
+}).refine((data) => data.survivorId !== data.duplicateId, {
+  message: "Selecione dois clientes diferentes",
+  path: ["duplicateId"],
+});
+export type ClientAddressInput = z.infer<typeof ClientAddressSchema>;
+export type ClientContactInput = z.infer<typeof ClientContactSchema>;
+
 export const CenterSchema = z.object({
   name: z.string().min(1, "Nome é obrigatório"),
   type: z.enum(["Interno", "Terceirizado", "Digital", "Offset", "Outro"]),
@@ -126,6 +195,8 @@ export const EnhancedBudgetSchema = z.object({
   data_pedido: z.string().optional(),
   data_entrega: z.string().optional(),
   solicitante: z.string().optional(),
+  // ClientContact who requested the budget; solicitante is the fallback
+  contactId: z.number().int().positive("Contato inválido").nullable().optional(),
   documento: z.string().optional(),
   editorial: z.string().optional(),
   tipo_produto: z.string().optional(),
@@ -226,6 +297,16 @@ export const OrderStatusChangeSchema = z.object({
   reason: z.string().optional(),
 });
 
+// Partial delivery of an order (see src/lib/order-deliveries.ts)
+export const DeliverySchema = z.object({
+  quantity: z.number().int().positive("Quantidade deve ser positiva"),
+  deliveredAt: z.string().min(1, "Data da entrega é obrigatória"),
+  carrier: z.string().optional(),
+  trackingCode: z.string().optional(),
+  freightCost: z.number().nonnegative("Valor inválido").optional(),
+  deliveryNote: z.string().optional(),
+});
+
 export const BudgetSchema = z.object({
   clientId: z.number().int().positive("Cliente é obrigatório"),
   centerId: z.number().int().positive("Centro de produção é obrigatório"),
@@ -233,6 +314,8 @@ export const BudgetSchema = z.object({
   data_pedido: z.string().optional(),
   data_entrega: z.string().optional(),
   solicitante: z.string().optional(),
+  // ClientContact who requested the budget; solicitante is the fallback
+  contactId: z.number().int().positive("Contato inválido").nullable().optional(),
   documento: z.string().optional(),
   editorial: z.string().optional(),
   tipo_produto: z.string().optional(),
@@ -258,6 +341,7 @@ export const BudgetSchema = z.object({
   status: BudgetStatusSchema.optional(),
   approved: z.boolean().optional(),
   orderId: z.number().int().optional(),
+  assignedToUserId: AssignedToUserSchema,
 });
 
 // Budget rejection schema
@@ -265,14 +349,163 @@ export const BudgetRejectSchema = z.object({
   reason: z.string().min(1, "Motivo da rejeição é obrigatório"),
 });
 
+// Specification fields used by the pricing engine
+export const BudgetQuoteSchema = BudgetSchema.pick({
+  centerId: true,
+  formato: true,
+  total_pgs: true,
+  pgs_colors: true,
+  papel_miolo: true,
+  papel_capa: true,
+  cor_miolo: true,
+  cor_capa: true,
+  laminacao: true,
+  acabamento: true,
+  shrink: true,
+  tiragem: true,
+}).refine((data) => data.pgs_colors <= data.total_pgs, {
+  message: "Páginas coloridas não podem exceder o total de páginas",
+  path: ["pgs_colors"],
+});
+
+// Direct and rush orders: the budget fields describe the implicit budget
+// created with the order (see src/lib/order-types.ts)
+export const DirectOrderSchema = BudgetSchema.omit({
+  numero_pedido: true,
+  preco_total: true,
+  status: true,
+  approved: true,
+  orderId: true,
+}).extend({
+  orderType: z.enum(["DIRECT_ORDER", "RUSH_ORDER"]),
+  data_entrega: z.string().min(1, "Prazo de entrega é obrigatório"),
+  priority: OrderPrioritySchema.optional(),
+  rushSurchargePercent: z.number()
+    .min(0, "Acréscimo inválido")
+    .max(MAX_RUSH_SURCHARGE_PERCENT, `Acréscimo máximo de ${MAX_RUSH_SURCHARGE_PERCENT}%`)
+    .optional(),
+  obs_producao: z.string().optional(),
+  responsavel_producao: z.string().optional(),
+}).refine((data) => data.pgs_colors <= data.total_pgs, {
+  message: "Páginas coloridas não podem exceder o total de páginas",
+  path: ["pgs_colors"],
+}).refine((data) => data.orderType !== "RUSH_ORDER" || data.priority !== "NORMAL", {
+  message: "Pedidos urgentes precisam de prioridade alta ou urgente",
+  path: ["priority"],
+});
+
+export const PriceTableItemSchema = z.object({
+  component: z.enum(PRICE_COMPONENTS),
+  option: z.string().optional().default(""),
+  value: z.number().nonnegative("Valor inválido"),
+});
+
+export const PriceTableSchema = z.object({
+  items: z.array(PriceTableItemSchema),
+}).refine(
+  (data) => {
+    // Business rule: each component/option pair can only be priced once
+    const keys = data.items.map((item) => `${item.component}:${normalizeOption(item.option)}`);
+    return new Set(keys).size === keys.length;
+  },
+  {
+    message: "Há itens duplicados na tabela de preços",
+    path: ["items"],
+  }
+);
+
+// Numbering sequence settings (see src/lib/order-number.ts)
+export const NumberSequenceSchema = z.object({
+  prefix: z.string().max(20, "Prefixo muito longo").default(""),
+  format: z.string()
+    .min(1, "Formato é obrigatório")
+    .refine((value) => value.includes("{SEQ}"), "Formato deve conter {SEQ}"),
+  padding: z.number().int().min(1).max(10),
+  resetPeriod: z.enum(["NEVER", "YEARLY", "MONTHLY"]),
+}).superRefine((data, ctx) => {
+  // Business rule: after a reset the counter starts again at 1, so the period
+  // must be part of the number or it would repeat an earlier one
+  const hasYear = data.format.includes("{YYYY}") || data.format.includes("{YY}");
+  if (data.resetPeriod === "YEARLY" && !hasYear) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Reinício anual exige {YYYY} ou {YY} no formato",
+      path: ["format"],
+    });
+  }
+  if (data.resetPeriod === "MONTHLY" && (!hasYear || !data.format.includes("{MM}"))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Reinício mensal exige o ano e {MM} no formato",
+      path: ["format"],
+    });
+  }
+});
+
+// Optional comment attached to budget workflow transitions
+export const BudgetStatusCommentSchema = z.object({
+  comment: z.string().max(1000, "Comentário muito longo").optional(),
+});
+
+// Password recovery and e-mail verification
+export const ForgotPasswordSchema = z.object({
+  email: z.string().trim().min(1, "E-mail é obrigatório").refine(isEmail, "E-mail inválido"),
+});
+
+export const ResetPasswordSchema = z.object({
+  token: z.string().min(1, "Token é obrigatório"),
+  password: z.string()
+    .min(8, "A senha deve ter pelo menos 8 caracteres")
+    .max(128, "Senha muito longa"),
+});
+
+export const VerifyEmailSchema = z.object({
+  token: z.string().min(1, "Token é obrigatório"),
+});
+
+// 6-digit authenticator code or a recovery code
+export const TwoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Código inválido").max(32, "Código inválido"),
+});
+
+export const TwoFactorDisableSchema = TwoFactorCodeSchema.extend({
+  password: z.string().min(1, "Senha é obrigatória"),
+});
+
+// Custom roles (see src/lib/roles.ts). Levels stop below ADMIN so an admin can
+// always manage the role; the key cannot be changed once the role exists.
+export const RoleSchema = z.object({
+  key: z.string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z][A-Z0-9_]{1,31}$/, "Chave deve ter de 2 a 32 letras, números ou _"),
+  name: z.string().trim().min(1, "Nome é obrigatório").max(60, "Nome muito longo"),
+  description: z.string().trim().max(200, "Descrição muito longa").nullable().optional(),
+  level: z.number().int().min(ROLE_HIERARCHY[Role.USER]).max(ROLE_HIERARCHY[Role.ADMIN] - 1),
+  permissions: z.array(z.enum(Permission)),
+});
+
+export const RoleUpdateSchema = RoleSchema.omit({ key: true }).partial();
+
 export type BudgetInput = z.infer<typeof BudgetSchema>;
 export type EnhancedBudgetInput = z.infer<typeof EnhancedBudgetSchema>;
 export type ProductionSpecificationsInput = z.infer<typeof ProductionSpecificationsSchema>;
 export type BudgetRejectInput = z.infer<typeof BudgetRejectSchema>;
+export type NumberSequenceInput = z.infer<typeof NumberSequenceSchema>;
+export type BudgetStatusCommentInput = z.infer<typeof BudgetStatusCommentSchema>;
+export type BudgetQuoteInput = z.infer<typeof BudgetQuoteSchema>;
+export type PriceTableInput = z.infer<typeof PriceTableSchema>;
 
 export type OrderInput = z.infer<typeof OrderSchema>;
 export type OrderCreationInput = z.infer<typeof OrderCreationSchema>;
+export type DirectOrderInput = z.infer<typeof DirectOrderSchema>;
 export type OrderStatusChangeInput = z.infer<typeof OrderStatusChangeSchema>;
+export type DeliveryInput = z.infer<typeof DeliverySchema>;
+export type ForgotPasswordInput = z.infer<typeof ForgotPasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof ResetPasswordSchema>;
+export type TwoFactorCodeInput = z.infer<typeof TwoFactorCodeSchema>;
+export type RoleInput = z.infer<typeof RoleSchema>;
+export type RoleUpdateInput = z.infer<typeof RoleUpdateSchema>;
 
 export function parseNumber(value: string | null, fallback: number): number {
   const n = Number(value);
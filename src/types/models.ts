@@ -9,6 +9,8 @@ import type {
   BudgetStatus,
   Center,
   Client,
+  ClientAddress,
+  ClientContact,
   Order,
   OrderStatus,
   OrderType,
@@ -21,6 +23,8 @@ export type {
   BudgetStatus,
   Center,
   Client,
+  ClientAddress,
+  ClientContact,
   Order,
   OrderStatus,
   OrderType,
@@ -28,6 +32,9 @@ export type {
   User,
 };
 
+// GET /api/clients/[id]; the addresses come only to roles that see the address
+export type ClientDetail = Client & { addresses?: ClientAddress[]; contacts?: ClientContact[] };
+
 export type BudgetWithRelations = Prisma.BudgetGetPayload<{
   include: {
     client: true;